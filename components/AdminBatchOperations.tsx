@@ -2,8 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useTheme } from '../lib/themeContext';
 import axios from 'axios';
 import { toast } from 'react-hot-toast';
-import { FiUpload, FiDownload, FiUsers, FiDollarSign, FiCalendar, FiMail } from 'react-icons/fi';
+import { FiUpload, FiDownload, FiUsers, FiDollarSign, FiCalendar, FiMail, FiRotateCcw } from 'react-icons/fi';
 import { useAuth } from '../lib/authContext';
+import { supabase } from '../lib/supabase';
+import { SalaryRaisePlan } from '../lib/salary/batchRaise';
 
 type BatchOperationType = 'salaryUpdate' | 'leaveApproval' | 'userNotification' | 'exportData';
 
@@ -11,6 +13,27 @@ interface SelectedItems {
   [key: string]: boolean;
 }
 
+interface SalaryBatch {
+  id: string;
+  percentage: number;
+  effective_month: string;
+  employees_affected: number;
+  records_affected: number;
+  previous_total: number;
+  new_total: number;
+  created_at: string;
+  rolled_back_at: string | null;
+}
+
+const formatAmount = (amount: number) =>
+  Number(amount || 0).toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+// Admin API routes need the signed-in user's token
+const getAuthHeaders = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+};
+
 const AdminBatchOperations: React.FC = () => {
   const [operationType, setOperationType] = useState<BatchOperationType>('salaryUpdate');
   const [employees, setEmployees] = useState<any[]>([]);
@@ -26,14 +49,49 @@ const AdminBatchOperations: React.FC = () => {
     notificationMessage: '',
     leaveAction: 'approve',
   });
+  // Dry-run result shown before a salary update is applied
+  const [raisePreview, setRaisePreview] = useState<SalaryRaisePlan | null>(null);
+  const [salaryBatches, setSalaryBatches] = useState<SalaryBatch[]>([]);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
   
   const { isDarkMode } = useTheme();
   const { user } = useAuth();
 
   useEffect(() => {
     fetchEmployees();
+    fetchSalaryBatches();
   }, []);
 
+  const fetchSalaryBatches = async () => {
+    try {
+      const response = await axios.get('/api/admin/batch-salary-update', { headers: await getAuthHeaders() });
+      setSalaryBatches(response.data as SalaryBatch[]);
+    } catch (err) {
+      console.error('Error fetching salary batches:', err);
+    }
+  };
+
+  const rollBackSalaryBatch = async (batch: SalaryBatch) => {
+    if (!confirm(`Roll back the ${batch.percentage}% salary update from ${batch.effective_month.substring(0, 7)}?`)) {
+      return;
+    }
+
+    setRollingBackId(batch.id);
+    try {
+      const response = await axios.delete(`/api/admin/batch-salary-update?batchId=${batch.id}`, {
+        headers: await getAuthHeaders()
+      });
+      const { restored, skipped } = response.data as { restored: number; skipped: unknown[] };
+      toast.success(`Restored ${restored} records${skipped.length ? `, ${skipped.length} skipped` : ''}`);
+      fetchSalaryBatches();
+    } catch (err) {
+      console.error('Error rolling back salary batch:', err);
+      toast.error('Failed to roll back salary update');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
   const fetchEmployees = async () => {
     try {
       setLoading(true);
@@ -82,6 +140,13 @@ const AdminBatchOperations: React.FC = () => {
       ...formValues,
       [name]: value,
     });
+    // A changed form needs a fresh preview
+    setRaisePreview(null);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setRaisePreview(null);
   };
 
   const openModal = () => {
@@ -110,7 +175,19 @@ const AdminBatchOperations: React.FC = () => {
             percentage: parseFloat(formValues.percentage),
             effectiveDate: formValues.effectiveDate,
           };
-          break;
+
+          // Preview the affected records first; the second confirm applies them
+          if (!raisePreview) {
+            const preview = await axios.post(endpoint, { ...payload, dryRun: true }, { headers: await getAuthHeaders() });
+            setRaisePreview(preview.data as SalaryRaisePlan);
+            return;
+          }
+
+          await axios.post(endpoint, payload, { headers: await getAuthHeaders() });
+          toast.success(`Updated ${raisePreview.totals.records} salary records`);
+          closeModal();
+          fetchSalaryBatches();
+          return;
           
         case 'leaveApproval':
           endpoint = '/api/admin/batch-leave-action';
@@ -154,10 +231,10 @@ const AdminBatchOperations: React.FC = () => {
       }
       
       // For all other operations
-      await axios.post(endpoint, payload);
+      await axios.post(endpoint, payload, { headers: await getAuthHeaders() });
       toast.success(`Batch operation completed successfully`);
       
-      setIsModalOpen(false);
+      closeModal();
     } catch (err) {
       console.error('Error performing batch operation:', err);
       toast.error('Failed to perform batch operation');
@@ -341,6 +418,41 @@ const AdminBatchOperations: React.FC = () => {
             </tbody>
           </table>
         </div>
+
+        {operationType === 'salaryUpdate' && salaryBatches.length > 0 && (
+          <div className="mt-8">
+            <h3 className="text-sm font-semibold text-apple-gray-dark dark:text-dark-text-primary mb-2">
+              Recent Salary Updates
+            </h3>
+            <ul className="divide-y divide-gray-200 dark:divide-dark-border">
+              {salaryBatches.map(batch => (
+                <li key={batch.id} className="flex items-center justify-between py-2">
+                  <div className={batch.rolled_back_at ? 'opacity-50' : ''}>
+                    <p className="text-sm text-apple-gray-dark dark:text-dark-text-primary">
+                      {batch.percentage > 0 ? '+' : ''}{batch.percentage}% from {batch.effective_month.substring(0, 7)}
+                      {batch.rolled_back_at && ' (rolled back)'}
+                    </p>
+                    <p className="text-xs text-apple-gray dark:text-dark-text-secondary">
+                      {batch.employees_affected} employees, {batch.records_affected} records ·
+                      EGP {formatAmount(batch.previous_total)} → EGP {formatAmount(batch.new_total)} ·
+                      {' '}{new Date(batch.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {!batch.rolled_back_at && (
+                    <button
+                      onClick={() => rollBackSalaryBatch(batch)}
+                      disabled={rollingBackId === batch.id}
+                      className="inline-flex items-center px-3 py-1 text-xs font-medium rounded-md text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-300 disabled:opacity-50"
+                    >
+                      <FiRotateCcw className="mr-1" />
+                      {rollingBackId === batch.id ? 'Rolling back...' : 'Roll back'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
       
       {/* Modal for batch operations */}
@@ -401,6 +513,57 @@ const AdminBatchOperations: React.FC = () => {
                       required
                     />
                   </div>
+
+                  {raisePreview && (
+                    <div className="mb-6">
+                      <p className="text-sm mb-2">
+                        {raisePreview.totals.records} salary records for {raisePreview.totals.employees} employees
+                        from {raisePreview.effectiveMonth}:
+                        EGP {formatAmount(raisePreview.totals.previousTotal)} → EGP {formatAmount(raisePreview.totals.newTotal)}
+                      </p>
+                      <div className="max-h-48 overflow-y-auto border rounded-md dark:border-dark-border">
+                        <table className="min-w-full text-xs">
+                          <thead className="bg-gray-50 dark:bg-dark-bg">
+                            <tr>
+                              <th className="px-2 py-1 text-left">Employee</th>
+                              <th className="px-2 py-1 text-left">Month</th>
+                              <th className="px-2 py-1 text-right">Basic</th>
+                              <th className="px-2 py-1 text-right">Total</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {raisePreview.changes.map(change => (
+                              <tr key={`${change.employeeId}-${change.month}`}>
+                                <td className="px-2 py-1">{change.employeeName}</td>
+                                <td className="px-2 py-1">
+                                  {change.month}{change.salaryId === null && ' (new)'}
+                                </td>
+                                <td className="px-2 py-1 text-right">
+                                  {change.previousValues ? `${formatAmount(change.previousValues.basic_salary)} → ` : ''}
+                                  {formatAmount(change.newValues.basic_salary)}
+                                </td>
+                                <td className="px-2 py-1 text-right">
+                                  {formatAmount(change.previousTotalSalary)} → {formatAmount(change.newValues.total_salary)}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      {raisePreview.employeeChanges.length > 0 && (
+                        <p className="mt-2 text-xs text-apple-gray dark:text-dark-text-secondary">
+                          Employee basic salary: {raisePreview.employeeChanges
+                            .map(change => `${change.employeeName} ${formatAmount(change.previousBasicSalary)} → ${formatAmount(change.newBasicSalary)}`)
+                            .join(', ')}
+                        </p>
+                      )}
+                      {raisePreview.skipped.length > 0 && (
+                        <p className="mt-2 text-xs text-apple-gray dark:text-dark-text-secondary">
+                          Skipped: {raisePreview.skipped.map(skip => `${skip.employeeName} (${skip.reason})`).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </>
               )}
               
@@ -480,7 +643,7 @@ const AdminBatchOperations: React.FC = () => {
               <div className="flex justify-end space-x-3">
                 <button
                   type="button"
-                  onClick={() => setIsModalOpen(false)}
+                  onClick={closeModal}
                   className={`px-4 py-2 rounded-md ${
                     isDarkMode
                       ? 'bg-dark-bg text-dark-text-primary hover:bg-opacity-80'
@@ -495,7 +658,9 @@ const AdminBatchOperations: React.FC = () => {
                   className="px-4 py-2 bg-apple-blue hover:bg-apple-blue-hover text-white rounded-md transition-colors"
                   disabled={isSubmitting}
                 >
-                  {isSubmitting ? 'Processing...' : 'Confirm'}
+                  {isSubmitting
+                    ? 'Processing...'
+                    : operationType === 'salaryUpdate' && !raisePreview ? 'Preview' : 'Confirm'}
                 </button>
               </div>
             </form>
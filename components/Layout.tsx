@@ -172,6 +172,22 @@ export default function Layout({ children }: LayoutProps) {
               >
                 Leave
               </Link>
+              <Link
+                href="/timesheets"
+                className={`px-3 py-1 rounded-full text-sm text-apple-gray-dark dark:text-dark-text-primary font-medium hover:bg-gray-100 dark:hover:bg-dark-surface transition-colors ${
+                  router.pathname === '/timesheets' ? 'bg-gray-100 dark:bg-dark-surface' : ''
+                }`}
+              >
+                Timesheets
+              </Link>
+              <Link
+                href="/shift-swaps"
+                className={`px-3 py-1 rounded-full text-sm text-apple-gray-dark dark:text-dark-text-primary font-medium hover:bg-gray-100 dark:hover:bg-dark-surface transition-colors ${
+                  router.pathname === '/shift-swaps' ? 'bg-gray-100 dark:bg-dark-surface' : ''
+                }`}
+              >
+                Shift Swaps
+              </Link>
               <Link
                 href="/dashboard"
                 className={`px-3 py-1 rounded-full text-sm text-apple-gray-dark dark:text-dark-text-primary font-medium hover:bg-gray-100 dark:hover:bg-dark-surface transition-colors ${
@@ -234,6 +250,24 @@ export default function Layout({ children }: LayoutProps) {
             >
               Leave
             </Link>
+            <Link
+              href="/timesheets"
+              className={`block px-3 py-2 rounded-md text-base font-medium text-apple-gray-dark dark:text-dark-text-primary ${
+                router.pathname === '/timesheets' ? 'bg-gray-100 dark:bg-dark-surface/70' : 'hover:bg-gray-50 dark:hover:bg-dark-surface/70'
+              }`}
+              onClick={() => setIsMenuOpen(false)}
+            >
+              Timesheets
+            </Link>
+            <Link
+              href="/shift-swaps"
+              className={`block px-3 py-2 rounded-md text-base font-medium text-apple-gray-dark dark:text-dark-text-primary ${
+                router.pathname === '/shift-swaps' ? 'bg-gray-100 dark:bg-dark-surface/70' : 'hover:bg-gray-50 dark:hover:bg-dark-surface/70'
+              }`}
+              onClick={() => setIsMenuOpen(false)}
+            >
+              Shift Swaps
+            </Link>
             <Link
               href="/dashboard"
               className={`block px-3 py-2 rounded-md text-base font-medium text-apple-gray-dark dark:text-dark-text-primary ${
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { FiBell, FiX, FiCheck, FiCalendar, FiDollarSign, FiClock, FiInfo } from 'react-icons/fi';
 import { useTheme } from '../lib/themeContext';
+import { supabase } from '../lib/supabase';
 import axios from 'axios';
 import { toast } from 'react-hot-toast';
 
@@ -13,9 +14,15 @@ export interface Notification {
   createdAt: string;
   isRead: boolean;
   link?: string;
-  category?: 'salary' | 'leave' | 'system' | 'inlieu';
+  category?: 'salary' | 'leave' | 'system' | 'inlieu' | 'overtime';
 }
 
+// The notification API verifies the signed-in user from their access token
+const getAuthConfig = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { headers: { Authorization: `Bearer ${session.access_token}` } } : {};
+};
+
 const NotificationCenter: React.FC = () => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isOpen, setIsOpen] = useState(false);
@@ -44,7 +51,7 @@ const NotificationCenter: React.FC = () => {
   const fetchNotifications = async () => {
     try {
       setLoading(true);
-      const response = await axios.get('/api/notifications');
+      const response = await axios.get('/api/notifications', await getAuthConfig());
       
       // Add proper check to ensure response.data is an array or has a notifications property
       if (response.data) {
@@ -83,7 +90,7 @@ const NotificationCenter: React.FC = () => {
   // Mark notification as read
   const markAsRead = async (id: string) => {
     try {
-      await axios.put(`/api/notifications/${id}/read`);
+      await axios.put(`/api/notifications/${id}/read`, {}, await getAuthConfig());
       
       // Update local state
       setNotifications(notifications.map(notification => 
@@ -101,7 +108,7 @@ const NotificationCenter: React.FC = () => {
   // Mark all notifications as read
   const markAllAsRead = async () => {
     try {
-      await axios.put('/api/notifications/read-all');
+      await axios.put('/api/notifications/read-all', {}, await getAuthConfig());
       
       // Update local state
       setNotifications(notifications.map(notification => ({ ...notification, isRead: true })));
@@ -117,7 +124,7 @@ const NotificationCenter: React.FC = () => {
   // Delete a notification
   const deleteNotification = async (id: string) => {
     try {
-      await axios.delete(`/api/notifications/${id}`);
+      await axios.delete(`/api/notifications/${id}`, await getAuthConfig());
       
       // Update local state
       const updatedNotifications = notifications.filter(notification => notification.id !== id);
@@ -143,6 +150,8 @@ const NotificationCenter: React.FC = () => {
         return <FiCalendar className="h-5 w-5 text-green-500" />;
       case 'inlieu':
         return <FiClock className="h-5 w-5 text-purple-500" />;
+      case 'overtime':
+        return <FiClock className="h-5 w-5 text-orange-500" />;
       default:
         return <FiInfo className="h-5 w-5 text-gray-500" />;
     }
@@ -2,6 +2,8 @@ import React from 'react';
 import { Page, Text, View, StyleSheet } from '@react-pdf/renderer';
 import { Employee } from '../types';
 import { BasicSalaryCalculation } from '@/lib/calculations/salary';
+import { CurrencyPair, DEFAULT_CURRENCY_PAIR, splitCurrencyPair, toPeggedAmount } from '@/lib/salary/currency';
+import { getLineItemAmount, SalaryLineItem } from '@/lib/salary/lineItems';
 
 // Create styles
 const styles = StyleSheet.create({
@@ -74,9 +76,23 @@ type SalaryPDFProps = {
   employee: Employee;
   month: string;
   exchangeRate: number;
+  currencyPair?: CurrencyPair;
+  // The month's itemised earning and deduction lines
+  lineItems?: SalaryLineItem[];
 };
 
-const SalaryPDF: React.FC<SalaryPDFProps> = ({ salary, employee, month, exchangeRate }) => {
+const SalaryPDF: React.FC<SalaryPDFProps> = ({
+  salary,
+  employee,
+  month,
+  exchangeRate,
+  currencyPair = DEFAULT_CURRENCY_PAIR,
+  lineItems = []
+}) => {
+  const { base, quote } = splitCurrencyPair(currencyPair);
+  const earningLines = lineItems.filter(item => item.kind === 'earning');
+  const deductionLines = lineItems.filter(item => item.kind === 'deduction');
+
   // Format currency with comma separators and 2 decimal places
   const formatCurrency = (amount: number) => amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
@@ -137,10 +153,41 @@ const SalaryPDF: React.FC<SalaryPDFProps> = ({ salary, employee, month, exchange
           <Text style={styles.value}>EGP {formatCurrency(salary.variablePay)}</Text>
         </View>
         
+        {earningLines.map((item, index) => (
+          <View style={styles.row} key={`earning-${index}`}>
+            <Text style={styles.label}>{item.name}</Text>
+            <Text style={styles.value}>EGP {formatCurrency(getLineItemAmount(item, salary.rateRatio))}</Text>
+          </View>
+        ))}
+        
         <View style={styles.row}>
           <Text style={styles.label}>Deductions</Text>
           <Text style={styles.value}>-EGP {formatCurrency(salary.deduction)}</Text>
         </View>
+        
+        {deductionLines.map((item, index) => (
+          <View style={styles.row} key={`deduction-${index}`}>
+            <Text style={styles.label}>{item.name}</Text>
+            <Text style={styles.value}>-EGP {formatCurrency(getLineItemAmount(item, salary.rateRatio))}</Text>
+          </View>
+        ))}
+        
+        <View style={styles.row}>
+          <Text style={styles.label}>Social Insurance</Text>
+          <Text style={styles.value}>-EGP {formatCurrency(salary.socialInsurance || 0)}</Text>
+        </View>
+        
+        <View style={styles.row}>
+          <Text style={styles.label}>Income Tax</Text>
+          <Text style={styles.value}>-EGP {formatCurrency(salary.incomeTax || 0)}</Text>
+        </View>
+
+        {(salary.loanRepayment || 0) > 0 && (
+          <View style={styles.row}>
+            <Text style={styles.label}>Loan Repayment</Text>
+            <Text style={styles.value}>-EGP {formatCurrency(salary.loanRepayment || 0)}</Text>
+          </View>
+        )}
       </View>
 
       <View style={[styles.section, { marginTop: 20 }]}>
@@ -151,12 +198,12 @@ const SalaryPDF: React.FC<SalaryPDFProps> = ({ salary, employee, month, exchange
         
         <View style={styles.row}>
           <Text style={styles.total}>Exchange Rate</Text>
-          <Text style={styles.total}>1 USD = {exchangeRate} EGP</Text>
+          <Text style={styles.total}>1 {base} = {exchangeRate} {quote}</Text>
         </View>
         
         <View style={styles.row}>
-          <Text style={styles.total}>Total Salary (USD)</Text>
-          <Text style={styles.total}>USD {formatCurrency(salary.totalSalary / exchangeRate)}</Text>
+          <Text style={styles.total}>Total Salary ({base})</Text>
+          <Text style={styles.total}>{base} {formatCurrency(toPeggedAmount(salary.totalSalary, exchangeRate))}</Text>
         </View>
       </View>
 
@@ -20,6 +20,11 @@ type SalaryData = {
   totalSalary: number;
   basicSalary: number;
   overtimePay: number;
+  // Bonus, 13th-month and profit-share payments (net) paid that month
+  specialPayments: number;
+  // Total in the currency the pay is pegged to (null for months saved without a rate)
+  totalSalaryPegged: number | null;
+  peggedCurrency: string;
 };
 
 const SalaryTrendChart: React.FC = () => {
@@ -42,6 +47,9 @@ const SalaryTrendChart: React.FC = () => {
           totalSalary: parseFloat(item.total_salary),
           basicSalary: parseFloat(item.basic_salary),
           overtimePay: parseFloat(item.overtime_pay),
+          specialPayments: parseFloat(item.special_payments) || 0,
+          totalSalaryPegged: item.total_salary_pegged ?? null,
+          peggedCurrency: item.pegged_currency || 'USD',
         }));
         
         setSalaryData(formattedData);
@@ -81,6 +89,15 @@ const SalaryTrendChart: React.FC = () => {
 
   const textColor = isDarkMode ? '#b3b3b3' : '#1d1d1f';
   const gridColor = isDarkMode ? '#2a2a2a' : '#e0e0e0';
+  const hasSpecialPayments = salaryData.some(item => item.specialPayments > 0);
+
+  // Show the total in both currencies
+  const formatTooltip = (value: number, name: string, item: any) => {
+    const point = item?.payload as SalaryData | undefined;
+    return name === 'Total Salary' && point?.totalSalaryPegged
+      ? `EGP ${value.toLocaleString()} (${point.peggedCurrency} ${point.totalSalaryPegged.toLocaleString()})`
+      : `EGP ${value.toLocaleString()}`;
+  };
 
   return (
     <div className="bg-white dark:bg-dark-surface rounded-apple shadow-apple-card dark:shadow-dark-card p-6 transition-colors">
@@ -130,6 +147,7 @@ const SalaryTrendChart: React.FC = () => {
                 tick={{ fill: textColor }}
               />
               <Tooltip
+                formatter={formatTooltip}
                 contentStyle={{
                   backgroundColor: isDarkMode ? '#1e1e1e' : '#fff',
                   border: `1px solid ${isDarkMode ? '#2a2a2a' : '#e6e6e6'}`,
@@ -159,6 +177,15 @@ const SalaryTrendChart: React.FC = () => {
                 stroke="#ff9500"
                 strokeWidth={2}
               />
+              {hasSpecialPayments && (
+                <Line
+                  type="monotone"
+                  dataKey="specialPayments"
+                  name="Special Payments"
+                  stroke="#af52de"
+                  strokeWidth={2}
+                />
+              )}
             </LineChart>
           ) : (
             <AreaChart
@@ -176,6 +203,7 @@ const SalaryTrendChart: React.FC = () => {
                 tick={{ fill: textColor }}
               />
               <Tooltip
+                formatter={formatTooltip}
                 contentStyle={{
                   backgroundColor: isDarkMode ? '#1e1e1e' : '#fff',
                   border: `1px solid ${isDarkMode ? '#2a2a2a' : '#e6e6e6'}`,
@@ -210,6 +238,17 @@ const SalaryTrendChart: React.FC = () => {
                 fillOpacity={0.3}
                 strokeWidth={2}
               />
+              {hasSpecialPayments && (
+                <Area
+                  type="monotone"
+                  dataKey="specialPayments"
+                  name="Special Payments"
+                  stroke="#af52de"
+                  fill="#af52de"
+                  fillOpacity={0.3}
+                  strokeWidth={2}
+                />
+              )}
             </AreaChart>
           )}
         </ResponsiveContainer>
@@ -117,6 +117,26 @@ interface MonthlyBreakdown {
   month: number;
   name: string;
   total: number;
+  socialInsurance?: number;
+  incomeTax?: number;
+  // Total in the currency the pay is pegged to
+  totalPegged?: number | null;
+  peggedCurrency?: string;
+}
+
+interface LineItemTotal {
+  name: string;
+  kind: 'earning' | 'deduction';
+  amount: number;
+}
+
+interface SpecialPaymentRow {
+  month: number;
+  name: string;
+  grossAmount: number;
+  incomeTax: number;
+  // Net amount paid
+  total: number;
 }
 
 type YearlySalaryPDFProps = {
@@ -129,6 +149,10 @@ type YearlySalaryPDFProps = {
   totalSalary: number;
   averageSalary: number;
   monthlyBreakdown: MonthlyBreakdown[];
+  // Itemised earning and deduction lines, totalled over the year
+  lineItemTotals?: LineItemTotal[];
+  // Bonus, 13th-month and profit-share payments (already included in totalSalary)
+  specialPayments?: SpecialPaymentRow[];
 };
 
 const YearlySalaryPDF: React.FC<YearlySalaryPDFProps> = ({ 
@@ -136,7 +160,9 @@ const YearlySalaryPDF: React.FC<YearlySalaryPDFProps> = ({
   year, 
   totalSalary, 
   averageSalary, 
-  monthlyBreakdown 
+  monthlyBreakdown,
+  lineItemTotals = [],
+  specialPayments = []
 }) => {
   // Format currency with comma separators and 2 decimal places
   const formatCurrency = (amount: number) => amount.toLocaleString('en-US', { 
@@ -147,6 +173,20 @@ const YearlySalaryPDF: React.FC<YearlySalaryPDFProps> = ({
   // Sort the monthly breakdown by month
   const sortedMonthlyBreakdown = [...monthlyBreakdown].sort((a, b) => a.month - b.month);
 
+  // Statutory deductions withheld over the year
+  const totalSocialInsurance = sortedMonthlyBreakdown.reduce((sum, item) => sum + (item.socialInsurance || 0), 0);
+  const totalIncomeTax = sortedMonthlyBreakdown.reduce((sum, item) => sum + (item.incomeTax || 0), 0)
+    + specialPayments.reduce((sum, payment) => sum + (payment.incomeTax || 0), 0);
+  const sortedSpecialPayments = [...specialPayments].sort((a, b) => a.month - b.month);
+  const totalSpecialPayments = sortedSpecialPayments.reduce((sum, payment) => sum + payment.total, 0);
+
+  // Annual total in the pegged currency, when every month has a rate in the same currency
+  const peggedCurrency = sortedMonthlyBreakdown[0]?.peggedCurrency;
+  const hasPeggedTotal = sortedMonthlyBreakdown.length > 0 && sortedMonthlyBreakdown.every(
+    item => item.totalPegged !== null && item.totalPegged !== undefined && item.peggedCurrency === peggedCurrency
+  );
+  const totalPegged = sortedMonthlyBreakdown.reduce((sum, item) => sum + (item.totalPegged || 0), 0);
+
   return (
     <Document>
       <Page size="A4" style={styles.page}>
@@ -176,6 +216,13 @@ const YearlySalaryPDF: React.FC<YearlySalaryPDFProps> = ({
             <Text style={styles.total}>EGP {formatCurrency(totalSalary)}</Text>
           </View>
           
+          {hasPeggedTotal && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Total Annual Salary ({peggedCurrency})</Text>
+              <Text style={styles.value}>{peggedCurrency} {formatCurrency(totalPegged)}</Text>
+            </View>
+          )}
+          
           <View style={styles.row}>
             <Text style={styles.label}>Average Monthly Salary (EGP)</Text>
             <Text style={styles.value}>EGP {formatCurrency(averageSalary)}</Text>
@@ -185,6 +232,32 @@ const YearlySalaryPDF: React.FC<YearlySalaryPDFProps> = ({
             <Text style={styles.label}>Number of Months with Salary</Text>
             <Text style={styles.value}>{sortedMonthlyBreakdown.length}</Text>
           </View>
+          
+          {sortedSpecialPayments.length > 0 && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Bonus &amp; Special Payments (EGP)</Text>
+              <Text style={styles.value}>EGP {formatCurrency(totalSpecialPayments)}</Text>
+            </View>
+          )}
+          
+          <View style={styles.row}>
+            <Text style={styles.label}>Social Insurance Withheld (EGP)</Text>
+            <Text style={styles.value}>EGP {formatCurrency(totalSocialInsurance)}</Text>
+          </View>
+          
+          <View style={styles.row}>
+            <Text style={styles.label}>Income Tax Withheld (EGP)</Text>
+            <Text style={styles.value}>EGP {formatCurrency(totalIncomeTax)}</Text>
+          </View>
+          
+          {lineItemTotals.map(line => (
+            <View style={styles.row} key={`${line.kind}-${line.name}`}>
+              <Text style={styles.label}>{line.name} (EGP)</Text>
+              <Text style={styles.value}>
+                {line.kind === 'deduction' ? '-' : ''}EGP {formatCurrency(line.amount)}
+              </Text>
+            </View>
+          ))}
         </View>
 
         <View style={styles.section}>
@@ -192,25 +265,59 @@ const YearlySalaryPDF: React.FC<YearlySalaryPDFProps> = ({
           
           <View style={styles.tableHeader}>
             <Text style={[styles.tableHeaderCell, { flex: 2 }]}>Month</Text>
+            <Text style={[styles.tableHeaderCell, { textAlign: 'right' }]}>Social Ins.</Text>
+            <Text style={[styles.tableHeaderCell, { textAlign: 'right' }]}>Income Tax</Text>
             <Text style={[styles.tableHeaderCell, { textAlign: 'right' }]}>Amount (EGP)</Text>
+            <Text style={[styles.tableHeaderCell, { textAlign: 'right' }]}>Pegged Amount</Text>
           </View>
           
           {sortedMonthlyBreakdown.length > 0 ? (
             sortedMonthlyBreakdown.map((item) => (
               <View style={styles.tableRow} key={item.month}>
                 <Text style={[styles.tableCell, { flex: 2 }]}>{item.name}</Text>
+                <Text style={styles.tableCellRight}>{formatCurrency(item.socialInsurance || 0)}</Text>
+                <Text style={styles.tableCellRight}>{formatCurrency(item.incomeTax || 0)}</Text>
                 <Text style={styles.tableCellRight}>EGP {formatCurrency(item.total)}</Text>
+                <Text style={styles.tableCellRight}>
+                  {item.totalPegged ? `${item.peggedCurrency} ${formatCurrency(item.totalPegged)}` : '-'}
+                </Text>
               </View>
             ))
           ) : (
             <View style={styles.tableRow}>
-              <Text style={[styles.tableCell, { flex: 3, textAlign: 'center', color: '#999' }]}>
+              <Text style={[styles.tableCell, { flex: 6, textAlign: 'center', color: '#999' }]}>
                 No salary data available for {year}
               </Text>
             </View>
           )}
         </View>
 
+        {sortedSpecialPayments.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.label, { marginBottom: 10, fontWeight: 'bold' }]}>Bonus &amp; Special Payments</Text>
+            
+            <View style={styles.tableHeader}>
+              <Text style={[styles.tableHeaderCell, { flex: 2 }]}>Payment</Text>
+              <Text style={styles.tableHeaderCell}>Month</Text>
+              <Text style={[styles.tableHeaderCell, { textAlign: 'right' }]}>Gross</Text>
+              <Text style={[styles.tableHeaderCell, { textAlign: 'right' }]}>Income Tax</Text>
+              <Text style={[styles.tableHeaderCell, { textAlign: 'right' }]}>Net (EGP)</Text>
+            </View>
+            
+            {sortedSpecialPayments.map((payment, index) => (
+              <View style={styles.tableRow} key={`${payment.month}-${payment.name}-${index}`}>
+                <Text style={[styles.tableCell, { flex: 2 }]}>{payment.name}</Text>
+                <Text style={styles.tableCell}>
+                  {new Date(year, payment.month - 1, 1).toLocaleString('en-US', { month: 'long' })}
+                </Text>
+                <Text style={styles.tableCellRight}>{formatCurrency(payment.grossAmount)}</Text>
+                <Text style={styles.tableCellRight}>{formatCurrency(payment.incomeTax)}</Text>
+                <Text style={styles.tableCellRight}>EGP {formatCurrency(payment.total)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         <View style={styles.footer}>
           <Text style={{ fontSize: 10 }}>
             Generated on {new Date().toLocaleDateString('en-US', { 
@@ -1,11 +1,13 @@
 import React from 'react';
-import { FaCalendarAlt, FaDollarSign, FaUserClock } from 'react-icons/fa';
+import { FaCalendarAlt, FaDollarSign, FaHandHoldingUsd, FaUserClock } from 'react-icons/fa';
 import { useTheme } from '../../lib/themeContext';
 
 export interface StatsData {
   monthlyEarnings: number;
   overtimeHours: number;
   shiftChanges?: number;
+  // Loan and advance balance still to be repaid
+  loanBalance?: number;
 }
 
 interface StatsPanelProps {
@@ -84,6 +86,17 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ stats, isLoading, error }) => {
     }
   ];
 
+  if (stats.loanBalance) {
+    statItems.push({
+      title: 'Loan Balance',
+      value: stats.loanBalance,
+      icon: <FaHandHoldingUsd className={`w-5 h-5 ${isDarkMode ? 'text-red-400' : 'text-red-500'}`} />,
+      description: 'Left to repay after this month',
+      formatter: (v: number) => `EGP ${v.toLocaleString()}`,
+      color: isDarkMode ? 'text-red-400' : 'text-red-500'
+    });
+  }
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
       {statItems.map((item, index) => (
@@ -7,6 +7,7 @@ import { useTheme } from '../../lib/themeContext';
 // Define color schemes for different shift types using CSS variables
 const shiftColorMap: Record<ShiftType, { dot: string; text: string }> = {
   Day: { dot: 'bg-blue-500', text: 'text-blue-600 dark:text-blue-400' },
+  Evening: { dot: 'bg-cyan-500', text: 'text-cyan-600 dark:text-cyan-400' },
   Night: { dot: 'bg-green-500', text: 'text-green-600 dark:text-green-400' },
   Off: { dot: 'bg-red-500', text: 'text-red-600 dark:text-red-400' },
   Leave: { dot: 'bg-amber-500', text: 'text-amber-600 dark:text-amber-400' },
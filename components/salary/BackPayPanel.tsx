@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { format, parseISO, subMonths } from 'date-fns';
+import { getRateRatio, PayRuleSet } from '@/lib/salary/payEngine';
+import { currentPayMonth } from '@/lib/salary/payRules';
+import {
+  BackPayCorrection,
+  BackPayStatement,
+  calculateBackPay,
+  getBackPayLineItem
+} from '@/lib/salary/backPay';
+import { fetchSalaryLineItems } from '@/lib/hooks/useSalaryLineItems';
+import { useBackPayAdjustments } from '@/lib/hooks/useBackPayAdjustments';
+
+interface BackPayPanelProps {
+  employeeId?: string;
+  // The employee's saved salary records
+  salaries: any[];
+  // Rules (with the employee's base rate applied) for a month
+  payRulesFor: (month: string) => PayRuleSet;
+  // Latest exchange rate, for the open month's rate-linked lines
+  exchangeRate: number;
+}
+
+interface CorrectionDraft {
+  effectiveMonth: string;
+  endMonth: string;
+  basicSalary: string;
+  costOfLiving: string;
+  exchangeRate: string;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDifference = (amount: number) =>
+  `${amount < 0 ? '-' : amount > 0 ? '+' : ''}${formatAmount(Math.abs(amount))}`;
+
+// Empty fields keep the months' saved values
+const parseFigure = (value: string) => (value.trim() === '' ? undefined : parseFloat(value));
+
+export function BackPayPanel({ employeeId, salaries, payRulesFor, exchangeRate }: BackPayPanelProps) {
+  const { adjustments, applyBackPay } = useBackPayAdjustments(employeeId);
+  // Months before the current one are closed; the adjustment goes into the current month
+  const openMonth = currentPayMonth();
+  const [draft, setDraft] = useState<CorrectionDraft>({
+    effectiveMonth: format(subMonths(parseISO(`${openMonth}-01`), 3), 'yyyy-MM'),
+    endMonth: '',
+    basicSalary: '',
+    costOfLiving: '',
+    exchangeRate: ''
+  });
+  const [statement, setStatement] = useState<BackPayStatement | null>(null);
+  const [calculating, setCalculating] = useState(false);
+
+  const handleCalculate = async () => {
+    if (!employeeId) return;
+
+    const correction: BackPayCorrection = {
+      effectiveMonth: draft.effectiveMonth,
+      endMonth: draft.endMonth || undefined,
+      basicSalary: parseFigure(draft.basicSalary),
+      costOfLiving: parseFigure(draft.costOfLiving),
+      exchangeRate: parseFigure(draft.exchangeRate)
+    };
+
+    if (!correction.effectiveMonth || correction.effectiveMonth >= openMonth) {
+      toast.error('The effective month must be before the current month');
+      return;
+    }
+    if (correction.basicSalary === undefined && correction.costOfLiving === undefined && correction.exchangeRate === undefined) {
+      toast.error('Enter at least one corrected figure');
+      return;
+    }
+
+    setCalculating(true);
+    try {
+      // The closed months are recalculated with the lines they were saved with
+      const lastClosedMonth = format(subMonths(parseISO(`${openMonth}-01`), 1), 'yyyy-MM');
+      const lines = await fetchSalaryLineItems(employeeId, correction.effectiveMonth, lastClosedMonth);
+
+      setStatement(calculateBackPay({
+        salaries,
+        rulesFor: payRulesFor,
+        lineItemsFor: (month) => lines.filter(line => line.month === month)
+      }, correction, openMonth));
+    } catch (error) {
+      toast.error(`Failed to calculate back pay: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!statement) return;
+
+    try {
+      await applyBackPay.mutateAsync({
+        statement,
+        rateRatio: getRateRatio(exchangeRate, payRulesFor(openMonth))
+      });
+      const line = getBackPayLineItem(statement);
+      toast.success(line ? `Added "${line.name}" to ${openMonth}` : 'Saved back-pay statement');
+      setStatement(null);
+    } catch (error) {
+      toast.error(`Failed to apply back pay: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800';
+  const labelClass = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Effective From</label>
+          <input
+            type="month"
+            value={draft.effectiveMonth}
+            max={openMonth}
+            onChange={(e) => setDraft({ ...draft, effectiveMonth: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Until (optional)</label>
+          <input
+            type="month"
+            value={draft.endMonth}
+            onChange={(e) => setDraft({ ...draft, endMonth: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Corrected Basic Salary</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            placeholder="Unchanged"
+            value={draft.basicSalary}
+            onChange={(e) => setDraft({ ...draft, basicSalary: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Corrected Cost of Living</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            placeholder="Unchanged"
+            value={draft.costOfLiving}
+            onChange={(e) => setDraft({ ...draft, costOfLiving: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Corrected Exchange Rate</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            placeholder="Unchanged"
+            value={draft.exchangeRate}
+            onChange={(e) => setDraft({ ...draft, exchangeRate: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={handleCalculate}
+            disabled={!employeeId || calculating}
+            className="w-full px-3 py-1.5 text-xs font-medium rounded-md text-blue-600 bg-blue-50 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 disabled:opacity-50"
+          >
+            {calculating ? 'Calculating...' : 'Calculate'}
+          </button>
+        </div>
+      </div>
+
+      {statement && (
+        <div>
+          {statement.months.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No saved months in that range to recalculate.</p>
+          ) : (
+            <>
+              <table className="w-full text-[10px] text-gray-600 dark:text-gray-300">
+                <thead>
+                  <tr className="text-left text-gray-400">
+                    <th className="font-medium">Month</th>
+                    <th className="font-medium text-right">Paid</th>
+                    <th className="font-medium text-right">Corrected</th>
+                    <th className="font-medium text-right">Difference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {statement.months.map(month => (
+                    <tr key={month.month}>
+                      <td>{month.month}</td>
+                      <td className="text-right">{formatAmount(month.paidTotal)}</td>
+                      <td className="text-right">{formatAmount(month.correctedTotal)}</td>
+                      <td className={`text-right ${month.difference < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatDifference(month.difference)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-semibold border-t border-gray-200 dark:border-gray-700">
+                    <td>Total</td>
+                    <td className="text-right">{formatAmount(statement.totalPaid)}</td>
+                    <td className="text-right">{formatAmount(statement.totalCorrected)}</td>
+                    <td className={`text-right ${statement.totalDifference < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatDifference(statement.totalDifference)}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+              <p className="mt-1 text-xs text-gray-600 dark:text-gray-300">
+                {statement.totalDifference > 0
+                  ? `Underpaid by EGP ${formatAmount(statement.totalDifference)}: added as an earning in ${statement.adjustmentMonth}.`
+                  : statement.totalDifference < 0
+                    ? `Overpaid by EGP ${formatAmount(-statement.totalDifference)}: taken as a deduction in ${statement.adjustmentMonth}.`
+                    : 'Nothing to settle.'}
+              </p>
+              <div className="flex justify-end mt-1">
+                <button
+                  onClick={handleApply}
+                  disabled={applyBackPay.isPending}
+                  className="px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {applyBackPay.isPending ? 'Saving...' : 'Create Adjustment'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {adjustments.data && adjustments.data.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Previous Adjustments</h4>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {adjustments.data.map(adjustment => (
+              <li key={adjustment.id} className="flex items-center justify-between py-1">
+                <div>
+                  <p className="text-xs text-gray-700 dark:text-gray-300">
+                    {adjustment.adjustmentLineName || `From ${adjustment.correction.effectiveMonth}`}
+                  </p>
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400">
+                    {adjustment.months.length} month{adjustment.months.length === 1 ? '' : 's'} · settled in {adjustment.adjustmentMonth}
+                  </p>
+                </div>
+                <span className={`text-xs font-medium ${adjustment.totalDifference < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  EGP {formatDifference(adjustment.totalDifference)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
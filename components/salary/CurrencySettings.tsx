@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { supabase } from '@/lib/supabase';
+import { Employee } from '../../types';
+import {
+  CurrencyPair,
+  DEFAULT_CURRENCY_PAIR,
+  EmployeeCurrency,
+  SUPPORTED_CURRENCY_PAIRS
+} from '@/lib/salary/currency';
+
+interface CurrencySettingsProps {
+  employeeId?: string;
+  currency: EmployeeCurrency;
+  // Default base rate from the month's pay rules, shown when the employee has none
+  rulesBaseRate: number;
+  onSaved: (updated: Pick<Employee, 'currency_pair' | 'base_exchange_rate'>) => void;
+}
+
+export function CurrencySettings({ employeeId, currency, rulesBaseRate, onSaved }: CurrencySettingsProps) {
+  const [currencyPair, setCurrencyPair] = useState<CurrencyPair>(currency.currencyPair);
+  const [baseRate, setBaseRate] = useState<string>(currency.baseExchangeRate ? String(currency.baseExchangeRate) : '');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCurrencyPair(currency.currencyPair);
+    setBaseRate(currency.baseExchangeRate ? String(currency.baseExchangeRate) : '');
+  }, [currency]);
+
+  const handleSave = async () => {
+    if (!employeeId) return;
+
+    const parsedRate = baseRate.trim() ? parseFloat(baseRate) : null;
+    if (parsedRate !== null && (isNaN(parsedRate) || parsedRate <= 0)) {
+      toast.error('Base rate must be greater than 0');
+      return;
+    }
+    // Only USD/EGP has a base rate in the pay rules to fall back on
+    if (currencyPair !== DEFAULT_CURRENCY_PAIR && parsedRate === null) {
+      toast.error(`Enter the ${currencyPair} base rate your pay is pegged to`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('employees')
+        .update({ currency_pair: currencyPair, base_exchange_rate: parsedRate })
+        .eq('id', employeeId)
+        .select('currency_pair, base_exchange_rate')
+        .single();
+
+      if (error) throw error;
+
+      onSaved(data);
+      toast.success(`Pay currency set to ${currencyPair}`);
+    } catch (error) {
+      toast.error(`Failed to save pay currency: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">
+            Pegged To
+          </label>
+          <select
+            value={currencyPair}
+            onChange={(e) => setCurrencyPair(e.target.value as CurrencyPair)}
+            className="w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+          >
+            {SUPPORTED_CURRENCY_PAIRS.map(pair => (
+              <option key={pair} value={pair}>{pair}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">
+            Base Rate
+          </label>
+          <input
+            type="number"
+            inputMode="decimal"
+            value={baseRate}
+            onChange={(e) => setBaseRate(e.target.value)}
+            placeholder={currencyPair === DEFAULT_CURRENCY_PAIR ? `${rulesBaseRate} (pay rules)` : 'Required'}
+            className="w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={!employeeId || saving}
+          className="px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Currency'}
+        </button>
+      </div>
+    </div>
+  );
+}
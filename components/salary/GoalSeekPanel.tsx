@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react';
+import { BasicSalaryCalculation } from '@/lib/calculations/salary';
+import { calculateRequiredOvertime, OvertimeKind } from '@/lib/salary/goalSeek';
+import { ShiftGroup } from '@/lib/types/schedule';
+import { PayRuleSet } from '@/lib/salary/payEngine';
+import { PayLineItem } from '@/lib/salary/lineItems';
+import { useShiftDefinitions, useShiftPattern } from '@/lib/hooks/useShiftPatterns';
+
+interface GoalSeekPanelProps {
+  salaryCalc: BasicSalaryCalculation;
+  exchangeRate: number;
+  month: string; // YYYY-MM
+  shiftGroup?: ShiftGroup;
+  // Rotation the group belongs to (the built-in one when not set)
+  shiftPatternId?: string | null;
+  // The month's rules with the employee's base rate applied
+  payRules?: PayRuleSet;
+  lineItems?: PayLineItem[];
+}
+
+const KIND_LABELS: Record<OvertimeKind, string> = {
+  day: 'Day overtime',
+  night: 'Night overtime',
+  holiday: 'Holiday overtime'
+};
+
+export function GoalSeekPanel({ salaryCalc, exchangeRate, month, shiftGroup, shiftPatternId, payRules, lineItems }: GoalSeekPanelProps) {
+  const [targetNet, setTargetNet] = useState<number>(0);
+  const { pattern } = useShiftPattern(shiftPatternId);
+  // Overtime shift lengths come from the loaded shift definitions
+  const { isLoading: isDefinitionsLoading } = useShiftDefinitions();
+
+  const result = useMemo(() => {
+    if (!targetNet || !salaryCalc.basicSalary || !exchangeRate || isDefinitionsLoading) return undefined;
+
+    return calculateRequiredOvertime({
+      basicSalary: salaryCalc.basicSalary,
+      costOfLiving: salaryCalc.costOfLiving,
+      shiftAllowance: salaryCalc.shiftAllowance,
+      otherEarnings: salaryCalc.otherEarnings || 0,
+      deduction: salaryCalc.deduction,
+      exchangeRate,
+      currentOvertimeHours: salaryCalc.overtimeHours || 0,
+      month,
+      rules: payRules,
+      lineItems,
+      loanRepayment: salaryCalc.loanRepayment
+    }, targetNet, shiftGroup, pattern);
+  }, [targetNet, salaryCalc, exchangeRate, month, shiftGroup, pattern, isDefinitionsLoading, payRules, lineItems]);
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">
+          Target Net Pay (EGP)
+        </label>
+        <input
+          type="number"
+          inputMode="numeric"
+          value={targetNet || ''}
+          onChange={(e) => setTargetNet(parseFloat(e.target.value) || 0)}
+          className="w-full px-3 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 bg-white dark:bg-gray-800"
+        />
+      </div>
+
+      {!salaryCalc.basicSalary && targetNet > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Enter your basic salary first.</p>
+      )}
+
+      {result === null && (
+        <p className="text-xs text-red-600">This target can&apos;t be reached with overtime this month.</p>
+      )}
+
+      {result && result.effectiveHoursNeeded === 0 && (
+        <p className="text-xs text-green-600">
+          Your current net pay (EGP {result.currentNet.toLocaleString(undefined, { maximumFractionDigits: 2 })}) already reaches this target.
+        </p>
+      )}
+
+      {result && result.effectiveHoursNeeded > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-600 dark:text-gray-300">
+            You need EGP {(result.targetNet - result.currentNet).toLocaleString(undefined, { maximumFractionDigits: 2 })} more.
+            Any one of these would get you there:
+          </p>
+          {result.requirements.map(requirement => (
+            <div key={requirement.kind} className="flex justify-between">
+              <span className="text-xs text-gray-600 dark:text-gray-300">{KIND_LABELS[requirement.kind]}:</span>
+              <span className="text-xs font-medium">
+                {requirement.hours.toFixed(1)} hours ({requirement.shifts} extra {requirement.shifts === 1 ? 'shift' : 'shifts'})
+              </span>
+            </div>
+          ))}
+          {result.restDaysInMonth !== undefined && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 pt-1">
+              Group {shiftGroup} has {result.restDaysInMonth} rest days in the {pattern.name} rotation this month.
+              {result.requirements.every(r => r.shifts > (result.restDaysInMonth || 0)) &&
+                ' That is fewer than the extra shifts needed.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
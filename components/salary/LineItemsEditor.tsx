@@ -0,0 +1,117 @@
+import { FiPlus, FiX } from 'react-icons/fi';
+import {
+  getLineItemAmount,
+  lineItemFromType,
+  SalaryLineItem,
+  SalaryLineType
+} from '@/lib/salary/lineItems';
+
+interface LineItemsEditorProps {
+  lineItems: SalaryLineItem[];
+  lineTypes: SalaryLineType[];
+  onChange: (items: SalaryLineItem[]) => void;
+  rateRatio?: number;
+}
+
+function LineBadges({ item }: { item: SalaryLineItem }) {
+  const badges = [
+    item.kind === 'earning'
+      ? (item.taxable ? null : 'Tax-free')
+      : (item.taxable ? 'Pre-tax' : null),
+    item.rateLinked ? 'Rate-linked' : null
+  ].filter(Boolean);
+
+  return (
+    <>
+      {badges.map(badge => (
+        <span
+          key={badge}
+          className="ml-1 px-1 py-0.5 text-[10px] rounded bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400"
+        >
+          {badge}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export function LineItemsEditor({ lineItems, lineTypes, onChange, rateRatio = 1 }: LineItemsEditorProps) {
+  // Types that can still be added this month
+  const availableTypes = lineTypes.filter(
+    type => type.isActive && !lineItems.some(item => item.lineTypeId === type.id)
+  );
+
+  const updateAmount = (index: number, amount: number) => {
+    onChange(lineItems.map((item, i) => (i === index ? { ...item, amount } : item)));
+  };
+
+  const removeLine = (index: number) => {
+    onChange(lineItems.filter((_, i) => i !== index));
+  };
+
+  const addLine = (lineTypeId: string) => {
+    const type = lineTypes.find(t => t.id === lineTypeId);
+    if (type) onChange([...lineItems, lineItemFromType(type)]);
+  };
+
+  if (lineItems.length === 0 && availableTypes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">
+        Earnings &amp; Deductions
+      </label>
+
+      {lineItems.map((item, index) => (
+        <div key={`${item.lineTypeId || item.name}-${index}`} className="flex items-center gap-2">
+          <div className="flex-1 min-w-0 text-xs text-gray-700 dark:text-gray-300 truncate">
+            <span className={item.kind === 'deduction' ? 'text-red-600 dark:text-red-400' : ''}>
+              {item.kind === 'deduction' ? '− ' : '+ '}{item.name}
+            </span>
+            <LineBadges item={item} />
+          </div>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={item.amount || ''}
+            onChange={(e) => updateAmount(index, Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-28 px-2 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+          />
+          <span className="w-24 text-right text-xs text-gray-500 dark:text-gray-400">
+            {item.rateLinked
+              ? `EGP ${getLineItemAmount(item, rateRatio).toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+              : ''}
+          </span>
+          <button
+            onClick={() => removeLine(index)}
+            className="p-1 text-gray-400 hover:text-red-600"
+            title={`Remove ${item.name}`}
+          >
+            <FiX className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+
+      {availableTypes.length > 0 && (
+        <div className="flex items-center gap-1">
+          <FiPlus className="h-3 w-3 text-gray-400" />
+          <select
+            value=""
+            onChange={(e) => addLine(e.target.value)}
+            className="flex-1 px-2 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+          >
+            <option value="">Add a line...</option>
+            {availableTypes.map(type => (
+              <option key={type.id} value={type.id}>
+                {type.name} ({type.kind}{type.recurrence === 'one_off' ? ', one-off' : ''})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FiTrash2 } from 'react-icons/fi';
+import { SalaryLineTypeDraft, useSalaryLineTypes } from '@/lib/hooks/useSalaryLineItems';
+import { SalaryLineType } from '@/lib/salary/lineItems';
+
+interface LineTypeManagerProps {
+  employeeId?: string;
+  // Admins can define types for everyone
+  isAdmin?: boolean;
+}
+
+const emptyDraft: SalaryLineTypeDraft = {
+  name: '',
+  kind: 'earning',
+  taxable: true,
+  rateLinked: false,
+  recurrence: 'recurring',
+  defaultAmount: 0,
+  isActive: true,
+  shared: false
+};
+
+const describeType = (type: SalaryLineType) => [
+  type.kind === 'earning' ? (type.taxable ? 'Taxable' : 'Tax-free') : (type.taxable ? 'Pre-tax' : 'After tax'),
+  type.rateLinked ? 'Rate-linked' : 'Fixed',
+  type.recurrence === 'recurring' ? 'Monthly' : 'One-off'
+].join(' · ');
+
+export function LineTypeManager({ employeeId, isAdmin = false }: LineTypeManagerProps) {
+  const { lineTypes, saveLineType, deleteLineType } = useSalaryLineTypes(employeeId);
+  const [draft, setDraft] = useState<SalaryLineTypeDraft>(emptyDraft);
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast.error('Give the line a name');
+      return;
+    }
+
+    try {
+      await saveLineType.mutateAsync(draft);
+      toast.success(`Saved "${draft.name.trim()}"`);
+      setDraft(emptyDraft);
+    } catch (error) {
+      toast.error(`Failed to save line type: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleToggleActive = async (type: SalaryLineType) => {
+    try {
+      await saveLineType.mutateAsync({ ...type, isActive: !type.isActive, shared: type.employeeId === null });
+    } catch (error) {
+      toast.error(`Failed to update line type: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (type: SalaryLineType) => {
+    try {
+      await deleteLineType.mutateAsync(type.id);
+      toast.success(`Deleted "${type.name}"`);
+    } catch (error) {
+      toast.error(`Failed to delete line type: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Shared types can only be changed by admins
+  const canEdit = (type: SalaryLineType) => type.employeeId !== null || isAdmin;
+
+  return (
+    <div className="space-y-3">
+      {lineTypes.isLoading && <p className="text-xs text-gray-500">Loading line types...</p>}
+
+      {lineTypes.data && lineTypes.data.length > 0 && (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {lineTypes.data.map(type => (
+            <li key={type.id} className="flex items-center justify-between py-1">
+              <div className={type.isActive ? '' : 'opacity-50'}>
+                <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                  {type.name}
+                  <span className="ml-1 text-gray-400">({type.kind})</span>
+                  {type.employeeId === null && <span className="ml-1 text-blue-500">· Everyone</span>}
+                </p>
+                <p className="text-[10px] text-gray-500 dark:text-gray-400">
+                  {describeType(type)}
+                  {type.defaultAmount > 0 && ` · EGP ${type.defaultAmount.toLocaleString()}`}
+                </p>
+              </div>
+              {canEdit(type) && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleToggleActive(type)}
+                    className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                  >
+                    {type.isActive ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(type)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title={`Delete ${type.name}`}
+                  >
+                    <FiTrash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="col-span-2">
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">Name</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="e.g. Transportation, Pension Plan"
+            className="w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">Kind</label>
+          <select
+            value={draft.kind}
+            onChange={(e) => setDraft({ ...draft, kind: e.target.value as SalaryLineTypeDraft['kind'] })}
+            className="w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+          >
+            <option value="earning">Earning</option>
+            <option value="deduction">Deduction</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">Repeats</label>
+          <select
+            value={draft.recurrence}
+            onChange={(e) => setDraft({ ...draft, recurrence: e.target.value as SalaryLineTypeDraft['recurrence'] })}
+            className="w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+          >
+            <option value="recurring">Every month</option>
+            <option value="one_off">One-off</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">Default Amount</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={draft.defaultAmount || ''}
+            onChange={(e) => setDraft({ ...draft, defaultAmount: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+          />
+        </div>
+        <div className="flex flex-col justify-end gap-1">
+          <label className="flex items-center text-xs text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.taxable}
+              onChange={(e) => setDraft({ ...draft, taxable: e.target.checked })}
+              className="mr-1"
+            />
+            {draft.kind === 'earning' ? 'Taxable' : 'Taken before tax'}
+          </label>
+          <label className="flex items-center text-xs text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.rateLinked}
+              onChange={(e) => setDraft({ ...draft, rateLinked: e.target.checked })}
+              className="mr-1"
+            />
+            Moves with the rate ratio
+          </label>
+          {isAdmin && (
+            <label className="flex items-center text-xs text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={!!draft.shared}
+                onChange={(e) => setDraft({ ...draft, shared: e.target.checked })}
+                className="mr-1"
+              />
+              For all employees
+            </label>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={!employeeId || saveLineType.isPending}
+          className="px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saveLineType.isPending ? 'Saving...' : 'Add Line Type'}
+        </button>
+      </div>
+    </div>
+  );
+}
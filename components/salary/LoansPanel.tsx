@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FiChevronDown, FiChevronUp, FiTrash2 } from 'react-icons/fi';
+import {
+  buildAmortisationSchedule,
+  getLoanRepaymentForMonth,
+  getRemainingLoanBalance,
+  SALARY_LOAN_LABELS,
+  SalaryLoanInputs,
+  SalaryLoanKind
+} from '@/lib/salary/loans';
+import { useSalaryLoans } from '@/lib/hooks/useSalaryLoans';
+
+interface LoansPanelProps {
+  employeeId?: string;
+  // Month (YYYY-MM) being calculated; new loans start in it
+  month: string;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+export function LoansPanel({ employeeId, month }: LoansPanelProps) {
+  const { loans, saveLoan, deleteLoan } = useSalaryLoans(employeeId);
+  const [draft, setDraft] = useState<SalaryLoanInputs>({
+    name: '',
+    kind: 'advance',
+    principal: 0,
+    startMonth: month,
+    installments: 1
+  });
+  const [expandedLoanId, setExpandedLoanId] = useState<string | null>(null);
+
+  const draftSchedule = useMemo(
+    () => (draft.principal > 0 ? buildAmortisationSchedule(draft) : []),
+    [draft]
+  );
+
+  const allLoans = loans.data || [];
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast.error('Enter a name for the loan');
+      return;
+    }
+    if (!draft.principal || draft.principal <= 0) {
+      toast.error('Enter the amount borrowed');
+      return;
+    }
+
+    try {
+      await saveLoan.mutateAsync({ ...draft, name: draft.name.trim() });
+      toast.success(`Saved ${SALARY_LOAN_LABELS[draft.kind]}`);
+      setDraft(prev => ({ ...prev, name: '', principal: 0, installments: 1 }));
+    } catch (error) {
+      toast.error(`Failed to save loan: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (loanId: string) => {
+    try {
+      await deleteLoan.mutateAsync(loanId);
+    } catch (error) {
+      toast.error(`Failed to delete loan: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800';
+  const labelClass = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5';
+
+  return (
+    <div className="space-y-3">
+      {allLoans.length > 0 && (
+        <div>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {allLoans.map(loan => {
+              const expanded = expandedLoanId === loan.id;
+              return (
+                <li key={loan.id} className="py-1">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                        {loan.name}
+                        <span className="ml-1 text-gray-400">({SALARY_LOAN_LABELS[loan.kind]})</span>
+                      </p>
+                      <p className="text-[10px] text-gray-500 dark:text-gray-400">
+                        EGP {formatAmount(loan.principal)} over {loan.installments} month{loan.installments === 1 ? '' : 's'} from {loan.startMonth}
+                        {' · '}Left after {month}: EGP {formatAmount(getRemainingLoanBalance([loan], month))}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-medium">EGP {formatAmount(getLoanRepaymentForMonth([loan], month))}</span>
+                      <button
+                        onClick={() => setExpandedLoanId(expanded ? null : loan.id)}
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                        title={expanded ? 'Hide schedule' : 'Show schedule'}
+                      >
+                        {expanded ? <FiChevronUp className="h-3 w-3" /> : <FiChevronDown className="h-3 w-3" />}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(loan.id)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete loan"
+                      >
+                        <FiTrash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+                  {expanded && (
+                    <table className="mt-1 w-full text-[10px] text-gray-600 dark:text-gray-300">
+                      <thead>
+                        <tr className="text-left text-gray-400">
+                          <th className="font-medium">#</th>
+                          <th className="font-medium">Month</th>
+                          <th className="font-medium text-right">Installment</th>
+                          <th className="font-medium text-right">Balance</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {buildAmortisationSchedule(loan).map(row => (
+                          <tr key={row.number} className={row.month === month ? 'font-semibold text-blue-600 dark:text-blue-400' : ''}>
+                            <td>{row.number}</td>
+                            <td>{row.month}</td>
+                            <td className="text-right">EGP {formatAmount(row.amount)}</td>
+                            <td className="text-right">EGP {formatAmount(row.balanceAfter)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex justify-between pt-1 border-t border-gray-200 dark:border-gray-700">
+            <span className="text-xs text-gray-600 dark:text-gray-300">Taken from {month}:</span>
+            <span className="text-xs font-semibold">EGP {formatAmount(getLoanRepaymentForMonth(allLoans, month))}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Type</label>
+          <select
+            value={draft.kind}
+            onChange={(e) => setDraft({ ...draft, kind: e.target.value as SalaryLoanKind })}
+            className={inputClass}
+          >
+            {(Object.keys(SALARY_LOAN_LABELS) as SalaryLoanKind[]).map(kind => (
+              <option key={kind} value={kind}>{SALARY_LOAN_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Principal</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={draft.principal || ''}
+            onChange={(e) => setDraft({ ...draft, principal: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>First Installment</label>
+          <input
+            type="month"
+            value={draft.startMonth}
+            onChange={(e) => setDraft({ ...draft, startMonth: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Installments</label>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={120}
+            value={draft.installments || ''}
+            onChange={(e) => setDraft({ ...draft, installments: Math.min(120, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {draftSchedule.length > 0 && (
+        <div className="space-y-0.5">
+          <div className="flex justify-between">
+            <span className="text-xs text-gray-600 dark:text-gray-300">Monthly Installment:</span>
+            <span className="text-xs font-medium">EGP {formatAmount(draftSchedule[0].amount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-xs text-gray-600 dark:text-gray-300">Last Installment:</span>
+            <span className="text-xs font-medium">
+              EGP {formatAmount(draftSchedule[draftSchedule.length - 1].amount)} ({draftSchedule[draftSchedule.length - 1].month})
+            </span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={!employeeId || saveLoan.isPending}
+          className="px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saveLoan.isPending ? 'Saving...' : 'Add Loan'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FiX } from 'react-icons/fi';
+import {
+  OVERTIME_REQUEST_STATUS_LABELS,
+  OVERTIME_REQUEST_TYPE_LABELS,
+  OvertimeRequestInputs,
+  OvertimeRequestStatus,
+  OvertimeRequestType
+} from '@/lib/salary/overtimeRequests';
+import { useOvertimeRequests } from '@/lib/hooks/useOvertimeRequests';
+
+interface OvertimeRequestsPanelProps {
+  employeeId?: string;
+  // Month (YYYY-MM) being calculated; its requests are listed
+  month: string;
+  // Called when a change affects the month's approved overtime
+  onOvertimeChanged?: () => void;
+}
+
+const STATUS_CLASSES: Record<OvertimeRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  approved: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  rejected: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  cancelled: 'bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400'
+};
+
+export function OvertimeRequestsPanel({ employeeId, month, onOvertimeChanged }: OvertimeRequestsPanelProps) {
+  const { requests, submitRequest, cancelRequest } = useOvertimeRequests(employeeId);
+  const [draft, setDraft] = useState<OvertimeRequestInputs>({
+    date: `${month}-01`,
+    hours: 0,
+    type: 'day',
+    reason: ''
+  });
+
+  const monthRequests = (requests.data || []).filter(request => request.date.startsWith(month));
+
+  const handleSubmit = async () => {
+    if (!draft.date) {
+      toast.error('Pick the day the overtime was worked');
+      return;
+    }
+    if (!draft.hours || draft.hours <= 0 || draft.hours > 24) {
+      toast.error('Enter between 0 and 24 hours');
+      return;
+    }
+    if (!draft.reason?.trim()) {
+      toast.error('Give a reason for the overtime');
+      return;
+    }
+
+    try {
+      await submitRequest.mutateAsync({ ...draft, reason: draft.reason.trim() });
+      toast.success('Overtime sent for approval');
+      setDraft(prev => ({ ...prev, hours: 0, reason: '' }));
+    } catch (error) {
+      toast.error(`Failed to submit overtime request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleCancel = async (requestId: string) => {
+    const request = monthRequests.find(item => item.id === requestId);
+    if (!request) return;
+
+    try {
+      await cancelRequest.mutateAsync(request);
+      if (request.status === 'approved') onOvertimeChanged?.();
+    } catch (error) {
+      toast.error(`Failed to cancel overtime request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800';
+  const labelClass = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[10px] text-gray-500 dark:text-gray-400">
+        Overtime is paid once your supervisor approves it. Overtime and in-lieu shifts on the schedule are sent for approval when you save them.
+      </p>
+
+      {monthRequests.length > 0 ? (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {monthRequests.map(request => (
+            <li key={request.id} className="py-1 flex items-center justify-between">
+              <div>
+                <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                  {request.date} · {request.hours}h {OVERTIME_REQUEST_TYPE_LABELS[request.type].toLowerCase()}
+                  {request.source !== 'manual' && <span className="ml-1 text-gray-400">({request.source})</span>}
+                </p>
+                {(request.reason || request.decisionNote) && (
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400">
+                    {request.reason}
+                    {request.decisionNote && ` · Supervisor: ${request.decisionNote}`}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 rounded text-[10px] font-medium ${STATUS_CLASSES[request.status]}`}>
+                  {OVERTIME_REQUEST_STATUS_LABELS[request.status]}
+                </span>
+                {(request.status === 'pending' || request.status === 'approved') && (
+                  <button
+                    onClick={() => handleCancel(request.id)}
+                    disabled={cancelRequest.isPending}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    title="Cancel request"
+                  >
+                    <FiX className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No overtime requests for {month}.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Date</label>
+          <input
+            type="date"
+            value={draft.date}
+            onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Type</label>
+          <select
+            value={draft.type}
+            onChange={(e) => setDraft({ ...draft, type: e.target.value as OvertimeRequestType })}
+            className={inputClass}
+          >
+            {(Object.keys(OVERTIME_REQUEST_TYPE_LABELS) as OvertimeRequestType[]).map(type => (
+              <option key={type} value={type}>{OVERTIME_REQUEST_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Hours</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={24}
+            step={0.5}
+            value={draft.hours || ''}
+            onChange={(e) => setDraft({ ...draft, hours: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Reason</label>
+          <input
+            type="text"
+            value={draft.reason || ''}
+            onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSubmit}
+          disabled={!employeeId || submitRequest.isPending}
+          className="px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitRequest.isPending ? 'Sending...' : 'Request Overtime'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FiAlertTriangle, FiCheckCircle, FiUpload } from 'react-icons/fi';
+import { supabase } from '@/lib/supabase';
+import {
+  parsePayslip,
+  reconcilePayslip,
+  ReconciliationLine,
+  ReconciliationResult
+} from '@/lib/salary/payslip';
+import { PayRuleSet } from '@/lib/salary/payEngine';
+import { usePayslipReconciliations } from '@/lib/hooks/usePayslipReconciliations';
+import { fetchSalaryLineItems } from '@/lib/hooks/useSalaryLineItems';
+
+interface PayslipReconciliationProps {
+  employeeId?: string;
+  month: string; // YYYY-MM
+  // The month's rules with the employee's base rate, as the salary page calculates with
+  payRules: PayRuleSet;
+}
+
+const formatAmount = (amount: number | null | undefined) =>
+  amount === null || amount === undefined
+    ? '—'
+    : amount.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+function ReconciliationTable({ lines }: { lines: ReconciliationLine[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <th className="py-1 pr-3">Component</th>
+            <th className="py-1 pr-3 text-right">Payslip</th>
+            <th className="py-1 pr-3 text-right">Recorded</th>
+            <th className="py-1 pr-3 text-right">Calculated</th>
+            <th className="py-1 pr-3 text-right">Difference</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map(line => (
+            <tr
+              key={line.component}
+              className={`border-b border-gray-100 dark:border-gray-800 ${line.flagged ? 'text-red-600 dark:text-red-400' : ''}`}
+            >
+              <td className="py-1 pr-3">
+                {line.flagged && <FiAlertTriangle className="inline h-3 w-3 mr-1" />}
+                {line.label}
+              </td>
+              <td className="py-1 pr-3 text-right">{formatAmount(line.payslip)}</td>
+              <td className="py-1 pr-3 text-right">{formatAmount(line.recorded)}</td>
+              <td className="py-1 pr-3 text-right">{formatAmount(line.calculated)}</td>
+              <td className="py-1 pr-3 text-right">
+                {`${line.difference > 0 ? '+' : ''}${formatAmount(line.difference)}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function PayslipReconciliation({ employeeId, month, payRules }: PayslipReconciliationProps) {
+  const { reconciliations, saveReconciliation } = usePayslipReconciliations(employeeId, month);
+  const [payslipText, setPayslipText] = useState('');
+  const [source, setSource] = useState<'csv' | 'text'>('text');
+  const [tolerance, setTolerance] = useState<number>(1);
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+  const [unrecognised, setUnrecognised] = useState<string[]>([]);
+  const [isReconciling, setIsReconciling] = useState(false);
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setPayslipText(String(reader.result || ''));
+      setSource(file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'text');
+    };
+    reader.onerror = () => toast.error('Could not read the payslip file');
+    reader.readAsText(file);
+  };
+
+  const handleReconcile = async () => {
+    if (!employeeId) return;
+
+    const parsed = parsePayslip(payslipText);
+    if (Object.keys(parsed.components).length === 0) {
+      toast.error('No salary components found in the payslip');
+      return;
+    }
+
+    setIsReconciling(true);
+    try {
+      const { data: salaryRows, error } = await supabase
+        .from('salaries')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .eq('month', `${month}-01`)
+        .limit(1);
+
+      if (error) throw error;
+
+      const lineItems = await fetchSalaryLineItems(employeeId, month);
+      const reconciliation = reconcilePayslip(parsed, salaryRows?.[0] || null, month, tolerance, lineItems, payRules);
+      setResult(reconciliation);
+      setUnrecognised(parsed.unrecognised);
+
+      await saveReconciliation.mutateAsync({
+        source,
+        rawPayslip: payslipText,
+        result: reconciliation
+      });
+
+      if (reconciliation.flaggedCount > 0) {
+        toast.error(`${reconciliation.flaggedCount} component(s) differ from your records`);
+      } else {
+        toast.success('Payslip matches your records');
+      }
+    } catch (error) {
+      toast.error(`Failed to reconcile payslip: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  const history = reconciliations.data || [];
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <label className="inline-flex items-center px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 cursor-pointer">
+          <FiUpload className="h-3 w-3 mr-1" />
+          Upload CSV
+          <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFileUpload} className="hidden" />
+        </label>
+        <textarea
+          value={payslipText}
+          onChange={(e) => {
+            setPayslipText(e.target.value);
+            setSource('text');
+          }}
+          rows={6}
+          placeholder={'Or paste the text of your payslip PDF, e.g.\nBasic Salary 23,517.00\nCost of Living 6,000.00\nNet Pay 42,180.50'}
+          className="w-full px-3 py-1.5 text-xs font-mono rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+        />
+        <div className="flex items-end justify-between">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">
+              Tolerance (EGP)
+            </label>
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              value={tolerance}
+              onChange={(e) => setTolerance(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-24 px-3 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+            />
+          </div>
+          <button
+            onClick={handleReconcile}
+            disabled={!employeeId || !payslipText.trim() || isReconciling}
+            className="px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isReconciling ? 'Reconciling...' : 'Reconcile'}
+          </button>
+        </div>
+      </div>
+
+      {result && (
+        <div className="space-y-2">
+          <p className={`flex items-center text-xs ${result.flaggedCount > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {result.flaggedCount > 0 ? (
+              <>
+                <FiAlertTriangle className="h-3 w-3 mr-1" />
+                {result.flaggedCount} component(s) differ by more than EGP {formatAmount(result.tolerance)}.
+              </>
+            ) : (
+              <>
+                <FiCheckCircle className="h-3 w-3 mr-1" />
+                Every component is within EGP {formatAmount(result.tolerance)}.
+              </>
+            )}
+          </p>
+          <ReconciliationTable lines={result.lines} />
+          {unrecognised.length > 0 && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              <p className="font-medium">Lines not recognised:</p>
+              <ul className="list-disc list-inside">
+                {unrecognised.map((line, i) => <li key={i}>{line}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300">Saved reconciliations for {month}</h4>
+          {history.map(item => (
+            <details key={item.id} className="text-xs">
+              <summary className="cursor-pointer text-gray-600 dark:text-gray-300">
+                {item.createdAt ? new Date(item.createdAt).toLocaleString() : 'Unknown date'}
+                {' · '}
+                <span className={item.flaggedCount > 0 ? 'text-red-600' : 'text-green-600'}>
+                  {item.flaggedCount > 0 ? `${item.flaggedCount} flagged` : 'matched'}
+                </span>
+              </summary>
+              <ReconciliationTable lines={item.lines} />
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { FiSave, FiAlertCircle } from 'react-icons/fi';
 import { SimplifiedEmployee } from '@/lib/utils/employeeUtils';
+import { getRateRatio } from '@/lib/salary/payEngine';
+import { CurrencyPair, DEFAULT_CURRENCY_PAIR, splitCurrencyPair } from '@/lib/salary/currency';
+import { SalaryLineItem, SalaryLineType } from '@/lib/salary/lineItems';
+import { OvertimeSummary } from '@/lib/services/overtimeService';
+import { LineItemsEditor } from './LineItemsEditor';
 
 // Define validation rules and error messages
 interface ValidationRules {
@@ -20,8 +25,7 @@ const validationRules: FieldValidation = {
   costOfLiving: { min: 0 },
   shiftAllowance: { min: 0 },
   otherEarnings: { min: 0 },
-  deduction: { min: 0 },
-  manualOvertimeHours: { min: 0, integer: true }
+  deduction: { min: 0 }
 };
 
 interface SalaryFormProps {
@@ -38,34 +42,42 @@ interface SalaryFormProps {
     totalSalary?: number;
     exchangeRate?: number;
     variablePay?: number;
-    manualOvertimeHours?: number;
   };
   setSalaryCalc?: React.Dispatch<React.SetStateAction<any>>;
   scheduleOvertimeHours?: number;
-  manualOvertimeHours?: number;
-  setManualOvertimeHours?: React.Dispatch<React.SetStateAction<number>>;
+  // Approved typed hours the schedule figure is built from
+  overtimeSummary?: OvertimeSummary;
   setScheduleOvertimeHours?: React.Dispatch<React.SetStateAction<number>>;
   selectedMonth?: number;
   selectedYear?: number;
   onDateChange?: (year: number, month: number) => void;
-  onInputChange?: (field: keyof SalaryFormProps['salaryCalc'] | 'manualOvertimeHours', value: number) => void;
+  onInputChange?: (field: keyof SalaryFormProps['salaryCalc'], value: number) => void;
   onManualUpdateRate?: () => void;
   exchangeRate?: number;
+  currencyPair?: CurrencyPair;
+  // The month's itemised earning and deduction lines
+  lineItems?: SalaryLineItem[];
+  lineTypes?: SalaryLineType[];
+  onLineItemsChange?: (items: SalaryLineItem[]) => void;
 }
 
 export function SalaryForm({ 
   employee,
   salaryCalc,
   scheduleOvertimeHours = 0,
-  manualOvertimeHours = 0,
+  overtimeSummary,
   selectedMonth = new Date().getMonth() + 1,
   selectedYear = new Date().getFullYear(),
   onDateChange = () => {},
   onInputChange = () => {},
-  exchangeRate = 31.50
+  exchangeRate = 31.50,
+  currencyPair = DEFAULT_CURRENCY_PAIR,
+  lineItems = [],
+  lineTypes = [],
+  onLineItemsChange
 }: SalaryFormProps) {
+  const { base, quote } = splitCurrencyPair(currencyPair);
   const [formData, setFormData] = useState(salaryCalc);
-  const [manualOvertimeHoursState, setManualOvertimeHours] = useState(manualOvertimeHours || 0);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
   const [touched, setTouched] = useState<{[key: string]: boolean}>({});
 
@@ -106,23 +118,6 @@ export function SalaryForm({
     }));
   };
 
-  // Update parent when manual overtime changes
-  const handleManualOvertimeChange = (value: number) => {
-    setManualOvertimeHours(value);
-    
-    // Validate
-    const errorMessage = validateField('manualOvertimeHours', value);
-    setErrors(prev => ({
-      ...prev,
-      manualOvertimeHours: errorMessage
-    }));
-    
-    // Only update parent if valid
-    if (!errorMessage) {
-      onInputChange('manualOvertimeHours', value);
-    }
-  };
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     const numValue = parseFloat(value) || 0;
@@ -302,64 +297,26 @@ export function SalaryForm({
           <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">
             Overtime Hours
           </label>
-          <div className="grid grid-cols-2 gap-2">
-            <div className="flex items-center">
-              <input
-                type="number"
-                inputMode="numeric"
-                pattern="[0-9]*"
-                id="scheduleOvertimeHours"
-                name="scheduleOvertimeHours"
-                value={scheduleOvertimeHours}
-                className="w-full px-3 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400"
-                readOnly
-              />
-              <span className="ml-1 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
-                Schedule
-              </span>
-            </div>
-            
-            <div className="flex items-center">
-              <input
-                type="number"
-                inputMode="numeric"
-                pattern="[0-9]*"
-                id="manualOvertimeHours"
-                name="manualOvertimeHours"
-                value={manualOvertimeHoursState}
-                onChange={(e) => handleManualOvertimeChange(Number(e.target.value))}
-                onBlur={() => handleBlur('manualOvertimeHours')}
-                className={`w-full px-3 py-1.5 rounded-md border ${
-                  errors.manualOvertimeHours && touched.manualOvertimeHours 
-                    ? 'border-red-500 dark:border-red-400' 
-                    : 'border-gray-300 dark:border-gray-600'
-                } focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 bg-white dark:bg-gray-800`}
-              />
-              <span className="ml-1 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
-                Add&apos;l
-              </span>
-            </div>
-            
-            <div className="flex items-center col-span-2">
-              <input
-                type="number"
-                inputMode="numeric"
-                pattern="[0-9]*"
-                id="totalOvertimeHoursDisplay"
-                name="totalOvertimeHoursDisplay"
-                value={scheduleOvertimeHours + manualOvertimeHoursState}
-                className="w-full px-3 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400"
-                readOnly
-              />
-              <span className="ml-1 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
-                Total OT
-              </span>
-            </div>
+          {/* Only approved overtime requests are paid; extra hours are requested under Overtime Requests */}
+          <div className="flex items-center">
+            <input
+              type="number"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              id="scheduleOvertimeHours"
+              name="scheduleOvertimeHours"
+              value={scheduleOvertimeHours}
+              className="w-full px-3 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400"
+              readOnly
+            />
+            <span className="ml-1 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              Approved
+            </span>
           </div>
-          {errors.manualOvertimeHours && touched.manualOvertimeHours && (
-            <p className="mt-0.5 text-xs text-red-500 dark:text-red-400 flex items-center">
-              <FiAlertCircle className="mr-1" size={10} />
-              {errors.manualOvertimeHours}
+          {overtimeSummary && overtimeSummary.days.length > 0 && (
+            <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+              Approved: {overtimeSummary.days.length} day{overtimeSummary.days.length === 1 ? '' : 's'} ·{' '}
+              {overtimeSummary.dayHours}h day · {overtimeSummary.nightHours}h night · {overtimeSummary.holidayHours}h holiday
             </p>
           )}
         </div>
@@ -376,7 +333,7 @@ export function SalaryForm({
                  formData.shiftAllowance + 
                  (formData.otherEarnings || 0) + 
                  formData.overtimePay) * 
-                ((exchangeRate / 30.8) - 1)
+                ((salaryCalc.rateRatio || getRateRatio(exchangeRate)) - 1)
               ).toLocaleString()}
             </span>
           </div>
@@ -396,18 +353,27 @@ export function SalaryForm({
             className="w-full px-3 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 bg-white dark:bg-gray-800"
           />
         </div>
+
+        {onLineItemsChange && (
+          <LineItemsEditor
+            lineItems={lineItems}
+            lineTypes={lineTypes}
+            onChange={onLineItemsChange}
+            rateRatio={salaryCalc.rateRatio || getRateRatio(exchangeRate)}
+          />
+        )}
       </div>
 
       <div className="mt-1 p-1.5 bg-gray-50 dark:bg-gray-700 rounded-lg">
         <div className="flex justify-between items-center">
           <div>
-            <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Rate (EGP/USD):</span>
+            <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Rate ({quote}/{base}):</span>
             <span className="ml-1 text-xs font-bold text-gray-900 dark:text-gray-100">{exchangeRate.toFixed(2)}</span>
           </div>
           <div>
             <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Ratio:</span>
             <span className="ml-1 text-xs font-bold text-blue-600 dark:text-blue-400">
-              {(salaryCalc.rateRatio || (exchangeRate / 30.8)).toFixed(4)}
+              {(salaryCalc.rateRatio || getRateRatio(exchangeRate)).toFixed(4)}
             </span>
           </div>
         </div>
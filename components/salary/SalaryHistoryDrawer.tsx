@@ -0,0 +1,127 @@
+import { format, parseISO } from 'date-fns';
+import { FiX } from 'react-icons/fi';
+import {
+  getAuditFieldLabel,
+  getTotalSalaryChange,
+  SALARY_CHANGE_SOURCE_LABELS,
+  SalaryAuditAction
+} from '@/lib/salary/audit';
+import { useSalaryAuditLog } from '@/lib/hooks/useSalaryAuditLog';
+
+interface SalaryHistoryDrawerProps {
+  employeeId?: string;
+  // Month (YYYY-MM) to show the history of; the drawer is closed when null
+  month: string | null;
+  // Id of the signed-in user, to show their own changes as "You"
+  currentUserId?: string;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<SalaryAuditAction, string> = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted'
+};
+
+const ACTION_STYLES: Record<SalaryAuditAction, string> = {
+  insert: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  update: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  delete: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return String(value);
+};
+
+export function SalaryHistoryDrawer({ employeeId, month, currentUserId, onClose }: SalaryHistoryDrawerProps) {
+  const history = useSalaryAuditLog(employeeId, month);
+
+  if (!month) return null;
+
+  const entries = history.data || [];
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <div className="absolute inset-y-0 right-0 w-full max-w-md flex flex-col bg-white dark:bg-gray-800 shadow-xl">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-white">Salary History</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{format(parseISO(`${month}-01`), 'MMMM yyyy')}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            title="Close"
+          >
+            <FiX className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+          {history.isPending && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Loading history...</p>
+          )}
+
+          {history.error && (
+            <p className="text-xs text-red-600">Failed to load history: {history.error.message}</p>
+          )}
+
+          {!history.isPending && !history.error && entries.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No changes recorded for this month yet.</p>
+          )}
+
+          {entries.map(entry => {
+            const totalChange = getTotalSalaryChange(entry);
+            const who = entry.changedBy && entry.changedBy === currentUserId
+              ? 'You'
+              : entry.changedByName || (entry.changedBy ? 'Another user' : 'System');
+
+            return (
+              <div key={entry.id} className="rounded-md border border-gray-200 dark:border-gray-700 p-2">
+                <div className="flex items-center justify-between">
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${ACTION_STYLES[entry.action]}`}>
+                    {ACTION_LABELS[entry.action]}
+                  </span>
+                  <span className="text-[10px] text-gray-500 dark:text-gray-400">
+                    {format(new Date(entry.changedAt), 'd MMM yyyy, HH:mm')}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-gray-700 dark:text-gray-300">
+                  {who} · {entry.source ? SALARY_CHANGE_SOURCE_LABELS[entry.source] || entry.source : 'Unknown source'}
+                </p>
+                {totalChange !== null && (
+                  <p className={`text-xs font-medium ${totalChange < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    Total {totalChange < 0 ? '-' : '+'}EGP {formatValue(Math.abs(totalChange))}
+                  </p>
+                )}
+                {entry.changes.length > 0 && (
+                  <table className="mt-1 w-full text-[10px] text-gray-600 dark:text-gray-300">
+                    <thead>
+                      <tr className="text-left text-gray-400">
+                        <th className="font-medium">Field</th>
+                        <th className="font-medium text-right">Before</th>
+                        <th className="font-medium text-right">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entry.changes.map(change => (
+                        <tr key={change.field}>
+                          <td>{getAuditFieldLabel(change.field)}</td>
+                          <td className="text-right">{formatValue(change.before)}</td>
+                          <td className="text-right">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
 import { BasicSalaryCalculation } from '@/lib/calculations/salary';
+import { getRateRatio } from '@/lib/salary/payEngine';
+import { CurrencyPair, DEFAULT_CURRENCY_PAIR, splitCurrencyPair, toPeggedAmount } from '@/lib/salary/currency';
+import { getLineItemAmount, SalaryLineItem } from '@/lib/salary/lineItems';
 
 interface SalarySummaryProps {
   employee?: {
@@ -7,18 +10,22 @@ interface SalarySummaryProps {
   };
   salaryCalc: BasicSalaryCalculation;
   scheduleOvertimeHours?: number;
-  manualOvertimeHours?: number;
   exchangeRate?: number;
+  currencyPair?: CurrencyPair;
+  lineItems?: SalaryLineItem[];
 }
 
 export function SalarySummary({ 
   employee,
   salaryCalc,
   scheduleOvertimeHours = 0,
-  manualOvertimeHours = 0,
-  exchangeRate = 31.50
+  exchangeRate = 31.50,
+  currencyPair = DEFAULT_CURRENCY_PAIR,
+  lineItems = []
 }: SalarySummaryProps) {
-  const totalOvertimeHours = scheduleOvertimeHours + (manualOvertimeHours || 0);
+  const rateRatio = salaryCalc.rateRatio || getRateRatio(exchangeRate);
+  const earningLines = lineItems.filter(item => item.kind === 'earning');
+  const deductionLines = lineItems.filter(item => item.kind === 'deduction');
 
   return (
     <div className="space-y-2">
@@ -40,7 +47,7 @@ export function SalarySummary({
 
         <div className="flex justify-between">
           <span className="text-xs text-gray-600 dark:text-gray-300">Overtime Hours:</span>
-          <span className="text-xs font-medium">{totalOvertimeHours} hours</span>
+          <span className="text-xs font-medium">{scheduleOvertimeHours} hours</span>
         </div>
 
         <div className="flex justify-between">
@@ -48,11 +55,46 @@ export function SalarySummary({
           <span className="text-xs font-medium">EGP {salaryCalc.overtimePay.toLocaleString()}</span>
         </div>
 
+        {earningLines.map((item, index) => (
+          <div key={`earning-${index}`} className="flex justify-between">
+            <span className="text-xs text-gray-600 dark:text-gray-300">{item.name}:</span>
+            <span className="text-xs font-medium">EGP {getLineItemAmount(item, rateRatio).toLocaleString()}</span>
+          </div>
+        ))}
+
         <div className="flex justify-between">
           <span className="text-xs text-gray-600 dark:text-gray-300">Deductions:</span>
           <span className="text-xs font-medium text-red-600">EGP {salaryCalc.deduction.toLocaleString()}</span>
         </div>
 
+        {deductionLines.map((item, index) => (
+          <div key={`deduction-${index}`} className="flex justify-between">
+            <span className="text-xs text-gray-600 dark:text-gray-300">{item.name}:</span>
+            <span className="text-xs font-medium text-red-600">EGP {getLineItemAmount(item, rateRatio).toLocaleString()}</span>
+          </div>
+        ))}
+
+        {(salaryCalc.socialInsurance > 0 || salaryCalc.incomeTax > 0) && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-xs text-gray-600 dark:text-gray-300">Social Insurance:</span>
+              <span className="text-xs font-medium text-red-600">EGP {(salaryCalc.socialInsurance || 0).toLocaleString()}</span>
+            </div>
+
+            <div className="flex justify-between">
+              <span className="text-xs text-gray-600 dark:text-gray-300">Income Tax:</span>
+              <span className="text-xs font-medium text-red-600">EGP {(salaryCalc.incomeTax || 0).toLocaleString()}</span>
+            </div>
+          </>
+        )}
+
+        {(salaryCalc.loanRepayment || 0) > 0 && (
+          <div className="flex justify-between">
+            <span className="text-xs text-gray-600 dark:text-gray-300">Loan Repayment:</span>
+            <span className="text-xs font-medium text-red-600">EGP {(salaryCalc.loanRepayment || 0).toLocaleString()}</span>
+          </div>
+        )}
+
         <div className="flex justify-between">
           <span className="text-xs text-gray-600 dark:text-gray-300">Variable Pay (Info Only):</span>
           <span className="text-xs font-medium text-blue-600">
@@ -61,8 +103,9 @@ export function SalarySummary({
                salaryCalc.costOfLiving + 
                salaryCalc.shiftAllowance + 
                (salaryCalc.otherEarnings || 0) + 
-               salaryCalc.overtimePay) * 
-              ((exchangeRate / 30.8) - 1)
+               salaryCalc.overtimePay +
+               earningLines.filter(item => item.rateLinked).reduce((sum, item) => sum + item.amount, 0)) * 
+              (rateRatio - 1)
             ).toLocaleString()}
           </span>
         </div>
@@ -74,6 +117,14 @@ export function SalarySummary({
               EGP {salaryCalc.totalSalary.toLocaleString()}
             </span>
           </div>
+          {exchangeRate > 0 && (
+            <div className="flex justify-between">
+              <span className="text-xs text-gray-600 dark:text-gray-300">In {splitCurrencyPair(currencyPair).base}:</span>
+              <span className="text-xs font-medium">
+                {splitCurrencyPair(currencyPair).base} {toPeggedAmount(salaryCalc.totalSalary, exchangeRate).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     </div>
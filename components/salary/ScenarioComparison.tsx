@@ -0,0 +1,274 @@
+import { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { toast } from 'react-hot-toast';
+import { FiEdit2, FiTrash2 } from 'react-icons/fi';
+import { useTheme } from '@/lib/themeContext';
+import { BasicSalaryCalculation } from '@/lib/calculations/salary';
+import {
+  calculateScenario,
+  compareScenarios,
+  ScenarioInputs,
+  toScenarioInputs
+} from '@/lib/salary/scenarios';
+import { EmployeeCurrency } from '@/lib/salary/currency';
+import { PayLineItem } from '@/lib/salary/lineItems';
+import { useSalaryScenarios, ScenarioDraft } from '@/lib/hooks/useSalaryScenarios';
+
+interface ScenarioComparisonProps {
+  employeeId?: string;
+  salaryCalc: BasicSalaryCalculation;
+  month: string; // YYYY-MM
+  currency?: EmployeeCurrency;
+  // The month's itemised lines, carried into new scenarios
+  lineItems?: PayLineItem[];
+}
+
+// The numeric inputs; itemised lines and loan repayments are carried over as they are
+type ScenarioInputField = Exclude<keyof ScenarioInputs, 'lineItems' | 'loanRepayment'>;
+
+const INPUT_FIELDS: { key: ScenarioInputField; label: string }[] = [
+  { key: 'exchangeRate', label: 'Exchange Rate' },
+  { key: 'basicSalary', label: 'Basic Salary' },
+  { key: 'costOfLiving', label: 'Cost of Living' },
+  { key: 'shiftAllowance', label: 'Shift Allowance' },
+  { key: 'otherEarnings', label: 'Other Earnings' },
+  { key: 'overtimeHours', label: 'Schedule Overtime (hrs)' },
+  { key: 'dayOvertimeHours', label: 'Day OT (hrs)' },
+  { key: 'nightOvertimeHours', label: 'Night OT (hrs)' },
+  { key: 'holidayOvertimeHours', label: 'Holiday OT (hrs)' },
+  { key: 'deduction', label: 'Deductions' }
+];
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const formatDifference = (difference: number) =>
+  `${difference > 0 ? '+' : ''}${formatAmount(difference)}`;
+
+export function ScenarioComparison({ employeeId, salaryCalc, month, currency, lineItems }: ScenarioComparisonProps) {
+  const { isDarkMode } = useTheme();
+  const { scenarios, saveScenario, deleteScenario } = useSalaryScenarios(employeeId);
+  const [draft, setDraft] = useState<ScenarioDraft | null>(null);
+
+  // The current inputs, recalculated the same way as the scenarios
+  const baseline = useMemo(
+    () => calculateScenario(toScenarioInputs(salaryCalc, lineItems), month, currency),
+    [salaryCalc, lineItems, month, currency]
+  );
+
+  const results = useMemo(
+    () => (scenarios.data || []).map(scenario => ({
+      ...scenario,
+      result: calculateScenario(scenario.inputs, scenario.month, currency)
+    })),
+    [scenarios.data, currency]
+  );
+
+  const rows = useMemo(() => compareScenarios(baseline, results), [baseline, results]);
+
+  const chartData = useMemo(() => {
+    const toBar = (name: string, calc: BasicSalaryCalculation) => {
+      const deductions = calc.deduction + calc.socialInsurance + calc.incomeTax;
+      return {
+        name,
+        gross: calc.totalSalary + deductions,
+        deductions,
+        net: calc.totalSalary
+      };
+    };
+    return [toBar('Current', baseline), ...results.map(r => toBar(r.name, r.result))];
+  }, [baseline, results]);
+
+  const startNewScenario = () => {
+    setDraft({ name: '', month, inputs: toScenarioInputs(salaryCalc, lineItems) });
+  };
+
+  const handleDraftInput = (key: ScenarioInputField, value: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      inputs: { ...prev.inputs, [key]: parseFloat(value) || 0 }
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error('Give the scenario a name');
+      return;
+    }
+
+    try {
+      await saveScenario.mutateAsync(draft);
+      toast.success(`Scenario "${draft.name.trim()}" saved`);
+      setDraft(null);
+    } catch (error) {
+      toast.error(`Failed to save scenario: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!confirm(`Delete scenario "${name}"?`)) return;
+
+    try {
+      await deleteScenario.mutateAsync(id);
+      toast.success(`Scenario "${name}" deleted`);
+    } catch (error) {
+      toast.error(`Failed to delete scenario: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const textColor = isDarkMode ? '#b3b3b3' : '#1d1d1f';
+  const gridColor = isDarkMode ? '#2a2a2a' : '#e0e0e0';
+
+  return (
+    <div className="space-y-3">
+      {draft ? (
+        <div className="p-2 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-2">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder='Scenario name, e.g. "Rate goes to 55"'
+            className="w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {INPUT_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5">
+                  {field.label}
+                </label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={draft.inputs[field.key] || ''}
+                  onChange={(e) => handleDraftInput(field.key, e.target.value)}
+                  className="w-full px-3 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1 text-xs font-medium rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saveScenario.isPending}
+              className="px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saveScenario.isPending ? 'Saving...' : 'Save Scenario'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={startNewScenario}
+          disabled={!employeeId}
+          className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 disabled:opacity-50"
+        >
+          New Scenario From Current Inputs
+        </button>
+      )}
+
+      {scenarios.isLoading ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Loading scenarios...</p>
+      ) : results.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          No scenarios yet. Save one to compare it with your current inputs.
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-1 pr-3">Component</th>
+                  <th className="py-1 pr-3 text-right">Current</th>
+                  {results.map(scenario => (
+                    <th key={scenario.id} className="py-1 pr-3 text-right whitespace-nowrap">
+                      {scenario.name}
+                      <button
+                        onClick={() => setDraft({ id: scenario.id, name: scenario.name, month: scenario.month, inputs: scenario.inputs })}
+                        className="ml-1 text-gray-400 hover:text-blue-600"
+                        aria-label={`Edit ${scenario.name}`}
+                      >
+                        <FiEdit2 className="inline h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(scenario.id, scenario.name)}
+                        className="ml-1 text-gray-400 hover:text-red-600"
+                        aria-label={`Delete ${scenario.name}`}
+                      >
+                        <FiTrash2 className="inline h-3 w-3" />
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr
+                    key={row.key}
+                    className={`border-b border-gray-100 dark:border-gray-800 ${row.key === 'totalSalary' ? 'font-semibold' : ''}`}
+                  >
+                    <td className="py-1 pr-3 text-gray-600 dark:text-gray-300">{row.label}</td>
+                    <td className="py-1 pr-3 text-right">{formatAmount(row.baseline)}</td>
+                    {results.map(scenario => {
+                      const { value, difference } = row.values[scenario.id];
+                      // Higher deductions are worse, so flip the colours for them
+                      const better = row.isDeduction ? difference < 0 : difference > 0;
+                      return (
+                        <td key={scenario.id} className="py-1 pr-3 text-right whitespace-nowrap">
+                          {formatAmount(value)}
+                          {Math.abs(difference) >= 0.005 && (
+                            <span className={`ml-1 ${better ? 'text-green-600' : 'text-red-600'}`}>
+                              ({formatDifference(difference)})
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                <XAxis dataKey="name" stroke={textColor} tick={{ fill: textColor, fontSize: 11 }} />
+                <YAxis stroke={textColor} tick={{ fill: textColor, fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value: number) => `EGP ${formatAmount(value)}`}
+                  contentStyle={{
+                    backgroundColor: isDarkMode ? '#1e1e1e' : '#fff',
+                    border: `1px solid ${isDarkMode ? '#2a2a2a' : '#e6e6e6'}`,
+                    color: textColor,
+                  }}
+                />
+                <Legend />
+                <Bar dataKey="gross" name="Gross" fill="#34c759" />
+                <Bar dataKey="deductions" name="Deductions" fill="#ff3b30" />
+                <Bar dataKey="net" name="Net" fill="#0071e3" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
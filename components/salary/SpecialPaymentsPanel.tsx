@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FiTrash2 } from 'react-icons/fi';
+import { BasicSalaryCalculation } from '@/lib/calculations/salary';
+import { computePay, PayRuleSet } from '@/lib/salary/payEngine';
+import {
+  calculateSpecialPayment,
+  SPECIAL_PAYMENT_LABELS,
+  SPECIAL_PAYMENT_TAX_LABELS,
+  SpecialPaymentInputs,
+  SpecialPaymentTaxTreatment,
+  SpecialPaymentType,
+  totalSpecialPayments
+} from '@/lib/salary/specialPayments';
+import { useSpecialPayments } from '@/lib/hooks/useSpecialPayments';
+
+interface SpecialPaymentsPanelProps {
+  employeeId?: string;
+  year: number;
+  // Month (YYYY-MM) a new payment starts in
+  month: string;
+  salaryCalc: BasicSalaryCalculation;
+  exchangeRate: number;
+  // Rules (with the employee's base rate applied) for a month
+  payRulesFor: (month: string) => PayRuleSet;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+export function SpecialPaymentsPanel({
+  employeeId,
+  year,
+  month,
+  salaryCalc,
+  exchangeRate,
+  payRulesFor
+}: SpecialPaymentsPanelProps) {
+  const { payments, savePayment, deletePayment } = useSpecialPayments(employeeId, year);
+  const [draft, setDraft] = useState<SpecialPaymentInputs>({
+    type: 'annual_bonus',
+    payoutMonth: month,
+    amount: 0,
+    rateLinked: false,
+    taxTreatment: 'with_salary',
+    flatTaxRate: 0.1
+  });
+  const [payoutRate, setPayoutRate] = useState<number>(exchangeRate);
+
+  // The payment is taxed on top of the regular monthly salary (without overtime)
+  const result = useMemo(() => {
+    const rules = payRulesFor(draft.payoutMonth);
+    const regular = computePay({
+      basicSalary: salaryCalc.basicSalary,
+      costOfLiving: salaryCalc.costOfLiving,
+      shiftAllowance: salaryCalc.shiftAllowance,
+      otherEarnings: salaryCalc.otherEarnings || 0,
+      exchangeRate: payoutRate
+    }, rules);
+
+    return calculateSpecialPayment(draft, {
+      exchangeRate: payoutRate,
+      rules,
+      regularMonthlyGross: regular.grossSalary
+    });
+  }, [draft, payoutRate, salaryCalc, payRulesFor]);
+
+  const totals = totalSpecialPayments(payments.data || []);
+
+  const handleSave = async () => {
+    if (!draft.amount || draft.amount <= 0) {
+      toast.error('Enter the payment amount');
+      return;
+    }
+
+    try {
+      await savePayment.mutateAsync({ ...draft, ...result, exchangeRate: payoutRate });
+      toast.success(`Saved ${SPECIAL_PAYMENT_LABELS[draft.type]}`);
+      setDraft(prev => ({ ...prev, amount: 0 }));
+    } catch (error) {
+      toast.error(`Failed to save payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (paymentId: string) => {
+    try {
+      await deletePayment.mutateAsync(paymentId);
+    } catch (error) {
+      toast.error(`Failed to delete payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800';
+  const labelClass = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5';
+
+  return (
+    <div className="space-y-3">
+      {payments.data && payments.data.length > 0 && (
+        <div>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {payments.data.map(payment => (
+              <li key={payment.id} className="flex items-center justify-between py-1">
+                <div>
+                  <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                    {SPECIAL_PAYMENT_LABELS[payment.type]}
+                    <span className="ml-1 text-gray-400">({payment.payoutMonth})</span>
+                  </p>
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400">
+                    Gross EGP {formatAmount(payment.grossAmount)} · Tax EGP {formatAmount(payment.incomeTax)}
+                    {' · '}{SPECIAL_PAYMENT_TAX_LABELS[payment.taxTreatment]}
+                    {payment.rateLinked && ' · Rate-linked'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium">EGP {formatAmount(payment.netAmount)}</span>
+                  <button
+                    onClick={() => handleDelete(payment.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete payment"
+                  >
+                    <FiTrash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-between pt-1 border-t border-gray-200 dark:border-gray-700">
+            <span className="text-xs text-gray-600 dark:text-gray-300">Net in {year}:</span>
+            <span className="text-xs font-semibold">EGP {formatAmount(totals.netAmount)}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Payment</label>
+          <select
+            value={draft.type}
+            onChange={(e) => setDraft({ ...draft, type: e.target.value as SpecialPaymentType })}
+            className={inputClass}
+          >
+            {(Object.keys(SPECIAL_PAYMENT_LABELS) as SpecialPaymentType[]).map(type => (
+              <option key={type} value={type}>{SPECIAL_PAYMENT_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Payout Month</label>
+          <input
+            type="month"
+            value={draft.payoutMonth}
+            onChange={(e) => setDraft({ ...draft, payoutMonth: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Amount</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={draft.amount || ''}
+            onChange={(e) => setDraft({ ...draft, amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={inputClass}
+          />
+          {draft.type === 'thirteenth_month' && salaryCalc.basicSalary > 0 && (
+            <button
+              onClick={() => setDraft({ ...draft, amount: salaryCalc.basicSalary })}
+              className="mt-0.5 text-[10px] text-blue-600 hover:underline dark:text-blue-400"
+            >
+              Use one month&apos;s basic salary
+            </button>
+          )}
+        </div>
+        <div>
+          <label className={labelClass}>Exchange Rate in Payout Month</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            value={payoutRate || ''}
+            onChange={(e) => setPayoutRate(parseFloat(e.target.value) || 0)}
+            disabled={!draft.rateLinked}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Tax</label>
+          <select
+            value={draft.taxTreatment}
+            onChange={(e) => setDraft({ ...draft, taxTreatment: e.target.value as SpecialPaymentTaxTreatment })}
+            className={inputClass}
+          >
+            {(Object.keys(SPECIAL_PAYMENT_TAX_LABELS) as SpecialPaymentTaxTreatment[]).map(treatment => (
+              <option key={treatment} value={treatment}>{SPECIAL_PAYMENT_TAX_LABELS[treatment]}</option>
+            ))}
+          </select>
+        </div>
+        {draft.taxTreatment === 'flat' && (
+          <div>
+            <label className={labelClass}>Flat Rate (%)</label>
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={100}
+              value={draft.flatTaxRate !== undefined ? draft.flatTaxRate * 100 : ''}
+              onChange={(e) => setDraft({ ...draft, flatTaxRate: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })}
+              className={inputClass}
+            />
+          </div>
+        )}
+        <label className="col-span-2 flex items-center text-xs text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={draft.rateLinked}
+            onChange={(e) => setDraft({ ...draft, rateLinked: e.target.checked })}
+            className="mr-1"
+          />
+          Moves with the rate ratio
+        </label>
+      </div>
+
+      {draft.amount > 0 && (
+        <div className="space-y-0.5">
+          <div className="flex justify-between">
+            <span className="text-xs text-gray-600 dark:text-gray-300">Gross{draft.rateLinked && ` (× ${result.rateRatio.toFixed(4)})`}:</span>
+            <span className="text-xs font-medium">EGP {formatAmount(result.grossAmount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-xs text-gray-600 dark:text-gray-300">Income Tax:</span>
+            <span className="text-xs font-medium text-red-600">-EGP {formatAmount(result.incomeTax)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-xs text-gray-600 dark:text-gray-300">Net:</span>
+            <span className="text-xs font-semibold">EGP {formatAmount(result.netAmount)}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={!employeeId || savePayment.isPending}
+          className="px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {savePayment.isPending ? 'Saving...' : 'Add Payment'}
+        </button>
+      </div>
+    </div>
+  );
+}
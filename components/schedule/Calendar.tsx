@@ -1,19 +1,34 @@
 import React from 'react';
 import { format } from 'date-fns';
 import DayCell from './DayCell';
-import { CalendarDay, MonthData, ShiftType } from '../../lib/types/schedule';
+import { CalendarDay, MonthData, ShiftPattern, ShiftType } from '../../lib/types/schedule';
+import { getShiftLabel } from '../../lib/utils/shiftDefinitions';
 
 interface CalendarProps {
   monthData: MonthData;
   onDayClick?: (day: CalendarDay) => void;
+  // Employee's rotation, for its shift times in the legend
+  shiftPattern?: ShiftPattern;
 }
 
 const Calendar: React.FC<CalendarProps> = ({ 
   monthData,
-  onDayClick
+  onDayClick,
+  shiftPattern
 }) => {
   const { year, month, name, days } = monthData;
   
+  // Evening shifts are only shown for rotations that have them
+  const hasEveningShifts = !!shiftPattern && Object.values(shiftPattern.slots).some(slots => slots.includes('Evening'));
+  const legendItems = Object.entries(ShiftLegendItems)
+    .filter(([type]) => type !== 'Evening' || hasEveningShifts)
+    .map(([type, item]) => [
+      type,
+      type === 'Day' || type === 'Evening' || type === 'Night'
+        ? { ...item, label: getShiftLabel(type, shiftPattern?.id) }
+        : item
+    ] as const);
+  
   // Day of week headers
   const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   
@@ -73,12 +88,13 @@ const Calendar: React.FC<CalendarProps> = ({
       {/* Legend */}
       <div className="mt-6 sc-shift-legend">
         {/* Shift type legend */}
-        {Object.entries(ShiftLegendItems).map(([type, item]) => (
+        {legendItems.map(([type, item]) => (
           <div key={type} className="sc-shift-legend-item">
             <span 
               className="color-indicator" 
               style={{ 
                 backgroundColor: type === 'Day' ? 'var(--sc-day-shift-color)' :
+                         type === 'Evening' ? 'var(--sc-evening-shift-color)' :
                          type === 'Night' ? 'var(--sc-night-shift-color)' :
                          type === 'Off' ? 'var(--sc-off-color)' :
                          type === 'Leave' ? 'var(--sc-leave-color)' :
@@ -101,6 +117,10 @@ export const ShiftLegendItems: Record<ShiftType, { label: string, colorClass: st
     label: 'Day Shift (7am-7pm)', 
     colorClass: 'bg-blue-500' 
   },
+  'Evening': { 
+    label: 'Evening Shift (3pm-11pm)', 
+    colorClass: 'bg-cyan-500'
+  },
   'Night': { 
     label: 'Night Shift (7pm-7am)', 
     colorClass: 'bg-green-500'
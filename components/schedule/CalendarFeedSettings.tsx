@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { useCalendarFeed } from '../../lib/hooks/useCalendarFeed';
+import {
+  CALENDAR_FEED_SHIFT_TYPES,
+  DEFAULT_FEED_SHIFT_TYPES,
+  FeedShiftType
+} from '../../lib/utils/calendarFeed';
+
+interface CalendarFeedSettingsProps {
+  employeeId?: string;
+}
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+const CalendarFeedSettings: React.FC<CalendarFeedSettingsProps> = ({ employeeId }) => {
+  const { feed, createFeed, updateShiftTypes, revokeFeed } = useCalendarFeed(employeeId);
+  const [shiftTypes, setShiftTypes] = useState<FeedShiftType[]>(DEFAULT_FEED_SHIFT_TYPES);
+  const [origin, setOrigin] = useState('');
+
+  const activeFeed = feed.data;
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  // Show what the current link publishes
+  useEffect(() => {
+    if (activeFeed) setShiftTypes(activeFeed.shiftTypes);
+  }, [activeFeed]);
+
+  const feedUrl = activeFeed ? `${origin}/api/schedule/feed/${activeFeed.token}.ics` : '';
+  const isDirty = !!activeFeed && (
+    activeFeed.shiftTypes.length !== shiftTypes.length ||
+    shiftTypes.some(type => !activeFeed.shiftTypes.includes(type))
+  );
+
+  const toggleShiftType = (type: FeedShiftType) => {
+    setShiftTypes(prev => (
+      prev.includes(type)
+        ? prev.filter(item => item !== type)
+        : CALENDAR_FEED_SHIFT_TYPES.map(option => option.value).filter(value => value === type || prev.includes(value))
+    ));
+  };
+
+  const handleCreate = async () => {
+    try {
+      await createFeed.mutateAsync(shiftTypes);
+      toast.success(activeFeed ? 'New link created; the old one no longer works' : 'Calendar link created');
+    } catch (error) {
+      toast.error(`Failed to create the calendar link: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleSaveTypes = async () => {
+    if (!activeFeed) return;
+
+    try {
+      await updateShiftTypes.mutateAsync({ feedId: activeFeed.id, shiftTypes });
+      toast.success('Calendar feed updated');
+    } catch (error) {
+      toast.error(`Failed to update the calendar feed: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm('Revoke this link? Calendars subscribed to it will stop updating.')) return;
+
+    try {
+      await revokeFeed.mutateAsync();
+      toast.success('Calendar link revoked');
+    } catch (error) {
+      toast.error(`Failed to revoke the calendar link: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Link copied');
+    } catch (error) {
+      toast.error('Copy the link by hand');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+      <h2 className="text-lg font-bold text-gray-800 dark:text-white mb-2">Calendar Subscription</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Subscribe to your shifts from your phone or desktop calendar. Anyone with the link can see
+        what it publishes, so revoke it if it&apos;s shared by mistake.
+      </p>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2 mb-4">
+        {CALENDAR_FEED_SHIFT_TYPES.map(option => (
+          <label key={option.value} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={shiftTypes.includes(option.value)}
+              onChange={() => toggleShiftType(option.value)}
+              className="mr-1"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      {feed.isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading calendar link...</p>
+      ) : activeFeed ? (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white"
+              aria-label="Calendar feed link"
+            />
+            <button
+              onClick={handleCopy}
+              className="px-3 py-1.5 text-sm font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50"
+            >
+              Copy
+            </button>
+            <a
+              href={feedUrl.replace(/^https?:/, 'webcal:')}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Subscribe
+            </a>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {activeFeed.lastAccessedAt
+              ? `Last fetched ${format(new Date(activeFeed.lastAccessedAt), 'MMM d, HH:mm')}`
+              : 'Not fetched by a calendar yet'}
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={handleRevoke}
+              disabled={revokeFeed.isPending}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+            >
+              Revoke
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={createFeed.isPending || shiftTypes.length === 0}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 disabled:opacity-50"
+            >
+              New Link
+            </button>
+            <button
+              onClick={handleSaveTypes}
+              disabled={!isDirty || updateShiftTypes.isPending || shiftTypes.length === 0}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {updateShiftTypes.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end">
+          <button
+            onClick={handleCreate}
+            disabled={!employeeId || createFeed.isPending || shiftTypes.length === 0}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {createFeed.isPending ? 'Creating...' : 'Create Calendar Link'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarFeedSettings;
@@ -20,6 +20,11 @@ const shiftColors: Record<ShiftType, {
     text: 'text-white',
     border: 'border-blue-600'
   },
+  'Evening': { 
+    bg: 'bg-cyan-500', 
+    text: 'text-white',
+    border: 'border-cyan-600'
+  },
   'Night': { 
     bg: 'bg-green-500', 
     text: 'text-white',
@@ -77,11 +82,12 @@ const DayCell: React.FC<DayCellProps> = ({ day, onClick, ariaLabel, title }) =>
   // Format groups for display with shift indicators
   const formatGroupList = (groups: GroupShiftInfo[]): string => {
     return groups.map(g => 
-      `${g.group}${g.isFirstDay ? ' (1st)' : g.isFirstNight ? ' (1st)' : ' (2nd)'}`
+      `${g.group}${g.shiftNumber ? ` (${g.shiftNumber})` : ''}`
     ).join(', ');
   };
   
   const groupsOnDayShift = formatGroupList(groupAssignments.dayShift);
+  const groupsOnEveningShift = formatGroupList(groupAssignments.eveningShift);
   const groupsOnNightShift = formatGroupList(groupAssignments.nightShift);
   
   return (
@@ -146,6 +152,13 @@ const DayCell: React.FC<DayCellProps> = ({ day, onClick, ariaLabel, title }) =>
         )}
       </div>
       
+      {/* Working times */}
+      {personalShift.hours && (
+        <div className="mt-0.5 text-[10px] text-center text-gray-500 dark:text-gray-300">
+          {personalShift.hours.start}–{personalShift.hours.end}
+        </div>
+      )}
+      
       {/* Overridden status */}
       {personalShift.isOverridden && personalShift.originalType && (
         <div className="mt-1 text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1 bg-yellow-50 dark:bg-yellow-900/20 p-1 rounded-md">
@@ -187,6 +200,15 @@ const DayCell: React.FC<DayCellProps> = ({ day, onClick, ariaLabel, title }) =>
           </div>
         )}
         
+        {groupAssignments.eveningShift.length > 0 && (
+          <div className="flex items-center">
+            <div className="w-2 h-2 rounded-full bg-cyan-500 mr-1.5"></div>
+            <span className="text-xs text-gray-600 dark:text-gray-200 truncate" title={`Evening: ${groupsOnEveningShift}`}>
+              Evening: {groupsOnEveningShift}
+            </span>
+          </div>
+        )}
+        
         {groupAssignments.nightShift.length > 0 && (
           <div className="flex items-center">
             <div className="w-2 h-2 rounded-full bg-green-500 mr-1.5"></div>
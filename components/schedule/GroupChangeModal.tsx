@@ -7,21 +7,19 @@ interface GroupChangeModalProps {
   onClose: () => void;
   onSave: (group: ShiftGroup, effectiveDate: string) => void;
   currentGroup: ShiftGroup;
+  // Groups in the employee's rotation
+  groups?: ShiftGroup[];
   isLoading?: boolean;
 }
 
-const GROUP_OPTIONS: { value: ShiftGroup; label: string; recommended?: boolean }[] = [
-  { value: 'A', label: 'Group A' },
-  { value: 'B', label: 'Group B' },
-  { value: 'C', label: 'Group C' },
-  { value: 'D', label: 'Group D' }
-];
+const DEFAULT_GROUPS: ShiftGroup[] = ['A', 'B', 'C', 'D'];
 
 const GroupChangeModal: React.FC<GroupChangeModalProps> = ({ 
   isOpen, 
   onClose,
   onSave,
   currentGroup,
+  groups = DEFAULT_GROUPS,
   isLoading
 }) => {
   const today = format(new Date(), 'yyyy-MM-dd');
@@ -85,23 +83,18 @@ const GroupChangeModal: React.FC<GroupChangeModalProps> = ({
                     Select Group
                   </label>
                   <div className="grid grid-cols-2 gap-2">
-                    {GROUP_OPTIONS.map(option => (
+                    {groups.map(group => (
                       <button
-                        key={option.value}
+                        key={group}
                         type="button"
-                        onClick={() => setSelectedGroup(option.value)}
+                        onClick={() => setSelectedGroup(group)}
                         className={`px-3 py-2 rounded-md border relative ${
-                          selectedGroup === option.value
+                          selectedGroup === group
                             ? 'bg-blue-600 text-white border-blue-700'
                             : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300 border-gray-300 dark:border-gray-700'
                         }`}
                       >
-                        {option.label}
-                        {option.recommended && (
-                          <span className="absolute top-0 right-0 -mt-2 -mr-2 bg-green-500 text-white text-xs px-1 rounded-full">
-                            ✓
-                          </span>
-                        )}
+                        Group {group}
                       </button>
                     ))}
                   </div>
@@ -137,8 +130,8 @@ const GroupChangeModal: React.FC<GroupChangeModalProps> = ({
               {/* Information about the change */}
               <div className="p-3 bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300 rounded-md mb-4 mt-5">
                 <p className="text-sm">
-                  <strong>Note:</strong> Changing your shift group will affect your schedule from the effective date forward. 
-                  Previous dates will retain their original group assignment.
+                  <strong>Note:</strong> A supervisor approves the change before it affects your schedule. Once approved, it
+                  applies from the effective date forward; previous dates will retain their original group assignment.
                 </p>
               </div>
               
@@ -172,7 +165,7 @@ const GroupChangeModal: React.FC<GroupChangeModalProps> = ({
                       <span>Saving...</span>
                     </>
                   ) : (
-                    <span>Save Changes</span>
+                    <span>Request Change</span>
                   )}
                 </button>
               </div>
@@ -18,6 +18,11 @@ const shiftConfig: Record<ShiftType, {
     textColor: 'white',
     label: 'Day'
   },
+  'Evening': { 
+    bgColor: '#06b6d4', // Cyan, between the day and night colors
+    textColor: 'white',
+    label: 'Eve'
+  },
   'Night': { 
     bgColor: '#10b981', // More vibrant green
     textColor: 'white',
@@ -252,6 +257,13 @@ const MobileScheduleView: React.FC<MobileScheduleViewProps> = ({
                 </div>
               )}
               
+              {selectedDay.groupAssignments.eveningShift.length > 0 && (
+                <div className="flex items-center gap-2 text-xs text-[var(--sc-text-secondary)]">
+                  <div className="w-2 h-2 rounded-full bg-cyan-500"></div>
+                  <span>Evening shift: Groups {selectedDay.groupAssignments.eveningShift.map(g => g.group).join(', ')}</span>
+                </div>
+              )}
+              
               {selectedDay.groupAssignments.nightShift.length > 0 && (
                 <div className="flex items-center gap-2 text-xs text-[var(--sc-text-secondary)]">
                   <div className="w-2 h-2 rounded-full bg-green-500"></div>
@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { DefinedShift, ShiftDefinition, ShiftPattern } from '../../lib/types/schedule';
+import { getShiftDurationMinutes, resolveShiftDefinition } from '../../lib/utils/shiftDefinitions';
+
+interface ShiftDefinitionsEditorProps {
+  token: string | null;
+  patterns: ShiftPattern[];
+}
+
+const SHIFT_TYPES: DefinedShift[] = ['Day', 'Evening', 'Night', 'Regular'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Start a new definition from the times that currently apply
+const newDefinition = (shiftType: DefinedShift, patternId: string | null): ShiftDefinition => {
+  const current = resolveShiftDefinition(shiftType, patternId, shiftType === 'Regular' ? 0 : undefined);
+
+  return {
+    ...(current || { name: `${shiftType} Shift`, start: '07:00', end: '19:00', breakMinutes: 0, paidHours: 12, nightWindow: null }),
+    id: undefined,
+    patternId,
+    shiftType,
+    daysOfWeek: shiftType === 'Regular' ? current?.daysOfWeek || [0, 1, 2, 3] : null
+  };
+};
+
+export function ShiftDefinitionsEditor({ token, patterns }: ShiftDefinitionsEditorProps) {
+  const [definitions, setDefinitions] = useState<ShiftDefinition[]>([]);
+  // '' for the site-wide times
+  const [scope, setScope] = useState<string>('');
+  const [form, setForm] = useState<ShiftDefinition | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchDefinitions = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/admin/shift-definitions', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load shift times');
+      }
+
+      setDefinitions(data);
+    } catch (error) {
+      console.error('Error loading shift definitions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load shift times');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchDefinitions();
+  }, [fetchDefinitions]);
+
+  const scoped = definitions.filter(definition => (definition.patternId || '') === scope);
+
+  const saveDefinition = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/admin/shift-definitions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(form)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details = data.details ? Object.values(data.details).flat().join(', ') : '';
+        throw new Error(details || data.error || 'Failed to save the shift times');
+      }
+
+      toast.success(`${data.name} saved`);
+      setForm(null);
+      await fetchDefinitions();
+    } catch (error) {
+      console.error('Error saving shift definition:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the shift times');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteDefinition = async (definition: ShiftDefinition) => {
+    if (!confirm(`Remove ${definition.name}? The ${definition.patternId ? 'site-wide' : 'built-in'} times will apply instead.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/shift-definitions?id=${definition.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove the shift times');
+      }
+
+      setDefinitions(prev => prev.filter(item => item.id !== definition.id));
+    } catch (error) {
+      console.error('Error deleting shift definition:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove the shift times');
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!form) return;
+    const days = form.daysOfWeek || [];
+    setForm({
+      ...form,
+      daysOfWeek: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort()
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+      <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">Shift Times</h2>
+      <p className="text-sm text-gray-700 dark:text-gray-300 mb-4">
+        A pattern&apos;s own times replace the site-wide ones for that shift. Shifts without any
+        use the built-in times. Hours inside the night window count as night overtime.
+      </p>
+
+      <div className="mb-4">
+        <label className={labelClass}>Applies to</label>
+        <select
+          value={scope}
+          onChange={(e) => {
+            setScope(e.target.value);
+            setForm(null);
+          }}
+          className={inputClass}
+        >
+          <option value="">Whole site</option>
+          {patterns.map(pattern => (
+            <option key={pattern.id} value={pattern.id || ''}>{pattern.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700 mb-4">
+        {scoped.map(definition => (
+          <li key={definition.id} className="py-2 flex items-center justify-between text-sm text-gray-900 dark:text-white">
+            <span>
+              {definition.name}
+              <span className="ml-2 text-gray-500 dark:text-gray-400">
+                {definition.start}–{definition.end} · {definition.paidHours}h paid
+                {definition.breakMinutes > 0 && ` · ${definition.breakMinutes} min break`}
+                {definition.nightWindow && ` · night ${definition.nightWindow.start}–${definition.nightWindow.end}`}
+                {definition.daysOfWeek && ` · ${definition.daysOfWeek.map(day => WEEKDAYS[day]).join(', ')}`}
+              </span>
+            </span>
+            <span className="flex gap-2">
+              <button
+                onClick={() => setForm(definition)}
+                className="px-2 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => deleteDefinition(definition)}
+                className="text-xs text-red-600 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </span>
+          </li>
+        ))}
+        {scoped.length === 0 && (
+          <li className="py-2 text-sm text-gray-500 dark:text-gray-400">
+            {scope ? 'Uses the site-wide times.' : 'Uses the built-in times.'}
+          </li>
+        )}
+      </ul>
+
+      {!form ? (
+        <div className="flex flex-wrap gap-2">
+          {SHIFT_TYPES.map(shiftType => (
+            <button
+              key={shiftType}
+              type="button"
+              onClick={() => setForm(newDefinition(shiftType, scope || null))}
+              className="px-3 py-1 text-xs font-medium rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+            >
+              + {shiftType === 'Regular' ? 'Office hours' : `${shiftType} shift`}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <form onSubmit={saveDefinition} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Start</label>
+              <input
+                type="time"
+                value={form.start}
+                onChange={(e) => setForm({ ...form, start: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>End</label>
+              <input
+                type="time"
+                value={form.end}
+                onChange={(e) => setForm({ ...form, end: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Unpaid Break (minutes)</label>
+              <input
+                type="number"
+                min={0}
+                value={form.breakMinutes}
+                onChange={(e) => setForm({ ...form, breakMinutes: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Paid Hours</label>
+              <input
+                type="number"
+                min={0}
+                step="0.25"
+                value={form.paidHours}
+                onChange={(e) => setForm({ ...form, paidHours: Number(e.target.value) })}
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {Math.round((getShiftDurationMinutes(form) - form.breakMinutes) / 6) / 10}h on site less the break
+              </p>
+            </div>
+            <div>
+              <label className={labelClass}>Night Window</label>
+              <div className="flex gap-2">
+                <input
+                  type="time"
+                  value={form.nightWindow?.start || ''}
+                  onChange={(e) => setForm({
+                    ...form,
+                    nightWindow: e.target.value ? { start: e.target.value, end: form.nightWindow?.end || '06:00' } : null
+                  })}
+                  className={inputClass}
+                  aria-label="Night window start"
+                />
+                <input
+                  type="time"
+                  value={form.nightWindow?.end || ''}
+                  onChange={(e) => setForm({
+                    ...form,
+                    nightWindow: e.target.value ? { start: form.nightWindow?.start || '22:00', end: e.target.value } : null
+                  })}
+                  className={inputClass}
+                  aria-label="Night window end"
+                />
+              </div>
+            </div>
+          </div>
+
+          {form.shiftType === 'Regular' && (
+            <div>
+              <label className={labelClass}>Days</label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map((name, day) => (
+                  <label key={name} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={(form.daysOfWeek || []).includes(day)}
+                      onChange={() => toggleWeekday(day)}
+                      className="mr-1"
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="px-4 py-2 rounded-lg text-gray-700 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !token}
+              className="px-4 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Shift Times'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { format } from 'date-fns';
 import { CalendarDay, ShiftType } from '../../lib/types/schedule';
-import { updateUserOvertime } from '../../lib/overtime';
+import { OVERTIME_SHIFT_TYPES } from '../../lib/salary/typedOvertime';
+import { OvertimeBreach } from '../../lib/salary/overtimeLimits';
+import { getShiftLabel } from '../../lib/utils/shiftDefinitions';
+import { StaffingCheck, STAFFING_CHECKED_SHIFT_TYPES } from '../../lib/utils/staffing';
+import StaffingWarnings from './StaffingWarnings';
 import { useAuth } from '../../lib/authContext';
-import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../../lib/supabase';
 import { toast } from 'react-hot-toast';
 
@@ -13,11 +16,19 @@ interface ShiftEditModalProps {
   onClose: () => void;
   onSave: (date: string, shiftType: ShiftType, notes?: string) => void;
   isLoading?: boolean;
+  // Check an overtime or in-lieu shift against the overtime limits before saving
+  checkLimits?: (date: string, shiftType: ShiftType) => Promise<OvertimeBreach[]>;
+  // Check taking the day off against the minimum staffing rules before saving
+  checkStaffing?: (date: string, shiftType: 'Leave' | 'Off') => Promise<StaffingCheck>;
+  // Pattern the employee follows, for its shift times
+  patternId?: string | null;
 }
 
-const SHIFT_OPTIONS: { value: ShiftType; label: string }[] = [
-  { value: 'Day', label: 'Day Shift (7am-7pm)' },
-  { value: 'Night', label: 'Night Shift (7pm-7am)' },
+// Labels of the shifts with configured times come from their shift definitions
+const getShiftOptions = (patternId?: string | null): { value: ShiftType; label: string }[] => [
+  { value: 'Day', label: getShiftLabel('Day', patternId) },
+  { value: 'Evening', label: getShiftLabel('Evening', patternId) },
+  { value: 'Night', label: getShiftLabel('Night', patternId) },
   { value: 'Off', label: 'Off Duty' },
   { value: 'Leave', label: 'On Leave' },
   { value: 'Overtime', label: 'Overtime' },
@@ -29,14 +40,21 @@ const ShiftEditModal: React.FC<ShiftEditModalProps> = ({
   isOpen, 
   onClose,
   onSave,
-  isLoading
+  isLoading,
+  checkLimits,
+  checkStaffing,
+  patternId
 }) => {
   const auth = useAuth() as any;
   const user = auth?.user;
-  const queryClient = useQueryClient();
   // Form state
   const [selectedShift, setSelectedShift] = useState<ShiftType>('Off');
   const [notes, setNotes] = useState<string>('');
+  const [limitWarnings, setLimitWarnings] = useState<OvertimeBreach[]>([]);
+  const [staffing, setStaffing] = useState<StaffingCheck | null>(null);
+  // Taking a shift off can't be saved until the staffing check has come back clear of blocking rules
+  const [staffingStatus, setStaffingStatus] = useState<'idle' | 'checking' | 'checked' | 'failed'>('idle');
+  const staffingHold = staffingStatus === 'checking' || staffingStatus === 'failed' || !!staffing?.blocked;
   
   // Initialize form when day changes
   useEffect(() => {
@@ -45,6 +63,48 @@ const ShiftEditModal: React.FC<ShiftEditModalProps> = ({
       setNotes(day.personalShift.notes || '');
     }
   }, [day]);
+
+  // Warn about overtime limits while an overtime or in-lieu shift is selected
+  useEffect(() => {
+    setLimitWarnings([]);
+    if (!day || !checkLimits || !OVERTIME_SHIFT_TYPES.includes(selectedShift)) return;
+
+    let cancelled = false;
+    checkLimits(day.date, selectedShift)
+      .then(breaches => {
+        if (!cancelled) setLimitWarnings(breaches);
+      })
+      .catch(error => console.error('Error checking overtime limits:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [day, selectedShift, checkLimits]);
+
+  // Check the team's staffing while leave or a day off is selected in place of a shift
+  useEffect(() => {
+    setStaffing(null);
+    setStaffingStatus('idle');
+    if (!day || !checkStaffing || !STAFFING_CHECKED_SHIFT_TYPES.includes(selectedShift)) return;
+    if (selectedShift === day.personalShift.type) return;
+
+    let cancelled = false;
+    setStaffingStatus('checking');
+    checkStaffing(day.date, selectedShift as 'Leave' | 'Off')
+      .then(check => {
+        if (cancelled) return;
+        setStaffing(check);
+        setStaffingStatus('checked');
+      })
+      .catch(error => {
+        console.error('Error checking staffing:', error);
+        if (!cancelled) setStaffingStatus('failed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [day, selectedShift, checkStaffing]);
   
   // Handle close
   const handleClose = () => {
@@ -57,39 +117,11 @@ const ShiftEditModal: React.FC<ShiftEditModalProps> = ({
   const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (day && !isLoading && user) {
-      // Track whether we had a change to/from overtime
-      const wasOvertime = day.personalShift.type === 'Overtime';
-      const nowOvertime = selectedShift === 'Overtime';
-      
-      // Update the shift and notes
+    if (day && !isLoading && user && !staffingHold) {
+      // Update the shift and notes. The mutation rebuilds the month's overtime
+      // from the schedule once the override is saved, so Overtime and InLieu
+      // days need no separate salary update here.
       onSave(day.date, selectedShift, notes === '' ? undefined : notes);
-      
-      // If the selected shift is Overtime, add 24 hours to the user's overtime
-      if (nowOvertime) {
-        const overtimeHours = 24;
-        // Call the function to update the user's overtime
-        updateUserOvertime(day.date, overtimeHours, user.id)
-          .then(async () => {
-            // Force immediate refetch of salary and overtime data
-            const monthStart = new Date(day.date);
-            monthStart.setDate(1);
-            
-            // Invalidate and refetch salary and overtime data
-            queryClient.invalidateQueries({ queryKey: ['salaries'] });
-            queryClient.invalidateQueries({ queryKey: ['overtime'] });
-            await Promise.all([
-                queryClient.refetchQueries({ queryKey: ['salaries'] }),
-                queryClient.refetchQueries({ queryKey: ['overtime'] })
-            ]);
-          });
-      } 
-      // If changing from Overtime to another shift type, let the mutation handle recalculation
-      else if (wasOvertime && !nowOvertime) {
-        // No need to delete or call updateUserOvertime here, 
-        // the main mutation will handle the recalculation based on the shift change.
-        console.log(`Changing from Overtime on ${day.date}. Mutation will handle salary update.`);
-      }
     }
   };
   
@@ -109,17 +141,23 @@ const ShiftEditModal: React.FC<ShiftEditModalProps> = ({
   // Format the date for display
   const formattedDate = format(new Date(day.date), 'EEEE, MMMM d, yyyy');
   
+  const shiftOptions = getShiftOptions(patternId);
+  
   // Base/original shift (what would be scheduled without override)
   const originalShift = day.personalShift.originalType || day.personalShift.type;
-  const originalShiftName = SHIFT_OPTIONS.find(option => option.value === originalShift)?.label || originalShift;
+  const originalShiftName = shiftOptions.find(option => option.value === originalShift)?.label || originalShift;
   
   // Get which groups are on shifts for this day
   const groupsOnDayShift = day.groupAssignments.dayShift.map(g => 
-    `Group ${g.group}${g.isFirstDay ? ' (1st day)' : ' (2nd day)'}`
+    `Group ${g.group}${g.shiftNumber ? ` (${g.shiftNumber} day)` : ''}`
+  ).join(', ');
+  
+  const groupsOnEveningShift = day.groupAssignments.eveningShift.map(g => 
+    `Group ${g.group}${g.shiftNumber ? ` (${g.shiftNumber} evening)` : ''}`
   ).join(', ');
   
   const groupsOnNightShift = day.groupAssignments.nightShift.map(g => 
-    `Group ${g.group}${g.isFirstNight ? ' (1st night)' : ' (2nd night)'}`
+    `Group ${g.group}${g.shiftNumber ? ` (${g.shiftNumber} night)` : ''}`
   ).join(', ');
   
   return (
@@ -147,6 +185,12 @@ const ShiftEditModal: React.FC<ShiftEditModalProps> = ({
                 <span className="inline-block w-2 h-2 rounded-full bg-blue-500 mr-2"></span>
                 Day Shift: {groupsOnDayShift}
               </p>
+              {groupsOnEveningShift && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  <span className="inline-block w-2 h-2 rounded-full bg-cyan-500 mr-2"></span>
+                  Evening Shift: {groupsOnEveningShift}
+                </p>
+              )}
               <p className="text-sm text-gray-600 dark:text-gray-400">
                 <span className="inline-block w-2 h-2 rounded-full bg-indigo-600 mr-2"></span>
                 Night Shift: {groupsOnNightShift}
@@ -181,12 +225,39 @@ const ShiftEditModal: React.FC<ShiftEditModalProps> = ({
                 bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200
                 focus:outline-none focus:ring-2 focus:ring-gray-500"
             >
-              {SHIFT_OPTIONS.map(option => (
+              {shiftOptions.map(option => (
                 <option key={option.value} value={option.value}>{option.label}</option>
               ))}
             </select>
           </div>
           
+          {/* Overtime limit warnings */}
+          {limitWarnings.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 rounded-md">
+              <p className="text-sm font-medium mb-1">This shift breaks the overtime limits:</p>
+              <ul className="list-disc list-inside space-y-0.5">
+                {limitWarnings.map(warning => (
+                  <li key={`${warning.kind}-${warning.date}`} className="text-xs">{warning.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          
+          {/* Minimum staffing */}
+          {staffing && (
+            <div className="mb-4">
+              <StaffingWarnings check={staffing} />
+            </div>
+          )}
+          {staffingStatus === 'checking' && (
+            <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">Checking minimum staffing...</p>
+          )}
+          {staffingStatus === 'failed' && (
+            <div className="mb-4 p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+              <p className="text-sm">Could not check minimum staffing for this day. Close and try again.</p>
+            </div>
+          )}
+          
           {/* Notes */}
           <div className="mb-4">
             <label htmlFor="notes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -273,10 +344,10 @@ const ShiftEditModal: React.FC<ShiftEditModalProps> = ({
               
               <button
                 type="submit"
-                disabled={isLoading}
+                disabled={isLoading || staffingHold}
                 className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700
                   text-white focus:outline-none focus:ring-2 focus:ring-blue-500
-                  flex items-center space-x-1"
+                  flex items-center space-x-1 disabled:opacity-50"
               >
                 {isLoading ? (
                   <>
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import { ShiftType } from '../../lib/types/schedule';
+import { ShiftSwap, SwapOption } from '../../lib/utils/shiftSwaps';
+
+interface ShiftSwapFormProps {
+  token: string;
+  onProposed: (swap: ShiftSwap) => void;
+}
+
+type OfferedShift = { date: string; shiftType: ShiftType };
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+const formatDay = (date: string) => format(parseISO(date), 'EEE, MMM d');
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+/**
+ * Offer one of my shifts to a colleague from another group, in exchange for one of theirs
+ */
+const ShiftSwapForm: React.FC<ShiftSwapFormProps> = ({ token, onProposed }) => {
+  const [shifts, setShifts] = useState<OfferedShift[]>([]);
+  const [options, setOptions] = useState<SwapOption[]>([]);
+  const [requesterDate, setRequesterDate] = useState('');
+  const [colleagueId, setColleagueId] = useState('');
+  const [colleagueDate, setColleagueDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [loadingOptions, setLoadingOptions] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // My shifts, and once one is picked, who could take it
+  useEffect(() => {
+    const loadOptions = async () => {
+      setLoadingOptions(true);
+      try {
+        const query = requesterDate ? `?date=${requesterDate}` : '';
+        const response = await fetch(`/api/shift-swaps/options${query}`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load shifts');
+        }
+
+        setShifts(data.shifts);
+        setOptions(data.colleagues);
+      } catch (error) {
+        console.error('Error loading shift swap options:', error);
+        toast.error(`Failed to load shifts: ${getErrorMessage(error)}`);
+      } finally {
+        setLoadingOptions(false);
+      }
+    };
+
+    loadOptions();
+  }, [token, requesterDate]);
+
+  const colleague = options.find(option => option.employeeId === colleagueId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!requesterDate || !colleagueId || !colleagueDate) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/shift-swaps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ colleagueId, requesterDate, colleagueDate, reason: reason || undefined })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to propose the swap');
+      }
+
+      toast.success(`Swap proposed to ${colleague?.name || 'your colleague'}`);
+      onProposed(data);
+      setRequesterDate('');
+      setColleagueId('');
+      setColleagueDate('');
+      setReason('');
+    } catch (error) {
+      console.error('Error proposing shift swap:', error);
+      toast.error(`Failed to propose the swap: ${getErrorMessage(error)}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">My shift</label>
+          <select
+            value={requesterDate}
+            onChange={(e) => {
+              setRequesterDate(e.target.value);
+              setColleagueId('');
+              setColleagueDate('');
+            }}
+            className={inputClass}
+          >
+            <option value="">Pick a shift</option>
+            {shifts.map(shift => (
+              <option key={shift.date} value={shift.date}>{formatDay(shift.date)} · {shift.shiftType}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Colleague</label>
+          <select
+            value={colleagueId}
+            onChange={(e) => {
+              setColleagueId(e.target.value);
+              setColleagueDate('');
+            }}
+            disabled={!requesterDate || loadingOptions}
+            className={inputClass}
+          >
+            <option value="">
+              {requesterDate && !loadingOptions && options.length === 0 ? 'Nobody can take this shift' : 'Pick a colleague'}
+            </option>
+            {options.map(option => (
+              <option key={option.employeeId} value={option.employeeId}>{option.name} (Group {option.shiftGroup})</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Their shift</label>
+          <select
+            value={colleagueDate}
+            onChange={(e) => setColleagueDate(e.target.value)}
+            disabled={!colleague}
+            className={inputClass}
+          >
+            <option value="">Pick a shift</option>
+            {colleague?.dates.map(shift => (
+              <option key={shift.date} value={shift.date}>{formatDay(shift.date)} · {shift.shiftType}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <input
+        type="text"
+        placeholder="Reason (optional)"
+        maxLength={500}
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className={inputClass}
+      />
+
+      <button
+        type="submit"
+        disabled={!requesterDate || !colleagueId || !colleagueDate || submitting}
+        className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+      >
+        {submitting ? 'Proposing...' : 'Propose swap'}
+      </button>
+    </form>
+  );
+};
+
+export default ShiftSwapForm;
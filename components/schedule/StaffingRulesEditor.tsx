@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { ShiftPattern } from '../../lib/types/schedule';
+import { ROSTER_HEADCOUNT_SHIFTS } from '../../lib/utils/roster';
+import { StaffingRule } from '../../lib/utils/staffing';
+
+interface StaffingRulesEditorProps {
+  token: string | null;
+  patterns: ShiftPattern[];
+}
+
+const newRule = (): StaffingRule => ({ shiftType: 'Day', shiftGroup: null, minHeadcount: 1, enforcement: 'warn' });
+
+export function StaffingRulesEditor({ token, patterns }: StaffingRulesEditorProps) {
+  const [rules, setRules] = useState<StaffingRule[]>([]);
+  const [form, setForm] = useState<StaffingRule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Every group any pattern rotates through
+  const groups = Array.from(new Set(patterns.flatMap(pattern => pattern.groups))).sort();
+
+  const fetchRules = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/admin/staffing-rules', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load staffing rules');
+      }
+
+      setRules(data);
+    } catch (error) {
+      console.error('Error loading staffing rules:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load staffing rules');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const saveRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/admin/staffing-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(form)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details = data.details ? Object.values(data.details).flat().join(', ') : '';
+        throw new Error(details || data.error || 'Failed to save the staffing rule');
+      }
+
+      toast.success('Staffing rule saved');
+      setForm(null);
+      await fetchRules();
+    } catch (error) {
+      console.error('Error saving staffing rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the staffing rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRule = async (rule: StaffingRule) => {
+    if (!confirm(`Remove the minimum for the ${rule.shiftType} shift${rule.shiftGroup ? ` of Group ${rule.shiftGroup}` : ''}?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/staffing-rules?id=${rule.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove the staffing rule');
+      }
+
+      setRules(prev => prev.filter(item => item.id !== rule.id));
+    } catch (error) {
+      console.error('Error deleting staffing rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove the staffing rule');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+      <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">Minimum Staffing</h2>
+      <p className="text-sm text-gray-700 dark:text-gray-300 mb-4">
+        The fewest people a shift needs each day. Leave and days off that would take a shift
+        below it are warned about, or refused when the rule blocks.
+      </p>
+
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700 mb-4">
+        {rules.map(rule => (
+          <li key={rule.id} className="py-2 flex items-center justify-between text-sm text-gray-900 dark:text-white">
+            <span>
+              {rule.shiftType} shift · {rule.shiftGroup ? `Group ${rule.shiftGroup}` : 'All groups'}
+              <span className="ml-2 text-gray-500 dark:text-gray-400">
+                at least {rule.minHeadcount} · {rule.enforcement === 'block' ? 'blocks' : 'warns'}
+              </span>
+            </span>
+            <span className="flex gap-2">
+              <button
+                onClick={() => setForm(rule)}
+                className="px-2 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => deleteRule(rule)}
+                className="text-xs text-red-600 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </span>
+          </li>
+        ))}
+        {rules.length === 0 && (
+          <li className="py-2 text-sm text-gray-500 dark:text-gray-400">No minimums are set.</li>
+        )}
+      </ul>
+
+      {!form ? (
+        <button
+          type="button"
+          onClick={() => setForm(newRule())}
+          className="px-3 py-1 text-xs font-medium rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+        >
+          + Minimum staffing rule
+        </button>
+      ) : (
+        <form onSubmit={saveRule} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className={labelClass}>Shift</label>
+              <select
+                value={form.shiftType}
+                onChange={(e) => setForm({ ...form, shiftType: e.target.value as StaffingRule['shiftType'] })}
+                className={inputClass}
+              >
+                {ROSTER_HEADCOUNT_SHIFTS.map(shift => (
+                  <option key={shift} value={shift}>{shift}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Group</label>
+              <select
+                value={form.shiftGroup || ''}
+                onChange={(e) => setForm({ ...form, shiftGroup: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">All groups</option>
+                {groups.map(group => (
+                  <option key={group} value={group}>Group {group}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>At Least</label>
+              <input
+                type="number"
+                min={1}
+                value={form.minHeadcount}
+                onChange={(e) => setForm({ ...form, minHeadcount: Number(e.target.value) })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>When Short</label>
+              <select
+                value={form.enforcement}
+                onChange={(e) => setForm({ ...form, enforcement: e.target.value as StaffingRule['enforcement'] })}
+                className={inputClass}
+              >
+                <option value="warn">Warn</option>
+                <option value="block">Block</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="px-4 py-2 rounded-lg text-gray-700 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !token}
+              className="px-4 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Rule'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
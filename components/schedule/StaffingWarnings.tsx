@@ -0,0 +1,57 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { formatStaffingConflict, StaffingCheck } from '../../lib/utils/staffing';
+
+interface StaffingWarningsProps {
+  check: StaffingCheck | null;
+}
+
+/**
+ * Shifts a change would leave short, and who else is already away those days
+ */
+const StaffingWarnings: React.FC<StaffingWarningsProps> = ({ check }) => {
+  if (!check || (check.conflicts.length === 0 && check.absences.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {check.conflicts.length > 0 && (
+        <div className={`p-3 rounded-md ${
+          check.blocked
+            ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+            : 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300'
+        }`}>
+          <p className="text-sm font-medium mb-1">
+            {check.blocked ? 'This would leave shifts below minimum staffing:' : 'This leaves shifts short of their minimum staffing:'}
+          </p>
+          <ul className="list-disc list-inside space-y-0.5">
+            {check.conflicts.map(conflict => (
+              <li key={`${conflict.date}-${conflict.shiftType}-${conflict.shiftGroup || 'all'}`} className="text-xs">
+                {formatStaffingConflict(conflict)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {check.absences.length > 0 && (
+        <div className="p-3 rounded-md bg-gray-50 dark:bg-gray-900/30 text-gray-700 dark:text-gray-300">
+          <p className="text-sm font-medium mb-1">Already away:</p>
+          <ul className="space-y-0.5">
+            {check.absences.map(absence => (
+              <li key={absence.date} className="text-xs">
+                <span className="font-medium">{format(parseISO(absence.date), 'EEE, MMM d')}:</span>{' '}
+                {absence.employees
+                  .map(employee => `${employee.name} (Group ${employee.shiftGroup}, ${employee.shiftType === 'Leave' ? 'leave' : 'off'})`)
+                  .join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StaffingWarnings;
@@ -0,0 +1,113 @@
+import { useRef, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { FiUpload } from 'react-icons/fi';
+import { buildTimesheetEntry, parseBadgeCsv } from '@/lib/salary/timesheets';
+import { useTimesheets } from '@/lib/hooks/useTimesheets';
+
+interface TimesheetEntryFormProps {
+  employeeId?: string;
+  // Month (YYYY-MM) shown; new entries default to its first day
+  month: string;
+}
+
+export function TimesheetEntryForm({ employeeId, month }: TimesheetEntryFormProps) {
+  const { saveEntry, importEntries } = useTimesheets(employeeId, month);
+  const [date, setDate] = useState(`${month}-01`);
+  const [clockIn, setClockIn] = useState('');
+  const [clockOut, setClockOut] = useState('');
+  const [notes, setNotes] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = async () => {
+    const entry = buildTimesheetEntry(date, clockIn, clockOut, notes.trim());
+    if (!entry) {
+      toast.error('Enter the clock-in and clock-out times');
+      return;
+    }
+
+    try {
+      await saveEntry.mutateAsync(entry);
+      toast.success(`Saved times for ${entry.date}`);
+      setClockIn('');
+      setClockOut('');
+      setNotes('');
+    } catch (error) {
+      toast.error(`Failed to save times: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    const { entries, errors } = parseBadgeCsv(await file.text());
+    errors.slice(0, 3).forEach(message => toast.error(message));
+
+    if (entries.length === 0) {
+      toast.error('No entries found in the file');
+      return;
+    }
+
+    try {
+      const imported = await importEntries.mutateAsync(entries);
+      toast.success(`Imported ${imported.length} entr${imported.length === 1 ? 'y' : 'ies'}${errors.length > 0 ? `, skipped ${errors.length} row${errors.length === 1 ? '' : 's'}` : ''}`);
+    } catch (error) {
+      toast.error(`Failed to import timesheet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const labelClass = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-0.5';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <div>
+          <label className={labelClass}>Date</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Clock In</label>
+          <input type="time" value={clockIn} onChange={(e) => setClockIn(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Clock Out</label>
+          <input type="time" value={clockOut} onChange={(e) => setClockOut(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Notes</label>
+          <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        A clock-out before the clock-in is taken as the next morning. Badge reader exports need a header row with date, clock in and clock out columns.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!employeeId || importEntries.isPending}
+          className="flex items-center px-3 py-1.5 text-sm font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 disabled:opacity-50"
+        >
+          <FiUpload className="mr-1" />
+          {importEntries.isPending ? 'Importing...' : 'Upload Badge CSV'}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!employeeId || saveEntry.isPending}
+          className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saveEntry.isPending ? 'Saving...' : 'Add Times'}
+        </button>
+      </div>
+    </div>
+  );
+}
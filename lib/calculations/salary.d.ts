@@ -1,16 +1,20 @@
+import { PayResult, PayRuleSet } from '../salary/payEngine';
+
 export interface SalaryData {
   basicSalary: number;
   overtimeHours: number;
   deductions: number;
   allowances: number;
   month: string;
+  exchangeRate?: number;
 }
 
 export class SalaryCalculation {
-  constructor(data: SalaryData);
+  constructor(data: SalaryData, rules?: PayRuleSet);
+  readonly result: PayResult;
   readonly basicSalary: number;
   readonly overtimePay: number;
   readonly allowances: number;
   readonly deductions: number;
   readonly netSalary: number;
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -1,17 +1,43 @@
+import {
+  computePay,
+  getEffectiveOvertimeHours,
+  getHourlyRate,
+  getRateRatio,
+  PayResult,
+  PayRuleSet
+} from '../salary/payEngine';
+import { PayLineItem } from '../salary/lineItems';
+import { currentPayMonth, resolvePayRules, toPayRuleSet, PayRulesRef } from '../salary/payRules';
+
 export interface SalaryData {
   basicSalary: number;
-  overtimeHours: number;
+  overtimeHours: number; // Day overtime hours
   deductions: number;
   allowances: number;
   month: string;
+  exchangeRate?: number; // Defaults to the rule set's base rate (ratio of 1)
 }
 
 export class SalaryCalculation {
   private data: SalaryData;
-  private readonly OVERTIME_RATE = 1.5; // 150% of basic salary per hour
+  private rules: PayRuleSet;
 
-  constructor(data: SalaryData) {
+  constructor(data: SalaryData, rules?: PayRuleSet) {
     this.data = data;
+    // Use the rules that were in force for the month unless told otherwise
+    this.rules = rules ?? resolvePayRules(data.month);
+  }
+
+  get result(): PayResult {
+    return computePay({
+      basicSalary: this.data.basicSalary,
+      costOfLiving: 0,
+      shiftAllowance: 0,
+      otherEarnings: this.data.allowances,
+      dayOvertimeHours: this.data.overtimeHours,
+      exchangeRate: this.data.exchangeRate ?? this.rules.exchangeRateBase,
+      deduction: this.data.deductions
+    }, this.rules);
   }
 
   get basicSalary(): number {
@@ -19,8 +45,7 @@ export class SalaryCalculation {
   }
 
   get overtimePay(): number {
-    const hourlyRate = this.data.basicSalary / 160; // Assuming 160 working hours per month
-    return this.data.overtimeHours * hourlyRate * this.OVERTIME_RATE;
+    return this.result.overtimePay;
   }
 
   get allowances(): number {
@@ -32,7 +57,7 @@ export class SalaryCalculation {
   }
 
   get netSalary(): number {
-    return this.basicSalary + this.overtimePay + this.allowances - this.deductions;
+    return this.result.totalSalary;
   }
 }
 
@@ -43,7 +68,6 @@ export interface BasicSalaryCalculation {
   shiftAllowance: number;
   otherEarnings: number; // Added other earnings field
   overtimeHours: number;
-  manualOvertimeHours: number;
   // Breakdown of overtime by type
   dayOvertimeHours: number;
   nightOvertimeHours: number;
@@ -52,9 +76,17 @@ export interface BasicSalaryCalculation {
   overtimePay: number;
   variablePay: number;
   deduction: number;
+  // Totals of the month's itemised earning and deduction lines
+  lineEarnings: number;
+  lineDeductions: number;
+  // Statutory deductions from the month's pay rules
+  socialInsurance: number;
+  incomeTax: number;
+  // Loan and advance installments due this month
+  loanRepayment?: number;
   totalSalary: number;
   exchangeRate: number;
-  rateRatio: number; // Exchange rate / 30.8 ratio
+  rateRatio: number; // Exchange rate / base rate ratio
 }
 
 // Default values for basic salary calculation
@@ -64,7 +96,6 @@ export const defaultSalaryCalc: BasicSalaryCalculation = {
   shiftAllowance: 0,
   otherEarnings: 0, // Initialize other earnings
   overtimeHours: 0,
-  manualOvertimeHours: 0,
   // Initialize overtime breakdown by type
   dayOvertimeHours: 0,
   nightOvertimeHours: 0,
@@ -73,6 +104,10 @@ export const defaultSalaryCalc: BasicSalaryCalculation = {
   overtimePay: 0,
   variablePay: 0,
   deduction: 0,
+  lineEarnings: 0,
+  lineDeductions: 0,
+  socialInsurance: 0,
+  incomeTax: 0,
   totalSalary: 0,
   exchangeRate: 0,
   rateRatio: 0, // Initialize rate ratio
@@ -84,16 +119,17 @@ export const defaultSalaryCalc: BasicSalaryCalculation = {
  * @param basicSalary Basic salary amount
  * @param costOfLiving Cost of living allowance
  * @param effectiveOvertimeHours Effective overtime hours after applying multipliers
+ * @param rules Pay rule set, or the month (YYYY-MM) whose rules apply (defaults to the current month)
  * @returns Overtime pay amount
  */
 export function calculateOvertimePay(
   basicSalary: number, 
   costOfLiving: number, 
-  effectiveOvertimeHours: number
+  effectiveOvertimeHours: number,
+  rules: PayRulesRef = currentPayMonth()
 ): number {
-  // Base calculation is (basicSalary + costOfLiving) / 210 * effective hours
-  // where effective hours already includes the multipliers
-  return ((basicSalary + costOfLiving) / 210) * effectiveOvertimeHours;
+  // Effective hours already include the multipliers
+  return getHourlyRate(basicSalary, costOfLiving, toPayRuleSet(rules)) * effectiveOvertimeHours;
 }
 
 /**
@@ -113,7 +149,9 @@ export function calculateVariablePay(
 
 /**
  * Calculate total salary according to formula:
- * Total Salary = [(Basic Salary + Cost of Living + Shift allowance + Other Earnings + Overtime)*(Exchange Rate/30.8)] - deductions
+ * Total Salary = [(Basic Salary + Cost of Living + Shift allowance + Other Earnings + Overtime)*(Exchange Rate/Base Rate)] - deductions
+ *                + earning lines - deduction lines - loan repayment
+ * The base rate comes from the rules in force for the given month (defaults to the current month)
  */
 export function calculateTotalSalary(
   basicSalary: number,
@@ -122,32 +160,39 @@ export function calculateTotalSalary(
   otherEarnings: number,
   overtimePay: number,
   exchangeRate: number,
-  deduction: number
+  deduction: number,
+  rules: PayRulesRef = currentPayMonth(),
+  lineItems: PayLineItem[] = [],
+  loanRepayment: number = 0
 ): number {
-  // Calculate the rate ratio (Exchange Rate/30.8)
-  const rateRatio = exchangeRate / 30.8;
-  
-  // Apply the formula: [(X+Y+Z+E+O)*(Rate/30.8)]-F
-  return (basicSalary + costOfLiving + shiftAllowance + otherEarnings + overtimePay) * rateRatio - deduction;
+  // Overtime pay is already computed, so pass it through as other earnings
+  return computePay({
+    basicSalary,
+    costOfLiving,
+    shiftAllowance,
+    otherEarnings: otherEarnings + overtimePay,
+    exchangeRate,
+    deduction,
+    lineItems,
+    loanRepayment
+  }, toPayRuleSet(rules)).totalSalary;
 }
 
 /**
  * Calculate effective overtime hours based on different overtime types and their multipliers
- * @param dayHours Day overtime hours (1.5x multiplier)
- * @param nightHours Night overtime hours (1.75x multiplier)
- * @param holidayHours Public holiday overtime hours (2.0x multiplier)
+ * @param dayHours Day overtime hours
+ * @param nightHours Night overtime hours
+ * @param holidayHours Public holiday overtime hours
+ * @param rules Pay rule set, or the month (YYYY-MM) whose multipliers apply (defaults to the current month)
  * @returns Effective overtime hours
  */
 export function calculateEffectiveOvertimeHours(
   dayHours: number,
   nightHours: number,
-  holidayHours: number
+  holidayHours: number,
+  rules: PayRulesRef = currentPayMonth()
 ): number {
-  return (
-    dayHours * 1.5 +      // Day overtime: 150%
-    nightHours * 1.75 +   // Night overtime: 175%
-    holidayHours * 2.0    // Holiday overtime: 200%
-  );
+  return getEffectiveOvertimeHours(dayHours, nightHours, holidayHours, toPayRuleSet(rules));
 }
 
 /**
@@ -175,7 +220,7 @@ export function testCalculation() {
   const overtimePay = calculateOvertimePay(basicSalary, costOfLiving, effectiveOvertimeHours);
 
   // Calculate rate ratio
-  const rateRatio = exchangeRate / 30.8;
+  const rateRatio = getRateRatio(exchangeRate);
 
   // Calculate total salary
   const totalSalary = calculateTotalSalary(
@@ -1,172 +1,297 @@
+import { createClient } from '@supabase/supabase-js';
+import { format, lastDayOfMonth, parseISO, subDays } from 'date-fns';
 import { cache } from './cache';
 import { supabase } from './supabase';
+import {
+  CurrencyPair,
+  DEFAULT_CURRENCY_PAIR,
+  FALLBACK_EXCHANGE_RATES
+} from './salary/currency';
+import { getDefaultRateProviders, RateProvider } from './services/rateProviders';
 
 const EXCHANGE_RATE_CACHE_KEY = 'current_exchange_rate';
 const CACHE_TTL = 1 * 60 * 60 * 1000; // 1 hour in milliseconds
-const DEFAULT_EXCHANGE_RATE = 50.60; // Latest default fallback rate
 
-// Get the current exchange rate with auto-update
-export async function getCurrentExchangeRate(): Promise<{ rate: number; lastUpdated: string }> {
-  try {
-    // Try to get from cache first
-    const cachedRate = cache.get<{ rate: number; lastUpdated: string }>(EXCHANGE_RATE_CACHE_KEY);
-    if (cachedRate) {
-      return cachedRate;
+// Days averaged for the rate-linked pay rate
+export const DEFAULT_AVERAGE_WINDOW_DAYS = Number(process.env.EXCHANGE_RATE_AVERAGE_WINDOW_DAYS) || 30;
+
+// Each pair is cached separately
+const cacheKeyFor = (pair: CurrencyPair) => `${EXCHANGE_RATE_CACHE_KEY}:${pair}`;
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// One stored spot rate
+export interface DailyRate {
+  pair: CurrencyPair;
+  date: string; // YYYY-MM-DD
+  rate: number;
+  // Provider the rate came from, or 'manual'
+  source?: string | null;
+}
+
+// Where daily rates are kept
+export interface DailyRateStore {
+  getRates(pair: CurrencyPair, fromDate: string, toDate: string): Promise<DailyRate[]>;
+  saveRate(rate: DailyRate): Promise<void>;
+}
+
+export interface RollingAverage {
+  pair: CurrencyPair;
+  rate: number;
+  windowDays: number;
+  // Number of days in the window that had a rate
+  daysWithRates: number;
+  // Most recent day in the window with a rate
+  lastRateDate: string;
+}
+
+// exchange_rates is admin-only for writes, so saving on the server needs the service role
+const getWriteClient = () => {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  return typeof window === 'undefined' && serviceKey
+    ? createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceKey)
+    : supabase;
+};
+
+// Daily rates in the exchange_rates table, one row per pair and day
+export const supabaseRateStore: DailyRateStore = {
+  async getRates(pair, fromDate, toDate) {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('rate, date, source')
+      .eq('currency_pair', pair)
+      .gte('date', fromDate)
+      .lte('date', toDate)
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      pair,
+      date: row.date,
+      rate: Number(row.rate),
+      source: row.source
+    }));
+  },
+
+  async saveRate({ pair, date, rate, source }) {
+    const { error } = await getWriteClient()
+      .from('exchange_rates')
+      .upsert({
+        currency_pair: pair,
+        date,
+        rate,
+        source: source || null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'currency_pair,date' });
+
+    if (error) throw error;
+  }
+};
+
+/**
+ * Keeps daily rates in memory; for tests and offline use
+ */
+export function createMemoryRateStore(initialRates: DailyRate[] = []): DailyRateStore & { rates: DailyRate[] } {
+  const rates = [...initialRates];
+
+  return {
+    rates,
+    async getRates(pair, fromDate, toDate) {
+      return rates
+        .filter(r => r.pair === pair && r.date >= fromDate && r.date <= toDate)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+    async saveRate(rate) {
+      const index = rates.findIndex(r => r.pair === rate.pair && r.date === rate.date);
+      if (index >= 0) {
+        rates[index] = rate;
+      } else {
+        rates.push(rate);
+      }
     }
+  };
+}
+
+let rateProviders: RateProvider[] | null = null;
+let rateStore: DailyRateStore = supabaseRateStore;
+
+/**
+ * Replace the providers tried for spot rates (null restores the defaults)
+ */
+export function setRateProviders(providers: RateProvider[] | null) {
+  rateProviders = providers;
+}
+
+/**
+ * Replace where daily rates are kept (null restores the database)
+ */
+export function setDailyRateStore(store: DailyRateStore | null) {
+  rateStore = store || supabaseRateStore;
+}
+
+/**
+ * Average the rates that fall inside the window ending on `endDate`
+ * @param rates Daily rates (any range; only those in the window are used)
+ * @param endDate Last day of the window (YYYY-MM-DD), included
+ * @param windowDays Length of the window in days
+ * @returns The average, or null if no day in the window has a rate
+ */
+export function calculateRollingAverage(
+  rates: DailyRate[],
+  endDate: string,
+  windowDays: number = DEFAULT_AVERAGE_WINDOW_DAYS
+): number | null {
+  const startDate = toDateString(subDays(parseISO(endDate), windowDays - 1));
+  const inWindow = rates.filter(r => r.date >= startDate && r.date <= endDate && r.rate > 0);
+  if (inWindow.length === 0) return null;
+
+  const average = inWindow.reduce((sum, r) => sum + r.rate, 0) / inWindow.length;
+  return parseFloat(average.toFixed(4));
+}
 
-    // Try to get the most recent rate from the database
+/**
+ * Get today's spot rate from the first provider that has one
+ */
+export async function fetchSpotRate(
+  pair: CurrencyPair = DEFAULT_CURRENCY_PAIR,
+  date: string = toDateString(new Date())
+): Promise<{ rate: number; source: string } | null> {
+  for (const provider of rateProviders || getDefaultRateProviders()) {
     try {
-      const { data: dbRate, error } = await supabase
-        .from('exchange_rates')
-        .select('rate, created_at')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
-      
-      if (!error && dbRate && dbRate.rate) {
-        const data = {
-          rate: dbRate.rate,
-          lastUpdated: dbRate.created_at
-        };
-        // Cache the rate from database
-        cache.set(EXCHANGE_RATE_CACHE_KEY, data, CACHE_TTL);
-        return data;
+      const rate = await provider.fetchRate(pair, date);
+      if (rate) {
+        console.log(`Fetched ${pair} rate from ${provider.name}:`, rate);
+        return { rate, source: provider.name };
       }
-    } catch (dbError) {
-      console.warn('Could not retrieve exchange rate from database:', dbError);
+    } catch (error) {
+      console.error(`Exchange rate provider ${provider.name} failed:`, error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Store a day's rate, replacing any rate already stored for that pair and day
+ */
+export async function recordDailyRate(rate: DailyRate): Promise<boolean> {
+  try {
+    await rateStore.saveRate(rate);
+    cache.delete(cacheKeyFor(rate.pair));
+    return true;
+  } catch (error) {
+    console.warn(`Failed to store ${rate.pair} rate for ${rate.date}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Rolling average of the stored daily rates over the window ending on `endDate`.
+ * When the window ends today and today's rate isn't stored yet, it is fetched
+ * from the providers and stored first.
+ * @returns The average, or null if no day in the window has a rate
+ */
+export async function getRollingAverageRate(
+  pair: CurrencyPair = DEFAULT_CURRENCY_PAIR,
+  endDate: string = toDateString(new Date()),
+  windowDays: number = DEFAULT_AVERAGE_WINDOW_DAYS
+): Promise<RollingAverage | null> {
+  const startDate = toDateString(subDays(parseISO(endDate), windowDays - 1));
+
+  let rates: DailyRate[] = [];
+  try {
+    rates = await rateStore.getRates(pair, startDate, endDate);
+  } catch (error) {
+    console.warn(`Could not load stored ${pair} rates:`, error);
+  }
+
+  const today = toDateString(new Date());
+  if (endDate === today && !rates.some(r => r.date === today)) {
+    const spot = await fetchSpotRate(pair, today);
+    if (spot) {
+      const todayRate = { pair, date: today, rate: spot.rate, source: spot.source };
+      rates.push(todayRate);
+      await recordDailyRate(todayRate);
     }
+  }
+
+  const rate = calculateRollingAverage(rates, endDate, windowDays);
+  if (rate === null) return null;
 
-    // If not in cache or database, fetch new rate
-    const newRate = await get30DayAverageRate();
+  const inWindow = rates.filter(r => r.date >= startDate && r.date <= endDate);
+  return {
+    pair,
+    rate,
+    windowDays,
+    daysWithRates: inWindow.length,
+    lastRateDate: inWindow.map(r => r.date).sort().pop() as string
+  };
+}
+
+/**
+ * Rolling average for a month: the window ends on the month's last day,
+ * or today for the current month
+ * @param month Month in YYYY-MM format
+ */
+export async function getMonthlyAverageRate(
+  month: string,
+  pair: CurrencyPair = DEFAULT_CURRENCY_PAIR,
+  windowDays: number = DEFAULT_AVERAGE_WINDOW_DAYS
+): Promise<RollingAverage | null> {
+  const monthEnd = toDateString(lastDayOfMonth(parseISO(`${month.substring(0, 7)}-01`)));
+  const today = toDateString(new Date());
+  return getRollingAverageRate(pair, monthEnd < today ? monthEnd : today, windowDays);
+}
+
+// Get the current exchange rate for a pair with auto-update
+export async function getCurrentExchangeRate(
+  pair: CurrencyPair = DEFAULT_CURRENCY_PAIR
+): Promise<{ rate: number; lastUpdated: string; pair: CurrencyPair }> {
+  const DEFAULT_EXCHANGE_RATE = FALLBACK_EXCHANGE_RATES[pair];
+
+  try {
+    // Try to get from cache first
+    const cachedRate = cache.get<{ rate: number; lastUpdated: string; pair: CurrencyPair }>(cacheKeyFor(pair));
+    if (cachedRate) {
+      return cachedRate;
+    }
+
+    const average = await getRollingAverageRate(pair);
     
-    if (newRate) {
+    if (average) {
       const data = {
-        rate: newRate,
-        lastUpdated: new Date().toISOString()
+        rate: average.rate,
+        lastUpdated: average.lastRateDate,
+        pair
       };
       // Cache the rate
-      cache.set(EXCHANGE_RATE_CACHE_KEY, data, CACHE_TTL);
-      
-      // Save to database in background
-      saveExchangeRate(newRate).catch(err => {
-        console.warn('Failed to save new exchange rate to database:', err);
-      });
-      
+      cache.set(cacheKeyFor(pair), data, CACHE_TTL);
       return data;
     }
 
-    // If all API calls fail, return default rate
-    console.warn('All exchange rate APIs failed, using default rate:', DEFAULT_EXCHANGE_RATE);
-    return { rate: DEFAULT_EXCHANGE_RATE, lastUpdated: new Date().toISOString() };
+    // If no rate is stored and all providers fail, return default rate
+    console.warn('No stored rates and all exchange rate providers failed, using default rate:', DEFAULT_EXCHANGE_RATE);
+    return { rate: DEFAULT_EXCHANGE_RATE, lastUpdated: new Date().toISOString(), pair };
   } catch (error) {
     console.error('Error in getCurrentExchangeRate:', error);
-    return { rate: DEFAULT_EXCHANGE_RATE, lastUpdated: new Date().toISOString() };
+    return { rate: DEFAULT_EXCHANGE_RATE, lastUpdated: new Date().toISOString(), pair };
   }
 }
 
-// Get the current exchange rate from API
-export async function get30DayAverageRate() {
+// Get the average of the last 30 days' rates for a pair
+export async function get30DayAverageRate(pair: CurrencyPair = DEFAULT_CURRENCY_PAIR): Promise<number> {
   try {
-    console.log('Fetching exchange rate...');
-    
-    // First try using your API key
-    const API_KEY = process.env.EXCHANGE_RATE_API_KEY || "e8287e34bce27377331a738e";
-    
-    // Try with a timeout to prevent long-running requests
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-    
-    try {
-      // Try a simpler endpoint that just returns the current rate
-      const response = await fetch(
-        `https://v6.exchangerate-api.com/v6/${API_KEY}/latest/USD`,
-        { signal: controller.signal }
-      );
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data.result === 'success' && data.conversion_rates && data.conversion_rates.EGP) {
-        const rate = parseFloat(data.conversion_rates.EGP.toFixed(2));
-        console.log('Successfully fetched rate:', rate);
-        return rate;
-      } else {
-        throw new Error('Invalid API response format');
-      }
-    } catch (error) {
-      console.error('Error details:', error);
-      clearTimeout(timeoutId);
-    }
-    
-    // Fallback to free API if primary fails
-    try {
-      console.log('Trying fallback API...');
-      
-      // Try with a timeout to prevent long-running requests
-      const fallbackController = new AbortController();
-      const fallbackTimeoutId = setTimeout(() => fallbackController.abort(), 5000); // 5 second timeout
-      
-      const fallbackResponse = await fetch(
-        'https://open.er-api.com/v6/latest/USD',
-        { signal: fallbackController.signal }
-      );
-      
-      clearTimeout(fallbackTimeoutId);
-      
-      if (fallbackResponse.ok) {
-        const fallbackData = await fallbackResponse.json();
-        if (fallbackData.rates && fallbackData.rates.EGP) {
-          const fallbackRate = parseFloat(fallbackData.rates.EGP.toFixed(2));
-          console.log('Successfully fetched fallback rate:', fallbackRate);
-          return fallbackRate;
-        }
-      }
-    } catch (fallbackError) {
-      console.error('Fallback API also failed:', fallbackError);
-    }
-    
-    // Second fallback - try another free API
-    try {
-      console.log('Trying second fallback API...');
-      
-      // Try with a timeout to prevent long-running requests
-      const secondFallbackController = new AbortController();
-      const secondFallbackTimeoutId = setTimeout(() => secondFallbackController.abort(), 5000); // 5 second timeout
-      
-      const secondFallbackResponse = await fetch(
-        'https://api.exchangerate.host/latest?base=USD',
-        { signal: secondFallbackController.signal }
-      );
-      
-      clearTimeout(secondFallbackTimeoutId);
-      
-      if (secondFallbackResponse.ok) {
-        const secondFallbackData = await secondFallbackResponse.json();
-        if (secondFallbackData.rates && secondFallbackData.rates.EGP) {
-          const secondFallbackRate = parseFloat(secondFallbackData.rates.EGP.toFixed(2));
-          console.log('Successfully fetched second fallback rate:', secondFallbackRate);
-          return secondFallbackRate;
-        }
-      }
-    } catch (secondFallbackError) {
-      console.error('Second fallback API also failed:', secondFallbackError);
-    }
-    
-    // All APIs failed, return default value
-    return DEFAULT_EXCHANGE_RATE;
+    const average = await getRollingAverageRate(pair, toDateString(new Date()), 30);
+    return average ? average.rate : FALLBACK_EXCHANGE_RATES[pair];
   } catch (error) {
     console.error('Error in get30DayAverageRate:', error);
-    return DEFAULT_EXCHANGE_RATE;
+    return FALLBACK_EXCHANGE_RATES[pair];
   }
 }
 
-// Save the rate to database and cache
-export async function saveExchangeRate(rate: number): Promise<boolean> {
+// Save the rate for a pair to database and cache
+export async function saveExchangeRate(rate: number, pair: CurrencyPair = DEFAULT_CURRENCY_PAIR): Promise<boolean> {
   try {
     // Get the current session
     const { data: { session }, error: authError } = await supabase.auth.getSession();
@@ -183,7 +308,7 @@ export async function saveExchangeRate(rate: number): Promise<boolean> {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${session.access_token}`
       },
-      body: JSON.stringify({ rate })
+      body: JSON.stringify({ rate, pair })
     });
 
     if (!response.ok) {
@@ -192,13 +317,8 @@ export async function saveExchangeRate(rate: number): Promise<boolean> {
       return false;
     }
 
-    // Update cache
-    const rateData = {
-      rate: rate,
-      lastUpdated: new Date().toISOString()
-    };
-    
-    cache.set(EXCHANGE_RATE_CACHE_KEY, rateData, CACHE_TTL);
+    // The cached value is the rolling average, so recompute it on the next read
+    cache.delete(cacheKeyFor(pair));
     return true;
   } catch (error) {
     console.error('Error in saveExchangeRate:', error);
@@ -7,6 +7,17 @@ export * from './useScheduleData';
 export * from './usePrefetch';
 export * from './useShiftMutation';
 export * from './useLeaveMutation';
+export * from './useSalaryScenarios';
+export * from './usePayslipReconciliations';
+export * from './useSalaryLineItems';
+export * from './useSpecialPayments';
+export * from './useSalaryLoans';
+export * from './useSalaryAuditLog';
+export * from './useBackPayAdjustments';
+export * from './useOvertimeRequests';
+export * from './useTimesheets';
+export * from './useShiftPatterns';
+export * from './useCalendarFeed';
 export * from './queryLogger';
 
 // Export common types
@@ -16,4 +27,10 @@ export type { ShiftData, ShiftOverride, ShiftStats } from './useShiftData';
 export type { LeaveBalanceData } from './useLeaveBalance';
 export type { MonthData as ScheduleMonthData } from '../types/schedule';
 export type { ShiftUpdateData } from './useShiftMutation';
-export type { LeaveRequest, LeaveRecord } from './useLeaveMutation'; 
\ No newline at end of file
+export type { LeaveRequest, LeaveRecord } from './useLeaveMutation';
+export type { ScenarioDraft } from './useSalaryScenarios';
+export type { PayslipReconciliation, PayslipReconciliationDraft } from './usePayslipReconciliations';
+export type { SalaryLineTypeDraft, MonthSalaryLineItem } from './useSalaryLineItems';
+export type { SpecialPaymentDraft } from './useSpecialPayments'; export type { SalaryLoanDraft } from './useSalaryLoans';
+export type { SalaryAuditLogEntry } from './useSalaryAuditLog';
+export type { TimesheetEntryDraft } from './useTimesheets';
@@ -0,0 +1,109 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { getMonthLineItems } from '../salary/lineItems';
+import {
+  BackPayAdjustment,
+  BackPayStatement,
+  getBackPayLineItem,
+  mapBackPayAdjustment
+} from '../salary/backPay';
+import { fetchSalaryLineItems, fetchSalaryLineTypes, replaceSalaryLineItems } from './useSalaryLineItems';
+
+/**
+ * Fetch an employee's back-pay adjustments, newest first
+ */
+export async function fetchBackPayAdjustments(employeeId: string): Promise<BackPayAdjustment[]> {
+  const { data, error } = await supabase
+    .from('back_pay_adjustments')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapBackPayAdjustment);
+}
+
+export function useBackPayAdjustments(employeeId?: string) {
+  const queryClient = useQueryClient();
+
+  const adjustments = useQuery<BackPayAdjustment[]>({
+    queryKey: ['backPayAdjustments', employeeId],
+    queryFn: async () => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['backPayAdjustments', employeeId], `Fetching back-pay adjustments for ${employeeId}`);
+
+      try {
+        return await fetchBackPayAdjustments(employeeId);
+      } catch (error: any) {
+        queryLogger.error(['backPayAdjustments', employeeId], `Error fetching back-pay adjustments: ${error.message}`, error);
+        throw error;
+      }
+    },
+    enabled: !!employeeId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Record a statement and add its adjustment line to the adjustment month,
+  // replacing the line of an earlier statement for the same months
+  const applyBackPay = useMutation({
+    mutationFn: async ({ statement, rateRatio }: { statement: BackPayStatement; rateRatio: number }) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      const line = getBackPayLineItem(statement);
+      const month = statement.adjustmentMonth;
+
+      queryLogger.log(['backPayAdjustments'], `Applying back pay of ${statement.totalDifference} to ${month}`);
+
+      try {
+        if (line) {
+          const [types, saved] = await Promise.all([
+            fetchSalaryLineTypes(employeeId),
+            fetchSalaryLineItems(employeeId, month)
+          ]);
+          const items = getMonthLineItems(types, saved).filter(item => item.name !== line.name);
+
+          await replaceSalaryLineItems(employeeId, month, [...items, line], rateRatio);
+        }
+
+        const { data, error } = await supabase
+          .from('back_pay_adjustments')
+          .insert({
+            employee_id: employeeId,
+            effective_month: `${statement.correction.effectiveMonth}-01`,
+            end_month: statement.correction.endMonth ? `${statement.correction.endMonth}-01` : null,
+            basic_salary: statement.correction.basicSalary ?? null,
+            cost_of_living: statement.correction.costOfLiving ?? null,
+            exchange_rate: statement.correction.exchangeRate ?? null,
+            statement: statement.months,
+            total_paid: statement.totalPaid,
+            total_corrected: statement.totalCorrected,
+            total_difference: statement.totalDifference,
+            adjustment_month: `${month}-01`,
+            adjustment_line_name: line?.name || null,
+            created_by: employeeId
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        return mapBackPayAdjustment(data);
+      } catch (error: any) {
+        queryLogger.error(['backPayAdjustments'], `Error applying back pay: ${error.message}`, error);
+        throw error;
+      }
+    },
+    onSuccess: (adjustment) => {
+      queryClient.invalidateQueries({ queryKey: ['backPayAdjustments', employeeId] });
+      queryClient.invalidateQueries({ queryKey: ['salaryLineItems', employeeId, adjustment.adjustmentMonth] });
+    }
+  });
+
+  return {
+    adjustments,
+    applyBackPay
+  };
+}
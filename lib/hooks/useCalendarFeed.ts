@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { CalendarFeed, FeedShiftType, generateFeedToken, mapCalendarFeed } from '../utils/calendarFeed';
+
+/**
+ * Fetch an employee's active calendar feed, if they have one
+ */
+export async function fetchCalendarFeed(employeeId: string): Promise<CalendarFeed | null> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? mapCalendarFeed(data) : null;
+}
+
+/**
+ * Revoke every active feed of an employee; their links stop working
+ */
+async function revokeCalendarFeeds(employeeId: string) {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .update({ revoked_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('employee_id', employeeId)
+    .is('revoked_at', null);
+
+  if (error) throw error;
+}
+
+export function useCalendarFeed(employeeId?: string) {
+  const queryClient = useQueryClient();
+
+  const feed = useQuery<CalendarFeed | null>({
+    queryKey: ['calendarFeed', employeeId],
+    queryFn: async () => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['calendarFeed', employeeId], `Fetching calendar feed for ${employeeId}`);
+
+      try {
+        return await fetchCalendarFeed(employeeId);
+      } catch (error: any) {
+        queryLogger.error(['calendarFeed', employeeId], `Error fetching calendar feed: ${error.message}`, error);
+        throw error;
+      }
+    },
+    enabled: !!employeeId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Issue a new link; any previous link is revoked
+  const createFeed = useMutation({
+    mutationFn: async (shiftTypes: FeedShiftType[]) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['calendarFeed'], 'Creating calendar feed link');
+
+      await revokeCalendarFeeds(employeeId);
+
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .insert({ employee_id: employeeId, token: generateFeedToken(), shift_types: shiftTypes })
+        .select()
+        .single();
+
+      if (error) {
+        queryLogger.error(['calendarFeed'], `Error creating calendar feed: ${error.message}`, error);
+        throw error;
+      }
+
+      return mapCalendarFeed(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendarFeed', employeeId] });
+    }
+  });
+
+  // Change what the existing link publishes
+  const updateShiftTypes = useMutation({
+    mutationFn: async ({ feedId, shiftTypes }: { feedId: string; shiftTypes: FeedShiftType[] }) => {
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .update({ shift_types: shiftTypes, updated_at: new Date().toISOString() })
+        .eq('id', feedId)
+        .select()
+        .single();
+
+      if (error) {
+        queryLogger.error(['calendarFeed'], `Error updating calendar feed: ${error.message}`, error);
+        throw error;
+      }
+
+      return mapCalendarFeed(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendarFeed', employeeId] });
+    }
+  });
+
+  const revokeFeed = useMutation({
+    mutationFn: async () => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['calendarFeed'], 'Revoking calendar feed link');
+
+      try {
+        await revokeCalendarFeeds(employeeId);
+      } catch (error: any) {
+        queryLogger.error(['calendarFeed'], `Error revoking calendar feed: ${error.message}`, error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendarFeed', employeeId] });
+    }
+  });
+
+  return {
+    feed,
+    createFeed,
+    updateShiftTypes,
+    revokeFeed
+  };
+}
@@ -0,0 +1,113 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { updateUserOvertime } from '../overtime';
+import { mapOvertimeRequest, OvertimeRequest, OvertimeRequestInputs } from '../salary/overtimeRequests';
+
+/**
+ * Fetch an employee's overtime requests, newest day first
+ */
+export async function fetchOvertimeRequests(employeeId: string): Promise<OvertimeRequest[]> {
+  const { data, error } = await supabase
+    .from('overtime_requests')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .order('date', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapOvertimeRequest);
+}
+
+export function useOvertimeRequests(employeeId?: string) {
+  const queryClient = useQueryClient();
+
+  const requests = useQuery<OvertimeRequest[]>({
+    queryKey: ['overtimeRequests', employeeId],
+    queryFn: async () => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['overtimeRequests', employeeId], `Fetching overtime requests for ${employeeId}`);
+
+      try {
+        return await fetchOvertimeRequests(employeeId);
+      } catch (error: any) {
+        queryLogger.error(['overtimeRequests', employeeId], `Error fetching overtime requests: ${error.message}`, error);
+        throw error;
+      }
+    },
+    enabled: !!employeeId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Request hours worked outside the schedule
+  const submitRequest = useMutation({
+    mutationFn: async (inputs: OvertimeRequestInputs) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['overtimeRequests'], `Requesting ${inputs.hours}h of ${inputs.type} overtime on ${inputs.date}`);
+
+      const { data, error } = await supabase
+        .from('overtime_requests')
+        .insert({
+          employee_id: employeeId,
+          date: inputs.date,
+          hours: inputs.hours,
+          overtime_type: inputs.type,
+          reason: inputs.reason || null,
+          source: 'manual'
+        })
+        .select()
+        .single();
+
+      if (error) {
+        queryLogger.error(['overtimeRequests'], `Error submitting overtime request: ${error.message}`, error);
+        throw error;
+      }
+
+      return mapOvertimeRequest(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['overtimeRequests', employeeId] });
+    }
+  });
+
+  // Withdraw a request; cancelling approved overtime takes it back out of the month's pay
+  const cancelRequest = useMutation({
+    mutationFn: async (request: OvertimeRequest) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['overtimeRequests'], `Cancelling overtime request ${request.id}`);
+
+      const { error } = await supabase
+        .from('overtime_requests')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', request.id);
+
+      if (error) {
+        queryLogger.error(['overtimeRequests'], `Error cancelling overtime request: ${error.message}`, error);
+        throw error;
+      }
+
+      if (request.status === 'approved') {
+        await updateUserOvertime(request.date, 0, employeeId);
+      }
+
+      return request;
+    },
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['overtimeRequests', employeeId] });
+      if (request.status === 'approved') {
+        queryClient.invalidateQueries({ queryKey: ['salaries'] });
+        queryClient.invalidateQueries({ queryKey: ['overtime'] });
+      }
+    }
+  });
+
+  return {
+    requests,
+    submitRequest,
+    cancelRequest
+  };
+}
@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { ReconciliationLine, ReconciliationResult } from '../salary/payslip';
+
+export interface PayslipReconciliation {
+  id: string;
+  employeeId: string;
+  month: string; // YYYY-MM
+  source: 'csv' | 'text';
+  rawPayslip: string;
+  tolerance: number;
+  lines: ReconciliationLine[];
+  flaggedCount: number;
+  createdAt?: string;
+}
+
+export interface PayslipReconciliationDraft {
+  source: 'csv' | 'text';
+  rawPayslip: string;
+  result: ReconciliationResult;
+}
+
+const mapReconciliation = (row: any): PayslipReconciliation => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  month: String(row.month).substring(0, 7),
+  source: row.source,
+  rawPayslip: row.raw_payslip,
+  tolerance: Number(row.tolerance),
+  lines: row.lines || [],
+  flaggedCount: row.flagged_count || 0,
+  createdAt: row.created_at
+});
+
+export function usePayslipReconciliations(employeeId?: string, month?: string) {
+  const queryClient = useQueryClient();
+
+  const reconciliations = useQuery<PayslipReconciliation[]>({
+    queryKey: ['payslipReconciliations', employeeId, month],
+    queryFn: async () => {
+      if (!employeeId || !month) throw new Error('Employee ID and month are required');
+
+      queryLogger.log(['payslipReconciliations', employeeId, month], `Fetching payslip reconciliations for ${month}`);
+
+      const { data, error } = await supabase
+        .from('payslip_reconciliations')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .eq('month', `${month}-01`)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        queryLogger.error(['payslipReconciliations', employeeId, month], `Error fetching payslip reconciliations: ${error.message}`, error);
+        throw error;
+      }
+
+      return (data || []).map(mapReconciliation);
+    },
+    enabled: !!employeeId && !!month,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const saveReconciliation = useMutation({
+    mutationFn: async (draft: PayslipReconciliationDraft) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['payslipReconciliations'], `Saving payslip reconciliation for ${draft.result.month}`);
+
+      const { data, error } = await supabase
+        .from('payslip_reconciliations')
+        .insert({
+          employee_id: employeeId,
+          month: `${draft.result.month}-01`,
+          source: draft.source,
+          raw_payslip: draft.rawPayslip,
+          tolerance: draft.result.tolerance,
+          lines: draft.result.lines,
+          flagged_count: draft.result.flaggedCount
+        })
+        .select()
+        .single();
+
+      if (error) {
+        queryLogger.error(['payslipReconciliations'], `Error saving payslip reconciliation: ${error.message}`, error);
+        throw error;
+      }
+
+      return mapReconciliation(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payslipReconciliations', employeeId] });
+    }
+  });
+
+  return {
+    reconciliations,
+    saveReconciliation
+  };
+}
@@ -0,0 +1,65 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { mapSalaryAuditEntry, SalaryAuditEntry } from '../salary/audit';
+
+export interface SalaryAuditLogEntry extends SalaryAuditEntry {
+  // Name of whoever made the change, when their employee record can be read
+  changedByName: string | null;
+}
+
+/**
+ * Fetch the change history of an employee's salary for a month, newest first
+ * @param month Month in YYYY-MM format
+ */
+export async function fetchSalaryAuditLog(employeeId: string, month: string): Promise<SalaryAuditLogEntry[]> {
+  const { data, error } = await supabase
+    .from('salary_audit_log')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .eq('month', `${month.substring(0, 7)}-01`)
+    .order('changed_at', { ascending: false });
+
+  if (error) throw error;
+
+  const entries = (data || []).map(mapSalaryAuditEntry);
+
+  // Names are best-effort: employees can only read their own record
+  const userIds = Array.from(new Set(entries.map(entry => entry.changedBy).filter((id): id is string => !!id)));
+  const names = new Map<string, string>();
+
+  if (userIds.length > 0) {
+    const { data: people } = await supabase
+      .from('employees')
+      .select('id, name')
+      .in('id', userIds);
+
+    (people || []).forEach(person => names.set(person.id, person.name));
+  }
+
+  return entries.map(entry => ({
+    ...entry,
+    changedByName: entry.changedBy ? names.get(entry.changedBy) || null : null
+  }));
+}
+
+export function useSalaryAuditLog(employeeId?: string, month?: string | null) {
+  return useQuery<SalaryAuditLogEntry[]>({
+    queryKey: ['salaryAuditLog', employeeId, month],
+    queryFn: async () => {
+      if (!employeeId || !month) throw new Error('Employee ID and month are required');
+
+      queryLogger.log(['salaryAuditLog', employeeId], `Fetching salary history for ${employeeId} in ${month}`);
+
+      try {
+        return await fetchSalaryAuditLog(employeeId, month);
+      } catch (error: any) {
+        queryLogger.error(['salaryAuditLog', employeeId], `Error fetching salary history: ${error.message}`, error);
+        throw error;
+      }
+    },
+    enabled: !!employeeId && !!month,
+    // Every save adds to the history, so always refetch when the drawer opens
+    staleTime: 0,
+  });
+}
@@ -1,6 +1,9 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../supabase';
 import { queryLogger } from './queryLogger';
+import { DEFAULT_CURRENCY_PAIR, isCurrencyPair, splitCurrencyPair, toPeggedAmount } from '../salary/currency';
+import { SpecialPayment } from '../salary/specialPayments';
+import { fetchSpecialPayments } from './useSpecialPayments';
 
 export interface SalaryRecord {
   id: string;
@@ -19,12 +22,20 @@ export interface MonthlySalary {
   month: number;
   name: string;
   total: number;
+  socialInsurance: number;
+  incomeTax: number;
+  // Total in the currency the pay is pegged to, at each month's rate
+  totalPegged: number | null;
+  peggedCurrency: string;
 }
 
 export interface SalaryData {
   currentSalary: number | null;
+  // Monthly salaries plus special payments (net)
   yearlyTotal: number | null;
   monthlySalaries: MonthlySalary[];
+  // Bonus, 13th-month and profit-share payments in the year
+  specialPayments: SpecialPayment[];
 }
 
 export function useSalaryData(userId?: string, year?: number) {
@@ -48,12 +59,22 @@ export function useSalaryData(userId?: string, year?: number) {
         throw error;
       }
       
+      // Special payments are kept apart from the monthly records
+      let specialPayments: SpecialPayment[] = [];
+      try {
+        specialPayments = await fetchSpecialPayments(userId, currentYear);
+      } catch (paymentsError: any) {
+        queryLogger.error(['salaryData', userId], `Error fetching special payments: ${paymentsError.message}`, paymentsError);
+      }
+      const specialPaymentsTotal = specialPayments.reduce((sum, payment) => sum + payment.netAmount, 0);
+      
       // Process the salary data
       if (!data || data.length === 0) {
         return {
           currentSalary: null,
-          yearlyTotal: null,
-          monthlySalaries: []
+          yearlyTotal: specialPayments.length > 0 ? specialPaymentsTotal : null,
+          monthlySalaries: [],
+          specialPayments
         };
       }
       
@@ -84,7 +105,7 @@ export function useSalaryData(userId?: string, year?: number) {
       });
       
       // Calculate yearly total and monthly breakdown
-      const yearlyTotal = yearRecords.reduce((sum, record) => sum + (record.total_salary || 0), 0);
+      const yearlyTotal = yearRecords.reduce((sum, record) => sum + (record.total_salary || 0), 0) + specialPaymentsTotal;
       
       // Generate monthly data
       const monthlyData: MonthlySalary[] = [];
@@ -110,7 +131,15 @@ export function useSalaryData(userId?: string, year?: number) {
           monthlyData.push({
             month: m,
             name: monthName,
-            total: monthTotal
+            total: monthTotal,
+            socialInsurance: monthRecords.reduce((sum, record) => sum + (record.social_insurance || 0), 0),
+            incomeTax: monthRecords.reduce((sum, record) => sum + (record.income_tax || 0), 0),
+            totalPegged: monthRecords.every(record => record.exchange_rate > 0)
+              ? monthRecords.reduce((sum, record) => sum + toPeggedAmount(record.total_salary || 0, record.exchange_rate), 0)
+              : null,
+            peggedCurrency: splitCurrencyPair(
+              isCurrencyPair(monthRecords[0].currency_pair) ? monthRecords[0].currency_pair : DEFAULT_CURRENCY_PAIR
+            ).base
           });
         }
       }
@@ -118,7 +147,8 @@ export function useSalaryData(userId?: string, year?: number) {
       return {
         currentSalary: currentMonthRecord?.total_salary || data[0]?.total_salary || null,
         yearlyTotal,
-        monthlySalaries: monthlyData
+        monthlySalaries: monthlyData,
+        specialPayments
       };
     },
     enabled: !!userId,
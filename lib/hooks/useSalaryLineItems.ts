@@ -0,0 +1,250 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { getLineItemAmount, SalaryLineItem, SalaryLineType } from '../salary/lineItems';
+
+export interface SalaryLineTypeDraft extends Omit<SalaryLineType, 'id' | 'employeeId'> {
+  id?: string;
+  // Admins only: define the type for everyone
+  shared?: boolean;
+}
+
+export interface MonthSalaryLineItem extends SalaryLineItem {
+  month: string; // YYYY-MM
+  // Amount after the month's rate ratio
+  paidAmount: number;
+}
+
+const mapLineType = (row: any): SalaryLineType => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  name: row.name,
+  kind: row.kind,
+  taxable: row.taxable,
+  rateLinked: row.rate_linked,
+  recurrence: row.recurrence,
+  defaultAmount: Number(row.default_amount) || 0,
+  isActive: row.is_active
+});
+
+const mapLineItem = (row: any): MonthSalaryLineItem => ({
+  lineTypeId: row.line_type_id,
+  month: String(row.month).substring(0, 7),
+  name: row.name,
+  kind: row.kind,
+  taxable: row.taxable,
+  rateLinked: row.rate_linked,
+  amount: Number(row.amount) || 0,
+  paidAmount: Number(row.paid_amount) || 0
+});
+
+/**
+ * Fetch the saved lines for a range of months (YYYY-MM, both included)
+ */
+export async function fetchSalaryLineItems(
+  employeeId: string,
+  fromMonth: string,
+  toMonth: string = fromMonth
+): Promise<MonthSalaryLineItem[]> {
+  const { data, error } = await supabase
+    .from('salary_line_items')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .gte('month', `${fromMonth}-01`)
+    .lte('month', `${toMonth}-01`)
+    .order('month', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(mapLineItem);
+}
+
+/**
+ * Fetch the employee's own line types and the ones shared with everyone
+ */
+export async function fetchSalaryLineTypes(employeeId: string): Promise<SalaryLineType[]> {
+  const { data, error } = await supabase
+    .from('salary_line_types')
+    .select('*')
+    .or(`employee_id.eq.${employeeId},employee_id.is.null`)
+    .order('kind', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(mapLineType);
+}
+
+/**
+ * Replace a month's saved lines with the given ones
+ * @param rateRatio The month's rate ratio, for the amounts actually paid
+ */
+export async function replaceSalaryLineItems(
+  employeeId: string,
+  month: string,
+  items: SalaryLineItem[],
+  rateRatio: number
+): Promise<MonthSalaryLineItem[]> {
+  const { error: deleteError } = await supabase
+    .from('salary_line_items')
+    .delete()
+    .eq('employee_id', employeeId)
+    .eq('month', `${month}-01`);
+
+  if (deleteError) throw deleteError;
+
+  if (items.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('salary_line_items')
+    .insert(items.map(item => ({
+      employee_id: employeeId,
+      month: `${month}-01`,
+      line_type_id: item.lineTypeId,
+      name: item.name,
+      kind: item.kind,
+      taxable: item.taxable,
+      rate_linked: item.rateLinked,
+      amount: item.amount || 0,
+      paid_amount: getLineItemAmount(item, rateRatio)
+    })))
+    .select();
+
+  if (error) throw error;
+
+  return (data || []).map(mapLineItem);
+}
+
+export function useSalaryLineTypes(employeeId?: string) {
+  const queryClient = useQueryClient();
+
+  // The employee's own types and the ones shared with everyone
+  const lineTypes = useQuery<SalaryLineType[]>({
+    queryKey: ['salaryLineTypes', employeeId],
+    queryFn: async () => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['salaryLineTypes', employeeId], `Fetching salary line types for ${employeeId}`);
+
+      try {
+        return await fetchSalaryLineTypes(employeeId);
+      } catch (error: any) {
+        queryLogger.error(['salaryLineTypes', employeeId], `Error fetching salary line types: ${error.message}`, error);
+        throw error;
+      }
+    },
+    enabled: !!employeeId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Create a line type, or update it when an id is given
+  const saveLineType = useMutation({
+    mutationFn: async (draft: SalaryLineTypeDraft) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['salaryLineTypes'], `Saving salary line type "${draft.name}"`);
+
+      const record = {
+        employee_id: draft.shared ? null : employeeId,
+        name: draft.name.trim(),
+        kind: draft.kind,
+        taxable: draft.taxable,
+        rate_linked: draft.rateLinked,
+        recurrence: draft.recurrence,
+        default_amount: draft.defaultAmount || 0,
+        is_active: draft.isActive,
+        updated_at: new Date().toISOString()
+      };
+
+      const query = draft.id
+        ? supabase.from('salary_line_types').update(record).eq('id', draft.id)
+        : supabase.from('salary_line_types').insert({ ...record, created_by: employeeId });
+
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        queryLogger.error(['salaryLineTypes'], `Error saving salary line type: ${error.message}`, error);
+        throw error;
+      }
+
+      return mapLineType(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salaryLineTypes', employeeId] });
+    }
+  });
+
+  const deleteLineType = useMutation({
+    mutationFn: async (lineTypeId: string) => {
+      queryLogger.log(['salaryLineTypes'], `Deleting salary line type ${lineTypeId}`);
+
+      const { error } = await supabase
+        .from('salary_line_types')
+        .delete()
+        .eq('id', lineTypeId);
+
+      if (error) {
+        queryLogger.error(['salaryLineTypes'], `Error deleting salary line type: ${error.message}`, error);
+        throw error;
+      }
+
+      return lineTypeId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salaryLineTypes', employeeId] });
+    }
+  });
+
+  return {
+    lineTypes,
+    saveLineType,
+    deleteLineType
+  };
+}
+
+export function useSalaryLineItems(employeeId?: string, month?: string) {
+  const queryClient = useQueryClient();
+
+  const lineItems = useQuery<MonthSalaryLineItem[]>({
+    queryKey: ['salaryLineItems', employeeId, month],
+    queryFn: async () => {
+      if (!employeeId || !month) throw new Error('Employee ID and month are required');
+
+      queryLogger.log(['salaryLineItems', employeeId, month], `Fetching salary line items for ${employeeId} ${month}`);
+
+      try {
+        return await fetchSalaryLineItems(employeeId, month);
+      } catch (error: any) {
+        queryLogger.error(['salaryLineItems', employeeId, month], `Error fetching salary line items: ${error.message}`, error);
+        throw error;
+      }
+    },
+    enabled: !!employeeId && !!month,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Replace the month's lines with the given ones
+  const saveLineItems = useMutation({
+    mutationFn: async ({ items, rateRatio }: { items: SalaryLineItem[]; rateRatio: number }) => {
+      if (!employeeId || !month) throw new Error('Employee ID and month are required');
+
+      queryLogger.log(['salaryLineItems'], `Saving ${items.length} salary line items for ${month}`);
+
+      try {
+        return await replaceSalaryLineItems(employeeId, month, items, rateRatio);
+      } catch (error: any) {
+        queryLogger.error(['salaryLineItems'], `Error saving salary line items: ${error.message}`, error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salaryLineItems', employeeId, month] });
+    }
+  });
+
+  return {
+    lineItems,
+    saveLineItems
+  };
+}
@@ -0,0 +1,109 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { mapSalaryLoan, SalaryLoan, SalaryLoanInputs } from '../salary/loans';
+
+export interface SalaryLoanDraft extends SalaryLoanInputs {
+  id?: string;
+  notes?: string;
+}
+
+/**
+ * Fetch an employee's loans and advances, oldest first
+ */
+export async function fetchSalaryLoans(employeeId: string): Promise<SalaryLoan[]> {
+  const { data, error } = await supabase
+    .from('salary_loans')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .order('start_month', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(mapSalaryLoan);
+}
+
+export function useSalaryLoans(employeeId?: string) {
+  const queryClient = useQueryClient();
+
+  const loans = useQuery<SalaryLoan[]>({
+    queryKey: ['salaryLoans', employeeId],
+    queryFn: async () => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['salaryLoans', employeeId], `Fetching loans for ${employeeId}`);
+
+      try {
+        return await fetchSalaryLoans(employeeId);
+      } catch (error: any) {
+        queryLogger.error(['salaryLoans', employeeId], `Error fetching loans: ${error.message}`, error);
+        throw error;
+      }
+    },
+    enabled: !!employeeId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Create a loan, or update it when an id is given
+  const saveLoan = useMutation({
+    mutationFn: async (draft: SalaryLoanDraft) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['salaryLoans'], `Saving loan "${draft.name}" from ${draft.startMonth}`);
+
+      const record = {
+        employee_id: employeeId,
+        name: draft.name,
+        loan_kind: draft.kind,
+        principal: draft.principal,
+        start_month: `${draft.startMonth}-01`,
+        installments: draft.installments,
+        notes: draft.notes || null,
+        updated_at: new Date().toISOString()
+      };
+
+      const query = draft.id
+        ? supabase.from('salary_loans').update(record).eq('id', draft.id)
+        : supabase.from('salary_loans').insert(record);
+
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        queryLogger.error(['salaryLoans'], `Error saving loan: ${error.message}`, error);
+        throw error;
+      }
+
+      return mapSalaryLoan(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salaryLoans', employeeId] });
+    }
+  });
+
+  const deleteLoan = useMutation({
+    mutationFn: async (loanId: string) => {
+      queryLogger.log(['salaryLoans'], `Deleting loan ${loanId}`);
+
+      const { error } = await supabase
+        .from('salary_loans')
+        .delete()
+        .eq('id', loanId);
+
+      if (error) {
+        queryLogger.error(['salaryLoans'], `Error deleting loan: ${error.message}`, error);
+        throw error;
+      }
+
+      return loanId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salaryLoans', employeeId] });
+    }
+  });
+
+  return {
+    loans,
+    saveLoan,
+    deleteLoan
+  };
+}
@@ -0,0 +1,109 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { SalaryScenario, ScenarioInputs } from '../salary/scenarios';
+
+export interface ScenarioDraft {
+  id?: string;
+  name: string;
+  month: string; // YYYY-MM
+  inputs: ScenarioInputs;
+}
+
+const mapScenario = (row: any): SalaryScenario => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  name: row.name,
+  month: String(row.month).substring(0, 7),
+  inputs: row.inputs,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+export function useSalaryScenarios(employeeId?: string) {
+  const queryClient = useQueryClient();
+
+  const scenarios = useQuery<SalaryScenario[]>({
+    queryKey: ['salaryScenarios', employeeId],
+    queryFn: async () => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['salaryScenarios', employeeId], `Fetching salary scenarios for ${employeeId}`);
+
+      const { data, error } = await supabase
+        .from('salary_scenarios')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        queryLogger.error(['salaryScenarios', employeeId], `Error fetching salary scenarios: ${error.message}`, error);
+        throw error;
+      }
+
+      return (data || []).map(mapScenario);
+    },
+    enabled: !!employeeId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Create a scenario, or update it when an id is given
+  const saveScenario = useMutation({
+    mutationFn: async (draft: ScenarioDraft) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['salaryScenarios'], `Saving salary scenario "${draft.name}"`);
+
+      const record = {
+        employee_id: employeeId,
+        name: draft.name.trim(),
+        month: `${draft.month}-01`,
+        inputs: draft.inputs,
+        updated_at: new Date().toISOString()
+      };
+
+      const query = draft.id
+        ? supabase.from('salary_scenarios').update(record).eq('id', draft.id)
+        : supabase.from('salary_scenarios').insert(record);
+
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        queryLogger.error(['salaryScenarios'], `Error saving salary scenario: ${error.message}`, error);
+        throw error;
+      }
+
+      return mapScenario(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salaryScenarios', employeeId] });
+    }
+  });
+
+  const deleteScenario = useMutation({
+    mutationFn: async (scenarioId: string) => {
+      queryLogger.log(['salaryScenarios'], `Deleting salary scenario ${scenarioId}`);
+
+      const { error } = await supabase
+        .from('salary_scenarios')
+        .delete()
+        .eq('id', scenarioId);
+
+      if (error) {
+        queryLogger.error(['salaryScenarios'], `Error deleting salary scenario: ${error.message}`, error);
+        throw error;
+      }
+
+      return scenarioId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['salaryScenarios', employeeId] });
+    }
+  });
+
+  return {
+    scenarios,
+    saveScenario,
+    deleteScenario
+  };
+}
@@ -1,9 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { format, addMonths, subMonths, parseISO } from 'date-fns';
 import { supabase } from '../supabase';
 import { toast } from 'react-hot-toast';
 import { updateUserOvertime } from '../overtime';
+import { calculateOvertimePay } from '../calculations/salary';
+import { loadPayRuleVersions } from '../salary/payRules';
+import { withChangeSource } from '../salary/audit';
+import { OVERTIME_SHIFT_TYPES } from '../salary/typedOvertime';
+import { OvertimeBreach } from '../salary/overtimeLimits';
+import {
+  checkShiftOvertimeLimits,
+  fetchOvertimeSummary,
+  syncScheduleOvertimeRequests
+} from '../services/overtimeService';
+import { requestStaffingCheck, saveTimeOffOverride } from '../services/staffingService';
+import { StaffingCheck, STAFFING_CHECKED_SHIFT_TYPES } from '../utils/staffing';
+import { useShiftDefinitions, useShiftPattern } from './useShiftPatterns';
 
 import { 
   ShiftGroup,
@@ -247,13 +260,15 @@ export function useSchedule({
           
         if (error) throw error;
         
-        // Format group changes into map object by date
-        const changesMap: { [date: string]: { oldGroup: ShiftGroup; newGroup: ShiftGroup } } = {};
+        // Format group changes into map object by date. Pending requests are kept
+        // to show them; the calendar only applies approved ones.
+        const changesMap: { [date: string]: { oldGroup: ShiftGroup; newGroup: ShiftGroup; status: GroupChange['status'] } } = {};
         
-        (data || []).forEach(change => {
+        (data || []).filter(change => change.status !== 'rejected').forEach(change => {
           changesMap[change.effective_date] = {
             oldGroup: change.old_group as ShiftGroup,
-            newGroup: change.new_group as ShiftGroup
+            newGroup: change.new_group as ShiftGroup,
+            status: change.status || 'approved'
           };
         });
         
@@ -306,13 +321,17 @@ export function useSchedule({
     }
   }, [employeeData]);
   
+  // Rotation the employee's group belongs to
+  const { pattern: shiftPattern, isLoading: isPatternLoading } = useShiftPattern(employeeData?.shift_pattern_id);
+  const { isLoading: isDefinitionsLoading } = useShiftDefinitions();
+  
   // Add logging when employeeGroup changes
   useEffect(() => {
     console.log(`Current employee group: ${employeeGroup}`);
   }, [employeeGroup]);
   
   // Generate month data with added logging
-  const monthData = !isHolidaysLoading && !isLeavesLoading && !isOverridesLoading
+  const monthData = !isHolidaysLoading && !isLeavesLoading && !isOverridesLoading && !isPatternLoading && !isDefinitionsLoading
     ? (() => {
         console.log(`Generating calendar for ${year}-${month+1} with group ${employeeGroup}`);
         return generateMonthCalendar(
@@ -322,7 +341,8 @@ export function useSchedule({
           holidays || {},
           leaves || {},
           overrides || {},
-          groupChanges || {}
+          groupChanges || {},
+          shiftPattern
         );
       })()
     : null;
@@ -345,6 +365,14 @@ export function useSchedule({
     setCurrentDate(date);
   };
   
+  // Group change still waiting for a supervisor
+  const pendingGroupChange = Object.entries(groupChanges || {})
+    .filter(([, change]) => change.status === 'pending')
+    .map(([effectiveDate, change]) => ({ effectiveDate, newGroup: change.newGroup }))[0] || null;
+  
+  // Only shift workers have rostered shifts around an overtime day
+  const rosterGroup = scheduleType === 'shift' ? employeeGroup : null;
+
   // Mutation to update shift override
   const updateShiftMutation = useMutation({
     mutationFn: async ({ date, shiftType, notes }: { date: string; shiftType: ShiftType; notes?: string }) => {
@@ -366,6 +394,13 @@ export function useSchedule({
       
       console.log(`[Update Shift] Date: ${date}, New Shift: ${shiftType}, Previous Shift: ${previousShiftType}`);
 
+      // Leave and days off are saved on the server, which refuses any a blocking staffing
+      // rule stops; save them first so nothing else changes when they're refused
+      const takingTimeOff = STAFFING_CHECKED_SHIFT_TYPES.includes(shiftType);
+      if (takingTimeOff) {
+        await saveTimeOffOverride(date, shiftType as 'Leave' | 'Off', notes === undefined ? null : notes);
+      }
+
       // Determine if we are changing *from* Overtime
       const changingFromOvertime = previousShiftType === 'Overtime' && shiftType !== 'Overtime';
       console.log(`[Update Shift] Is changing from Overtime? ${changingFromOvertime}`);
@@ -389,11 +424,6 @@ export function useSchedule({
           if (overtimeError) {
             console.error('[Update Shift] Error recording overtime:', overtimeError);
           }
-
-          // Recalculate salary for the month
-          console.log(`[Update Shift] Triggering salary recalculation after adding overtime for ${date}...`);
-          await recalculateSalaryOvertime(date, authUser);
-          
         } catch (error) {
           console.error('[Update Shift] Error handling overtime addition:', error);
         }
@@ -423,11 +453,6 @@ export function useSchedule({
                toast(`No overtime record found to remove for ${date}.`, { icon: '⚠️' }); 
              }
           }
-
-          // Recalculate salary for the month after attempting deletion
-          console.log(`[Overtime Removal] Triggering salary recalculation for ${date}...`);
-          await recalculateSalaryOvertime(date, authUser);
-          
         } catch (error) {
           console.error('[Overtime Removal] Error during overtime removal process:', error);
           toast.error('An error occurred while removing overtime. Please check console.');
@@ -517,10 +542,12 @@ export function useSchedule({
         }
       }
       
-      // Update or create shift override - this happens regardless of overtime/leave changes
+      // Update or create shift override - leave and days off were already saved on the server above
       console.log(`[Update Shift] Updating/Creating shift override for ${date} to type ${shiftType}`);
-      let result = { success: true, action: '' };
-      if (existingOverride) {
+      let result = { success: true, action: '', warnings: [] as OvertimeBreach[], requestedHours: 0 };
+      if (takingTimeOff) {
+        result.action = existingOverride ? 'updated' : 'created';
+      } else if (existingOverride) {
         // Update existing override
         const { error } = await supabase
           .from('shift_overrides')
@@ -556,12 +583,40 @@ export function useSchedule({
         result.action = 'created';
         console.log(`[Update Shift] Successfully created override for ${date}`);
       }
+
+      // Overtime/InLieu shifts are paid through approved requests: raise them for the new
+      // shift and cancel the ones the previous shift raised, then recalculate
+      if (OVERTIME_SHIFT_TYPES.includes(shiftType) || OVERTIME_SHIFT_TYPES.includes(previousShiftType)) {
+        try {
+          const requests = await syncScheduleOvertimeRequests(authUser, date, shiftType, shiftPattern.id);
+          result.requestedHours = requests.reduce((sum, request) => sum + request.hours, 0);
+        } catch (error) {
+          console.error('[Update Shift] Error syncing overtime requests:', error);
+          toast.error('Failed to submit the overtime for approval');
+        }
+
+        console.log(`[Update Shift] Triggering salary recalculation for ${date}...`);
+        await recalculateSalaryOvertime(date, authUser);
+      }
+
+      // Check overtime and in-lieu shifts against the limits in force; breaches are only warnings
+      if (OVERTIME_SHIFT_TYPES.includes(shiftType)) {
+        try {
+          result.warnings = await checkShiftOvertimeLimits(authUser, date, shiftType, rosterGroup, shiftPattern);
+        } catch (error) {
+          console.error('[Update Shift] Error checking overtime limits:', error);
+        }
+      }
       
       return result;
     },
     onSuccess: (data, variables) => {
       // Show success message
       toast.success(`Shift for ${format(parseISO(variables.date), 'PPP')} ${data.action} successfully`);
+      if (data.requestedHours > 0) {
+        toast(`${data.requestedHours}h of overtime sent to your supervisor for approval`, { icon: '🕒' });
+      }
+      data.warnings.forEach(warning => toast(warning.message, { icon: '⚠️', duration: 6000 }));
       
       // Get the month for the changed date
       const month = variables.date.substring(0, 7);
@@ -569,6 +624,7 @@ export function useSchedule({
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ['shift-overrides', authUser, month] });
       queryClient.invalidateQueries({ queryKey: ['overtime', authUser, month] });
+      queryClient.invalidateQueries({ queryKey: ['overtimeRequests', authUser] });
       queryClient.invalidateQueries({ queryKey: ['salaries', authUser, month] });
       
       // Force immediate refetch of salary data
@@ -608,17 +664,20 @@ export function useSchedule({
       // Allow any valid group selection
       console.log(`Group change requested to: ${group}, effective from: ${effectiveDate}`);
       
-      // First, update the employee record
-      const { error: updateError } = await supabase
-        .from('employees')
-        .update({
-          shift_group: group
-        })
-        .eq('id', authUser);
+      // One request at a time, so a supervisor never decides on an outdated one
+      const { data: pending, error: pendingError } = await supabase
+        .from('group_changes')
+        .select('id')
+        .eq('employee_id', authUser)
+        .eq('status', 'pending')
+        .limit(1);
         
-      if (updateError) throw updateError;
+      if (pendingError) throw pendingError;
+      if (pending && pending.length > 0) {
+        throw new Error('You already have a group change waiting for approval');
+      }
       
-      // Then, record the group change
+      // Record the request; the employee record changes once a supervisor approves it
       const { error: changeError } = await supabase
         .from('group_changes')
         .insert({
@@ -627,7 +686,7 @@ export function useSchedule({
           new_group: group,
           effective_date: effectiveDate,
           request_date: new Date().toISOString(),
-          status: 'approved' // Auto-approve changes
+          status: 'pending'
         });
         
       if (changeError) throw changeError;
@@ -636,18 +695,14 @@ export function useSchedule({
     },
     onSuccess: (_, variables) => {
       // Show success message
-      toast.success(`Your shift group has been set to Group ${variables.group}`);
-      
-      // Update local state immediately
-      setEmployeeGroup(variables.group);
+      toast.success(`Change to Group ${variables.group} requested. It applies once a supervisor approves it.`);
       
       // Invalidate relevant queries
-      queryClient.invalidateQueries({ queryKey: ['employee', authUser] });
       queryClient.invalidateQueries({ queryKey: ['group-changes', authUser] });
     },
     onError: (error) => {
-      console.error('Error updating shift group:', error);
-      toast.error(`Failed to update shift group: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error requesting group change:', error);
+      toast.error(`Failed to request group change: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   });
   
@@ -713,6 +768,17 @@ export function useSchedule({
     updateScheduleTypeMutation.mutate(type);
   };
   
+  // Check a shift against the overtime limits before it is saved
+  const checkOvertimeLimits = useCallback((date: string, shiftType: ShiftType): Promise<OvertimeBreach[]> => {
+    if (!authUser) return Promise.resolve([]);
+    return checkShiftOvertimeLimits(authUser, date, shiftType, rosterGroup, shiftPattern);
+  }, [authUser, rosterGroup, shiftPattern]);
+  
+  // Check taking a day off against the minimum staffing rules before it is saved
+  const checkStaffing = useCallback((date: string, shiftType: 'Leave' | 'Off'): Promise<StaffingCheck> => (
+    requestStaffingCheck(date, date, shiftType)
+  ), []);
+  
   // Helper function to recalculate salary overtime for a given month
   const recalculateSalaryOvertime = async (date: string, employeeId: string) => {
     const monthStart = new Date(date);
@@ -722,21 +788,11 @@ export function useSchedule({
     console.log(`[Recalc Salary] Recalculating overtime for ${monthKey}`);
 
     try {
-      // Get all overtime entries for the month
-      const { data: overtimeEntries, error: overtimeError } = await supabase
-        .from('overtime')
-        .select('hours')
-        .eq('employee_id', employeeId)
-        .gte('date', monthKey)
-        .lt('date', new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1).toISOString().substring(0, 10));
-        
-      if (overtimeError) {
-        throw new Error(`[Recalc Salary] Error fetching overtime entries: ${overtimeError.message}`);
-      }
-
-      // Calculate total overtime hours
-      const totalOvertimeHours = overtimeEntries?.reduce((total, entry) => total + (entry.hours || 0), 0) || 0;
-      console.log(`[Recalc Salary] Total overtime hours for ${monthKey}: ${totalOvertimeHours}`);
+      // Build the month's approved typed overtime, weighted with the month's multipliers
+      await loadPayRuleVersions();
+      const overtime = await fetchOvertimeSummary(employeeId, monthStart.getFullYear(), monthStart.getMonth() + 1);
+      const totalOvertimeHours = overtime.effectiveHours;
+      console.log(`[Recalc Salary] Effective overtime hours for ${monthKey}: ${totalOvertimeHours}`);
 
       // Get current salary record to calculate pay AND check existence
       const { data: currentSalary, error: fetchError } = await supabase
@@ -760,18 +816,17 @@ export function useSchedule({
       // Calculate overtime pay using the fetched salary data
       const basicSalary = currentSalary.basic_salary || 0;
       const costOfLiving = currentSalary.cost_of_living || 0;
-      const hourlyRate = (basicSalary + costOfLiving) / 210;
-      const overtimePay = hourlyRate * totalOvertimeHours;
+      const overtimePay = calculateOvertimePay(basicSalary, costOfLiving, totalOvertimeHours, monthKey);
 
       console.log(`[Recalc Salary] Calculated overtime pay for ${monthKey}: ${overtimePay}`);
 
       // *Update* the existing salary record with recalculated values (DO NOT UPSERT)
       const { error: updateError } = await supabase
         .from('salaries')
-        .update({ // Use update instead of upsert
+        .update(withChangeSource({ // Use update instead of upsert
           overtime_hours: totalOvertimeHours,
           overtime_pay: overtimePay
-        })
+        }, 'schedule_recalculation'))
         .eq('employee_id', employeeId) // Match existing record
         .eq('month', monthKey);
 
@@ -800,12 +855,14 @@ export function useSchedule({
     year,
     month,
     employeeGroup,
+    pendingGroupChange,
+    shiftPattern,
     scheduleType,
     monthData,
     employeeData,
     
     // Loading states
-    isLoading: isHolidaysLoading || isLeavesLoading || isOverridesLoading || isEmployeeLoading || isGroupChangesLoading,
+    isLoading: isHolidaysLoading || isLeavesLoading || isOverridesLoading || isEmployeeLoading || isGroupChangesLoading || isPatternLoading || isDefinitionsLoading,
     
     // Navigation functions
     goToPreviousMonth,
@@ -817,6 +874,8 @@ export function useSchedule({
     updateShift,
     updateGroup,
     updateScheduleType,
+    checkOvertimeLimits,
+    checkStaffing,
     
     // Mutation states
     isUpdatingShift: updateShiftMutation.isPending,
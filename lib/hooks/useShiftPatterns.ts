@@ -0,0 +1,69 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { ShiftDefinition, ShiftPattern } from '../types/schedule';
+import { DEFAULT_SHIFT_PATTERN } from '../utils/shiftCalculator';
+import { fetchShiftDefinitions } from '../utils/shiftDefinitions';
+import { mapShiftPattern } from '../utils/shiftPatterns';
+
+/**
+ * Fetch a shift pattern
+ * @param patternId Assigned pattern, or null for the built-in rotation
+ */
+export async function fetchShiftPattern(patternId?: string | null): Promise<ShiftPattern> {
+  if (!patternId) return DEFAULT_SHIFT_PATTERN;
+
+  const { data, error } = await supabase
+    .from('shift_patterns')
+    .select('*')
+    .eq('id', patternId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? mapShiftPattern(data) : DEFAULT_SHIFT_PATTERN;
+}
+
+/**
+ * The rotation an employee follows; the built-in one until theirs has loaded
+ */
+export function useShiftPattern(patternId?: string | null) {
+  const pattern = useQuery<ShiftPattern>({
+    queryKey: ['shiftPattern', patternId || null],
+    queryFn: async () => {
+      queryLogger.log(['shiftPattern', patternId], `Fetching shift pattern ${patternId || 'default'}`);
+
+      try {
+        return await fetchShiftPattern(patternId);
+      } catch (error: any) {
+        queryLogger.error(['shiftPattern', patternId], `Error fetching shift pattern: ${error.message}`, error);
+        throw error;
+      }
+    },
+    staleTime: 60 * 60 * 1000, // 60 minutes
+  });
+
+  return {
+    pattern: pattern.data || DEFAULT_SHIFT_PATTERN,
+    isLoading: pattern.isLoading
+  };
+}
+
+/**
+ * Load the configured shift times, so schedule and overtime calculations use them
+ */
+export function useShiftDefinitions() {
+  const definitions = useQuery<ShiftDefinition[]>({
+    queryKey: ['shiftDefinitions'],
+    queryFn: async () => {
+      queryLogger.log(['shiftDefinitions'], 'Fetching shift definitions');
+      return fetchShiftDefinitions();
+    },
+    staleTime: 60 * 60 * 1000, // 60 minutes
+  });
+
+  return {
+    definitions: definitions.data || [],
+    isLoading: definitions.isLoading
+  };
+}
@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import {
+  mapSpecialPayment,
+  SpecialPayment,
+  SpecialPaymentInputs,
+  SpecialPaymentResult
+} from '../salary/specialPayments';
+
+export interface SpecialPaymentDraft extends SpecialPaymentInputs, SpecialPaymentResult {
+  id?: string;
+  exchangeRate: number;
+  notes?: string;
+}
+
+/**
+ * Fetch an employee's special payments for a year, in payout order
+ */
+export async function fetchSpecialPayments(employeeId: string, year: number): Promise<SpecialPayment[]> {
+  const { data, error } = await supabase
+    .from('special_payments')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .gte('payout_month', `${year}-01-01`)
+    .lte('payout_month', `${year}-12-01`)
+    .order('payout_month', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(mapSpecialPayment);
+}
+
+export function useSpecialPayments(employeeId?: string, year?: number) {
+  const queryClient = useQueryClient();
+  const targetYear = year || new Date().getFullYear();
+
+  const payments = useQuery<SpecialPayment[]>({
+    queryKey: ['specialPayments', employeeId, targetYear],
+    queryFn: async () => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['specialPayments', employeeId], `Fetching special payments for ${employeeId} in ${targetYear}`);
+
+      try {
+        return await fetchSpecialPayments(employeeId, targetYear);
+      } catch (error: any) {
+        queryLogger.error(['specialPayments', employeeId], `Error fetching special payments: ${error.message}`, error);
+        throw error;
+      }
+    },
+    enabled: !!employeeId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Create a payment, or update it when an id is given
+  const savePayment = useMutation({
+    mutationFn: async (draft: SpecialPaymentDraft) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['specialPayments'], `Saving ${draft.type} for ${draft.payoutMonth}`);
+
+      const record = {
+        employee_id: employeeId,
+        payment_type: draft.type,
+        payout_month: `${draft.payoutMonth}-01`,
+        amount: draft.amount,
+        rate_linked: draft.rateLinked,
+        tax_treatment: draft.taxTreatment,
+        flat_tax_rate: draft.taxTreatment === 'flat' ? draft.flatTaxRate || 0 : null,
+        exchange_rate: draft.exchangeRate,
+        rate_ratio: draft.rateRatio,
+        gross_amount: draft.grossAmount,
+        income_tax: draft.incomeTax,
+        net_amount: draft.netAmount,
+        notes: draft.notes || null,
+        updated_at: new Date().toISOString()
+      };
+
+      const query = draft.id
+        ? supabase.from('special_payments').update(record).eq('id', draft.id)
+        : supabase.from('special_payments').insert(record);
+
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        queryLogger.error(['specialPayments'], `Error saving special payment: ${error.message}`, error);
+        throw error;
+      }
+
+      return mapSpecialPayment(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['specialPayments', employeeId] });
+      queryClient.invalidateQueries({ queryKey: ['salaryData', employeeId] });
+    }
+  });
+
+  const deletePayment = useMutation({
+    mutationFn: async (paymentId: string) => {
+      queryLogger.log(['specialPayments'], `Deleting special payment ${paymentId}`);
+
+      const { error } = await supabase
+        .from('special_payments')
+        .delete()
+        .eq('id', paymentId);
+
+      if (error) {
+        queryLogger.error(['specialPayments'], `Error deleting special payment: ${error.message}`, error);
+        throw error;
+      }
+
+      return paymentId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['specialPayments', employeeId] });
+      queryClient.invalidateQueries({ queryKey: ['salaryData', employeeId] });
+    }
+  });
+
+  return {
+    payments,
+    savePayment,
+    deletePayment
+  };
+}
@@ -0,0 +1,172 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { endOfMonth, format, parseISO } from 'date-fns';
+import { supabase } from '../supabase';
+import { queryLogger } from './queryLogger';
+import { mapTimesheetEntry, TimesheetEntry, TimesheetEntryInputs, TimesheetSource } from '../salary/timesheets';
+import { OvertimeRequestInputs } from '../salary/overtimeRequests';
+
+export interface TimesheetEntryDraft extends TimesheetEntryInputs {
+  id?: string;
+}
+
+const toRecord = (employeeId: string, entry: TimesheetEntryInputs, source: TimesheetSource) => ({
+  employee_id: employeeId,
+  date: entry.date,
+  // Entries hold local times; store them as instants
+  clock_in: new Date(entry.clockIn).toISOString(),
+  clock_out: new Date(entry.clockOut).toISOString(),
+  source,
+  notes: entry.notes || null,
+  updated_at: new Date().toISOString()
+});
+
+/**
+ * Fetch an employee's timesheet entries for a month, in clock-in order
+ * @param month Month in YYYY-MM format
+ */
+export async function fetchTimesheetEntries(employeeId: string, month: string): Promise<TimesheetEntry[]> {
+  const { data, error } = await supabase
+    .from('timesheet_entries')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .gte('date', `${month}-01`)
+    .lte('date', format(endOfMonth(parseISO(`${month}-01`)), 'yyyy-MM-dd'))
+    .order('clock_in', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(mapTimesheetEntry);
+}
+
+export function useTimesheets(employeeId?: string, month?: string) {
+  const queryClient = useQueryClient();
+
+  const entries = useQuery<TimesheetEntry[]>({
+    queryKey: ['timesheetEntries', employeeId, month],
+    queryFn: async () => {
+      if (!employeeId || !month) throw new Error('Employee ID and month are required');
+
+      queryLogger.log(['timesheetEntries', employeeId, month], `Fetching timesheet for ${month}`);
+
+      try {
+        return await fetchTimesheetEntries(employeeId, month);
+      } catch (error: any) {
+        queryLogger.error(['timesheetEntries', employeeId, month], `Error fetching timesheet: ${error.message}`, error);
+        throw error;
+      }
+    },
+    enabled: !!employeeId && !!month,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Create an entry, or update it when an id is given
+  const saveEntry = useMutation({
+    mutationFn: async (draft: TimesheetEntryDraft) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['timesheetEntries'], `Saving timesheet entry for ${draft.date}`);
+
+      const record = toRecord(employeeId, draft, 'manual');
+      const query = draft.id
+        ? supabase.from('timesheet_entries').update(record).eq('id', draft.id)
+        : supabase.from('timesheet_entries').insert(record);
+
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        queryLogger.error(['timesheetEntries'], `Error saving timesheet entry: ${error.message}`, error);
+        throw error;
+      }
+
+      return mapTimesheetEntry(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['timesheetEntries', employeeId] });
+    }
+  });
+
+  // Import a badge reader export; entries already imported are updated in place
+  const importEntries = useMutation({
+    mutationFn: async (imported: TimesheetEntryInputs[]) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['timesheetEntries'], `Importing ${imported.length} timesheet entries`);
+
+      const { data, error } = await supabase
+        .from('timesheet_entries')
+        .upsert(imported.map(entry => toRecord(employeeId, entry, 'badge_csv')), {
+          onConflict: 'employee_id,clock_in'
+        })
+        .select();
+
+      if (error) {
+        queryLogger.error(['timesheetEntries'], `Error importing timesheet: ${error.message}`, error);
+        throw error;
+      }
+
+      return (data || []).map(mapTimesheetEntry);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['timesheetEntries', employeeId] });
+    }
+  });
+
+  const deleteEntry = useMutation({
+    mutationFn: async (entryId: string) => {
+      queryLogger.log(['timesheetEntries'], `Deleting timesheet entry ${entryId}`);
+
+      const { error } = await supabase
+        .from('timesheet_entries')
+        .delete()
+        .eq('id', entryId);
+
+      if (error) {
+        queryLogger.error(['timesheetEntries'], `Error deleting timesheet entry: ${error.message}`, error);
+        throw error;
+      }
+
+      return entryId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['timesheetEntries', employeeId] });
+    }
+  });
+
+  // Send a day's confirmed extra hours for approval as overtime
+  const confirmExtraHours = useMutation({
+    mutationFn: async (candidates: OvertimeRequestInputs[]) => {
+      if (!employeeId) throw new Error('Employee ID is required');
+
+      queryLogger.log(['timesheetEntries'], `Requesting ${candidates.length} overtime candidates from the timesheet`);
+
+      const { error } = await supabase
+        .from('overtime_requests')
+        .insert(candidates.map(candidate => ({
+          employee_id: employeeId,
+          date: candidate.date,
+          hours: candidate.hours,
+          overtime_type: candidate.type,
+          reason: candidate.reason || null,
+          source: 'timesheet'
+        })));
+
+      if (error) {
+        queryLogger.error(['timesheetEntries'], `Error requesting overtime: ${error.message}`, error);
+        throw error;
+      }
+
+      return candidates;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['overtimeRequests', employeeId] });
+    }
+  });
+
+  return {
+    entries,
+    saveEntry,
+    importEntries,
+    deleteEntry,
+    confirmExtraHours
+  };
+}
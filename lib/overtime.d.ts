@@ -1 +1,3 @@
-export const updateUserOvertime: (date: string, hours: number, employeeId: string) => Promise<void>;
+import type { SupabaseClient } from './supabaseClient';
+
+export const updateUserOvertime: (date: string, hours: number, employeeId: string, forceRecalculate?: boolean, client?: SupabaseClient) => Promise<void>;
@@ -1,7 +1,19 @@
 import { supabase } from './supabase';
+import type { SupabaseClient } from './supabaseClient';
+import { computePay } from './salary/payEngine';
+import { withChangeSource } from './salary/audit';
+import { fetchOvertimeSummary } from './services/overtimeService';
+import { fetchSalaryMonthInputs } from './services/salaryService';
 
 // Function to update user overtime in the database
-export const updateUserOvertime = async (date: string, hours: number, employeeId: string, forceRecalculate = false) => {
+// (pass the service client to recalculate another employee's month, e.g. once their overtime is approved)
+export const updateUserOvertime = async (
+  date: string,
+  hours: number,
+  employeeId: string,
+  forceRecalculate = false,
+  client: SupabaseClient = supabase
+) => {
   try {
     // Calculate the month start date
     const monthStart = new Date(date);
@@ -10,7 +22,7 @@ export const updateUserOvertime = async (date: string, hours: number, employeeId
 
     // If not force recalculating, ensure the overtime record exists in the overtime table
     if (hours > 0 && !forceRecalculate) {
-      const { error: overtimeError } = await supabase
+      const { error: overtimeError } = await client
         .from('overtime')
         .upsert({
           employee_id: employeeId,
@@ -30,7 +42,7 @@ export const updateUserOvertime = async (date: string, hours: number, employeeId
     // If force recalculating due to removal of overtime, make sure the entry is deleted
     if (forceRecalculate && hours === 0) {
       // Delete the overtime record if it exists
-      const { error: deleteError } = await supabase
+      const { error: deleteError } = await client
         .from('overtime')
         .delete()
         .eq('employee_id', employeeId)
@@ -41,31 +53,23 @@ export const updateUserOvertime = async (date: string, hours: number, employeeId
       }
     }
 
-    // Now fetch all overtime entries for this month to calculate the total
-    const { data: overtimeEntries, error: fetchError } = await supabase
-      .from('overtime')
-      .select('hours')
-      .eq('employee_id', employeeId)
-      .gte('date', monthStart.toISOString().substring(0, 7) + '-01')
-      .lt('date', new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1).toISOString().substring(0, 10));
+    // The month is calculated as the salary API saves it: with its rules, the employee's
+    // base rate and its line items. Without them nothing is saved, rather than wrong totals
+    const { payRules, lineItems } = await fetchSalaryMonthInputs(employeeId, monthKey, client);
 
-    if (fetchError) {
-      console.error('Error fetching overtime entries:', fetchError);
-      throw fetchError;
-    }
-
-    // Calculate total overtime hours for the month
-    const totalOvertimeHours = overtimeEntries?.reduce((total, entry) => total + (entry.hours || 0), 0) || 0;
-    console.log(`Total overtime hours for ${monthKey}: ${totalOvertimeHours}`);
+    // Build the month's approved typed overtime, weighted with the month's multipliers
+    const overtime = await fetchOvertimeSummary(employeeId, monthStart.getFullYear(), monthStart.getMonth() + 1, client);
+    const totalOvertimeHours = overtime.effectiveHours;
+    console.log(`Effective overtime hours for ${monthKey}: ${totalOvertimeHours} (${overtime.dayHours} day, ${overtime.nightHours} night, ${overtime.holidayHours} holiday)`);
 
     // Update the salaries table with the new overtime total
-    const { error: salaryError } = await supabase
+    const { error: salaryError } = await client
       .from('salaries')
-      .upsert({
+      .upsert(withChangeSource({
         employee_id: employeeId,
         month: monthKey,
         overtime_hours: totalOvertimeHours
-      }, {
+      }, 'overtime_sync'), {
         onConflict: 'employee_id,month'
       });
 
@@ -74,22 +78,47 @@ export const updateUserOvertime = async (date: string, hours: number, employeeId
     }
 
     // Calculate overtime pay and update the salary record
-    const { data: employee, error: employeeError } = await supabase
+    const { data: employee, error: employeeError } = await client
       .from('employees')
       .select('basic_salary, cost_of_living')
       .eq('id', employeeId)
       .single();
       
     if (!employeeError && employee) {
-      const basicSalary = employee.basic_salary || 0;
-      const costOfLiving = employee.cost_of_living || 0;
-      const hourlyRate = (basicSalary + costOfLiving) / 210;
-      const overtimePay = hourlyRate * totalOvertimeHours;
+      // Prefer the figures already saved for the month so the total stays consistent
+      const { data: salaryRow } = await client
+        .from('salaries')
+        .select('basic_salary, cost_of_living, shift_allowance, other_earnings, exchange_rate, deduction, loan_repayment')
+        .eq('employee_id', employeeId)
+        .eq('month', monthKey)
+        .single();
+
+      // The schedule's effective hours are paid with the month's rules, matching the salary API
+      const pay = computePay({
+        basicSalary: salaryRow?.basic_salary || employee.basic_salary || 0,
+        costOfLiving: salaryRow?.cost_of_living || employee.cost_of_living || 0,
+        shiftAllowance: salaryRow?.shift_allowance || 0,
+        otherEarnings: salaryRow?.other_earnings || 0,
+        additionalEffectiveHours: totalOvertimeHours,
+        exchangeRate: salaryRow?.exchange_rate || 0,
+        deduction: salaryRow?.deduction || 0,
+        lineItems,
+        loanRepayment: salaryRow?.loan_repayment || 0
+      }, payRules);
       
-      // Update the overtime pay field
-      const { error: updatePayError } = await supabase
+      // Update the overtime pay field, and the total when the month has a saved rate
+      const { error: updatePayError } = await client
         .from('salaries')
-        .update({ overtime_pay: overtimePay })
+        .update(withChangeSource(salaryRow?.exchange_rate
+          ? {
+              overtime_pay: pay.overtimePay,
+              social_insurance: pay.socialInsurance,
+              income_tax: pay.incomeTax,
+              line_earnings: pay.lineEarnings,
+              line_deductions: pay.lineDeductions,
+              total_salary: pay.totalSalary
+            }
+          : { overtime_pay: pay.overtimePay }, 'overtime_sync'))
         .eq('employee_id', employeeId)
         .eq('month', monthKey);
         
@@ -99,13 +128,13 @@ export const updateUserOvertime = async (date: string, hours: number, employeeId
 
       // If there are no overtime entries and we're force recalculating,
       // make sure overtime values are explicitly set to zero
-      if (forceRecalculate && overtimeEntries?.length === 0) {
-        const { error: zeroUpdateError } = await supabase
+      if (forceRecalculate && overtime.days.length === 0) {
+        const { error: zeroUpdateError } = await client
           .from('salaries')
-          .update({ 
+          .update(withChangeSource({ 
             overtime_hours: 0,
             overtime_pay: 0 
-          })
+          }, 'overtime_sync'))
           .eq('employee_id', employeeId)
           .eq('month', monthKey);
           
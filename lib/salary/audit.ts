@@ -0,0 +1,132 @@
+/**
+ * Salary audit history
+ *
+ * Every insert, update and delete on `salaries` is logged by a database trigger
+ * with the before and after value of each field that changed. Writers say which
+ * code path they are by setting `change_source` (and, from the service-role API
+ * routes, `changed_by`) on the row they write; the trigger records both and
+ * clears them, so a writer that doesn't set them is logged without a source.
+ */
+
+export type SalaryChangeSource =
+  | 'salary_page'
+  | 'salary_api'
+  | 'salary_calculations_api'
+  | 'overtime_sync'
+  | 'schedule_recalculation'
+  | 'batch_update'
+  | 'batch_rollback';
+
+export const SALARY_CHANGE_SOURCE_LABELS: Record<SalaryChangeSource, string> = {
+  salary_page: 'Salary page',
+  salary_api: 'Salary API',
+  salary_calculations_api: 'Salary calculations API',
+  overtime_sync: 'Overtime sync (shift edit)',
+  schedule_recalculation: 'Schedule overtime recalculation',
+  batch_update: 'Batch salary update',
+  batch_rollback: 'Batch update rollback'
+};
+
+export type SalaryAuditAction = 'insert' | 'update' | 'delete';
+
+// Labels for the fields shown in the history; other columns fall back to their name
+export const SALARY_AUDIT_FIELD_LABELS: Record<string, string> = {
+  basic_salary: 'Basic Salary',
+  cost_of_living: 'Cost of Living',
+  shift_allowance: 'Shift Allowance',
+  other_earnings: 'Other Earnings',
+  overtime_hours: 'Overtime Hours',
+  manual_overtime_hours: 'Manual Overtime Hours',
+  overtime_pay: 'Overtime Pay',
+  variable_pay: 'Variable Pay',
+  deduction: 'Deductions',
+  social_insurance: 'Social Insurance',
+  income_tax: 'Income Tax',
+  line_earnings: 'Earning Lines',
+  line_deductions: 'Deduction Lines',
+  loan_repayment: 'Loan Repayment',
+  total_salary: 'Total Salary',
+  exchange_rate: 'Exchange Rate',
+  currency_pair: 'Currency Pair'
+};
+
+export interface SalaryAuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SalaryAuditEntry {
+  id: string;
+  salaryId: string;
+  employeeId: string;
+  month: string; // YYYY-MM
+  action: SalaryAuditAction;
+  source: SalaryChangeSource | null;
+  changedBy: string | null;
+  changedAt: string;
+  changes: SalaryAuditChange[];
+}
+
+/**
+ * Tag a salary write with the code path making it (and who, where the database
+ * can't tell from the session). Deletes carry no row to tag; they go through the
+ * delete_salary_record RPC instead.
+ */
+export function withChangeSource<T extends object>(
+  values: T,
+  source: SalaryChangeSource,
+  changedBy?: string | null
+): T & { change_source: SalaryChangeSource; changed_by?: string } {
+  return changedBy
+    ? { ...values, change_source: source, changed_by: changedBy }
+    : { ...values, change_source: source };
+}
+
+/**
+ * Label for a logged field
+ */
+export function getAuditFieldLabel(field: string): string {
+  return SALARY_AUDIT_FIELD_LABELS[field] || field.replace(/_/g, ' ');
+}
+
+/**
+ * How much an entry moved the month's total (null if it didn't touch the total)
+ */
+export function getTotalSalaryChange(entry: SalaryAuditEntry): number | null {
+  const change = entry.changes.find(item => item.field === 'total_salary');
+  if (!change) return null;
+
+  return (Number(change.after) || 0) - (Number(change.before) || 0);
+}
+
+/**
+ * Map a salary_audit_log row; known fields come first, in label order
+ */
+export function mapSalaryAuditEntry(row: any): SalaryAuditEntry {
+  const fieldOrder = Object.keys(SALARY_AUDIT_FIELD_LABELS);
+  const rank = (field: string) => {
+    const index = fieldOrder.indexOf(field);
+    return index === -1 ? fieldOrder.length : index;
+  };
+
+  const changes = Object.entries((row.changes || {}) as Record<string, { before?: unknown; after?: unknown }>)
+    .map(([field, values]) => ({
+      field,
+      before: values?.before ?? null,
+      after: values?.after ?? null
+    }))
+    .sort((a, b) => rank(a.field) - rank(b.field) || a.field.localeCompare(b.field));
+
+  return {
+    id: row.id,
+    salaryId: row.salary_id,
+    employeeId: row.employee_id,
+    month: String(row.month).substring(0, 7),
+    action: row.action,
+    source: row.source || null,
+    changedBy: row.changed_by || null,
+    changedAt: row.changed_at,
+    changes
+  };
+}
@@ -0,0 +1,205 @@
+import { calculateOvertimePay, calculateTotalSalary } from '../calculations/salary';
+import { PayRuleSet } from './payEngine';
+import { PayLineItem, SalaryLineItem } from './lineItems';
+
+/**
+ * Retroactive back pay
+ *
+ * When the basic salary, cost of living or exchange rate is corrected after the
+ * fact, every closed month from the correction's effective month on is
+ * recalculated with the corrected figures. The difference between what each month
+ * should have paid and what it did pay is settled by a single adjustment line in
+ * the next open month.
+ */
+
+export interface BackPayCorrection {
+  // First month (YYYY-MM) the corrected figures apply to
+  effectiveMonth: string;
+  // Last month (YYYY-MM) they apply to, if not every closed month since
+  endMonth?: string;
+  // Corrected figures; anything left out keeps the month's saved value
+  basicSalary?: number;
+  costOfLiving?: number;
+  exchangeRate?: number;
+}
+
+export interface BackPayFigures {
+  basicSalary: number;
+  costOfLiving: number;
+  exchangeRate: number;
+}
+
+export interface BackPayMonth {
+  month: string; // YYYY-MM
+  salaryId: string;
+  savedFigures: BackPayFigures;
+  correctedFigures: BackPayFigures;
+  // Total the month paid, as saved
+  paidTotal: number;
+  // Total with the corrected figures
+  correctedTotal: number;
+  // correctedTotal - paidTotal: positive when underpaid
+  difference: number;
+}
+
+export interface BackPayStatement {
+  correction: BackPayCorrection;
+  months: BackPayMonth[];
+  totalPaid: number;
+  totalCorrected: number;
+  // Positive when the employee is owed money, negative when they were overpaid
+  totalDifference: number;
+  // Month (YYYY-MM) the adjustment line goes into
+  adjustmentMonth: string;
+}
+
+export interface BackPaySources {
+  // The employee's saved salary records
+  salaries: any[];
+  // Rules in force for a month (with the employee's base rate applied)
+  rulesFor: (month: string) => PayRuleSet;
+  // The saved earning and deduction lines of a closed month
+  lineItemsFor?: (month: string) => PayLineItem[];
+}
+
+export interface BackPayAdjustment {
+  id: string;
+  employeeId: string;
+  correction: BackPayCorrection;
+  months: BackPayMonth[];
+  totalPaid: number;
+  totalCorrected: number;
+  totalDifference: number;
+  adjustmentMonth: string;
+  adjustmentLineName: string | null;
+  createdAt: string;
+}
+
+// Name the adjustment lines are given, so a recalculated statement replaces its own line
+export const BACK_PAY_LINE_PREFIX = 'Back Pay';
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Recalculate the closed months a correction covers
+ * @param openMonth The next open month (YYYY-MM); months before it are closed
+ */
+export function calculateBackPay(
+  sources: BackPaySources,
+  correction: BackPayCorrection,
+  openMonth: string
+): BackPayStatement {
+  const lineItemsFor = sources.lineItemsFor || (() => []);
+  const endMonth = correction.endMonth && correction.endMonth < openMonth ? correction.endMonth : null;
+
+  const months = sources.salaries
+    .map(row => ({ row, month: String(row.month).substring(0, 7) }))
+    .filter(({ month }) =>
+      month >= correction.effectiveMonth && month < openMonth && (!endMonth || month <= endMonth)
+    )
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(({ row, month }): BackPayMonth => {
+      const rules = sources.rulesFor(month);
+      const savedFigures: BackPayFigures = {
+        basicSalary: Number(row.basic_salary) || 0,
+        costOfLiving: Number(row.cost_of_living) || 0,
+        exchangeRate: Number(row.exchange_rate) || 0
+      };
+      const correctedFigures: BackPayFigures = {
+        basicSalary: correction.basicSalary ?? savedFigures.basicSalary,
+        costOfLiving: correction.costOfLiving ?? savedFigures.costOfLiving,
+        exchangeRate: correction.exchangeRate ?? savedFigures.exchangeRate
+      };
+
+      // Overtime is paid at an hourly rate that follows basic salary and cost of living
+      const overtimePay = calculateOvertimePay(
+        correctedFigures.basicSalary,
+        correctedFigures.costOfLiving,
+        Number(row.overtime_hours) || 0,
+        rules
+      );
+      const correctedTotal = roundAmount(calculateTotalSalary(
+        correctedFigures.basicSalary,
+        correctedFigures.costOfLiving,
+        Number(row.shift_allowance) || 0,
+        Number(row.other_earnings) || 0,
+        overtimePay,
+        correctedFigures.exchangeRate,
+        Number(row.deduction) || 0,
+        rules,
+        lineItemsFor(month),
+        Number(row.loan_repayment) || 0
+      ));
+      const paidTotal = roundAmount(Number(row.total_salary) || 0);
+
+      return {
+        month,
+        salaryId: row.id,
+        savedFigures,
+        correctedFigures,
+        paidTotal,
+        correctedTotal,
+        difference: roundAmount(correctedTotal - paidTotal)
+      };
+    });
+
+  const totalPaid = roundAmount(months.reduce((sum, month) => sum + month.paidTotal, 0));
+  const totalCorrected = roundAmount(months.reduce((sum, month) => sum + month.correctedTotal, 0));
+
+  return {
+    correction,
+    months,
+    totalPaid,
+    totalCorrected,
+    totalDifference: roundAmount(totalCorrected - totalPaid),
+    adjustmentMonth: openMonth
+  };
+}
+
+/**
+ * The line that settles a statement in the adjustment month: an earning when the
+ * employee was underpaid, a deduction when overpaid. The months were already taxed,
+ * so the line is neither taxed nor scaled by the rate ratio again.
+ * @returns null when there is nothing to settle
+ */
+export function getBackPayLineItem(statement: BackPayStatement): SalaryLineItem | null {
+  if (statement.months.length === 0 || statement.totalDifference === 0) return null;
+
+  const first = statement.months[0].month;
+  const last = statement.months[statement.months.length - 1].month;
+
+  return {
+    lineTypeId: null,
+    name: `${BACK_PAY_LINE_PREFIX} ${first === last ? first : `${first} to ${last}`}`,
+    kind: statement.totalDifference > 0 ? 'earning' : 'deduction',
+    amount: Math.abs(statement.totalDifference),
+    taxable: false,
+    rateLinked: false
+  };
+}
+
+/**
+ * Map a back_pay_adjustments row
+ */
+export function mapBackPayAdjustment(row: any): BackPayAdjustment {
+  const optionalNumber = (value: any) => (value === null || value === undefined ? undefined : Number(value));
+
+  return {
+    id: row.id,
+    employeeId: row.employee_id,
+    correction: {
+      effectiveMonth: String(row.effective_month).substring(0, 7),
+      endMonth: row.end_month ? String(row.end_month).substring(0, 7) : undefined,
+      basicSalary: optionalNumber(row.basic_salary),
+      costOfLiving: optionalNumber(row.cost_of_living),
+      exchangeRate: optionalNumber(row.exchange_rate)
+    },
+    months: row.statement || [],
+    totalPaid: Number(row.total_paid) || 0,
+    totalCorrected: Number(row.total_corrected) || 0,
+    totalDifference: Number(row.total_difference) || 0,
+    adjustmentMonth: String(row.adjustment_month).substring(0, 7),
+    adjustmentLineName: row.adjustment_line_name,
+    createdAt: row.created_at
+  };
+}
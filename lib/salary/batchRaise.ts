@@ -0,0 +1,259 @@
+import { computePay, PayRuleSet } from './payEngine';
+import { PayLineItem } from './lineItems';
+
+/**
+ * Batch salary raises
+ *
+ * An admin raises (or cuts) the basic salary of several employees by a percentage
+ * from an effective month. Every salary record from that month on is recalculated
+ * with the new basic salary; employees with no record from that month on get one
+ * for the effective month, started from their latest earlier record. The employee's
+ * own basic salary is raised too, so months created later start from it. The values
+ * each record had before the raise are kept; rolling the batch back recalculates each
+ * record with its previous basic salary and whatever else it holds by then.
+ */
+
+// Salary record fields a raise changes
+export const RAISE_SALARY_FIELDS = [
+  'basic_salary',
+  'overtime_pay',
+  'variable_pay',
+  'social_insurance',
+  'income_tax',
+  'line_earnings',
+  'line_deductions',
+  'total_salary'
+] as const;
+
+export type RaiseSalaryField = typeof RAISE_SALARY_FIELDS[number];
+
+export type RaiseSalaryValues = Record<RaiseSalaryField, number>;
+
+export interface SalaryRaiseChange {
+  employeeId: string;
+  employeeName: string;
+  month: string; // YYYY-MM
+  // null when the raise creates the effective month's record
+  salaryId: string | null;
+  // Values before the raise (null for created records)
+  previousValues: RaiseSalaryValues | null;
+  newValues: RaiseSalaryValues;
+  // Total before the raise; for created records, the total of the record it was started from
+  previousTotalSalary: number;
+  // Full record to insert for created records
+  newRecord?: Record<string, any>;
+}
+
+export interface SalaryRaiseEmployeeChange {
+  employeeId: string;
+  employeeName: string;
+  // The employee record's basic salary, used for months with no saved record
+  previousBasicSalary: number;
+  newBasicSalary: number;
+}
+
+export interface SalaryRaiseSkip {
+  employeeId: string;
+  employeeName: string;
+  reason: string;
+}
+
+export interface SalaryRaisePlan {
+  percentage: number;
+  effectiveMonth: string; // YYYY-MM
+  changes: SalaryRaiseChange[];
+  employeeChanges: SalaryRaiseEmployeeChange[];
+  skipped: SalaryRaiseSkip[];
+  totals: {
+    employees: number;
+    records: number;
+    previousTotal: number;
+    newTotal: number;
+  };
+}
+
+export interface SalaryRaiseSources {
+  employees: Array<{ id: string; name?: string | null; basic_salary?: number | null }>;
+  // The employees' salary records, any month
+  salaries: any[];
+  // Rules (with the employee's base rate applied) a month is calculated with
+  rulesFor: (employeeId: string, month: string) => PayRuleSet;
+  // Saved itemised lines for an employee's month
+  lineItemsFor?: (employeeId: string, month: string) => PayLineItem[];
+  // Loan and advance installments due in an employee's month, from their loan schedule
+  loanRepaymentFor?: (employeeId: string, month: string) => number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Apply a percentage change to an amount, rounded to two decimals
+ */
+export function applyRaise(amount: number, percentage: number): number {
+  return roundAmount((amount || 0) * (1 + percentage / 100));
+}
+
+/**
+ * Pick the raise fields out of a salary record
+ */
+export function getRaiseValues(row: any): RaiseSalaryValues {
+  const values = {} as RaiseSalaryValues;
+  for (const field of RAISE_SALARY_FIELDS) {
+    values[field] = Number(row?.[field]) || 0;
+  }
+  return values;
+}
+
+/**
+ * Recalculate a salary record with a new basic salary, the same way the salary API does
+ */
+export function recalculateSalaryRecord(
+  row: any,
+  basicSalary: number,
+  rules: PayRuleSet,
+  lineItems: PayLineItem[] = []
+): RaiseSalaryValues {
+  const pay = computePay({
+    basicSalary,
+    costOfLiving: Number(row.cost_of_living) || 0,
+    shiftAllowance: Number(row.shift_allowance) || 0,
+    otherEarnings: Number(row.other_earnings) || 0,
+    additionalEffectiveHours: Number(row.overtime_hours) || 0,
+    exchangeRate: Number(row.exchange_rate) || 0,
+    deduction: Number(row.deduction) || 0,
+    lineItems,
+    loanRepayment: Number(row.loan_repayment) || 0
+  }, rules);
+
+  return {
+    basic_salary: basicSalary,
+    overtime_pay: roundAmount(pay.overtimePay),
+    variable_pay: roundAmount(pay.variablePay),
+    social_insurance: roundAmount(pay.socialInsurance),
+    income_tax: roundAmount(pay.incomeTax),
+    line_earnings: roundAmount(pay.lineEarnings),
+    line_deductions: roundAmount(pay.lineDeductions),
+    total_salary: roundAmount(pay.totalSalary)
+  };
+}
+
+/**
+ * Work out what a raise would change, without changing anything
+ * @param percentage Change in percent (5 = +5%, -2.5 = -2.5%)
+ * @param effectiveMonth First month the raise applies to (YYYY-MM)
+ */
+export function planSalaryRaise(
+  sources: SalaryRaiseSources,
+  percentage: number,
+  effectiveMonth: string
+): SalaryRaisePlan {
+  const changes: SalaryRaiseChange[] = [];
+  const employeeChanges: SalaryRaiseEmployeeChange[] = [];
+  const skipped: SalaryRaiseSkip[] = [];
+  const lineItemsFor = sources.lineItemsFor || (() => []);
+  const loanRepaymentFor = sources.loanRepaymentFor || (() => 0);
+
+  // Employees without a basic salary on their record keep relying on their salary records
+  const addEmployeeChange = (employee: SalaryRaiseSources['employees'][number], employeeName: string) => {
+    const previousBasicSalary = Number(employee.basic_salary) || 0;
+    if (previousBasicSalary <= 0) return;
+
+    employeeChanges.push({
+      employeeId: employee.id,
+      employeeName,
+      previousBasicSalary,
+      newBasicSalary: applyRaise(previousBasicSalary, percentage)
+    });
+  };
+
+  for (const employee of sources.employees) {
+    const employeeName = employee.name || employee.id;
+    const rows = sources.salaries
+      .filter(row => row.employee_id === employee.id)
+      .map(row => ({ row, month: String(row.month).substring(0, 7) }))
+      .sort((a, b) => a.month.localeCompare(b.month));
+
+    const affected = rows.filter(({ month }) => month >= effectiveMonth);
+
+    if (affected.length > 0) {
+      for (const { row, month } of affected) {
+        const previousValues = getRaiseValues(row);
+        changes.push({
+          employeeId: employee.id,
+          employeeName,
+          month,
+          salaryId: row.id,
+          previousValues,
+          newValues: recalculateSalaryRecord(
+            row,
+            applyRaise(previousValues.basic_salary, percentage),
+            sources.rulesFor(employee.id, month),
+            lineItemsFor(employee.id, month)
+          ),
+          previousTotalSalary: previousValues.total_salary
+        });
+      }
+      addEmployeeChange(employee, employeeName);
+      continue;
+    }
+
+    // No record from the effective month on: start one from the latest earlier record
+    const latest = rows[rows.length - 1];
+    if (!latest) {
+      skipped.push({ employeeId: employee.id, employeeName, reason: 'No salary records to raise' });
+      continue;
+    }
+
+    // Overtime belongs to the month it was worked, so the new month starts without it,
+    // and the installment is the one the loan schedule has due in the new month
+    const template = {
+      ...latest.row,
+      overtime_hours: 0,
+      loan_repayment: loanRepaymentFor(employee.id, effectiveMonth)
+    };
+    const newValues = recalculateSalaryRecord(
+      template,
+      applyRaise(Number(latest.row.basic_salary) || 0, percentage),
+      sources.rulesFor(employee.id, effectiveMonth),
+      lineItemsFor(employee.id, effectiveMonth)
+    );
+
+    changes.push({
+      employeeId: employee.id,
+      employeeName,
+      month: effectiveMonth,
+      salaryId: null,
+      previousValues: null,
+      newValues,
+      previousTotalSalary: Number(latest.row.total_salary) || 0,
+      newRecord: {
+        employee_id: employee.id,
+        month: `${effectiveMonth}-01`,
+        cost_of_living: Number(template.cost_of_living) || 0,
+        shift_allowance: Number(template.shift_allowance) || 0,
+        other_earnings: Number(template.other_earnings) || 0,
+        overtime_hours: 0,
+        deduction: Number(template.deduction) || 0,
+        loan_repayment: template.loan_repayment,
+        exchange_rate: Number(template.exchange_rate) || 0,
+        ...(template.currency_pair ? { currency_pair: template.currency_pair } : {}),
+        ...newValues
+      }
+    });
+    addEmployeeChange(employee, employeeName);
+  }
+
+  return {
+    percentage,
+    effectiveMonth,
+    changes,
+    employeeChanges,
+    skipped,
+    totals: {
+      employees: new Set(changes.map(change => change.employeeId)).size,
+      records: changes.length,
+      previousTotal: roundAmount(changes.reduce((sum, change) => sum + change.previousTotalSalary, 0)),
+      newTotal: roundAmount(changes.reduce((sum, change) => sum + change.newValues.total_salary, 0))
+    }
+  };
+}
@@ -1,5 +1,7 @@
 import type { SalaryCalculation } from '../../types/salary';
 import { salaryCalculationSchema } from '../validations/salary';
+import { computePay } from './payEngine';
+import { resolvePayRules } from './payRules';
 
 // Import Sentry safely for both browser and test environments
 let Sentry: any;
@@ -65,11 +67,6 @@ function calculateDeductions(params: SalaryCalculation): number {
   return baseDeductions + optionalDeductions;
 }
 
-function calculateAllowances(params: SalaryCalculation): number {
-  const { costOfLiving, shiftAllowance, variablePay } = params;
-  return costOfLiving + shiftAllowance + variablePay;
-}
-
 /**
  * Calculates salary based on input parameters with error handling and performance optimization
  * 
@@ -84,17 +81,6 @@ export function calculateSalary(params: SalaryCalculation): SalaryCalculation {
     // Validate and normalize inputs using Zod schema
     const validatedParams = validateInputs(params);
     
-    // Calculate standard working hours per month (assuming 22 working days * 8 hours)
-    const standardMonthlyHours = 176;
-
-    // Calculate hourly rate
-    const hourlyRate = validatedParams.basicSalary / standardMonthlyHours;
-
-    // Calculate overtime pay with standard 1.5x rate
-    const overtimePay = validatedParams.overtimeHours > 0
-      ? (hourlyRate * validatedParams.overtimeHours * 1.5)
-      : 0;
-
     // Calculate allowances
     const allowances = {
       costOfLiving: validatedParams.costOfLiving,
@@ -102,17 +88,24 @@ export function calculateSalary(params: SalaryCalculation): SalaryCalculation {
       variablePay: validatedParams.variablePay
     };
 
-    // Calculate total allowances
-    const totalAllowances = calculateAllowances(validatedParams);
-
-    // Calculate gross salary (before deductions)
-    const grossSalary = validatedParams.basicSalary + overtimePay + totalAllowances;
-
     // Calculate total deductions
     const deductions = calculateDeductions(validatedParams);
 
-    // Calculate net salary (after deductions)
-    const netSalary = grossSalary - deductions;
+    // Overtime hours are day overtime; variable pay is carried as other earnings
+    const pay = computePay({
+      basicSalary: validatedParams.basicSalary,
+      costOfLiving: validatedParams.costOfLiving,
+      shiftAllowance: validatedParams.shiftAllowance,
+      otherEarnings: validatedParams.variablePay,
+      dayOvertimeHours: validatedParams.overtimeHours,
+      exchangeRate: validatedParams.exchangeRate,
+      deduction: deductions,
+      lineItems: validatedParams.lineItems
+    }, resolvePayRules(validatedParams.month));
+
+    const overtimePay = pay.overtimePay;
+    const grossSalary = pay.grossSalary;
+    const netSalary = pay.totalSalary;
 
     const result: SalaryCalculation = {
       ...validatedParams,
@@ -0,0 +1,88 @@
+import { PayRuleSet } from './payEngine';
+
+/**
+ * Currency pairs for rate-linked pay
+ *
+ * Rate-linked pay is pegged to a foreign currency: the rate ratio is the month's
+ * rate for the employee's pair divided by their base rate. Most employees are on
+ * USD/EGP with the base rate from the pay rules; others are pegged to EUR or SAR
+ * with a base rate of their own.
+ */
+
+export const SUPPORTED_CURRENCY_PAIRS = ['USD/EGP', 'EUR/EGP', 'SAR/EGP'] as const;
+
+export type CurrencyPair = typeof SUPPORTED_CURRENCY_PAIRS[number];
+
+export const DEFAULT_CURRENCY_PAIR: CurrencyPair = 'USD/EGP';
+
+// Used only when no rate can be fetched or found in the database
+export const FALLBACK_EXCHANGE_RATES: Record<CurrencyPair, number> = {
+  'USD/EGP': 50.60,
+  'EUR/EGP': 55.00,
+  'SAR/EGP': 13.49
+};
+
+export interface EmployeeCurrency {
+  currencyPair: CurrencyPair;
+  // Rate the employee's pay is pegged to; null to use the pay rules' base rate
+  baseExchangeRate: number | null;
+}
+
+export const DEFAULT_EMPLOYEE_CURRENCY: EmployeeCurrency = {
+  currencyPair: DEFAULT_CURRENCY_PAIR,
+  baseExchangeRate: null
+};
+
+export function isCurrencyPair(value: unknown): value is CurrencyPair {
+  return typeof value === 'string' && (SUPPORTED_CURRENCY_PAIRS as readonly string[]).includes(value);
+}
+
+/**
+ * Split a pair into the pegged (base) currency and the paid (quote) currency
+ */
+export function splitCurrencyPair(pair: CurrencyPair): { base: string; quote: string } {
+  const [base, quote] = pair.split('/');
+  return { base, quote };
+}
+
+/**
+ * Read the currency settings from an employees row
+ */
+export function getEmployeeCurrency(
+  employee?: { currency_pair?: string | null; base_exchange_rate?: number | string | null } | null
+): EmployeeCurrency {
+  const baseExchangeRate = employee?.base_exchange_rate ? Number(employee.base_exchange_rate) : null;
+
+  return {
+    currencyPair: isCurrencyPair(employee?.currency_pair) ? employee!.currency_pair as CurrencyPair : DEFAULT_CURRENCY_PAIR,
+    baseExchangeRate: baseExchangeRate && baseExchangeRate > 0 ? baseExchangeRate : null
+  };
+}
+
+/**
+ * Apply an employee's own base rate on top of the month's pay rules
+ */
+export function applyEmployeeCurrency(rules: PayRuleSet, currency?: EmployeeCurrency | null): PayRuleSet {
+  if (!currency?.baseExchangeRate) return rules;
+  return { ...rules, exchangeRateBase: currency.baseExchangeRate };
+}
+
+/**
+ * Convert an amount in the paid currency to the pegged currency
+ */
+export function toPeggedAmount(amount: number, exchangeRate: number): number {
+  return exchangeRate > 0 ? amount / exchangeRate : 0;
+}
+
+/**
+ * Format an amount in both currencies, e.g. "EGP 42,000.00 (USD 830.04)"
+ */
+export function formatDualCurrency(amount: number, exchangeRate: number, pair: CurrencyPair = DEFAULT_CURRENCY_PAIR): string {
+  const { base, quote } = splitCurrencyPair(pair);
+  const format = (value: number) =>
+    value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  return exchangeRate > 0
+    ? `${quote} ${format(amount)} (${base} ${format(toPeggedAmount(amount, exchangeRate))})`
+    : `${quote} ${format(amount)}`;
+}
@@ -0,0 +1,179 @@
+import { eachDayOfInterval, endOfMonth, parseISO, startOfMonth } from 'date-fns';
+import {
+  calculateEffectiveOvertimeHours,
+  calculateOvertimePay,
+  calculateTotalSalary
+} from '../calculations/salary';
+import { calculateGroupAssignments } from '../utils/shiftCalculator';
+import { resolveShiftDefinition } from '../utils/shiftDefinitions';
+import { ShiftGroup, ShiftPattern } from '../types/schedule';
+import { PayRuleSet } from './payEngine';
+import { PayLineItem } from './lineItems';
+
+/**
+ * Reverse salary calculator
+ *
+ * Works backwards from a target net amount to the overtime needed to reach it,
+ * using the same formulas (and the same month's pay rules) as the salary page.
+ */
+
+export type OvertimeKind = 'day' | 'night' | 'holiday';
+
+export interface GoalSeekInputs {
+  basicSalary: number;
+  costOfLiving: number;
+  shiftAllowance: number;
+  otherEarnings: number;
+  deduction: number;
+  exchangeRate: number;
+  // Effective overtime hours already counted for the month
+  currentOvertimeHours: number;
+  // Month in YYYY-MM format
+  month: string;
+  // Rules to calculate with, if not simply the month's (e.g. with the employee's own base rate)
+  rules?: PayRuleSet;
+  // The month's itemised earning and deduction lines
+  lineItems?: PayLineItem[];
+  // Loan and advance installments due in the month
+  loanRepayment?: number;
+}
+
+export interface RequiredOvertime {
+  kind: OvertimeKind;
+  // Overtime hours of this kind needed on their own to reach the target
+  hours: number;
+  // Whole shifts those hours take
+  shifts: number;
+}
+
+export interface GoalSeekResult {
+  targetNet: number;
+  currentNet: number;
+  // Additional effective overtime hours needed (after multipliers)
+  effectiveHoursNeeded: number;
+  requirements: RequiredOvertime[];
+  // Days off in the 8-day cycle this month, if the shift group is known
+  restDaysInMonth?: number;
+}
+
+// Upper bound for the search; far beyond what a month can hold
+const MAX_EFFECTIVE_HOURS = 10000;
+
+/**
+ * Net pay for the month with the given extra effective overtime hours
+ */
+export function netPayWithOvertime(inputs: GoalSeekInputs, extraEffectiveHours: number): number {
+  const overtimePay = calculateOvertimePay(
+    inputs.basicSalary,
+    inputs.costOfLiving,
+    inputs.currentOvertimeHours + extraEffectiveHours,
+    inputs.rules || inputs.month
+  );
+
+  return calculateTotalSalary(
+    inputs.basicSalary,
+    inputs.costOfLiving,
+    inputs.shiftAllowance,
+    inputs.otherEarnings,
+    overtimePay,
+    inputs.exchangeRate,
+    inputs.deduction,
+    inputs.rules || inputs.month,
+    inputs.lineItems,
+    inputs.loanRepayment
+  );
+}
+
+/**
+ * Find the extra effective overtime hours needed to reach a target net amount.
+ * Net pay only grows with overtime, so a bisection search is enough even when
+ * tax brackets make the relationship non-linear.
+ * @returns Hours needed (0 if already reached), or null if the target can't be reached
+ */
+export function findRequiredEffectiveHours(inputs: GoalSeekInputs, targetNet: number): number | null {
+  if (netPayWithOvertime(inputs, 0) >= targetNet) return 0;
+  if (netPayWithOvertime(inputs, MAX_EFFECTIVE_HOURS) < targetNet) return null;
+
+  let low = 0;
+  let high = MAX_EFFECTIVE_HOURS;
+
+  // Narrow down to a hundredth of an hour
+  while (high - low > 0.01) {
+    const mid = (low + high) / 2;
+    if (netPayWithOvertime(inputs, mid) >= targetNet) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return high;
+}
+
+/**
+ * Paid hours of a shift, from its shift definition
+ * @param patternId Pattern whose shift definitions apply
+ */
+export function getShiftLengthHours(shiftType: 'Day' | 'Night', patternId?: string | null): number {
+  return resolveShiftDefinition(shiftType, patternId)?.paidHours || 0;
+}
+
+/**
+ * Count the days in a month when a group is off in its rotation
+ * @param pattern Rotation the group belongs to (the 8-day A-D cycle by default)
+ */
+export function countRestDaysInMonth(month: string, group: ShiftGroup, pattern?: ShiftPattern): number {
+  const monthStart = startOfMonth(parseISO(`${month.substring(0, 7)}-01`));
+  const days = eachDayOfInterval({ start: monthStart, end: endOfMonth(monthStart) });
+
+  return days.filter(day => calculateGroupAssignments(day, pattern).off.includes(group)).length;
+}
+
+/**
+ * Work out the overtime of each kind needed to reach a target net amount
+ * @param inputs The month's salary inputs
+ * @param targetNet Target net amount in EGP
+ * @param group Employee's shift group, used to count rest days in the cycle
+ * @param pattern Rotation the group belongs to
+ * @returns The requirements, or null if the target can't be reached
+ */
+export function calculateRequiredOvertime(
+  inputs: GoalSeekInputs,
+  targetNet: number,
+  group?: ShiftGroup,
+  pattern?: ShiftPattern
+): GoalSeekResult | null {
+  const effectiveHoursNeeded = findRequiredEffectiveHours(inputs, targetNet);
+  if (effectiveHoursNeeded === null) return null;
+
+  // Effective hours per actual hour of each kind, from the month's multipliers
+  const multipliers: Record<OvertimeKind, number> = {
+    day: calculateEffectiveOvertimeHours(1, 0, 0, inputs.rules || inputs.month),
+    night: calculateEffectiveOvertimeHours(0, 1, 0, inputs.rules || inputs.month),
+    holiday: calculateEffectiveOvertimeHours(0, 0, 1, inputs.rules || inputs.month)
+  };
+
+  // Night overtime is worked on night shifts; day and holiday overtime on day shifts
+  const shiftLengths: Record<OvertimeKind, number> = {
+    day: getShiftLengthHours('Day', pattern?.id),
+    night: getShiftLengthHours('Night', pattern?.id),
+    holiday: getShiftLengthHours('Day', pattern?.id)
+  };
+
+  const requirements = (Object.keys(multipliers) as OvertimeKind[]).map(kind => {
+    const hours = multipliers[kind] > 0 ? effectiveHoursNeeded / multipliers[kind] : Infinity;
+    return {
+      kind,
+      hours,
+      shifts: Math.ceil(hours / shiftLengths[kind])
+    };
+  });
+
+  return {
+    targetNet,
+    currentNet: netPayWithOvertime(inputs, 0),
+    effectiveHoursNeeded,
+    requirements,
+    restDaysInMonth: group ? countRestDaysInMonth(inputs.month, group, pattern) : undefined
+  };
+}
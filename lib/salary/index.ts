@@ -1 +1,18 @@
 export * from './calculations';
+export * from './payEngine';
+export * from './payRules';
+export * from './statutory';
+export * from './goalSeek';
+export * from './scenarios';
+export * from './payslip';
+export * from './currency';
+export * from './lineItems';
+export * from './batchRaise';
+export * from './specialPayments';
+export * from './loans';
+export * from './audit';
+export * from './backPay';
+export * from './typedOvertime';
+export * from './overtimeLimits';
+export * from './overtimeRequests';
+export * from './timesheets';
@@ -0,0 +1,145 @@
+/**
+ * Itemised earnings and deductions
+ *
+ * Besides the fixed salary components, a month can carry any number of earning
+ * and deduction lines. Each line comes from a line type defined by the employee
+ * (or by an admin for everyone) that says whether it is taxable, whether it moves
+ * with the rate ratio, and whether it recurs every month or is a one-off.
+ */
+
+export type LineItemKind = 'earning' | 'deduction';
+
+export type LineItemRecurrence = 'recurring' | 'one_off';
+
+// A line as the pay engine sees it
+export interface PayLineItem {
+  name: string;
+  kind: LineItemKind;
+  amount: number;
+  // Earnings: counts toward taxable pay. Deductions: taken before tax.
+  taxable: boolean;
+  // Scaled by the rate ratio like the fixed earnings
+  rateLinked: boolean;
+}
+
+// A line on a month's salary, remembering the type it came from
+export interface SalaryLineItem extends PayLineItem {
+  lineTypeId: string | null;
+}
+
+export interface SalaryLineType {
+  id: string;
+  // null for types an admin defined for everyone
+  employeeId: string | null;
+  name: string;
+  kind: LineItemKind;
+  taxable: boolean;
+  rateLinked: boolean;
+  recurrence: LineItemRecurrence;
+  // Amount filled in when the line is added to a month
+  defaultAmount: number;
+  isActive: boolean;
+}
+
+export interface LineItemTotals {
+  // Earnings after the rate ratio
+  earnings: number;
+  // Earnings before the rate ratio that move with it
+  rateLinkedEarnings: number;
+  // Earnings that don't move with the rate ratio
+  fixedEarnings: number;
+  // Earnings (after the rate ratio) that are not taxed
+  nonTaxableEarnings: number;
+  // Deductions after the rate ratio
+  deductions: number;
+  // Deductions (after the rate ratio) taken before tax
+  preTaxDeductions: number;
+}
+
+/**
+ * Total a month's lines, applying the rate ratio to the rate-linked ones
+ */
+export function summariseLineItems(items: PayLineItem[] = [], rateRatio: number = 1): LineItemTotals {
+  const totals: LineItemTotals = {
+    earnings: 0,
+    rateLinkedEarnings: 0,
+    fixedEarnings: 0,
+    nonTaxableEarnings: 0,
+    deductions: 0,
+    preTaxDeductions: 0
+  };
+
+  for (const item of items) {
+    const amount = item.amount || 0;
+    const scaled = item.rateLinked ? amount * rateRatio : amount;
+
+    if (item.kind === 'earning') {
+      totals.earnings += scaled;
+      if (item.rateLinked) {
+        totals.rateLinkedEarnings += amount;
+      } else {
+        totals.fixedEarnings += amount;
+      }
+      if (!item.taxable) totals.nonTaxableEarnings += scaled;
+    } else {
+      totals.deductions += scaled;
+      if (item.taxable) totals.preTaxDeductions += scaled;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Amount a line adds to (earnings) or takes from (deductions) the month's pay
+ */
+export function getLineItemAmount(item: PayLineItem, rateRatio: number = 1): number {
+  return item.rateLinked ? (item.amount || 0) * rateRatio : (item.amount || 0);
+}
+
+/**
+ * Start a month's lines from a type
+ */
+export function lineItemFromType(type: SalaryLineType, amount: number = type.defaultAmount): SalaryLineItem {
+  return {
+    lineTypeId: type.id,
+    name: type.name,
+    kind: type.kind,
+    taxable: type.taxable,
+    rateLinked: type.rateLinked,
+    amount
+  };
+}
+
+/**
+ * Lines for a month: the saved ones, or the active recurring types when
+ * nothing has been saved for the month yet
+ */
+export function getMonthLineItems(types: SalaryLineType[], savedItems?: SalaryLineItem[] | null): SalaryLineItem[] {
+  if (savedItems && savedItems.length > 0) return savedItems;
+
+  return types
+    .filter(type => type.isActive && type.recurrence === 'recurring')
+    .map(type => lineItemFromType(type));
+}
+
+/**
+ * Sum lines by name and kind, e.g. for a yearly report
+ * @param items Lines with the amounts actually paid (after the rate ratio)
+ */
+export function totalLineItemsByName(
+  items: Array<Pick<PayLineItem, 'name' | 'kind' | 'amount'>>
+): Array<{ name: string; kind: LineItemKind; amount: number }> {
+  const totals = new Map<string, { name: string; kind: LineItemKind; amount: number }>();
+
+  for (const item of items) {
+    const key = `${item.kind}:${item.name}`;
+    const entry = totals.get(key) || { name: item.name, kind: item.kind, amount: 0 };
+    entry.amount += item.amount || 0;
+    totals.set(key, entry);
+  }
+
+  return Array.from(totals.values()).sort((a, b) =>
+    a.kind === b.kind ? a.name.localeCompare(b.name) : a.kind === 'earning' ? -1 : 1
+  );
+}
@@ -0,0 +1,120 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { toMonthStart } from './payRules';
+
+/**
+ * Salary advances and company loans
+ *
+ * A loan is repaid in equal monthly installments taken from net pay, starting in
+ * a given month. The installments are fixed EGP amounts: they don't move with the
+ * rate ratio and are taken after tax.
+ */
+
+export type SalaryLoanKind = 'advance' | 'loan';
+
+export const SALARY_LOAN_LABELS: Record<SalaryLoanKind, string> = {
+  advance: 'Salary Advance',
+  loan: 'Company Loan'
+};
+
+export interface SalaryLoanInputs {
+  name: string;
+  kind: SalaryLoanKind;
+  principal: number;
+  // Month (YYYY-MM) of the first installment
+  startMonth: string;
+  installments: number;
+}
+
+export interface SalaryLoan extends SalaryLoanInputs {
+  id: string;
+  employeeId: string;
+  notes?: string | null;
+}
+
+export interface LoanInstallment {
+  // 1-based installment number
+  number: number;
+  month: string; // YYYY-MM
+  amount: number;
+  // Balance left once this installment is paid
+  balanceAfter: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Month (YYYY-MM) a number of months after another
+ */
+function shiftMonth(month: string, months: number): string {
+  return format(addMonths(parseISO(toMonthStart(month)), months), 'yyyy-MM');
+}
+
+/**
+ * Amortisation schedule of a loan: equal installments rounded to the piastre,
+ * with the last one taking up the rounding so the installments add up to the principal
+ */
+export function buildAmortisationSchedule(loan: SalaryLoanInputs): LoanInstallment[] {
+  const principal = roundAmount(loan.principal || 0);
+  const count = Math.max(1, Math.floor(loan.installments || 1));
+  const installment = roundAmount(principal / count);
+
+  const schedule: LoanInstallment[] = [];
+  let balance = principal;
+
+  for (let i = 0; i < count; i++) {
+    const amount = i === count - 1 ? balance : installment;
+    balance = roundAmount(balance - amount);
+    schedule.push({
+      number: i + 1,
+      month: shiftMonth(loan.startMonth, i),
+      amount,
+      balanceAfter: balance
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Total of the installments due in a month, across all of an employee's loans
+ * @param month Month in YYYY-MM format
+ */
+export function getLoanRepaymentForMonth(loans: SalaryLoanInputs[], month: string): number {
+  const target = month.substring(0, 7);
+
+  return roundAmount(loans.reduce((total, loan) => {
+    const installment = buildAmortisationSchedule(loan).find(row => row.month === target);
+    return total + (installment?.amount || 0);
+  }, 0));
+}
+
+/**
+ * Balance still owed across all loans once the given month's installments are paid
+ * @param asOfMonth Month in YYYY-MM format
+ */
+export function getRemainingLoanBalance(loans: SalaryLoanInputs[], asOfMonth: string): number {
+  const target = asOfMonth.substring(0, 7);
+
+  return roundAmount(loans.reduce((total, loan) => {
+    const paid = buildAmortisationSchedule(loan)
+      .filter(row => row.month <= target)
+      .reduce((sum, row) => sum + row.amount, 0);
+    return total + Math.max(0, (loan.principal || 0) - paid);
+  }, 0));
+}
+
+/**
+ * Map a salary_loans row
+ */
+export function mapSalaryLoan(row: any): SalaryLoan {
+  return {
+    id: row.id,
+    employeeId: row.employee_id,
+    name: row.name,
+    kind: row.loan_kind,
+    principal: Number(row.principal) || 0,
+    startMonth: String(row.start_month).substring(0, 7),
+    installments: Number(row.installments) || 1,
+    notes: row.notes
+  };
+}
@@ -0,0 +1,326 @@
+import { addDays, eachDayOfInterval, endOfMonth, format, parseISO, startOfMonth, startOfWeek } from 'date-fns';
+import { calculateShiftType, getShiftWorkHours } from '../utils/shiftCalculator';
+import { ShiftGroup, ShiftPattern, ShiftType } from '../types/schedule';
+import { deriveTypedOvertime, getShiftLength, OVERTIME_SHIFT_TYPES } from './typedOvertime';
+
+/**
+ * Overtime limits
+ *
+ * Caps on overtime per day, week and month, and a minimum rest period between
+ * shifts. The limits travel with the pay rule versions, so each month is checked
+ * against the limits in force for it. Breaches are warnings: saving an overtime
+ * shift is never blocked.
+ */
+
+export interface OvertimeLimits {
+  // Most overtime hours on a single day
+  maxDailyHours: number;
+  // Most overtime hours in a week (Sunday to Saturday)
+  maxWeeklyHours: number;
+  // Most overtime hours in a calendar month
+  maxMonthlyHours: number;
+  // Fewest hours off between the end of one shift and the start of the next
+  minRestHours: number;
+}
+
+export const DEFAULT_OVERTIME_LIMITS: OvertimeLimits = {
+  maxDailyHours: 24,
+  maxWeeklyHours: 48,
+  maxMonthlyHours: 96,
+  minRestHours: 11
+};
+
+export type OvertimeBreachKind = 'daily' | 'weekly' | 'monthly' | 'rest';
+
+export const OVERTIME_BREACH_LABELS: Record<OvertimeBreachKind, string> = {
+  daily: 'Daily cap',
+  weekly: 'Weekly cap',
+  monthly: 'Monthly cap',
+  rest: 'Rest period'
+};
+
+// A day's shift as worked: the override, or else the rostered shift
+export interface WorkedShift {
+  date: string; // YYYY-MM-DD
+  shiftType: ShiftType;
+  // Pattern whose shift definitions apply (the site-wide ones when not set)
+  patternId?: string | null;
+}
+
+export interface OvertimeBreach {
+  kind: OvertimeBreachKind;
+  // Day, first day of the week or month, or day of the later shift for rest breaches
+  date: string;
+  // Overtime hours in the period, or hours of rest
+  hours: number;
+  limit: number;
+  // Days involved in the breach
+  dates: string[];
+  message: string;
+}
+
+export interface WorkedShiftSources {
+  // Employee's rotation group (no rostered shifts when absent)
+  group?: ShiftGroup | null;
+  // Rotation the group belongs to (the built-in one when absent)
+  pattern?: ShiftPattern;
+  // Shift overrides by date
+  overrides: Record<string, ShiftType>;
+  // Official holidays and leave days are off unless overridden
+  holidays?: string[];
+  leaveDates?: string[];
+}
+
+const formatHours = (hours: number) => `${Math.round(hours * 100) / 100}h`;
+
+/**
+ * Build the shifts worked between two dates (inclusive), with the schedule's
+ * priority: override, then leave, then official holiday, then the rotation
+ */
+export function buildWorkedShifts(from: string, to: string, sources: WorkedShiftSources): WorkedShift[] {
+  const holidays = new Set(sources.holidays || []);
+  const leaveDates = new Set(sources.leaveDates || []);
+
+  return eachDayOfInterval({ start: parseISO(from), end: parseISO(to) }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+
+    let shiftType: ShiftType = 'Off';
+    if (sources.overrides[date]) {
+      shiftType = sources.overrides[date];
+    } else if (leaveDates.has(date)) {
+      shiftType = 'Leave';
+    } else if (holidays.has(date)) {
+      shiftType = 'Public';
+    } else if (sources.group) {
+      shiftType = calculateShiftType(day, sources.group, sources.pattern);
+    }
+
+    return { date, shiftType, patternId: sources.pattern?.id ?? null };
+  });
+}
+
+/**
+ * Start and end of a worked shift (Overtime runs a day shift into a night shift)
+ * @returns null for days off
+ */
+export function getShiftInterval(shift: WorkedShift): { start: Date; end: Date } | null {
+  const hoursType: ShiftType = OVERTIME_SHIFT_TYPES.includes(shift.shiftType) ? 'Day' : shift.shiftType;
+  const hours = getShiftWorkHours(hoursType, shift.patternId);
+  if (!hours) return null;
+
+  const length = shift.shiftType === 'Overtime'
+    ? getShiftLength('Day', shift.patternId) + getShiftLength('Night', shift.patternId)
+    : getShiftLength(hoursType, shift.patternId);
+  const start = new Date(`${shift.date}T${hours.start}:00`);
+
+  return { start, end: new Date(start.getTime() + length * 60 * 60 * 1000) };
+}
+
+/**
+ * Check worked shifts against overtime limits
+ * @param shifts Shifts in date order; include the days either side of the period
+ *   being checked so rest periods and weeks that cross it are covered
+ * @returns Every breach found, in date order
+ */
+export function checkOvertimeLimits(shifts: WorkedShift[], limits: OvertimeLimits): OvertimeBreach[] {
+  const breaches: OvertimeBreach[] = [];
+  const overtimeDays = deriveTypedOvertime(shifts).days.map(day => ({
+    date: day.date,
+    hours: day.dayHours + day.nightHours + day.holidayHours
+  }));
+
+  // Overtime hours per day
+  overtimeDays.forEach(day => {
+    if (day.hours > limits.maxDailyHours) {
+      breaches.push({
+        kind: 'daily',
+        date: day.date,
+        hours: day.hours,
+        limit: limits.maxDailyHours,
+        dates: [day.date],
+        message: `${formatHours(day.hours)} of overtime on ${day.date} exceeds the daily cap of ${formatHours(limits.maxDailyHours)}`
+      });
+    }
+  });
+
+  // Overtime hours per week and per month
+  const addPeriodBreaches = (
+    kind: 'weekly' | 'monthly',
+    periodOf: (date: string) => string,
+    limit: number,
+    describe: (period: string) => string
+  ) => {
+    const periods = new Map<string, { hours: number; dates: string[] }>();
+    overtimeDays.forEach(day => {
+      const period = periodOf(day.date);
+      const totals = periods.get(period) || { hours: 0, dates: [] };
+      totals.hours += day.hours;
+      totals.dates.push(day.date);
+      periods.set(period, totals);
+    });
+
+    periods.forEach((totals, period) => {
+      if (totals.hours > limit) {
+        breaches.push({
+          kind,
+          date: period,
+          hours: totals.hours,
+          limit,
+          dates: totals.dates,
+          message: `${formatHours(totals.hours)} of overtime ${describe(period)} exceeds the ${kind} cap of ${formatHours(limit)}`
+        });
+      }
+    });
+  };
+
+  addPeriodBreaches(
+    'weekly',
+    date => format(startOfWeek(parseISO(date), { weekStartsOn: 0 }), 'yyyy-MM-dd'),
+    limits.maxWeeklyHours,
+    period => `in the week of ${period}`
+  );
+  addPeriodBreaches(
+    'monthly',
+    date => `${date.substring(0, 7)}-01`,
+    limits.maxMonthlyHours,
+    period => `in ${format(parseISO(period), 'MMMM yyyy')}`
+  );
+
+  // Rest between consecutive shifts; only shifts that involve overtime are flagged,
+  // the rotation itself is assumed to be compliant
+  const worked = shifts
+    .map(shift => ({ shift, interval: getShiftInterval(shift) }))
+    .filter((entry): entry is { shift: WorkedShift; interval: { start: Date; end: Date } } => entry.interval !== null)
+    .sort((a, b) => a.interval.start.getTime() - b.interval.start.getTime());
+  const isOvertime = (shift: WorkedShift) => OVERTIME_SHIFT_TYPES.includes(shift.shiftType);
+
+  for (let i = 1; i < worked.length; i++) {
+    const previous = worked[i - 1];
+    const next = worked[i];
+    if (!isOvertime(previous.shift) && !isOvertime(next.shift)) continue;
+
+    const rest = (next.interval.start.getTime() - previous.interval.end.getTime()) / (60 * 60 * 1000);
+    if (rest < limits.minRestHours) {
+      breaches.push({
+        kind: 'rest',
+        date: next.shift.date,
+        hours: Math.max(rest, 0),
+        limit: limits.minRestHours,
+        dates: [previous.shift.date, next.shift.date],
+        message: `Only ${formatHours(Math.max(rest, 0))} of rest between the ${previous.shift.shiftType} shift on ${previous.shift.date} and the ${next.shift.shiftType} shift on ${next.shift.date} (minimum ${formatHours(limits.minRestHours)})`
+      });
+    }
+  }
+
+  return breaches.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Range of days to load to check a single day: its week and month, plus a day
+ * either side for rest periods
+ */
+export function getLimitCheckRange(date: string): { from: string; to: string } {
+  const day = parseISO(date);
+  const weekStart = startOfWeek(day, { weekStartsOn: 0 });
+  const weekEnd = addDays(weekStart, 6);
+  const monthStart = startOfMonth(day);
+  const monthEnd = endOfMonth(day);
+
+  return {
+    from: format(addDays(weekStart < monthStart ? weekStart : monthStart, -1), 'yyyy-MM-dd'),
+    to: format(addDays(weekEnd > monthEnd ? weekEnd : monthEnd, 1), 'yyyy-MM-dd')
+  };
+}
+
+/**
+ * Breaches that a given day takes part in
+ */
+export function getBreachesForDate(breaches: OvertimeBreach[], date: string): OvertimeBreach[] {
+  return breaches.filter(breach => breach.dates.includes(date));
+}
+
+export interface EmployeeShiftHistory {
+  employeeId: string;
+  name: string;
+  group: ShiftGroup | null;
+  // Worked shifts covering the month, plus the days either side of it
+  shifts: WorkedShift[];
+}
+
+export interface EmployeeOvertimeCompliance {
+  employeeId: string;
+  name: string;
+  group: ShiftGroup | null;
+  // Overtime hours worked in the month
+  overtimeHours: number;
+  breaches: OvertimeBreach[];
+}
+
+export interface GroupOvertimeCompliance {
+  group: ShiftGroup | null;
+  employees: number;
+  employeesInBreach: number;
+  overtimeHours: number;
+  breaches: Record<OvertimeBreachKind, number>;
+}
+
+export interface OvertimeComplianceReport {
+  month: string; // YYYY-MM
+  // Limits in force for the month (nothing is checked when none are configured)
+  limits: OvertimeLimits | null;
+  employees: EmployeeOvertimeCompliance[];
+  groups: GroupOvertimeCompliance[];
+}
+
+/**
+ * Monthly compliance report: each employee's breaches in the month, and the
+ * totals per rotation group
+ * @param month Month (YYYY-MM) to report on
+ */
+export function buildOvertimeComplianceReport(
+  month: string,
+  histories: EmployeeShiftHistory[],
+  limits: OvertimeLimits | null
+): OvertimeComplianceReport {
+  const inMonth = (date: string) => date.startsWith(month);
+
+  const employees = histories
+    .map((history): EmployeeOvertimeCompliance => ({
+      employeeId: history.employeeId,
+      name: history.name,
+      group: history.group,
+      overtimeHours: deriveTypedOvertime(history.shifts.filter(shift => inMonth(shift.date))).totalHours,
+      // Weeks and rest periods that cross the month count when any of their days fall in it
+      breaches: limits
+        ? checkOvertimeLimits(history.shifts, limits).filter(breach => breach.dates.some(inMonth))
+        : []
+    }))
+    .sort((a, b) => (a.group || '~').localeCompare(b.group || '~') || a.name.localeCompare(b.name));
+
+  const groups = new Map<string, GroupOvertimeCompliance>();
+  employees.forEach(employee => {
+    const key = employee.group || '';
+    const totals = groups.get(key) || {
+      group: employee.group,
+      employees: 0,
+      employeesInBreach: 0,
+      overtimeHours: 0,
+      breaches: { daily: 0, weekly: 0, monthly: 0, rest: 0 }
+    };
+
+    totals.employees += 1;
+    totals.overtimeHours += employee.overtimeHours;
+    if (employee.breaches.length > 0) totals.employeesInBreach += 1;
+    employee.breaches.forEach(breach => {
+      totals.breaches[breach.kind] += 1;
+    });
+    groups.set(key, totals);
+  });
+
+  return {
+    month,
+    limits,
+    employees,
+    groups: Array.from(groups.values())
+  };
+}
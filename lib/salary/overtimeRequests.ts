@@ -0,0 +1,182 @@
+import { format, parseISO } from 'date-fns';
+import { ShiftType } from '../types/schedule';
+import { deriveTypedOvertime, ScheduleHoliday, TypedOvertime, TypedOvertimeDay } from './typedOvertime';
+
+/**
+ * Overtime requests
+ *
+ * Overtime is only paid once a supervisor approves it. Saving an Overtime or
+ * InLieu shift raises a pending request for each type of hours the shift is
+ * worth; hours worked outside the schedule can be requested by hand or
+ * confirmed from a timesheet. A request is pending until it is approved or
+ * rejected, and the employee can cancel it at any time.
+ */
+
+export type OvertimeRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export const OVERTIME_REQUEST_STATUS_LABELS: Record<OvertimeRequestStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled'
+};
+
+// Matches the multipliers the hours are paid at
+export type OvertimeRequestType = 'day' | 'night' | 'holiday';
+
+export const OVERTIME_REQUEST_TYPE_LABELS: Record<OvertimeRequestType, string> = {
+  day: 'Day',
+  night: 'Night',
+  holiday: 'Holiday'
+};
+
+// Raised by saving a shift, entered by hand, or confirmed from a timesheet
+export type OvertimeRequestSource = 'schedule' | 'manual' | 'timesheet';
+
+export interface OvertimeRequestInputs {
+  date: string; // YYYY-MM-DD
+  hours: number;
+  type: OvertimeRequestType;
+  reason?: string | null;
+}
+
+export interface OvertimeRequest extends OvertimeRequestInputs {
+  id: string;
+  employeeId: string;
+  status: OvertimeRequestStatus;
+  source: OvertimeRequestSource;
+  // Shift the request was raised from, for schedule requests
+  shiftType: ShiftType | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  decisionNote: string | null;
+  createdAt: string;
+  // Set when the request is loaded for a supervisor
+  employeeName?: string;
+}
+
+export interface ScheduleOvertimeRequestDraft extends OvertimeRequestInputs {
+  shiftType: ShiftType;
+}
+
+export function mapOvertimeRequest(row: any): OvertimeRequest {
+  return {
+    id: row.id,
+    employeeId: row.employee_id,
+    date: String(row.date).substring(0, 10),
+    hours: Number(row.hours) || 0,
+    type: row.overtime_type,
+    reason: row.reason,
+    status: row.status,
+    source: row.source,
+    shiftType: row.shift_type || null,
+    decidedBy: row.decided_by || null,
+    decidedAt: row.decided_at || null,
+    decisionNote: row.decision_note || null,
+    createdAt: row.created_at,
+    employeeName: row.employees?.name
+  };
+}
+
+/**
+ * Requests to raise for a shift override: one per type of hours it is worth
+ * @param patternId Pattern whose shift definitions set the hours
+ * @returns No requests for shifts that are not paid as overtime
+ */
+export function buildScheduleOvertimeRequests(
+  date: string,
+  shiftType: ShiftType,
+  holidays: ScheduleHoliday[] = [],
+  patternId?: string | null
+): ScheduleOvertimeRequestDraft[] {
+  const day = deriveTypedOvertime([{ date, shiftType, patternId }], holidays).days[0];
+  if (!day) return [];
+
+  const hoursByType: Record<OvertimeRequestType, number> = {
+    day: day.dayHours,
+    night: day.nightHours,
+    holiday: day.holidayHours
+  };
+
+  return (Object.keys(hoursByType) as OvertimeRequestType[])
+    .filter(type => hoursByType[type] > 0)
+    .map(type => ({
+      date,
+      hours: hoursByType[type],
+      type,
+      reason: `${shiftType} shift`,
+      shiftType
+    }));
+}
+
+/**
+ * Typed overtime from a month's requests; only approved requests count
+ */
+export function summarizeApprovedOvertime(requests: OvertimeRequest[]): TypedOvertime {
+  const days = new Map<string, TypedOvertimeDay>();
+
+  requests
+    .filter(request => request.status === 'approved')
+    .forEach(request => {
+      const day = days.get(request.date) || {
+        date: request.date,
+        // Hand-entered hours count as an overtime shift
+        shiftType: request.shiftType || 'Overtime',
+        dayHours: 0,
+        nightHours: 0,
+        holidayHours: 0
+      };
+
+      if (request.type === 'night') {
+        day.nightHours += request.hours;
+      } else if (request.type === 'holiday') {
+        day.holidayHours += request.hours;
+      } else {
+        day.dayHours += request.hours;
+      }
+      days.set(request.date, day);
+    });
+
+  const sortedDays = Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+  const dayHours = sortedDays.reduce((sum, day) => sum + day.dayHours, 0);
+  const nightHours = sortedDays.reduce((sum, day) => sum + day.nightHours, 0);
+  const holidayHours = sortedDays.reduce((sum, day) => sum + day.holidayHours, 0);
+
+  return {
+    dayHours,
+    nightHours,
+    holidayHours,
+    totalHours: dayHours + nightHours + holidayHours,
+    days: sortedDays
+  };
+}
+
+export interface OvertimeDecisionNotification {
+  title: string;
+  message: string;
+  type: 'success' | 'warning';
+  category: 'overtime';
+  link: string;
+}
+
+/**
+ * Notification telling an employee their request was approved or rejected
+ */
+export function buildOvertimeDecisionNotification(
+  request: OvertimeRequest,
+  status: 'approved' | 'rejected',
+  note?: string | null
+): OvertimeDecisionNotification {
+  const what = `${request.hours}h of ${OVERTIME_REQUEST_TYPE_LABELS[request.type].toLowerCase()} overtime on ${format(parseISO(request.date), 'MMM d, yyyy')}`;
+  const message = status === 'approved'
+    ? `Your request for ${what} was approved and will be paid with that month's salary.`
+    : `Your request for ${what} was rejected.`;
+
+  return {
+    title: `Overtime ${OVERTIME_REQUEST_STATUS_LABELS[status].toLowerCase()}`,
+    message: note ? `${message} Note: ${note}` : message,
+    type: status === 'approved' ? 'success' : 'warning',
+    category: 'overtime',
+    link: '/salary'
+  };
+}
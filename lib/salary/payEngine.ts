@@ -0,0 +1,169 @@
+/**
+ * Pay-rule engine
+ *
+ * Single source of truth for how a month's pay is derived from its inputs.
+ * Every salary calculator in the app (the salary page, the API routes and the
+ * overtime sync) goes through `computePay` so they always return the same figures.
+ */
+
+import { PayLineItem, summariseLineItems } from './lineItems';
+import { calculateStatutoryDeductions, StatutoryTables } from './statutory';
+import { OvertimeLimits } from './overtimeLimits';
+
+export interface OvertimeMultipliers {
+  day: number;
+  night: number;
+  holiday: number;
+}
+
+export interface PayRuleSet {
+  // Monthly hours used to turn (basic + cost of living) into an hourly rate
+  hourDivisor: number;
+  // Multipliers applied to each overtime type
+  overtimeMultipliers: OvertimeMultipliers;
+  // Exchange rate the rate-linked pay is pegged to (rate ratio = rate / base)
+  exchangeRateBase: number;
+  // Income tax and social-insurance tables (no statutory deductions when absent)
+  statutory?: StatutoryTables | null;
+  // Overtime caps and minimum rest between shifts (nothing is checked when absent)
+  overtimeLimits?: OvertimeLimits | null;
+}
+
+export const DEFAULT_PAY_RULES: PayRuleSet = {
+  hourDivisor: 210,
+  overtimeMultipliers: {
+    day: 1.5,
+    night: 1.75,
+    holiday: 2.0
+  },
+  exchangeRateBase: 30.8
+};
+
+export interface PayInputs {
+  basicSalary: number;
+  costOfLiving: number;
+  shiftAllowance: number;
+  otherEarnings?: number;
+  // Overtime hours by type, before multipliers
+  dayOvertimeHours?: number;
+  nightOvertimeHours?: number;
+  holidayOvertimeHours?: number;
+  // Overtime hours that are already weighted (e.g. the flat schedule total)
+  additionalEffectiveHours?: number;
+  exchangeRate: number;
+  deduction?: number;
+  // Itemised earning and deduction lines for the month
+  lineItems?: PayLineItem[];
+  // Loan or advance installment due this month, taken from net pay
+  loanRepayment?: number;
+}
+
+export interface PayResult {
+  hourlyRate: number;
+  effectiveOvertimeHours: number;
+  overtimePay: number;
+  rateRatio: number;
+  // Sum of all earnings before the rate ratio is applied
+  baseAmount: number;
+  // Earnings after the rate ratio is applied
+  grossSalary: number;
+  // Portion of gross salary that comes from the rate ratio
+  variablePay: number;
+  // Free-form deduction entered for the month
+  deduction: number;
+  // Itemised earning and deduction lines, after the rate ratio
+  lineEarnings: number;
+  lineDeductions: number;
+  // Statutory deductions computed from the rule set's tables
+  socialInsurance: number;
+  incomeTax: number;
+  // Loan and advance installments taken after tax
+  loanRepayment: number;
+  totalSalary: number;
+}
+
+/**
+ * Hourly rate used for overtime: (basic salary + cost of living) / hour divisor
+ */
+export function getHourlyRate(
+  basicSalary: number,
+  costOfLiving: number,
+  rules: PayRuleSet = DEFAULT_PAY_RULES
+): number {
+  return (basicSalary + costOfLiving) / rules.hourDivisor;
+}
+
+/**
+ * Weight overtime hours by type using the rule set's multipliers
+ */
+export function getEffectiveOvertimeHours(
+  dayHours: number,
+  nightHours: number,
+  holidayHours: number,
+  rules: PayRuleSet = DEFAULT_PAY_RULES
+): number {
+  const { day, night, holiday } = rules.overtimeMultipliers;
+  return dayHours * day + nightHours * night + holidayHours * holiday;
+}
+
+/**
+ * Ratio between the month's exchange rate and the rule set's base rate
+ */
+export function getRateRatio(
+  exchangeRate: number,
+  rules: PayRuleSet = DEFAULT_PAY_RULES
+): number {
+  return exchangeRate / rules.exchangeRateBase;
+}
+
+/**
+ * Compute a month's pay from its inputs:
+ * Total = [(Basic + Cost of Living + Shift Allowance + Other Earnings + Overtime) * (Rate / Base)] - Deduction
+ *         + Earning lines - Deduction lines - Social Insurance - Income Tax
+ * Rate-linked lines are scaled by the rate ratio; statutory deductions are worked out
+ * on gross pay less non-taxable earnings and pre-tax deductions.
+ */
+export function computePay(inputs: PayInputs, rules: PayRuleSet = DEFAULT_PAY_RULES): PayResult {
+  const basicSalary = inputs.basicSalary || 0;
+  const costOfLiving = inputs.costOfLiving || 0;
+  const shiftAllowance = inputs.shiftAllowance || 0;
+  const otherEarnings = inputs.otherEarnings || 0;
+  const deduction = inputs.deduction || 0;
+  const loanRepayment = inputs.loanRepayment || 0;
+
+  const hourlyRate = getHourlyRate(basicSalary, costOfLiving, rules);
+  const effectiveOvertimeHours = getEffectiveOvertimeHours(
+    inputs.dayOvertimeHours || 0,
+    inputs.nightOvertimeHours || 0,
+    inputs.holidayOvertimeHours || 0,
+    rules
+  ) + (inputs.additionalEffectiveHours || 0);
+  const overtimePay = hourlyRate * effectiveOvertimeHours;
+
+  const rateRatio = getRateRatio(inputs.exchangeRate, rules);
+  const lines = summariseLineItems(inputs.lineItems, rateRatio);
+  const ratedAmount = basicSalary + costOfLiving + shiftAllowance + otherEarnings + overtimePay + lines.rateLinkedEarnings;
+  const baseAmount = ratedAmount + lines.fixedEarnings;
+  const grossSalary = ratedAmount * rateRatio + lines.fixedEarnings;
+  const taxablePay = grossSalary - lines.nonTaxableEarnings - lines.preTaxDeductions;
+  const statutory = rules.statutory
+    ? calculateStatutoryDeductions(taxablePay, rules.statutory)
+    : { socialInsurance: 0, incomeTax: 0, total: 0 };
+
+  return {
+    hourlyRate,
+    effectiveOvertimeHours,
+    overtimePay,
+    rateRatio,
+    baseAmount,
+    grossSalary,
+    variablePay: ratedAmount * rateRatio - ratedAmount,
+    deduction,
+    lineEarnings: lines.earnings,
+    lineDeductions: lines.deductions,
+    socialInsurance: statutory.socialInsurance,
+    incomeTax: statutory.incomeTax,
+    loanRepayment,
+    totalSalary: grossSalary - deduction - lines.deductions - statutory.total - loanRepayment
+  };
+}
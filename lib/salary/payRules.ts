@@ -0,0 +1,144 @@
+import { format } from 'date-fns';
+import { supabase } from '../supabase';
+import type { SupabaseClient } from '../supabaseClient';
+import { DEFAULT_PAY_RULES, PayRuleSet } from './payEngine';
+
+/**
+ * Effective-dated pay rules
+ *
+ * Pay rules are stored as versions, each in force from its effective date until
+ * the next version starts. A month is always calculated with the version that was
+ * in force on its first day, so publishing new rules never changes past months.
+ */
+
+export interface PayRuleVersion extends PayRuleSet {
+  id?: string;
+  // First month (YYYY-MM-DD, always the 1st) the version applies to
+  effectiveFrom: string;
+  notes?: string | null;
+  createdBy?: string | null;
+  createdAt?: string;
+}
+
+// A rule set, or the month (YYYY-MM) whose rules should be used
+export type PayRulesRef = PayRuleSet | string;
+
+// Rules that applied before any version was published
+export const BASELINE_PAY_RULE_VERSION: PayRuleVersion = {
+  ...DEFAULT_PAY_RULES,
+  effectiveFrom: '2000-01-01'
+};
+
+// Versions loaded from the database, sorted by effective date
+let payRuleVersions: PayRuleVersion[] = [];
+
+/**
+ * Map a pay_rule_versions row to a PayRuleVersion
+ */
+export function mapPayRuleVersion(row: any): PayRuleVersion {
+  return {
+    id: row.id,
+    effectiveFrom: row.effective_from,
+    hourDivisor: Number(row.hour_divisor),
+    overtimeMultipliers: {
+      day: Number(row.day_multiplier),
+      night: Number(row.night_multiplier),
+      holiday: Number(row.holiday_multiplier)
+    },
+    exchangeRateBase: Number(row.exchange_rate_base),
+    statutory: row.statutory_tables || null,
+    overtimeLimits: row.overtime_limits || null,
+    notes: row.notes,
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Normalise a month (YYYY-MM) or date (YYYY-MM-DD) to the first day of its month
+ */
+export function toMonthStart(monthOrDate: string): string {
+  return `${monthOrDate.substring(0, 7)}-01`;
+}
+
+/**
+ * Pick the version in force for a month
+ * @param month Month in YYYY-MM format (a full date is also accepted)
+ * @param versions Versions to choose from (defaults to the loaded versions)
+ * @returns The latest version whose effective date is on or before the month
+ */
+export function resolvePayRules(
+  month: string,
+  versions: PayRuleVersion[] = payRuleVersions
+): PayRuleVersion {
+  const monthStart = toMonthStart(month);
+  let inForce = BASELINE_PAY_RULE_VERSION;
+
+  for (const version of versions) {
+    if (version.effectiveFrom <= monthStart && version.effectiveFrom >= inForce.effectiveFrom) {
+      inForce = version;
+    }
+  }
+
+  return inForce;
+}
+
+/**
+ * Turn a rule set or month reference into a rule set
+ */
+export function toPayRuleSet(ref: PayRulesRef): PayRuleSet {
+  return typeof ref === 'string' ? resolvePayRules(ref) : ref;
+}
+
+/**
+ * Current month in YYYY-MM format, used when no month is given
+ */
+export function currentPayMonth(): string {
+  return format(new Date(), 'yyyy-MM');
+}
+
+/**
+ * Replace the loaded versions (used after fetching or publishing)
+ */
+export function setPayRuleVersions(versions: PayRuleVersion[]) {
+  payRuleVersions = [...versions].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+/**
+ * Versions currently loaded
+ */
+export function getPayRuleVersions(): PayRuleVersion[] {
+  return payRuleVersions;
+}
+
+/**
+ * Load all pay rule versions from the database, failing if the table can't be read.
+ * Anything that saves amounts uses this, so totals are never stored with the wrong rules.
+ * @param client Supabase client to read with (the service client in API routes)
+ */
+export async function loadPayRuleVersions(client: SupabaseClient = supabase): Promise<PayRuleVersion[]> {
+  const { data, error } = await client
+    .from('pay_rule_versions')
+    .select('*')
+    .order('effective_from', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch pay rule versions: ${error.message}`);
+  }
+
+  setPayRuleVersions((data || []).map(mapPayRuleVersion));
+  return payRuleVersions;
+}
+
+/**
+ * Load all pay rule versions from the database for display.
+ * Falls back to the versions already loaded if the table can't be read.
+ */
+export async function fetchPayRuleVersions(): Promise<PayRuleVersion[]> {
+  try {
+    return await loadPayRuleVersions();
+  } catch (error) {
+    console.error('Error fetching pay rule versions:', error);
+    return payRuleVersions;
+  }
+}
@@ -0,0 +1,320 @@
+import { computePay } from './payEngine';
+import { PayLineItem } from './lineItems';
+import { PayRulesRef, toPayRuleSet } from './payRules';
+
+/**
+ * Payslip reconciliation
+ *
+ * Parses the employer's payslip (CSV or text pasted from the PDF) into salary
+ * components and compares them with the saved salary record and with our own
+ * calculation, flagging anything that differs by more than a tolerance.
+ */
+
+export type PayslipComponent =
+  | 'basicSalary'
+  | 'costOfLiving'
+  | 'shiftAllowance'
+  | 'otherEarnings'
+  | 'overtimePay'
+  | 'socialInsurance'
+  | 'incomeTax'
+  | 'deduction'
+  | 'totalSalary';
+
+export const PAYSLIP_COMPONENT_LABELS: Record<PayslipComponent, string> = {
+  basicSalary: 'Basic Salary',
+  costOfLiving: 'Cost of Living',
+  shiftAllowance: 'Shift Allowance',
+  otherEarnings: 'Other Earnings',
+  overtimePay: 'Overtime',
+  socialInsurance: 'Social Insurance',
+  incomeTax: 'Income Tax',
+  deduction: 'Deductions',
+  totalSalary: 'Net Pay'
+};
+
+// Labels used on payslips for each component, most specific first
+const COMPONENT_ALIASES: [PayslipComponent, string[]][] = [
+  ['socialInsurance', ['social insurance', 'social ins', 'insurance']],
+  ['incomeTax', ['income tax', 'salary tax', 'payroll tax', 'tax']],
+  ['costOfLiving', ['cost of living', 'col allowance', 'col']],
+  ['shiftAllowance', ['shift allowance', 'shift allow', 'shift']],
+  ['overtimePay', ['overtime pay', 'overtime amount', 'overtime', 'ot pay', 'ot']],
+  ['deduction', ['total deductions', 'other deductions', 'deductions', 'deduction']],
+  ['otherEarnings', ['other earnings', 'other allowances', 'other']],
+  ['totalSalary', ['net pay', 'net salary', 'net amount', 'total salary', 'net']],
+  ['basicSalary', ['basic salary', 'basic pay', 'basic']]
+];
+
+// Labels that mention these are counts, not amounts
+const IGNORED_WORDS = ['hours', 'hrs', 'days', 'rate'];
+
+// Printed as deductions, with or without a minus sign or brackets, so only their size counts
+const DEDUCTION_COMPONENTS: PayslipComponent[] = ['socialInsurance', 'incomeTax', 'deduction'];
+
+const AMOUNT_PATTERN = /\(?-?\d[\d,]*(?:\.\d+)?\)?/g;
+
+// A count with its number, "24 hrs" or "Days: 21", ahead of a line's amount
+const COUNT_PATTERN = new RegExp(
+  `\\d[\\d,]*(?:\\.\\d+)?\\s*(?:${IGNORED_WORDS.join('|')})\\b`
+    + `|\\b(?:${IGNORED_WORDS.join('|')})\\b[\\s:]*\\d[\\d,]*(?:\\.\\d+)?`,
+  'gi'
+);
+
+export interface ParsedPayslip {
+  components: Partial<Record<PayslipComponent, number>>;
+  // Lines that had an amount but no recognised label
+  unrecognised: string[];
+}
+
+export interface ReconciliationLine {
+  component: PayslipComponent;
+  label: string;
+  payslip: number;
+  recorded: number | null;
+  // Recomputed with the pay-rule engine from the saved inputs
+  calculated: number | null;
+  difference: number;
+  flagged: boolean;
+}
+
+export interface ReconciliationResult {
+  month: string;
+  tolerance: number;
+  lines: ReconciliationLine[];
+  flaggedCount: number;
+}
+
+/**
+ * Parse an amount as printed on a payslip: "1,234.56", "EGP 1234", "(98.35)" or "-98.35"
+ */
+export function parseAmount(text: string): number | null {
+  const match = text.match(/\(?-?\d[\d,]*(?:\.\d+)?\)?/);
+  if (!match) return null;
+
+  const raw = match[0];
+  const value = parseFloat(raw.replace(/[(),]/g, ''));
+  if (isNaN(value)) return null;
+
+  return raw.startsWith('(') ? -Math.abs(value) : value;
+}
+
+const normaliseLabel = (label: string) =>
+  label.toLowerCase().replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const isCountLabel = (label: string) =>
+  IGNORED_WORDS.some(word => normaliseLabel(label).split(' ').includes(word));
+
+/**
+ * Match a payslip label to a component
+ */
+export function matchComponent(label: string): PayslipComponent | null {
+  const normalised = normaliseLabel(label);
+  if (!normalised || isCountLabel(label)) {
+    return null;
+  }
+
+  for (const [component, aliases] of COMPONENT_ALIASES) {
+    if (aliases.some(alias => new RegExp(`(^| )${alias}( |$)`).test(normalised))) {
+      return component;
+    }
+  }
+
+  return null;
+}
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Split a CSV line on the delimiter, keeping quoted cells ("23,517.00") whole
+ */
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      // A doubled quote inside a quoted cell is a literal quote
+      if (quoted && line[i + 1] === '"') {
+        cell += char;
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+};
+
+// The header row names components, so the delimiter is the one it splits into most cells
+const detectDelimiter = (header: string): string =>
+  CSV_DELIMITERS.reduce((best, delimiter) =>
+    splitCsvLine(header, delimiter).length > splitCsvLine(header, best).length ? delimiter : best
+  );
+
+/**
+ * Parse a payslip from CSV or pasted text.
+ * Accepts one component per line ("Basic Salary, 23,517.00" or "Basic Salary   23,517.00"),
+ * or a CSV with a header row of component names and a row of amounts.
+ */
+export function parsePayslip(text: string): ParsedPayslip {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const components: ParsedPayslip['components'] = {};
+  const unrecognised: string[] = [];
+
+  const addComponent = (component: PayslipComponent, amount: number) => {
+    // Amounts can be split over several lines (e.g. two deduction lines), so add them up.
+    // Earnings and net pay keep their sign, so a negative adjustment still shows
+    const value = DEDUCTION_COMPONENTS.includes(component) ? Math.abs(amount) : amount;
+    components[component] = (components[component] || 0) + value;
+  };
+
+  // Header-row CSV: names on the first line, amounts on the second
+  if (lines.length >= 2 && /[,;\t]/.test(lines[0])) {
+    const delimiter = detectDelimiter(lines[0]);
+    const headers = splitCsvLine(lines[0], delimiter);
+    const values = splitCsvLine(lines[1], delimiter);
+    const headerComponents = headers.map(matchComponent);
+
+    if (headerComponents.filter(Boolean).length >= 2 && headers.every(header => parseAmount(header) === null)) {
+      headers.forEach((header, i) => {
+        const amount = values[i] !== undefined ? parseAmount(values[i]) : null;
+        const component = headerComponents[i];
+        if (amount === null) return;
+        if (component) {
+          addComponent(component, amount);
+        } else {
+          unrecognised.push(`${header}: ${values[i]}`);
+        }
+      });
+      return { components, unrecognised };
+    }
+  }
+
+  // One component per line: the label, then the amount (the last number on the line).
+  // Counts ahead of the amount ("Overtime 24 hrs 1,234.00") are dropped from the label;
+  // a line whose last number is itself a count ("Overtime Hours 24") has no amount
+  lines.forEach(line => {
+    const numbers = line.match(AMOUNT_PATTERN);
+    if (!numbers) return;
+
+    const amountText = numbers[numbers.length - 1];
+    const amount = parseAmount(amountText);
+    const label = line.substring(0, line.lastIndexOf(amountText)).replace(COUNT_PATTERN, ' ');
+    const component = matchComponent(label);
+
+    if (amount === null || isCountLabel(label)) return;
+    if (component) {
+      addComponent(component, amount);
+    } else {
+      unrecognised.push(line);
+    }
+  });
+
+  return { components, unrecognised };
+}
+
+/**
+ * Compare a parsed payslip with the saved salary record and with our own calculation
+ * @param parsed Parsed payslip
+ * @param salaryRow The month's row from `salaries` (null if none is saved)
+ * @param month Month in YYYY-MM format
+ * @param tolerance Largest difference (EGP) that isn't flagged
+ * @param lineItems The month's saved earning and deduction lines
+ * @param rules The month's rules, with the employee's own base rate applied
+ */
+export function reconcilePayslip(
+  parsed: ParsedPayslip,
+  salaryRow: Record<string, any> | null,
+  month: string,
+  tolerance: number,
+  lineItems: PayLineItem[] = [],
+  rules: PayRulesRef = month
+): ReconciliationResult {
+  const recordedValues: Record<PayslipComponent, number | null> = {
+    basicSalary: salaryRow?.basic_salary ?? null,
+    costOfLiving: salaryRow?.cost_of_living ?? null,
+    shiftAllowance: salaryRow?.shift_allowance ?? null,
+    otherEarnings: salaryRow?.other_earnings ?? null,
+    overtimePay: salaryRow?.overtime_pay ?? null,
+    socialInsurance: salaryRow?.social_insurance ?? null,
+    incomeTax: salaryRow?.income_tax ?? null,
+    deduction: salaryRow?.deduction ?? null,
+    totalSalary: salaryRow?.total_salary ?? null
+  };
+
+  // Our own figures for the month, recomputed from the saved inputs with the month's rules.
+  // Rows saved before overtime hours were stored only have the overtime amount
+  const pay = salaryRow && salaryRow.exchange_rate
+    ? computePay({
+        basicSalary: salaryRow.basic_salary || 0,
+        costOfLiving: salaryRow.cost_of_living || 0,
+        shiftAllowance: salaryRow.shift_allowance || 0,
+        otherEarnings: (salaryRow.other_earnings || 0) +
+          (salaryRow.overtime_hours == null ? salaryRow.overtime_pay || 0 : 0),
+        additionalEffectiveHours: salaryRow.overtime_hours || 0,
+        exchangeRate: salaryRow.exchange_rate,
+        deduction: salaryRow.deduction || 0,
+        lineItems,
+        loanRepayment: salaryRow.loan_repayment || 0
+      }, toPayRuleSet(rules))
+    : null;
+
+  const calculatedValues: Record<PayslipComponent, number | null> = {
+    basicSalary: pay ? salaryRow?.basic_salary || 0 : null,
+    costOfLiving: pay ? salaryRow?.cost_of_living || 0 : null,
+    shiftAllowance: pay ? salaryRow?.shift_allowance || 0 : null,
+    otherEarnings: pay ? salaryRow?.other_earnings || 0 : null,
+    overtimePay: pay
+      ? (salaryRow?.overtime_hours == null ? salaryRow?.overtime_pay || 0 : pay.overtimePay)
+      : null,
+    socialInsurance: pay ? pay.socialInsurance : null,
+    incomeTax: pay ? pay.incomeTax : null,
+    deduction: pay ? pay.deduction : null,
+    totalSalary: pay ? pay.totalSalary : null
+  };
+
+  const lines = (Object.keys(PAYSLIP_COMPONENT_LABELS) as PayslipComponent[])
+    .filter(component => parsed.components[component] !== undefined)
+    .map(component => {
+      const payslip = parsed.components[component] as number;
+      const recorded = recordedValues[component];
+      const calculated = calculatedValues[component];
+
+      // Each component is checked against both our record and our calculation; report the larger gap
+      const differences = [recorded, calculated]
+        .filter((value): value is number => value !== null)
+        .map(value => payslip - value);
+      const difference = differences.reduce(
+        (largest, value) => (Math.abs(value) > Math.abs(largest) ? value : largest),
+        0
+      );
+
+      return {
+        component,
+        label: PAYSLIP_COMPONENT_LABELS[component],
+        payslip,
+        recorded,
+        calculated,
+        difference,
+        // Nothing to compare against is also worth raising
+        flagged: differences.length === 0 || Math.abs(difference) > tolerance
+      };
+    });
+
+  return {
+    month,
+    tolerance,
+    lines,
+    flaggedCount: lines.filter(line => line.flagged).length
+  };
+}
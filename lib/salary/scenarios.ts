@@ -0,0 +1,173 @@
+import { BasicSalaryCalculation } from '../calculations/salary';
+import { computePay } from './payEngine';
+import { resolvePayRules } from './payRules';
+import { applyEmployeeCurrency, EmployeeCurrency } from './currency';
+import { PayLineItem } from './lineItems';
+
+/**
+ * What-if salary scenarios
+ *
+ * A scenario is a named set of salary inputs ("rate goes to 55", "+24h night OT").
+ * Scenarios are calculated with the same engine as the salary page and compared
+ * component by component against a baseline.
+ */
+
+// Inputs a scenario can change; everything else is calculated
+export type ScenarioInputs = Pick<
+  BasicSalaryCalculation,
+  | 'basicSalary'
+  | 'costOfLiving'
+  | 'shiftAllowance'
+  | 'otherEarnings'
+  | 'overtimeHours'
+  | 'dayOvertimeHours'
+  | 'nightOvertimeHours'
+  | 'holidayOvertimeHours'
+  | 'deduction'
+  | 'exchangeRate'
+> & {
+  // Itemised earning and deduction lines
+  lineItems?: PayLineItem[];
+  // Loan and advance installments, carried over from the month
+  loanRepayment?: number;
+};
+
+export interface SalaryScenario {
+  id: string;
+  employeeId: string;
+  name: string;
+  // Month (YYYY-MM) whose pay rules the scenario is calculated with
+  month: string;
+  inputs: ScenarioInputs;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type ScenarioComponentKey = keyof Pick<
+  BasicSalaryCalculation,
+  | 'basicSalary'
+  | 'costOfLiving'
+  | 'shiftAllowance'
+  | 'otherEarnings'
+  | 'overtimePay'
+  | 'variablePay'
+  | 'socialInsurance'
+  | 'incomeTax'
+  | 'deduction'
+  | 'lineEarnings'
+  | 'lineDeductions'
+  | 'totalSalary'
+>;
+
+// Components shown in the comparison, in payslip order
+export const SCENARIO_COMPONENTS: { key: ScenarioComponentKey; label: string; isDeduction?: boolean }[] = [
+  { key: 'basicSalary', label: 'Basic Salary' },
+  { key: 'costOfLiving', label: 'Cost of Living' },
+  { key: 'shiftAllowance', label: 'Shift Allowance' },
+  { key: 'otherEarnings', label: 'Other Earnings' },
+  { key: 'overtimePay', label: 'Overtime Pay' },
+  { key: 'variablePay', label: 'Variable Pay' },
+  { key: 'lineEarnings', label: 'Itemised Earnings' },
+  { key: 'socialInsurance', label: 'Social Insurance', isDeduction: true },
+  { key: 'incomeTax', label: 'Income Tax', isDeduction: true },
+  { key: 'deduction', label: 'Deductions', isDeduction: true },
+  { key: 'lineDeductions', label: 'Itemised Deductions', isDeduction: true },
+  { key: 'totalSalary', label: 'Total Salary' }
+];
+
+export interface ScenarioComparisonRow {
+  key: ScenarioComponentKey;
+  label: string;
+  isDeduction?: boolean;
+  baseline: number;
+  // Value and difference from the baseline for each scenario, by scenario id
+  values: Record<string, { value: number; difference: number }>;
+}
+
+/**
+ * Pick the scenario inputs out of a salary calculation
+ * @param lineItems The month's itemised lines, carried into the scenario
+ */
+export function toScenarioInputs(calc: BasicSalaryCalculation, lineItems?: PayLineItem[]): ScenarioInputs {
+  return {
+    basicSalary: calc.basicSalary || 0,
+    costOfLiving: calc.costOfLiving || 0,
+    shiftAllowance: calc.shiftAllowance || 0,
+    otherEarnings: calc.otherEarnings || 0,
+    overtimeHours: calc.overtimeHours || 0,
+    dayOvertimeHours: calc.dayOvertimeHours || 0,
+    nightOvertimeHours: calc.nightOvertimeHours || 0,
+    holidayOvertimeHours: calc.holidayOvertimeHours || 0,
+    deduction: calc.deduction || 0,
+    exchangeRate: calc.exchangeRate || 0,
+    lineItems: lineItems || [],
+    loanRepayment: calc.loanRepayment || 0
+  };
+}
+
+/**
+ * Calculate a full salary from scenario inputs.
+ * `overtimeHours` is the flat schedule total (already effective hours), as on the salary page;
+ * the typed overtime hours get the month's multipliers.
+ * @param currency The employee's currency settings, for their own base rate
+ */
+export function calculateScenario(
+  inputs: ScenarioInputs,
+  month: string,
+  currency?: EmployeeCurrency | null
+): BasicSalaryCalculation {
+  const pay = computePay({
+    basicSalary: inputs.basicSalary,
+    costOfLiving: inputs.costOfLiving,
+    shiftAllowance: inputs.shiftAllowance,
+    otherEarnings: inputs.otherEarnings,
+    dayOvertimeHours: inputs.dayOvertimeHours,
+    nightOvertimeHours: inputs.nightOvertimeHours,
+    holidayOvertimeHours: inputs.holidayOvertimeHours,
+    additionalEffectiveHours: inputs.overtimeHours,
+    exchangeRate: inputs.exchangeRate,
+    deduction: inputs.deduction,
+    lineItems: inputs.lineItems,
+    loanRepayment: inputs.loanRepayment
+  }, applyEmployeeCurrency(resolvePayRules(month), currency));
+
+  const { lineItems, ...calcInputs } = inputs;
+
+  return {
+    ...calcInputs,
+    effectiveOvertimeHours: pay.effectiveOvertimeHours,
+    overtimePay: pay.overtimePay,
+    variablePay: pay.variablePay,
+    lineEarnings: pay.lineEarnings,
+    lineDeductions: pay.lineDeductions,
+    socialInsurance: pay.socialInsurance,
+    incomeTax: pay.incomeTax,
+    loanRepayment: pay.loanRepayment,
+    totalSalary: pay.totalSalary,
+    rateRatio: pay.rateRatio
+  };
+}
+
+/**
+ * Compare scenarios against a baseline, component by component
+ */
+export function compareScenarios(
+  baseline: BasicSalaryCalculation,
+  scenarios: { id: string; result: BasicSalaryCalculation }[]
+): ScenarioComparisonRow[] {
+  return SCENARIO_COMPONENTS.map(component => {
+    const baselineValue = baseline[component.key] || 0;
+    const values: ScenarioComparisonRow['values'] = {};
+
+    scenarios.forEach(scenario => {
+      const value = scenario.result[component.key] || 0;
+      values[scenario.id] = { value, difference: value - baselineValue };
+    });
+
+    return {
+      ...component,
+      baseline: baselineValue,
+      values
+    };
+  });
+}
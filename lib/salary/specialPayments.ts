@@ -0,0 +1,127 @@
+import { getRateRatio, PayRuleSet } from './payEngine';
+import { calculateAnnualIncomeTax, calculateStatutoryDeductions } from './statutory';
+
+/**
+ * Bonus, 13th-month and profit-share payments
+ *
+ * Payments made once or a few times a year, outside the monthly salary. Each one
+ * is paid in a given month, may or may not move with that month's rate ratio, and
+ * is taxed on its own terms: on top of the year's salary, at a flat rate, or not at all.
+ */
+
+export type SpecialPaymentType = 'annual_bonus' | 'thirteenth_month' | 'profit_share';
+
+export const SPECIAL_PAYMENT_LABELS: Record<SpecialPaymentType, string> = {
+  annual_bonus: 'Annual Bonus',
+  thirteenth_month: '13th-Month Salary',
+  profit_share: 'Profit Share'
+};
+
+// with_salary: taxed as extra income on top of the year's salary
+export type SpecialPaymentTaxTreatment = 'with_salary' | 'flat' | 'exempt';
+
+export const SPECIAL_PAYMENT_TAX_LABELS: Record<SpecialPaymentTaxTreatment, string> = {
+  with_salary: 'Taxed with salary',
+  flat: 'Flat rate',
+  exempt: 'Tax-free'
+};
+
+export interface SpecialPaymentInputs {
+  type: SpecialPaymentType;
+  payoutMonth: string; // YYYY-MM
+  // Amount before the rate ratio
+  amount: number;
+  // Scaled by the payout month's rate ratio
+  rateLinked: boolean;
+  taxTreatment: SpecialPaymentTaxTreatment;
+  // Rate for the flat treatment (0.1 = 10%)
+  flatTaxRate?: number;
+}
+
+export interface SpecialPaymentResult {
+  rateRatio: number;
+  grossAmount: number;
+  incomeTax: number;
+  netAmount: number;
+}
+
+export interface SpecialPayment extends SpecialPaymentInputs, SpecialPaymentResult {
+  id: string;
+  employeeId: string;
+  exchangeRate: number;
+  notes?: string | null;
+}
+
+export interface SpecialPaymentContext {
+  // Exchange rate in the payout month
+  exchangeRate: number;
+  // Rules in force for the payout month
+  rules: PayRuleSet;
+  // Regular monthly gross salary, used to find the tax bracket the payment falls into
+  regularMonthlyGross?: number;
+}
+
+/**
+ * Gross, tax and net of a special payment
+ */
+export function calculateSpecialPayment(
+  inputs: SpecialPaymentInputs,
+  context: SpecialPaymentContext
+): SpecialPaymentResult {
+  const rateRatio = inputs.rateLinked ? getRateRatio(context.exchangeRate, context.rules) : 1;
+  const grossAmount = (inputs.amount || 0) * rateRatio;
+
+  let incomeTax = 0;
+  if (inputs.taxTreatment === 'flat') {
+    incomeTax = grossAmount * (inputs.flatTaxRate || 0);
+  } else if (inputs.taxTreatment === 'with_salary' && context.rules.statutory) {
+    // Tax on the year's salary with the payment, less the tax on the salary alone
+    const tables = context.rules.statutory;
+    const annualSalary = calculateStatutoryDeductions(context.regularMonthlyGross || 0, tables).taxableIncome * 12;
+    incomeTax = calculateAnnualIncomeTax(annualSalary + grossAmount, tables.incomeTax)
+      - calculateAnnualIncomeTax(annualSalary, tables.incomeTax);
+  }
+
+  return {
+    rateRatio,
+    grossAmount,
+    incomeTax,
+    netAmount: grossAmount - incomeTax
+  };
+}
+
+/**
+ * Totals of a set of special payments
+ */
+export function totalSpecialPayments(payments: Array<Pick<SpecialPaymentResult, 'grossAmount' | 'incomeTax' | 'netAmount'>>) {
+  return payments.reduce(
+    (totals, payment) => ({
+      grossAmount: totals.grossAmount + (payment.grossAmount || 0),
+      incomeTax: totals.incomeTax + (payment.incomeTax || 0),
+      netAmount: totals.netAmount + (payment.netAmount || 0)
+    }),
+    { grossAmount: 0, incomeTax: 0, netAmount: 0 }
+  );
+}
+
+/**
+ * Map a special_payments row
+ */
+export function mapSpecialPayment(row: any): SpecialPayment {
+  return {
+    id: row.id,
+    employeeId: row.employee_id,
+    type: row.payment_type,
+    payoutMonth: String(row.payout_month).substring(0, 7),
+    amount: Number(row.amount) || 0,
+    rateLinked: row.rate_linked,
+    taxTreatment: row.tax_treatment,
+    flatTaxRate: row.flat_tax_rate == null ? undefined : Number(row.flat_tax_rate),
+    exchangeRate: Number(row.exchange_rate) || 0,
+    rateRatio: Number(row.rate_ratio) || 1,
+    grossAmount: Number(row.gross_amount) || 0,
+    incomeTax: Number(row.income_tax) || 0,
+    netAmount: Number(row.net_amount) || 0,
+    notes: row.notes
+  };
+}
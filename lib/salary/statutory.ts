@@ -0,0 +1,134 @@
+/**
+ * Statutory deductions
+ *
+ * Income tax and the employee's social-insurance share, computed from
+ * configurable tables. The tables travel with the pay rule versions so each
+ * month is taxed with the tables that applied to it.
+ */
+
+export interface TaxBracket {
+  // Upper limit of the bracket in annual taxable income (null = no limit)
+  upTo: number | null;
+  // Marginal rate applied within the bracket (0.1 = 10%)
+  rate: number;
+}
+
+export interface IncomeTaxTable {
+  // Annual amount exempt from tax before the brackets apply
+  personalExemption: number;
+  brackets: TaxBracket[];
+}
+
+export interface SocialInsuranceTable {
+  // Employee's share of the insurable wage (0.11 = 11%)
+  employeeRate: number;
+  // Monthly insurable wage floor and ceiling
+  minInsurableWage: number;
+  maxInsurableWage: number;
+}
+
+export interface StatutoryTables {
+  incomeTax: IncomeTaxTable;
+  socialInsurance: SocialInsuranceTable;
+}
+
+export interface StatutoryDeductions {
+  socialInsurance: number;
+  // Monthly taxable income after social insurance
+  taxableIncome: number;
+  incomeTax: number;
+  total: number;
+}
+
+export const DEFAULT_STATUTORY_TABLES: StatutoryTables = {
+  incomeTax: {
+    personalExemption: 20000,
+    brackets: [
+      { upTo: 40000, rate: 0 },
+      { upTo: 55000, rate: 0.1 },
+      { upTo: 70000, rate: 0.15 },
+      { upTo: 200000, rate: 0.2 },
+      { upTo: 400000, rate: 0.225 },
+      { upTo: 1200000, rate: 0.25 },
+      { upTo: null, rate: 0.275 }
+    ]
+  },
+  socialInsurance: {
+    employeeRate: 0.11,
+    minInsurableWage: 2300,
+    maxInsurableWage: 14500
+  }
+};
+
+/**
+ * Employee social-insurance share for a month
+ * @param insurableWage Monthly wage subject to social insurance
+ * @param table Social-insurance table to apply
+ */
+export function calculateSocialInsurance(
+  insurableWage: number,
+  table: SocialInsuranceTable = DEFAULT_STATUTORY_TABLES.socialInsurance
+): number {
+  if (insurableWage <= 0) return 0;
+
+  const cappedWage = Math.min(Math.max(insurableWage, table.minInsurableWage), table.maxInsurableWage);
+  return cappedWage * table.employeeRate;
+}
+
+/**
+ * Monthly income tax using progressive annual brackets
+ * @param monthlyTaxableIncome Taxable income for the month
+ * @param table Income tax table to apply
+ */
+export function calculateIncomeTax(
+  monthlyTaxableIncome: number,
+  table: IncomeTaxTable = DEFAULT_STATUTORY_TABLES.incomeTax
+): number {
+  // Brackets are annual, so annualise the month before applying them
+  return calculateAnnualIncomeTax(monthlyTaxableIncome * 12, table) / 12;
+}
+
+/**
+ * Income tax on a year's taxable income
+ * @param annualTaxableIncome Taxable income for the year, before the personal exemption
+ * @param table Income tax table to apply
+ */
+export function calculateAnnualIncomeTax(
+  annualTaxableIncome: number,
+  table: IncomeTaxTable = DEFAULT_STATUTORY_TABLES.incomeTax
+): number {
+  const annualTaxable = Math.max(0, annualTaxableIncome - table.personalExemption);
+
+  let annualTax = 0;
+  let lowerLimit = 0;
+
+  for (const bracket of table.brackets) {
+    if (annualTaxable <= lowerLimit) break;
+
+    const upperLimit = bracket.upTo ?? Infinity;
+    annualTax += (Math.min(annualTaxable, upperLimit) - lowerLimit) * bracket.rate;
+    lowerLimit = upperLimit;
+  }
+
+  return annualTax;
+}
+
+/**
+ * Statutory deductions for a month's gross salary.
+ * Social insurance comes off first; income tax is charged on what remains.
+ */
+export function calculateStatutoryDeductions(
+  grossSalary: number,
+  tables: StatutoryTables = DEFAULT_STATUTORY_TABLES
+): StatutoryDeductions {
+  const socialInsurance = calculateSocialInsurance(grossSalary, tables.socialInsurance);
+  const taxableIncome = Math.max(0, grossSalary - socialInsurance);
+  const incomeTax = calculateIncomeTax(taxableIncome, tables.incomeTax);
+
+  return {
+    socialInsurance,
+    taxableIncome,
+    incomeTax,
+    total: socialInsurance + incomeTax
+  };
+}
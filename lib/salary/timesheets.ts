@@ -0,0 +1,338 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { getRegularWorkHours } from '../utils/shiftCalculator';
+import { resolveShiftDefinition } from '../utils/shiftDefinitions';
+import { CalendarDay, ScheduleType, ShiftType } from '../types/schedule';
+import { getShiftInterval } from './overtimeLimits';
+import { OvertimeRequestInputs, OvertimeRequestType } from './overtimeRequests';
+
+/**
+ * Timesheets
+ *
+ * Clock-in and clock-out times, entered by hand or imported from the site badge
+ * reader, compared with the scheduled shift for each day. Time worked outside
+ * the scheduled shift is extra; once the employee confirms it, it is sent for
+ * approval as overtime like any other request.
+ */
+
+export type TimesheetSource = 'manual' | 'badge_csv';
+
+export interface TimesheetEntryInputs {
+  date: string; // YYYY-MM-DD, the day the shift started
+  clockIn: string; // Local date and time, YYYY-MM-DDTHH:mm:ss
+  clockOut: string;
+  notes?: string | null;
+}
+
+export interface TimesheetEntry extends TimesheetEntryInputs {
+  id: string;
+  employeeId: string;
+  source: TimesheetSource;
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+// A day's scheduled shift and its working times (none on days off)
+export interface ScheduledDay {
+  date: string;
+  shiftType: ShiftType;
+  interval: TimeInterval | null;
+}
+
+export type TimesheetFlag = 'late' | 'early' | 'unscheduled';
+
+export const TIMESHEET_FLAG_LABELS: Record<TimesheetFlag, string> = {
+  late: 'Late arrival',
+  early: 'Early departure',
+  unscheduled: 'Unscheduled hours'
+};
+
+export interface TimesheetComparison {
+  date: string;
+  shiftType: ShiftType;
+  scheduled: TimeInterval | null;
+  // Earliest clock-in and latest clock-out of the day
+  clockIn: Date | null;
+  clockOut: Date | null;
+  workedHours: number;
+  lateMinutes: number;
+  earlyMinutes: number;
+  // Time worked outside the scheduled shift
+  extraHours: number;
+  extraIntervals: TimeInterval[];
+  flags: TimesheetFlag[];
+}
+
+// Minutes either side of the scheduled times that are not flagged
+export const DEFAULT_GRACE_MINUTES = 5;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+/**
+ * Local date and time string for a Date, as stored on timesheet entries
+ */
+export function toLocalDateTime(date: Date): string {
+  return format(date, "yyyy-MM-dd'T'HH:mm:ss");
+}
+
+export function mapTimesheetEntry(row: any): TimesheetEntry {
+  return {
+    id: row.id,
+    employeeId: row.employee_id,
+    date: String(row.date).substring(0, 10),
+    clockIn: toLocalDateTime(new Date(row.clock_in)),
+    clockOut: toLocalDateTime(new Date(row.clock_out)),
+    notes: row.notes,
+    source: row.source
+  };
+}
+
+/**
+ * Build an entry from a day and two clock times; a clock-out before the
+ * clock-in is taken as the next morning (night shifts)
+ * @param clockIn Time (HH:mm) or date and time
+ * @param clockOut Time (HH:mm) or date and time
+ * @returns null when either time cannot be read
+ */
+export function buildTimesheetEntry(date: string, clockIn: string, clockOut: string, notes?: string | null): TimesheetEntryInputs | null {
+  const toDateTime = (value: string) => {
+    const trimmed = value.trim();
+    const time = trimmed.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    if (time) {
+      return new Date(`${date}T${time[1].padStart(2, '0')}:${time[2]}:${time[3] || '00'}`);
+    }
+    const dateTime = new Date(trimmed.replace(' ', 'T'));
+    return isNaN(dateTime.getTime()) ? null : dateTime;
+  };
+
+  const start = toDateTime(clockIn);
+  let end = toDateTime(clockOut);
+  if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime())) return null;
+
+  if (end <= start) end = addDays(end, 1);
+
+  return {
+    date: format(start, 'yyyy-MM-dd'),
+    clockIn: toLocalDateTime(start),
+    clockOut: toLocalDateTime(end),
+    notes: notes || null
+  };
+}
+
+// Header names the badge reader export is known to use
+const CSV_COLUMNS = {
+  date: /^(date|day|work date)$/i,
+  clockIn: /^(clock[ _-]?in|in|time in|start|punch in)$/i,
+  clockOut: /^(clock[ _-]?out|out|time out|end|punch out)$/i
+};
+
+/**
+ * Read a badge reader CSV export: a header row, then one row per shift with the
+ * date, the clock-in and the clock-out. Dates may be YYYY-MM-DD or DD/MM/YYYY.
+ * @returns The entries read, and a message for each row that could not be read
+ */
+export function parseBadgeCsv(text: string): { entries: TimesheetEntryInputs[]; errors: string[] } {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1')))
+    .filter(cells => cells.some(cell => cell !== ''));
+
+  if (rows.length === 0) return { entries: [], errors: ['The file is empty'] };
+
+  const header = rows[0];
+  const column = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+  const dateColumn = column(CSV_COLUMNS.date);
+  const inColumn = column(CSV_COLUMNS.clockIn);
+  const outColumn = column(CSV_COLUMNS.clockOut);
+
+  if (inColumn < 0 || outColumn < 0) {
+    return { entries: [], errors: ['The header must name a clock-in and a clock-out column'] };
+  }
+
+  const entries: TimesheetEntryInputs[] = [];
+  const errors: string[] = [];
+
+  rows.slice(1).forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const rawDate = dateColumn >= 0 ? cells[dateColumn] || '' : (cells[inColumn] || '').substring(0, 10);
+    const dayFirst = rawDate.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    const date = dayFirst
+      ? `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`
+      : rawDate;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      errors.push(`Row ${rowNumber}: unreadable date "${rawDate}"`);
+      return;
+    }
+
+    const entry = buildTimesheetEntry(date, cells[inColumn] || '', cells[outColumn] || '');
+    if (!entry) {
+      errors.push(`Row ${rowNumber}: unreadable clock-in or clock-out time`);
+      return;
+    }
+
+    entries.push(entry);
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * A calendar day's scheduled working times: the shift times for shift workers,
+ * the office hours for regular workers unless the day is overridden
+ * @param patternId Pattern whose shift definitions apply
+ */
+export function getScheduledDay(
+  day: Pick<CalendarDay, 'date' | 'dayOfWeek' | 'personalShift'>,
+  scheduleType: ScheduleType,
+  patternId?: string | null
+): ScheduledDay {
+  const shiftType = day.personalShift.type;
+
+  if (scheduleType === 'regular' && !day.personalShift.isOverridden) {
+    const hours = getRegularWorkHours(day.dayOfWeek, patternId);
+    // Office hours count as a day shift; the rotation does not apply
+    return {
+      date: day.date,
+      shiftType: hours ? 'Day' : 'Off',
+      interval: hours
+        ? { start: new Date(`${day.date}T${hours.start}:00`), end: new Date(`${day.date}T${hours.end}:00`) }
+        : null
+    };
+  }
+
+  return { date: day.date, shiftType, interval: getShiftInterval({ date: day.date, shiftType, patternId }) };
+}
+
+/**
+ * Parts of an interval that fall outside another
+ */
+function subtractInterval(interval: TimeInterval, other: TimeInterval | null): TimeInterval[] {
+  if (!other || interval.end <= other.start || interval.start >= other.end) return [interval];
+
+  const parts: TimeInterval[] = [];
+  if (interval.start < other.start) parts.push({ start: interval.start, end: other.start });
+  if (interval.end > other.end) parts.push({ start: other.end, end: interval.end });
+  return parts;
+}
+
+const intervalHours = (interval: TimeInterval) => (interval.end.getTime() - interval.start.getTime()) / HOUR;
+
+/**
+ * Compare the clocked times with the schedule, day by day
+ * @param scheduledDays Scheduled shift for each day of the period
+ * @param entries Timesheet entries in the period
+ * @returns A row for every day that was scheduled or clocked, in date order
+ */
+export function compareTimesheet(
+  scheduledDays: ScheduledDay[],
+  entries: TimesheetEntryInputs[],
+  graceMinutes = DEFAULT_GRACE_MINUTES
+): TimesheetComparison[] {
+  const scheduledByDate = new Map(scheduledDays.map(day => [day.date, day]));
+  const dates = new Set([
+    ...scheduledDays.filter(day => day.interval).map(day => day.date),
+    ...entries.map(entry => entry.date)
+  ]);
+
+  return Array.from(dates)
+    .sort()
+    .map(date => {
+      const scheduledDay = scheduledByDate.get(date);
+      const scheduled = scheduledDay?.interval || null;
+      const worked = entries
+        .filter(entry => entry.date === date)
+        .map(entry => ({ start: new Date(entry.clockIn), end: new Date(entry.clockOut) }))
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      const clockIn = worked.length > 0 ? worked[0].start : null;
+      const clockOut = worked.length > 0 ? new Date(Math.max(...worked.map(interval => interval.end.getTime()))) : null;
+      const workedHours = worked.reduce((sum, interval) => sum + intervalHours(interval), 0);
+
+      let lateMinutes = 0;
+      let earlyMinutes = 0;
+      if (scheduled && clockIn && clockOut) {
+        lateMinutes = Math.max(0, Math.round((clockIn.getTime() - scheduled.start.getTime()) / MINUTE));
+        earlyMinutes = Math.max(0, Math.round((scheduled.end.getTime() - clockOut.getTime()) / MINUTE));
+      }
+      if (lateMinutes <= graceMinutes) lateMinutes = 0;
+      if (earlyMinutes <= graceMinutes) earlyMinutes = 0;
+
+      // Time either side of the shift counts once it is over the grace period
+      const extraIntervals = worked
+        .flatMap(interval => subtractInterval(interval, scheduled))
+        .filter(interval => intervalHours(interval) * 60 > graceMinutes);
+      const extraHours = roundHours(extraIntervals.reduce((sum, interval) => sum + intervalHours(interval), 0));
+
+      const flags: TimesheetFlag[] = [];
+      if (lateMinutes > 0) flags.push('late');
+      if (earlyMinutes > 0) flags.push('early');
+      if (extraHours > 0) flags.push('unscheduled');
+
+      return {
+        date,
+        shiftType: scheduledDay?.shiftType || 'Off',
+        scheduled,
+        clockIn,
+        clockOut,
+        workedHours: roundHours(workedHours),
+        lateMinutes,
+        earlyMinutes,
+        extraHours,
+        extraIntervals,
+        flags
+      };
+    });
+}
+
+/**
+ * Hours of an interval that fall in the night shift's night-differential window
+ */
+function getNightHours(interval: TimeInterval, patternId?: string | null): number {
+  const night = resolveShiftDefinition('Night', patternId)?.nightWindow;
+  if (!night) return 0;
+
+  let hours = 0;
+  // Night windows start the evening before the interval and run past its end
+  for (let day = addDays(parseISO(format(interval.start, 'yyyy-MM-dd')), -1); day <= interval.end; day = addDays(day, 1)) {
+    const start = new Date(`${format(day, 'yyyy-MM-dd')}T${night.start}:00`);
+    // Windows such as 19:00-07:00 end the next morning
+    const end = new Date(`${format(night.end > night.start ? day : addDays(day, 1), 'yyyy-MM-dd')}T${night.end}:00`);
+    const overlap = Math.min(end.getTime(), interval.end.getTime()) - Math.max(start.getTime(), interval.start.getTime());
+    if (overlap > 0) hours += overlap / HOUR;
+  }
+
+  return hours;
+}
+
+/**
+ * Overtime requests for a day's confirmed extra hours, split into day and night
+ * hours (or all holiday hours on an official holiday)
+ * @param patternId Pattern whose night-differential window applies
+ */
+export function buildTimesheetOvertimeCandidates(
+  comparison: TimesheetComparison,
+  isHoliday = false,
+  patternId?: string | null
+): OvertimeRequestInputs[] {
+  if (comparison.extraHours <= 0) return [];
+
+  const nightHours = roundHours(comparison.extraIntervals.reduce((sum, interval) => sum + getNightHours(interval, patternId), 0));
+  const hoursByType: Record<OvertimeRequestType, number> = isHoliday
+    ? { day: 0, night: 0, holiday: comparison.extraHours }
+    : { day: roundHours(comparison.extraHours - nightHours), night: nightHours, holiday: 0 };
+  const describe = comparison.scheduled ? `outside the ${comparison.shiftType} shift` : 'on an unscheduled day';
+
+  return (Object.keys(hoursByType) as OvertimeRequestType[])
+    .filter(type => hoursByType[type] > 0)
+    .map(type => ({
+      date: comparison.date,
+      hours: hoursByType[type],
+      type,
+      reason: `Timesheet: worked ${describe}`
+    }));
+}
@@ -0,0 +1,125 @@
+import { getShiftWorkHours } from '../utils/shiftCalculator';
+import { resolveShiftDefinition, splitPaidHours } from '../utils/shiftDefinitions';
+import { ShiftType } from '../types/schedule';
+
+/**
+ * Typed overtime from the schedule
+ *
+ * Overtime is no longer entered by hand: it is built from the month's shift
+ * overrides. An Overtime day is worked as a full day shift followed by a night
+ * shift, an InLieu day as a day shift on a regular day off, each paid for the
+ * hours in its shift definition. Hours worked on an official holiday are paid
+ * at the holiday multiplier instead. The hours are
+ * only paid once approved (see overtimeRequests).
+ */
+
+// Override types that are paid as overtime
+export const OVERTIME_SHIFT_TYPES: ShiftType[] = ['Overtime', 'InLieu'];
+
+export interface ScheduleOvertimeOverride {
+  date: string; // YYYY-MM-DD
+  shiftType: ShiftType;
+  // Pattern whose shift definitions apply (the site-wide ones when not set)
+  patternId?: string | null;
+}
+
+export interface ScheduleHoliday {
+  date: string; // YYYY-MM-DD
+  isOfficial: boolean;
+}
+
+export interface TypedOvertimeDay {
+  date: string;
+  shiftType: ShiftType;
+  dayHours: number;
+  nightHours: number;
+  holidayHours: number;
+}
+
+export interface TypedOvertime {
+  dayHours: number;
+  nightHours: number;
+  holidayHours: number;
+  totalHours: number;
+  days: TypedOvertimeDay[];
+}
+
+/**
+ * Length in hours of a shift, from its working times (night shifts run past midnight)
+ */
+export function getShiftLength(shiftType: ShiftType, patternId?: string | null): number {
+  const hours = getShiftWorkHours(shiftType, patternId);
+  if (!hours) return 0;
+
+  const toMinutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+  };
+  const minutes = toMinutes(hours.end) - toMinutes(hours.start);
+
+  return (minutes <= 0 ? minutes + 24 * 60 : minutes) / 60;
+}
+
+/**
+ * Paid day and night hours of a defined shift
+ */
+function getPaidHours(shiftType: 'Day' | 'Night', patternId?: string | null): { dayHours: number; nightHours: number } {
+  const definition = resolveShiftDefinition(shiftType, patternId);
+  return definition ? splitPaidHours(definition) : { dayHours: 0, nightHours: 0 };
+}
+
+/**
+ * Day and night hours worked on an override day
+ */
+function getOverrideHours(shiftType: ShiftType, patternId?: string | null): { dayHours: number; nightHours: number } {
+  switch (shiftType) {
+    case 'Overtime': {
+      const day = getPaidHours('Day', patternId);
+      const night = getPaidHours('Night', patternId);
+      return { dayHours: day.dayHours + night.dayHours, nightHours: day.nightHours + night.nightHours };
+    }
+    case 'InLieu':
+      return getPaidHours('Day', patternId);
+    default:
+      return { dayHours: 0, nightHours: 0 };
+  }
+}
+
+/**
+ * Build a month's typed overtime from its shift overrides and holidays
+ * @param overrides The month's shift overrides; types other than Overtime/InLieu are ignored
+ * @param holidays Holidays in the month
+ */
+export function deriveTypedOvertime(
+  overrides: ScheduleOvertimeOverride[],
+  holidays: ScheduleHoliday[] = []
+): TypedOvertime {
+  const officialHolidays = new Set(holidays.filter(h => h.isOfficial).map(h => h.date));
+
+  const days = overrides
+    .filter(override => OVERTIME_SHIFT_TYPES.includes(override.shiftType))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((override): TypedOvertimeDay => {
+      const { dayHours, nightHours } = getOverrideHours(override.shiftType, override.patternId);
+
+      // Every hour of a holiday is paid at the holiday multiplier
+      if (officialHolidays.has(override.date)) {
+        return { date: override.date, shiftType: override.shiftType, dayHours: 0, nightHours: 0, holidayHours: dayHours + nightHours };
+      }
+
+      return { date: override.date, shiftType: override.shiftType, dayHours, nightHours, holidayHours: 0 };
+    });
+
+  const dayHours = days.reduce((sum, day) => sum + day.dayHours, 0);
+  const nightHours = days.reduce((sum, day) => sum + day.nightHours, 0);
+  const holidayHours = days.reduce((sum, day) => sum + day.holidayHours, 0);
+
+  return {
+    dayHours,
+    nightHours,
+    holidayHours,
+    totalHours: dayHours + nightHours + holidayHours,
+    days
+  };
+}
+
@@ -1,7 +1,26 @@
 /**
  * Service for handling overtime related operations
  */
-import { supabase } from '../supabaseClient';
+import { eachDayOfInterval, format, max, min, parseISO } from 'date-fns';
+import { supabase, SupabaseClient } from '../supabaseClient';
+import { calculateEffectiveOvertimeHours } from '../calculations/salary';
+import { OVERTIME_SHIFT_TYPES, TypedOvertimeDay } from '../salary/typedOvertime';
+import {
+  buildScheduleOvertimeRequests,
+  mapOvertimeRequest,
+  OvertimeRequest,
+  summarizeApprovedOvertime
+} from '../salary/overtimeRequests';
+import {
+  buildWorkedShifts,
+  checkOvertimeLimits,
+  getBreachesForDate,
+  getLimitCheckRange,
+  OvertimeBreach
+} from '../salary/overtimeLimits';
+import { fetchPayRuleVersions, resolvePayRules } from '../salary/payRules';
+import { ShiftGroup, ShiftPattern, ShiftType } from '../types/schedule';
+import { fetchShiftDefinitions } from '../utils/shiftDefinitions';
 
 export enum OvertimeType {
   DAY = 'day',
@@ -15,11 +34,148 @@ export interface OvertimeSummary {
   nightHours: number;
   holidayHours: number;
   effectiveHours: number;
+  // Days with approved overtime
+  days: TypedOvertimeDay[];
 }
 
-interface OvertimeRecord {
-  hours: number;
-  type: OvertimeType;
+/**
+ * Build the overtime summary for an employee in a specific month from their
+ * approved overtime requests
+ * @param employeeId Employee ID to get overtime for
+ * @param year Year to get overtime for
+ * @param month Month to get overtime for (1-12)
+ * @param client Supabase client to read with (the service client for approvals)
+ * @returns Overtime summary including hours by type
+ * @throws When the requests cannot be read
+ */
+export async function fetchOvertimeSummary(
+  employeeId: string, 
+  year: number, 
+  month: number,
+  client: SupabaseClient = supabase
+): Promise<OvertimeSummary> {
+  // Format date range for the month
+  const startDate = `${year}-${month.toString().padStart(2, '0')}-01`;
+  let endDate: string;
+  
+  // Calculate the last day of the month
+  if (month === 12) {
+    endDate = `${year + 1}-01-01`;
+  } else {
+    endDate = `${year}-${(month + 1).toString().padStart(2, '0')}-01`;
+  }
+  
+  // Only overtime a supervisor has approved is paid
+  const { data: requests, error } = await client
+    .from('overtime_requests')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .eq('status', 'approved')
+    .gte('date', startDate)
+    .lt('date', endDate);
+  
+  if (error) {
+    console.error('Error fetching overtime requests:', error);
+    throw new Error(`Failed to fetch overtime requests: ${error.message}`);
+  }
+  
+  const { dayHours, nightHours, holidayHours, totalHours, days } = summarizeApprovedOvertime(
+    (requests || []).map(mapOvertimeRequest)
+  );
+  
+  // Weight the hours with the multipliers in force for the month
+  const effectiveHours = calculateEffectiveOvertimeHours(
+    dayHours,
+    nightHours,
+    holidayHours,
+    startDate.substring(0, 7)
+  );
+  
+  return {
+    totalHours,
+    dayHours,
+    nightHours,
+    holidayHours,
+    effectiveHours,
+    days
+  };
+}
+
+/**
+ * Keep the overtime requests raised by a day's shift in line with it: saving an
+ * Overtime/InLieu shift raises pending requests for its hours, and changing the
+ * shift cancels the requests it raised before
+ * @param employeeId Employee the shift belongs to
+ * @param date Day of the shift (YYYY-MM-DD)
+ * @param shiftType Shift saved for the day
+ * @param patternId Pattern whose shift definitions set the hours requested
+ * @returns The requests raised, if any
+ */
+export async function syncScheduleOvertimeRequests(
+  employeeId: string,
+  date: string,
+  shiftType: ShiftType,
+  patternId?: string | null
+): Promise<OvertimeRequest[]> {
+  const { data: existing, error } = await supabase
+    .from('overtime_requests')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .eq('date', date)
+    .eq('source', 'schedule')
+    .in('status', ['pending', 'approved']);
+
+  if (error) throw new Error(`Failed to fetch overtime requests: ${error.message}`);
+
+  // Saving the same shift again keeps its requests and their decisions
+  const active = (existing || []).map(mapOvertimeRequest);
+  if (active.length > 0 && active.every(request => request.shiftType === shiftType)) {
+    return [];
+  }
+
+  if (active.length > 0) {
+    const { error: cancelError } = await supabase
+      .from('overtime_requests')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .in('id', active.map(request => request.id));
+
+    if (cancelError) throw new Error(`Failed to cancel overtime requests: ${cancelError.message}`);
+  }
+
+  if (!OVERTIME_SHIFT_TYPES.includes(shiftType)) return [];
+
+  // Hours on official holidays are requested at the holiday multiplier
+  const { data: holidays, error: holidaysError } = await supabase
+    .from('holidays')
+    .select('date, is_official')
+    .eq('date', date);
+
+  if (holidaysError) throw new Error(`Failed to fetch holidays: ${holidaysError.message}`);
+
+  await fetchShiftDefinitions();
+  const drafts = buildScheduleOvertimeRequests(
+    date,
+    shiftType,
+    (holidays || []).map(holiday => ({ date: holiday.date, isOfficial: holiday.is_official !== false })),
+    patternId
+  );
+
+  const { data: created, error: insertError } = await supabase
+    .from('overtime_requests')
+    .insert(drafts.map(draft => ({
+      employee_id: employeeId,
+      date: draft.date,
+      hours: draft.hours,
+      overtime_type: draft.type,
+      reason: draft.reason,
+      source: 'schedule',
+      shift_type: draft.shiftType
+    })))
+    .select();
+
+  if (insertError) throw new Error(`Failed to raise overtime requests: ${insertError.message}`);
+
+  return (created || []).map(mapOvertimeRequest);
 }
 
 /**
@@ -27,7 +183,7 @@ interface OvertimeRecord {
  * @param employeeId Employee ID to get overtime for
  * @param year Year to get overtime for
  * @param month Month to get overtime for (1-12)
- * @returns Overtime summary including hours by type
+ * @returns Overtime summary including hours by type, or zeros when it cannot be read
  */
 export async function getOvertimeSummary(
   employeeId: string, 
@@ -35,61 +191,7 @@ export async function getOvertimeSummary(
   month: number
 ): Promise<OvertimeSummary> {
   try {
-    // Format date range for the month
-    const startDate = `${year}-${month.toString().padStart(2, '0')}-01`;
-    let endDate: string;
-    
-    // Calculate the last day of the month
-    if (month === 12) {
-      endDate = `${year + 1}-01-01`;
-    } else {
-      endDate = `${year}-${(month + 1).toString().padStart(2, '0')}-01`;
-    }
-    
-    // Query the database for overtime records
-    const { data, error } = await supabase
-      .from('overtime')
-      .select('hours, type')
-      .eq('employee_id', employeeId)
-      .gte('date', startDate)
-      .lt('date', endDate);
-    
-    if (error) {
-      console.error('Error fetching overtime data:', error);
-      throw new Error(`Failed to fetch overtime: ${error.message}`);
-    }
-    
-    // Calculate total hours by type
-    let dayHours = 0;
-    let nightHours = 0;
-    let holidayHours = 0;
-    
-    data?.forEach((record: OvertimeRecord) => {
-      switch(record.type) {
-        case OvertimeType.DAY:
-          dayHours += record.hours;
-          break;
-        case OvertimeType.NIGHT:
-          nightHours += record.hours;
-          break;
-        case OvertimeType.HOLIDAY:
-          holidayHours += record.hours;
-          break;
-      }
-    });
-    
-    // Calculate total and effective hours
-    // Night hours are weighted 1.5x and holiday hours are weighted 2x
-    const totalHours = dayHours + nightHours + holidayHours;
-    const effectiveHours = dayHours + (nightHours * 1.5) + (holidayHours * 2);
-    
-    return {
-      totalHours,
-      dayHours,
-      nightHours,
-      holidayHours,
-      effectiveHours
-    };
+    return await fetchOvertimeSummary(employeeId, year, month);
   } catch (error) {
     console.error('Error in getOvertimeSummary:', error);
     // Return empty data in case of error
@@ -98,7 +200,118 @@ export async function getOvertimeSummary(
       dayHours: 0,
       nightHours: 0,
       holidayHours: 0,
-      effectiveHours: 0
+      effectiveHours: 0,
+      days: []
     };
   }
-} 
\ No newline at end of file
+}
+
+export interface ShiftSources {
+  // Shift overrides by employee, then by date
+  overrides: Record<string, Record<string, ShiftType>>;
+  // Official holidays in the range
+  holidays: string[];
+  // Leave days in the range by employee
+  leaveDates: Record<string, string[]>;
+}
+
+/**
+ * Load what the worked shifts between two dates are built from
+ * @param from First day (YYYY-MM-DD)
+ * @param to Last day (YYYY-MM-DD), inclusive
+ * @param employeeIds Employees to load, or every employee the client can read
+ * @param client Supabase client to read with (the service client for reports)
+ */
+export async function fetchShiftSources(
+  from: string,
+  to: string,
+  employeeIds?: string[],
+  client: SupabaseClient = supabase
+): Promise<ShiftSources> {
+  let overridesQuery = client
+    .from('shift_overrides')
+    .select('employee_id, date, shift_type')
+    .gte('date', from)
+    .lte('date', to);
+  let leavesQuery = client
+    .from('leaves')
+    .select('employee_id, start_date, end_date')
+    .lte('start_date', to)
+    .gte('end_date', from);
+
+  if (employeeIds) {
+    overridesQuery = overridesQuery.in('employee_id', employeeIds);
+    leavesQuery = leavesQuery.in('employee_id', employeeIds);
+  }
+
+  const [overridesResult, holidaysResult, leavesResult] = await Promise.all([
+    overridesQuery,
+    client.from('holidays').select('date, is_official').gte('date', from).lte('date', to),
+    leavesQuery
+  ]);
+
+  if (overridesResult.error) throw new Error(`Failed to fetch shift overrides: ${overridesResult.error.message}`);
+  if (holidaysResult.error) throw new Error(`Failed to fetch holidays: ${holidaysResult.error.message}`);
+  if (leavesResult.error) throw new Error(`Failed to fetch leaves: ${leavesResult.error.message}`);
+
+  const overrides: ShiftSources['overrides'] = {};
+  (overridesResult.data || []).forEach(row => {
+    overrides[row.employee_id] = { ...overrides[row.employee_id], [row.date]: row.shift_type };
+  });
+
+  // Only the leave days inside the range matter
+  const leaveDates: ShiftSources['leaveDates'] = {};
+  (leavesResult.data || []).forEach(row => {
+    const start = max([parseISO(row.start_date), parseISO(from)]);
+    const end = min([parseISO(row.end_date), parseISO(to)]);
+    if (start > end) return;
+
+    leaveDates[row.employee_id] = [
+      ...(leaveDates[row.employee_id] || []),
+      ...eachDayOfInterval({ start, end }).map(day => format(day, 'yyyy-MM-dd'))
+    ];
+  });
+
+  return {
+    overrides,
+    holidays: (holidaysResult.data || []).filter(row => row.is_official !== false).map(row => row.date),
+    leaveDates
+  };
+}
+
+/**
+ * Check a shift that is being saved against the overtime limits in force for its month
+ * @param employeeId Employee the shift belongs to
+ * @param date Day of the shift (YYYY-MM-DD)
+ * @param shiftType Shift being saved for the day
+ * @param group Employee's rotation group, for the rostered shifts around it
+ * @param pattern Rotation the group belongs to
+ * @returns Breaches the day would take part in (none when no limits are configured)
+ */
+export async function checkShiftOvertimeLimits(
+  employeeId: string,
+  date: string,
+  shiftType: ShiftType,
+  group?: ShiftGroup | null,
+  pattern?: ShiftPattern
+): Promise<OvertimeBreach[]> {
+  await fetchPayRuleVersions();
+  const limits = resolvePayRules(date).overtimeLimits;
+  if (!limits) return [];
+
+  await fetchShiftDefinitions();
+
+  const { from, to } = getLimitCheckRange(date);
+  const sources = await fetchShiftSources(from, to, [employeeId]);
+
+  const shifts = buildWorkedShifts(from, to, {
+    group,
+    pattern,
+    // Check the day as it will be once saved
+    overrides: { ...sources.overrides[employeeId], [date]: shiftType },
+    holidays: sources.holidays,
+    leaveDates: sources.leaveDates[employeeId]
+  });
+
+  return getBreachesForDate(checkOvertimeLimits(shifts, limits), date);
+}
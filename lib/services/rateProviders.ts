@@ -0,0 +1,112 @@
+/**
+ * Exchange rate providers
+ *
+ * Every source of spot rates implements `RateProvider`, so `lib/exchange-rate.ts`
+ * can try them in order without knowing where a rate comes from. The fixture
+ * provider serves fixed rates for offline development and tests.
+ */
+import { CurrencyPair, FALLBACK_EXCHANGE_RATES, splitCurrencyPair } from '../salary/currency';
+
+export interface RateProvider {
+  name: string;
+  /**
+   * Get the spot rate for a pair
+   * @param pair Currency pair, e.g. USD/EGP
+   * @param date Day (YYYY-MM-DD) the rate is for
+   * @returns The rate, or null if the provider has none
+   */
+  fetchRate(pair: CurrencyPair, date: string): Promise<number | null>;
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Fetch JSON, giving up after the timeout so a slow provider doesn't hold up the chain
+async function fetchJson(url: string): Promise<any> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`API request failed with status ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+const roundRate = (rate: unknown): number | null =>
+  typeof rate === 'number' && rate > 0 ? parseFloat(rate.toFixed(2)) : null;
+
+/**
+ * exchangerate-api.com (needs an API key)
+ */
+export function createExchangeRateApiProvider(apiKey: string): RateProvider {
+  return {
+    name: 'exchangerate-api',
+    async fetchRate(pair) {
+      const { base, quote } = splitCurrencyPair(pair);
+      const data = await fetchJson(`https://v6.exchangerate-api.com/v6/${apiKey}/latest/${base}`);
+      return data.result === 'success' ? roundRate(data.conversion_rates?.[quote]) : null;
+    }
+  };
+}
+
+/**
+ * open.er-api.com (free, no key)
+ */
+export const openErApiProvider: RateProvider = {
+  name: 'open-er-api',
+  async fetchRate(pair) {
+    const { base, quote } = splitCurrencyPair(pair);
+    const data = await fetchJson(`https://open.er-api.com/v6/latest/${base}`);
+    return roundRate(data.rates?.[quote]);
+  }
+};
+
+/**
+ * exchangerate.host (free, no key)
+ */
+export const exchangeRateHostProvider: RateProvider = {
+  name: 'exchangerate-host',
+  async fetchRate(pair) {
+    const { base, quote } = splitCurrencyPair(pair);
+    const data = await fetchJson(`https://api.exchangerate.host/latest?base=${base}`);
+    return roundRate(data.rates?.[quote]);
+  }
+};
+
+/**
+ * Fixed rates that never touch the network.
+ * Each pair maps to a single rate or to rates by day (YYYY-MM-DD);
+ * days without a rate return null, like a provider that has no data.
+ */
+export function createFixtureProvider(
+  rates: Partial<Record<CurrencyPair, number | Record<string, number>>> = FALLBACK_EXCHANGE_RATES
+): RateProvider {
+  return {
+    name: 'fixture',
+    async fetchRate(pair, date) {
+      const rate = rates[pair];
+      if (rate === undefined) return null;
+      return typeof rate === 'number' ? rate : rate[date] ?? null;
+    }
+  };
+}
+
+/**
+ * Providers to try, in order.
+ * Set EXCHANGE_RATE_PROVIDER=fixture to work offline.
+ */
+export function getDefaultRateProviders(): RateProvider[] {
+  if (process.env.EXCHANGE_RATE_PROVIDER === 'fixture') {
+    return [createFixtureProvider()];
+  }
+
+  return [
+    createExchangeRateApiProvider(process.env.EXCHANGE_RATE_API_KEY || 'e8287e34bce27377331a738e'),
+    openErApiProvider,
+    exchangeRateHostProvider
+  ];
+}
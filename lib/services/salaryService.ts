@@ -0,0 +1,70 @@
+/**
+ * Service for loading what a saved month's salary is calculated from, so every
+ * place that writes salary totals calculates them the same way
+ */
+import { supabase } from '../supabase';
+import type { SupabaseClient } from '../supabaseClient';
+import { PayRuleSet } from '../salary/payEngine';
+import { loadPayRuleVersions, resolvePayRules } from '../salary/payRules';
+import { applyEmployeeCurrency, EmployeeCurrency, getEmployeeCurrency } from '../salary/currency';
+import { PayLineItem } from '../salary/lineItems';
+
+export interface SalaryMonthInputs {
+  currency: EmployeeCurrency;
+  // The month's rules with the employee's own base rate applied
+  payRules: PayRuleSet;
+  // The month's itemised lines, including any back-pay adjustment settled in it
+  lineItems: PayLineItem[];
+}
+
+/**
+ * Map a salary_line_items row to the line the pay engine sees
+ */
+export function mapPayLineItem(row: any): PayLineItem {
+  return {
+    name: row.name,
+    kind: row.kind,
+    amount: Number(row.amount) || 0,
+    taxable: row.taxable,
+    rateLinked: row.rate_linked
+  };
+}
+
+/**
+ * Load the rules, currency and line items a month's salary is calculated with.
+ * Throws if any of them can't be read, so no total is saved from partial inputs.
+ * @param month Month in YYYY-MM format (a full date is also accepted)
+ * @param client Supabase client to read with (the service client in API routes)
+ */
+export async function fetchSalaryMonthInputs(
+  employeeId: string,
+  month: string,
+  client: SupabaseClient = supabase
+): Promise<SalaryMonthInputs> {
+  const payMonth = month.substring(0, 7);
+
+  const [versions, employeeResult, lineItemsResult] = await Promise.all([
+    loadPayRuleVersions(client),
+    client
+      .from('employees')
+      .select('currency_pair, base_exchange_rate')
+      .eq('id', employeeId)
+      .maybeSingle(),
+    client
+      .from('salary_line_items')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .eq('month', `${payMonth}-01`)
+  ]);
+
+  if (employeeResult.error) throw new Error(`Failed to fetch employee currency: ${employeeResult.error.message}`);
+  if (lineItemsResult.error) throw new Error(`Failed to fetch salary line items: ${lineItemsResult.error.message}`);
+
+  const currency = getEmployeeCurrency(employeeResult.data);
+
+  return {
+    currency,
+    payRules: applyEmployeeCurrency(resolvePayRules(payMonth, versions), currency),
+    lineItems: (lineItemsResult.data || []).map(mapPayLineItem)
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Service for building schedules outside the schedule page
+ */
+import { addMonths, eachDayOfInterval, endOfMonth, format, max, min, parseISO } from 'date-fns';
+import { supabase, SupabaseClient } from '../supabaseClient';
+import { CalendarDay, ScheduleType, ShiftGroup, ShiftPattern, ShiftType } from '../types/schedule';
+import { generateMonthCalendar } from '../utils/shiftCalculator';
+import { mapShiftPattern, resolveShiftPattern } from '../utils/shiftPatterns';
+import { fetchShiftDefinitions } from '../utils/shiftDefinitions';
+
+export interface EmployeeCalendar {
+  employeeId: string;
+  name: string;
+  scheduleType: ScheduleType;
+  shiftGroup: ShiftGroup;
+  pattern: ShiftPattern;
+  // Every day of the months loaded, in date order
+  days: CalendarDay[];
+}
+
+type DateMap<T> = { [date: string]: T };
+
+/**
+ * Build employees' calendars for whole months, the way the schedule page does
+ * @param employeeIds Employees to build calendars for, or every employee the client can read
+ * @param firstMonth Any day in the first month
+ * @param months Number of months to build
+ * @param client Supabase client to read with (the service client for feeds and rosters)
+ * @returns Calendars in employee name order
+ */
+export async function fetchEmployeeCalendars(
+  employeeIds: string[] | undefined,
+  firstMonth: Date,
+  months: number,
+  client: SupabaseClient = supabase
+): Promise<EmployeeCalendar[]> {
+  const start = new Date(firstMonth.getFullYear(), firstMonth.getMonth(), 1);
+  const end = endOfMonth(addMonths(start, months - 1));
+  const from = format(start, 'yyyy-MM-dd');
+  const to = format(end, 'yyyy-MM-dd');
+
+  let employeesQuery = client
+    .from('employees')
+    .select('id, name, shift_group, schedule_type, shift_pattern_id')
+    .order('name', { ascending: true });
+  let leavesQuery = client.from('leaves').select('*').lte('start_date', to).gte('end_date', from);
+  let overridesQuery = client.from('shift_overrides').select('*').gte('date', from).lte('date', to);
+  // Requested changes only move someone once a supervisor approves them
+  let groupChangesQuery = client
+    .from('group_changes')
+    .select('*')
+    .eq('status', 'approved')
+    .order('effective_date', { ascending: true });
+
+  if (employeeIds) {
+    employeesQuery = employeesQuery.in('id', employeeIds);
+    leavesQuery = leavesQuery.in('employee_id', employeeIds);
+    overridesQuery = overridesQuery.in('employee_id', employeeIds);
+    groupChangesQuery = groupChangesQuery.in('employee_id', employeeIds);
+  }
+
+  const [employeesResult, holidaysResult, leavesResult, overridesResult, groupChangesResult, patternsResult] = await Promise.all([
+    employeesQuery,
+    client.from('holidays').select('*').gte('date', from).lte('date', to),
+    leavesQuery,
+    overridesQuery,
+    groupChangesQuery,
+    client.from('shift_patterns').select('*')
+  ]);
+
+  if (employeesResult.error) throw new Error(`Failed to fetch employees: ${employeesResult.error.message}`);
+  if (holidaysResult.error) throw new Error(`Failed to fetch holidays: ${holidaysResult.error.message}`);
+  if (leavesResult.error) throw new Error(`Failed to fetch leaves: ${leavesResult.error.message}`);
+  if (overridesResult.error) throw new Error(`Failed to fetch shift overrides: ${overridesResult.error.message}`);
+  if (groupChangesResult.error) throw new Error(`Failed to fetch group changes: ${groupChangesResult.error.message}`);
+  if (patternsResult.error) throw new Error(`Failed to fetch shift patterns: ${patternsResult.error.message}`);
+
+  // Shift times come from the configured definitions
+  await fetchShiftDefinitions(client);
+
+  const holidays: DateMap<{ name: string; isOfficial: boolean }> = {};
+  (holidaysResult.data || []).forEach(holiday => {
+    holidays[holiday.date] = { name: holiday.name, isOfficial: holiday.is_official || false };
+  });
+
+  // Only the leave days inside the range matter
+  const leaves: { [employeeId: string]: DateMap<{ type: string; notes?: string }> } = {};
+  (leavesResult.data || []).forEach(leave => {
+    const leaveStart = max([parseISO(leave.start_date), start]);
+    const leaveEnd = min([parseISO(leave.end_date), end]);
+    if (leaveStart > leaveEnd) return;
+
+    eachDayOfInterval({ start: leaveStart, end: leaveEnd }).forEach(day => {
+      leaves[leave.employee_id] = {
+        ...leaves[leave.employee_id],
+        [format(day, 'yyyy-MM-dd')]: { type: leave.type || 'Leave', notes: leave.reason }
+      };
+    });
+  });
+
+  const overrides: { [employeeId: string]: DateMap<{ type: ShiftType; notes?: string }> } = {};
+  (overridesResult.data || []).forEach(override => {
+    overrides[override.employee_id] = {
+      ...overrides[override.employee_id],
+      [override.date]: { type: override.shift_type as ShiftType, notes: override.notes }
+    };
+  });
+
+  const groupChanges: { [employeeId: string]: DateMap<{ oldGroup: ShiftGroup; newGroup: ShiftGroup }> } = {};
+  (groupChangesResult.data || []).forEach(change => {
+    groupChanges[change.employee_id] = {
+      ...groupChanges[change.employee_id],
+      [change.effective_date]: { oldGroup: change.old_group, newGroup: change.new_group }
+    };
+  });
+
+  const patterns = (patternsResult.data || []).map(mapShiftPattern);
+  const monthStarts = Array.from({ length: months }, (_, index) => addMonths(start, index));
+
+  return (employeesResult.data || []).map(employee => {
+    const pattern = resolveShiftPattern(patterns, employee.shift_pattern_id);
+    const shiftGroup = employee.shift_group || pattern.groups[0];
+
+    const days = monthStarts.flatMap(month => (
+      generateMonthCalendar(
+        month.getFullYear(),
+        month.getMonth(),
+        shiftGroup,
+        holidays,
+        leaves[employee.id] || {},
+        overrides[employee.id] || {},
+        groupChanges[employee.id] || {},
+        pattern
+      ).days.filter(day => day.isCurrentMonth)
+    ));
+
+    return {
+      employeeId: employee.id,
+      name: employee.name || 'Unnamed employee',
+      scheduleType: (employee.schedule_type as ScheduleType) || 'shift',
+      shiftGroup,
+      pattern,
+      days
+    };
+  });
+}
+
+/**
+ * Build one employee's calendar for whole months
+ * @see fetchEmployeeCalendars
+ */
+export async function fetchEmployeeCalendar(
+  employeeId: string,
+  firstMonth: Date,
+  months: number,
+  client: SupabaseClient = supabase
+): Promise<EmployeeCalendar> {
+  const [calendar] = await fetchEmployeeCalendars([employeeId], firstMonth, months, client);
+
+  if (!calendar) throw new Error('Failed to fetch employee: not found');
+  return calendar;
+}
@@ -0,0 +1,101 @@
+/**
+ * Service for checking leave and days off against the minimum staffing rules
+ */
+import { differenceInCalendarMonths, eachDayOfInterval, format, parseISO } from 'date-fns';
+import { supabase } from '../supabase';
+import { SupabaseClient } from '../supabaseClient';
+import { checkStaffing, mapStaffingRule, StaffingCheck } from '../utils/staffing';
+import { fetchEmployeeCalendars } from './scheduleService';
+import type { LeaveSubmissionInput } from '../validations/salary';
+
+/**
+ * Check taking an employee off their shifts against the staffing rules, using the
+ * whole team's calendars. Server-side only: the client must be able to read everyone's schedule.
+ * @param client Service-role client
+ * @param startDate First day away (YYYY-MM-DD)
+ * @param endDate Last day away (YYYY-MM-DD)
+ * @param shiftType What they would be on instead
+ */
+export async function checkEmployeeStaffing(
+  client: SupabaseClient,
+  employeeId: string,
+  startDate: string,
+  endDate: string,
+  shiftType: 'Leave' | 'Off'
+): Promise<StaffingCheck> {
+  const start = parseISO(startDate);
+  const end = parseISO(endDate);
+
+  const { data: rules, error: rulesError } = await client
+    .from('staffing_rules')
+    .select('*');
+
+  if (rulesError) throw new Error(`Failed to fetch staffing rules: ${rulesError.message}`);
+
+  // Rotations only; regular hours aren't rostered
+  const calendars = (await fetchEmployeeCalendars(undefined, start, differenceInCalendarMonths(end, start) + 1, client))
+    .filter(calendar => calendar.scheduleType === 'shift');
+  const dates = eachDayOfInterval({ start, end }).map(day => format(day, 'yyyy-MM-dd'));
+
+  return checkStaffing(calendars, (rules || []).map(mapStaffingRule), employeeId, dates, shiftType);
+}
+
+// POST to an API route as the signed-in employee
+async function postAsEmployee<T>(url: string, body: unknown, fallbackError: string): Promise<T> {
+  const { data: { session }, error: authError } = await supabase.auth.getSession();
+
+  if (authError || !session) {
+    throw new Error('You must be logged in to do this');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+
+  return data;
+}
+
+/**
+ * Check taking the signed-in employee off their shifts for some days
+ * @param startDate First day away (YYYY-MM-DD)
+ * @param endDate Last day away (YYYY-MM-DD)
+ * @param shiftType What they would be on instead
+ */
+export async function requestStaffingCheck(
+  startDate: string,
+  endDate: string,
+  shiftType: 'Leave' | 'Off'
+): Promise<StaffingCheck> {
+  // The team's calendars are only readable on the server
+  return postAsEmployee('/api/schedule/staffing-check', { startDate, endDate, shiftType }, 'Failed to check staffing');
+}
+
+/**
+ * Submit or edit the signed-in employee's leave. The server checks the staffing
+ * rules again and refuses leave a blocking rule stops.
+ */
+export async function submitLeave(leave: LeaveSubmissionInput): Promise<{ leave: any; check: StaffingCheck }> {
+  return postAsEmployee('/api/leave/requests', leave, 'Failed to submit leave request');
+}
+
+/**
+ * Put the signed-in employee on leave or a day off in place of a shift. The server
+ * checks the staffing rules again and refuses a day a blocking rule stops.
+ */
+export async function saveTimeOffOverride(
+  date: string,
+  shiftType: 'Leave' | 'Off',
+  notes?: string | null
+): Promise<{ override: any; check: StaffingCheck }> {
+  return postAsEmployee('/api/schedule/time-off', { date, shiftType, notes }, 'Failed to save the day off');
+}
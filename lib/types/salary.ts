@@ -3,7 +3,6 @@ export interface SalaryCalculation {
   costOfLiving: number;
   shiftAllowance: number;
   overtimeHours: number;
-  manualOvertimeHours: number;
   overtimePay: number;
   variablePay: number;
   deduction: number;
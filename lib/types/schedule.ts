@@ -4,12 +4,14 @@
 
 export type ScheduleType = 'regular' | 'shift';
 
-export type ShiftGroup = 'A' | 'B' | 'C' | 'D';
+// Rotation groups are named by the employee's shift pattern (A-D by default)
+export type ShiftGroup = string;
 
 export type CycleDay = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
 
 export type ShiftType = 
   | 'Day'    // Day shift (7am-7pm)
+  | 'Evening' // Evening shift, in three-shift rotations
   | 'Night'  // Night shift (7pm-7am)
   | 'Off'    // Off day
   | 'Leave'  // On approved leave
@@ -22,17 +24,21 @@ export interface ShiftInfo {
   notes?: string;
   isOverridden?: boolean;
   originalType?: ShiftType;
-  shiftNumber?: string; // "1st" or "2nd" for day/night shifts
+  shiftNumber?: string; // "1st", "2nd", ... within a run of the same rostered shift
+  hours?: { start: string; end: string }; // HH:MM working times, for day, evening and night shifts
 }
 
 export interface GroupShiftInfo {
   group: ShiftGroup;
   isFirstDay?: boolean;
+  isFirstEvening?: boolean;
   isFirstNight?: boolean;
+  shiftNumber?: string; // "1st", "2nd", ... within the group's run of this shift
 }
 
 export interface GroupAssignment {
   dayShift: GroupShiftInfo[];
+  eveningShift: GroupShiftInfo[];
   nightShift: GroupShiftInfo[];
   off: ShiftGroup[];
   date: string; // YYYY-MM-DD format
@@ -47,6 +53,9 @@ export interface GroupChange {
   requestDate: string; // YYYY-MM-DD format
   approvedBy?: string;
   status: 'pending' | 'approved' | 'rejected';
+  employeeName?: string;
+  decidedAt?: string | null;
+  decisionNote?: string | null;
 }
 
 export interface ShiftOverride {
@@ -84,6 +93,7 @@ export interface CalendarDay {
   // Group assignments
   groupAssignments: {
     dayShift: GroupShiftInfo[];
+    eveningShift: GroupShiftInfo[];
     nightShift: GroupShiftInfo[];
     off: ShiftGroup[];
   };
@@ -99,6 +109,40 @@ export interface MonthData {
   days: CalendarDay[];
 }
 
+// What a rotation group is rostered for on one day of the cycle
+export type RotationSlot = 'Day' | 'Evening' | 'Night' | 'Off';
+
+// A rotation: each group's slot on every day of the cycle, counted from the
+// reference date
+export interface ShiftPattern {
+  id: string | null; // null for the built-in pattern
+  name: string;
+  cycleLength: number;
+  referenceDate: string; // YYYY-MM-DD, day 1 of the cycle
+  groups: ShiftGroup[];
+  slots: Record<ShiftGroup, RotationSlot[]>;
+}
+
+// Shifts whose working times are configured
+export type DefinedShift = 'Day' | 'Evening' | 'Night' | 'Regular';
+
+// Working times of a shift, site-wide or for one pattern
+export interface ShiftDefinition {
+  id?: string;
+  patternId: string | null; // null for the site-wide definition
+  shiftType: DefinedShift;
+  name: string;
+  start: string; // HH:MM
+  end: string;   // HH:MM, before the start when the shift runs past midnight
+  breakMinutes: number;
+  // Hours paid for the shift (the time on site less any unpaid break)
+  paidHours: number;
+  // Hours worked inside this window are night hours (null for none)
+  nightWindow: { start: string; end: string } | null;
+  // Regular hours only: the weekdays (0 = Sunday) they apply to
+  daysOfWeek?: number[] | null;
+}
+
 // Shift calculation anchor data
 export interface ShiftAnchor {
   date: Date;
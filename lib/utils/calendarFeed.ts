@@ -0,0 +1,222 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { CalendarDay, ScheduleType, ShiftType } from '../types/schedule';
+import { getScheduledDay } from '../salary/timesheets';
+import { resolveShiftDefinition } from './shiftDefinitions';
+
+/**
+ * Calendar feeds
+ *
+ * An employee's personal shifts as an iCalendar (ICS) feed that phone and desktop
+ * calendars can subscribe to. Worked shifts are timed events using the shift
+ * definitions; leave and public holidays are all-day events. The feed is reached
+ * through a secret token that the employee can revoke.
+ */
+
+export type FeedShiftType = 'Day' | 'Evening' | 'Night' | 'Overtime' | 'InLieu' | 'Leave' | 'Public';
+
+export interface CalendarFeed {
+  id: string;
+  employeeId: string;
+  token: string;
+  shiftTypes: FeedShiftType[];
+  lastAccessedAt: string | null;
+  createdAt: string;
+}
+
+export interface FeedEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  // Timed events have a start and end; all-day events only a date
+  start?: Date;
+  end?: Date;
+  date?: string; // YYYY-MM-DD
+  // Holidays don't block time in the calendar
+  transparent?: boolean;
+}
+
+// Shift types an employee can publish, in the order they're offered
+export const CALENDAR_FEED_SHIFT_TYPES: { value: FeedShiftType; label: string }[] = [
+  { value: 'Day', label: 'Day shifts' },
+  { value: 'Evening', label: 'Evening shifts' },
+  { value: 'Night', label: 'Night shifts' },
+  { value: 'Overtime', label: 'Overtime' },
+  { value: 'InLieu', label: 'In-lieu days' },
+  { value: 'Leave', label: 'Leave' },
+  { value: 'Public', label: 'Public holidays' }
+];
+
+export const DEFAULT_FEED_SHIFT_TYPES: FeedShiftType[] = CALENDAR_FEED_SHIFT_TYPES.map(option => option.value);
+
+// Months published before and after the current one
+export const FEED_MONTHS_BEFORE = 1;
+export const FEED_MONTHS_AFTER = 3;
+
+/**
+ * Map a calendar_feeds row to a CalendarFeed
+ */
+export function mapCalendarFeed(row: any): CalendarFeed {
+  return {
+    id: row.id,
+    employeeId: row.employee_id,
+    token: row.token,
+    shiftTypes: row.shift_types || [],
+    lastAccessedAt: row.last_accessed_at || null,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * A random token for a feed link (64 hex characters)
+ */
+export function generateFeedToken(): string {
+  const bytes = new Uint8Array(32);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Title of a worked shift's event
+ */
+function getShiftSummary(shiftType: ShiftType, scheduleType: ScheduleType, patternId?: string | null): string {
+  switch (shiftType) {
+    case 'Overtime':
+      return 'Overtime';
+    case 'InLieu':
+      return 'In-Lieu Shift';
+    case 'Day':
+      if (scheduleType === 'regular') return 'Office Hours';
+      return resolveShiftDefinition('Day', patternId)?.name || 'Day Shift';
+    case 'Evening':
+    case 'Night':
+      return resolveShiftDefinition(shiftType, patternId)?.name || `${shiftType} Shift`;
+    default:
+      return shiftType;
+  }
+}
+
+/**
+ * Events for the selected shift types on each day
+ * @param days Calendar days to publish (without the padding days of each month)
+ * @param feedId Feed the events belong to, so their ids stay stable between refreshes
+ * @param patternId Pattern whose shift definitions apply
+ */
+export function buildFeedEvents(
+  days: CalendarDay[],
+  shiftTypes: FeedShiftType[],
+  scheduleType: ScheduleType,
+  feedId: string,
+  patternId?: string | null
+): FeedEvent[] {
+  const selected = new Set<ShiftType>(shiftTypes);
+  const events: FeedEvent[] = [];
+
+  days.forEach(day => {
+    const { type, notes } = day.personalShift;
+
+    if (day.holiday?.isOfficial && selected.has('Public')) {
+      events.push({
+        uid: `${feedId}-${day.date}-holiday@salarycursor`,
+        summary: day.holiday.name,
+        date: day.date,
+        transparent: true
+      });
+    }
+
+    if (type === 'Leave') {
+      if (selected.has('Leave')) {
+        events.push({
+          uid: `${feedId}-${day.date}-shift@salarycursor`,
+          summary: 'Leave',
+          description: notes,
+          date: day.date
+        });
+      }
+      return;
+    }
+
+    // Office hours are published as day shifts; regular workers have no rotation
+    const scheduled = getScheduledDay(day, scheduleType, patternId);
+    if (!scheduled.interval || !selected.has(scheduled.shiftType)) return;
+
+    events.push({
+      uid: `${feedId}-${day.date}-shift@salarycursor`,
+      summary: getShiftSummary(scheduled.shiftType, scheduleType, patternId),
+      description: notes,
+      start: scheduled.interval.start,
+      end: scheduled.interval.end
+    });
+  });
+
+  return events;
+}
+
+/**
+ * Escape text for an iCalendar property value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no line is longer than 75 characters
+ */
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+}
+
+// Shift times are local site times, so they're written without a time zone
+const formatLocalTime = (date: Date) => format(date, "yyyyMMdd'T'HHmmss");
+
+/**
+ * Write events as an iCalendar document
+ * @param name Calendar name shown by the subscribing app
+ * @param generatedAt Time the feed was generated, used as each event's timestamp
+ */
+export function buildIcsCalendar(events: FeedEvent[], name: string, generatedAt: Date = new Date()): string {
+  const stamp = generatedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SalaryCursor//Shift Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Ask subscribers to refresh hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H'
+  ];
+
+  events.forEach(event => {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+
+    if (event.date) {
+      const date = parseISO(event.date);
+      lines.push(
+        `DTSTART;VALUE=DATE:${format(date, 'yyyyMMdd')}`,
+        `DTEND;VALUE=DATE:${format(addDays(date, 1), 'yyyyMMdd')}`
+      );
+    } else if (event.start && event.end) {
+      lines.push(`DTSTART:${formatLocalTime(event.start)}`, `DTEND:${formatLocalTime(event.end)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push(`TRANSP:${event.transparent ? 'TRANSPARENT' : 'OPAQUE'}`, 'END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,68 @@
+import { format, parseISO } from 'date-fns';
+import { GroupChange } from '../types/schedule';
+
+/**
+ * Group change requests
+ *
+ * An employee asks to move to another rotation group from a date. The request
+ * stays pending until a supervisor approves or rejects it; only approved changes
+ * move the employee's calendar.
+ */
+
+export type GroupChangeStatus = GroupChange['status'];
+
+export const GROUP_CHANGE_STATUS_LABELS: Record<GroupChangeStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+/**
+ * Map a group_changes row to a GroupChange
+ */
+export function mapGroupChange(row: any): GroupChange {
+  return {
+    id: row.id,
+    employeeId: row.employee_id,
+    oldGroup: row.old_group,
+    newGroup: row.new_group,
+    effectiveDate: String(row.effective_date).substring(0, 10),
+    requestDate: String(row.request_date || row.created_at).substring(0, 10),
+    approvedBy: row.approved_by || undefined,
+    // Changes made before requests needed approval have no status
+    status: row.status || 'approved',
+    employeeName: row.employees?.name,
+    decidedAt: row.decided_at || null,
+    decisionNote: row.decision_note || null
+  };
+}
+
+export interface GroupChangeDecisionNotification {
+  title: string;
+  message: string;
+  type: 'success' | 'warning';
+  category: 'schedule';
+  link: string;
+}
+
+/**
+ * Notification telling the employee what was decided on their group change
+ */
+export function buildGroupChangeDecisionNotification(
+  change: GroupChange,
+  status: 'approved' | 'rejected',
+  note?: string | null
+): GroupChangeDecisionNotification {
+  const what = `move from Group ${change.oldGroup} to Group ${change.newGroup} on ${format(parseISO(change.effectiveDate), 'MMM d, yyyy')}`;
+  const message = status === 'approved'
+    ? `Your request to ${what} was approved. Your schedule follows the new group from that day.`
+    : `Your request to ${what} was rejected.`;
+
+  return {
+    title: `Group change ${GROUP_CHANGE_STATUS_LABELS[status].toLowerCase()}`,
+    message: note ? `${message} Note: ${note}` : message,
+    type: status === 'approved' ? 'success' : 'warning',
+    category: 'schedule',
+    link: '/schedule'
+  };
+}
@@ -0,0 +1,88 @@
+import { CalendarDay, ShiftGroup, ShiftType } from '../types/schedule';
+
+/**
+ * Team roster
+ *
+ * Every shift worker's month side by side, grouped by rotation group, with how
+ * many people are on each shift every day. Each row comes from the employee's own
+ * calendar, so overrides, leave and group changes are already applied.
+ */
+
+// Shifts counted in the daily headcount
+export const ROSTER_HEADCOUNT_SHIFTS = ['Day', 'Evening', 'Night'] as const;
+export type RosterHeadcountShift = typeof ROSTER_HEADCOUNT_SHIFTS[number];
+
+export interface RosterCalendar {
+  employeeId: string;
+  name: string;
+  shiftGroup: ShiftGroup;
+  days: Pick<CalendarDay, 'date' | 'personalShift'>[];
+}
+
+export interface RosterCell {
+  type: ShiftType;
+  isOverridden: boolean;
+  notes?: string;
+}
+
+export interface RosterRow {
+  employeeId: string;
+  name: string;
+  cells: { [date: string]: RosterCell };
+}
+
+export interface Roster {
+  dates: string[]; // YYYY-MM-DD, in order
+  groups: { group: ShiftGroup; rows: RosterRow[] }[];
+  headcount: { [date: string]: Record<RosterHeadcountShift, number> };
+}
+
+/**
+ * The shift a day counts towards in the headcount (in-lieu days are worked as day shifts)
+ * @returns null for days nobody is working
+ */
+export const getHeadcountShift = (type: ShiftType): RosterHeadcountShift | null => {
+  if (type === 'InLieu') return 'Day';
+  return (ROSTER_HEADCOUNT_SHIFTS as readonly ShiftType[]).includes(type) ? type as RosterHeadcountShift : null;
+};
+
+/**
+ * Build the roster from employees' calendars for the same days
+ * @param calendars Calendars in the order rows should appear within a group
+ * @returns Groups in name order; employees sit under their current group
+ */
+export function buildRoster(calendars: RosterCalendar[]): Roster {
+  const dates = Array.from(new Set(calendars.flatMap(calendar => calendar.days.map(day => day.date)))).sort();
+  const headcount: Roster['headcount'] = {};
+  dates.forEach(date => {
+    headcount[date] = { Day: 0, Evening: 0, Night: 0 };
+  });
+
+  const groups = new Map<ShiftGroup, RosterRow[]>();
+
+  calendars.forEach(calendar => {
+    const cells: RosterRow['cells'] = {};
+
+    calendar.days.forEach(day => {
+      cells[day.date] = {
+        type: day.personalShift.type,
+        isOverridden: !!day.personalShift.isOverridden,
+        notes: day.personalShift.notes
+      };
+
+      const shift = getHeadcountShift(day.personalShift.type);
+      if (shift) headcount[day.date][shift]++;
+    });
+
+    groups.set(calendar.shiftGroup, [
+      ...(groups.get(calendar.shiftGroup) || []),
+      { employeeId: calendar.employeeId, name: calendar.name, cells }
+    ]);
+  });
+
+  return {
+    dates,
+    groups: Array.from(groups.keys()).sort().map(group => ({ group, rows: groups.get(group)! })),
+    headcount
+  };
+}
@@ -17,10 +17,14 @@ import {
   ShiftGroup,
   CycleDay,
   CalendarDay,
+  GroupChange,
   ShiftAnchor,
   ShiftAnchors,
-  MonthData
+  MonthData,
+  RotationSlot,
+  ShiftPattern
 } from '../types/schedule';
+import { resolveShiftDefinition } from './shiftDefinitions';
 
 // Define the 8-day cycle pattern using January 2025 as reference
 // Each group follows: 2 day shifts → 2 night shifts → 4 days off
@@ -35,7 +39,8 @@ import {
 // Jan 7: Day Shift: C (2nd day), Night Shift: A (2nd night)
 // Jan 8: Day Shift: D (1st day), Night Shift: C (1st night)
 
-// Define our reference date and the 8-day pattern
+// Define our reference date and the 8-day pattern (the default rotation;
+// admins can define others, see DEFAULT_SHIFT_PATTERN below)
 const REFERENCE_DATE = new Date(2025, 0, 1); // January 1, 2025
 
 // Reference pattern for each day of the 8-day cycle
@@ -52,6 +57,30 @@ const SHIFT_PATTERNS = [
   ['D', 1, 'C', 1]  // Jan 8, 2025
 ];
 
+/**
+ * The built-in rotation, used for employees without an assigned pattern
+ */
+export const DEFAULT_SHIFT_PATTERN: ShiftPattern = {
+  id: null,
+  name: '8-day A-D rotation',
+  cycleLength: SHIFT_PATTERNS.length,
+  referenceDate: format(REFERENCE_DATE, 'yyyy-MM-dd'),
+  groups: ['A', 'B', 'C', 'D'],
+  slots: Object.fromEntries(['A', 'B', 'C', 'D'].map(group => [
+    group,
+    SHIFT_PATTERNS.map(([dayGroup, , nightGroup]): RotationSlot =>
+      dayGroup === group ? 'Day' : nightGroup === group ? 'Night' : 'Off'
+    )
+  ]))
+};
+
+// A group rostered on a shift, and where the day falls in its run of that shift
+interface RosteredGroup {
+  group: ShiftGroup;
+  isFirstShift: boolean;
+  shiftNumber: string;
+}
+
 /**
  * Debug utility function for logging shift-related information
  * @param message The message to log
@@ -62,42 +91,80 @@ export function debugShift(message: string, data?: any) {
 }
 
 /**
- * Calculate the day of the 8-day cycle for a given date
+ * Calculate the day of the rotation cycle for a given date
  * @param date The date to calculate for
- * @returns A number from 0-7 representing the day in the 8-day cycle (0 = Jan 1 pattern, 7 = Jan 8 pattern)
+ * @param pattern Rotation to use (the 8-day A-D cycle by default)
+ * @returns A number from 0 to cycleLength - 1 (0 = the pattern's reference date)
  */
-export function calculateCyclePatternDay(date: Date): number {
+export function calculateCyclePatternDay(date: Date, pattern: ShiftPattern = DEFAULT_SHIFT_PATTERN): number {
   // Get the exact number of days between the reference date and the target date
-  const daysOffset = differenceInDays(date, REFERENCE_DATE);
+  const daysOffset = differenceInDays(date, parseISO(pattern.referenceDate));
+  
+  // Calculate which day of the cycle we're on
+  return ((daysOffset % pattern.cycleLength) + pattern.cycleLength) % pattern.cycleLength;
+}
+
+/**
+ * Get a group's rostered slot on a given day of the cycle
+ */
+function getRotationSlot(pattern: ShiftPattern, group: ShiftGroup, cycleDay: number): RotationSlot {
+  return pattern.slots[group]?.[cycleDay] || 'Off';
+}
+
+/**
+ * Position of a rostered shift within a run of the same shift (1 = first)
+ */
+function getRunPosition(pattern: ShiftPattern, group: ShiftGroup, cycleDay: number): number {
+  const slot = getRotationSlot(pattern, group, cycleDay);
+  let position = 1;
   
-  // Calculate which day of the 8-day cycle we're on (0-7)
-  return ((daysOffset % 8) + 8) % 8;
+  // Walk back through the cycle while the group has the same shift
+  while (position < pattern.cycleLength) {
+    const previousDay = ((cycleDay - position) % pattern.cycleLength + pattern.cycleLength) % pattern.cycleLength;
+    if (getRotationSlot(pattern, group, previousDay) !== slot) break;
+    position++;
+  }
+  
+  return position;
 }
 
+const ORDINAL_SUFFIXES = ['th', 'st', 'nd', 'rd'];
+
 /**
- * Calculate which groups are on day/night shift for a given date
+ * Write a position in a run of shifts as "1st", "2nd", ...
+ */
+function formatShiftNumber(position: number): string {
+  const suffix = position % 100 >= 11 && position % 100 <= 13
+    ? 'th'
+    : ORDINAL_SUFFIXES[position % 10] || 'th';
+  
+  return `${position}${suffix}`;
+}
+
+/**
+ * Calculate which groups are on day, evening and night shift for a given date
  * @param date The date to calculate for
- * @returns An object with dayShift and nightShift information
+ * @param pattern Rotation to use (the 8-day A-D cycle by default)
+ * @returns The groups on each shift, in the pattern's group order
  */
-export function calculateShiftGroups(date: Date): { 
-  dayShift: { group: ShiftGroup, isFirstShift: boolean }, 
-  nightShift: { group: ShiftGroup, isFirstShift: boolean } 
+export function calculateShiftGroups(date: Date, pattern: ShiftPattern = DEFAULT_SHIFT_PATTERN): { 
+  dayShift: RosteredGroup[], 
+  eveningShift: RosteredGroup[], 
+  nightShift: RosteredGroup[] 
 } {
-  // Get the cycle pattern day (0-7)
-  const cycleDay = calculateCyclePatternDay(date);
+  const cycleDay = calculateCyclePatternDay(date, pattern);
   
-  // Get the pattern for this day
-  const pattern = SHIFT_PATTERNS[cycleDay];
+  const groupsOn = (slot: RotationSlot) => pattern.groups
+    .filter(group => getRotationSlot(pattern, group, cycleDay) === slot)
+    .map(group => {
+      const position = getRunPosition(pattern, group, cycleDay);
+      return { group, isFirstShift: position === 1, shiftNumber: formatShiftNumber(position) };
+    });
   
   return {
-    dayShift: {
-      group: pattern[0] as ShiftGroup,
-      isFirstShift: pattern[1] === 1
-    },
-    nightShift: {
-      group: pattern[2] as ShiftGroup,
-      isFirstShift: pattern[3] === 1
-    }
+    dayShift: groupsOn('Day'),
+    eveningShift: groupsOn('Evening'),
+    nightShift: groupsOn('Night')
   };
 }
 
@@ -105,88 +172,89 @@ export function calculateShiftGroups(date: Date): {
  * Calculate the shift type for a specific employee group on a given date
  * @param date Date to calculate for
  * @param group Employee's shift group
- * @returns Shift type (Day, Night, Off)
+ * @param pattern Rotation the group belongs to (the 8-day A-D cycle by default)
+ * @returns Shift type (Day, Evening, Night, Off)
  */
-export function calculateShiftType(date: Date, group: ShiftGroup): ShiftType {
-  const { dayShift, nightShift } = calculateShiftGroups(date);
+export function calculateShiftType(date: Date, group: ShiftGroup, pattern: ShiftPattern = DEFAULT_SHIFT_PATTERN): ShiftType {
+  const cycleDay = calculateCyclePatternDay(date, pattern);
+  const slot = getRotationSlot(pattern, group, cycleDay);
   
   // Debug logging to verify shift calculation
   debugShift(`Calculating shift for date: ${format(date, 'yyyy-MM-dd')}`, { 
-    dayShift, 
-    nightShift, 
+    pattern: pattern.name,
+    cycleDay,
+    slot,
     requestedGroup: group 
   });
   
-  // Use the actual group passed in, no forcing to a specific group
-  if (dayShift.group === group) {
-    return 'Day';
-  } else if (nightShift.group === group) {
-    return 'Night';
-  } else {
-    return 'Off';
-  }
+  return slot;
 }
 
 /**
- * Calculate if a shift is the first or second day/night in the cycle
+ * Calculate if a shift is the first of its run in the cycle
  * @param date Date to calculate for
  * @param group Employee's shift group
- * @param shiftType The shift type (must be Day or Night)
- * @returns Boolean indicating if it's the first shift (true) or second shift (false)
+ * @param shiftType The shift type (must be Day, Evening or Night)
+ * @param pattern Rotation the group belongs to (the 8-day A-D cycle by default)
+ * @returns Boolean indicating if it's the first shift (true) or a later one (false)
  */
-export function isFirstShift(date: Date, group: ShiftGroup, shiftType: 'Day' | 'Night'): boolean {
-  const { dayShift, nightShift } = calculateShiftGroups(date);
+export function isFirstShift(
+  date: Date,
+  group: ShiftGroup,
+  shiftType: 'Day' | 'Evening' | 'Night',
+  pattern: ShiftPattern = DEFAULT_SHIFT_PATTERN
+): boolean {
+  const cycleDay = calculateCyclePatternDay(date, pattern);
   
-  if (shiftType === 'Day' && dayShift.group === group) {
-    return dayShift.isFirstShift;
-  } else if (shiftType === 'Night' && nightShift.group === group) {
-    return nightShift.isFirstShift;
+  if (getRotationSlot(pattern, group, cycleDay) !== shiftType) {
+    return false; // Default if the group is not on the specified shift type
   }
   
-  return false; // Default if the group is not on the specified shift type
+  return getRunPosition(pattern, group, cycleDay) === 1;
 }
 
 /**
- * Calculate which groups are on day/night shift for a specific date
- * This determines which groups are on day shift, night shift, or off
+ * Calculate which groups are on day/evening/night shift for a specific date
+ * This determines which groups are on day shift, evening shift, night shift, or off
  * @param date Date to calculate for
+ * @param pattern Rotation to use (the 8-day A-D cycle by default)
  * @returns Group assignments object
  */
-export function calculateGroupAssignments(date: Date): { 
-  dayShift: { group: ShiftGroup, isFirstDay: boolean }[]; 
-  nightShift: { group: ShiftGroup, isFirstNight: boolean }[]; 
+export function calculateGroupAssignments(date: Date, pattern: ShiftPattern = DEFAULT_SHIFT_PATTERN): { 
+  dayShift: { group: ShiftGroup, isFirstDay: boolean, shiftNumber: string }[]; 
+  eveningShift: { group: ShiftGroup, isFirstEvening: boolean, shiftNumber: string }[]; 
+  nightShift: { group: ShiftGroup, isFirstNight: boolean, shiftNumber: string }[]; 
   off: ShiftGroup[] 
 } {
-  const { dayShift, nightShift } = calculateShiftGroups(date);
+  const { dayShift, eveningShift, nightShift } = calculateShiftGroups(date, pattern);
+  const onShift = new Set([...dayShift, ...eveningShift, ...nightShift].map(shift => shift.group));
   
-  // All groups that are not on day or night shift are off
-  const offGroups: ShiftGroup[] = ['A', 'B', 'C', 'D'].filter(
-    group => group !== dayShift.group && group !== nightShift.group
-  ) as ShiftGroup[];
+  // All groups that are not on a shift are off
+  const offGroups = pattern.groups.filter(group => !onShift.has(group));
   
   return { 
-    dayShift: [{ group: dayShift.group, isFirstDay: dayShift.isFirstShift }],
-    nightShift: [{ group: nightShift.group, isFirstNight: nightShift.isFirstShift }],
+    dayShift: dayShift.map(shift => ({ group: shift.group, isFirstDay: shift.isFirstShift, shiftNumber: shift.shiftNumber })),
+    eveningShift: eveningShift.map(shift => ({ group: shift.group, isFirstEvening: shift.isFirstShift, shiftNumber: shift.shiftNumber })),
+    nightShift: nightShift.map(shift => ({ group: shift.group, isFirstNight: shift.isFirstShift, shiftNumber: shift.shiftNumber })),
     off: offGroups
   };
 }
 
 /**
- * Get the shift number (1st or 2nd) for a specific date and group
+ * Get the shift number (1st, 2nd, ...) for a specific date and group
  * @param date Date to calculate for
  * @param group Employee's shift group
- * @returns String indicating "1st" or "2nd" if on shift, undefined if off
+ * @param pattern Rotation the group belongs to (the 8-day A-D cycle by default)
+ * @returns String such as "1st" or "2nd" if on shift, undefined if off
  */
-export function getShiftNumber(date: Date, group: ShiftGroup): string | undefined {
-  const { dayShift, nightShift } = calculateShiftGroups(date);
+export function getShiftNumber(date: Date, group: ShiftGroup, pattern: ShiftPattern = DEFAULT_SHIFT_PATTERN): string | undefined {
+  const cycleDay = calculateCyclePatternDay(date, pattern);
   
-  if (dayShift.group === group) {
-    return dayShift.isFirstShift ? '1st' : '2nd';
-  } else if (nightShift.group === group) {
-    return nightShift.isFirstShift ? '1st' : '2nd';
+  if (getRotationSlot(pattern, group, cycleDay) === 'Off') {
+    return undefined; // Off duty
   }
   
-  return undefined; // Off duty
+  return formatShiftNumber(getRunPosition(pattern, group, cycleDay));
 }
 
 /**
@@ -197,7 +265,8 @@ export function getShiftNumber(date: Date, group: ShiftGroup): string | undefine
  * @param holidays Holidays to incorporate
  * @param leaveRecords Leave records to incorporate
  * @param shiftOverrides Shift overrides to incorporate
- * @param groupChanges Group change history to incorporate
+ * @param groupChanges Group change history to incorporate (only approved changes apply)
+ * @param pattern Rotation the employee's group belongs to (the 8-day A-D cycle by default)
  * @returns Complete month data with calendar days
  */
 export function generateMonthCalendar(
@@ -207,10 +276,11 @@ export function generateMonthCalendar(
   holidays: { [date: string]: { name: string; isOfficial: boolean } } = {},
   leaveRecords: { [date: string]: { type: string; notes?: string } } = {},
   shiftOverrides: { [date: string]: { type: ShiftType; notes?: string } } = {},
-  groupChanges: { [date: string]: { oldGroup: ShiftGroup; newGroup: ShiftGroup } } = {}
+  groupChanges: { [date: string]: { oldGroup: ShiftGroup; newGroup: ShiftGroup; status?: GroupChange['status'] } } = {},
+  pattern: ShiftPattern = DEFAULT_SHIFT_PATTERN
 ): MonthData {
   // Add debug logging for shift overrides to diagnose in-lieu issues
-  debugShift(`Generating calendar for ${year}-${month+1} with ${Object.keys(shiftOverrides).length} overrides`);
+  debugShift(`Generating calendar for ${year}-${month+1} (${pattern.name}) with ${Object.keys(shiftOverrides).length} overrides`);
   
   // Log any in-lieu shift overrides specifically
   const inLieuOverrides = Object.entries(shiftOverrides).filter(([_, override]) => override.type === 'InLieu');
@@ -233,6 +303,11 @@ export function generateMonthCalendar(
   const uniqueTypes = Array.from(new Set(allTypes));
   debugShift('Unique shift override types:', uniqueTypes);
   
+  // Requests still waiting for a supervisor, or turned down, don't move anyone
+  const approvedChanges = Object.entries(groupChanges)
+    .filter(([, change]) => !change.status || change.status === 'approved')
+    .sort((a, b) => a[0].localeCompare(b[0]));
+  
   // Create date objects for start and end of month
   const monthStart = new Date(year, month, 1);
   const monthEnd = new Date(year, month, getDaysInMonth(monthStart));
@@ -263,20 +338,21 @@ export function generateMonthCalendar(
     let hasGroupChange = false;
     
     // Handle group changes - use the most recent change that's before or on this date
-    const relevantChanges = Object.entries(groupChanges)
-      .filter(([changeDate]) => changeDate <= dateStr)
-      .sort((a, b) => a[0].localeCompare(b[0]));
+    const relevantChanges = approvedChanges.filter(([changeDate]) => changeDate <= dateStr);
     
     // If there are relevant changes, use the most recent one
     if (relevantChanges.length > 0) {
       const latestChange = relevantChanges[relevantChanges.length - 1];
       effectiveGroup = latestChange[1].newGroup;
       hasGroupChange = true;
+    } else if (approvedChanges.length > 0) {
+      // Days before the first change keep the group the employee had then
+      effectiveGroup = approvedChanges[0][1].oldGroup;
     }
     
     // Calculate base shift type for the employee's group (considering group changes)
-    const baseShiftType = calculateShiftType(dateObj, effectiveGroup);
-    const shiftNumber = getShiftNumber(dateObj, effectiveGroup);
+    const baseShiftType = calculateShiftType(dateObj, effectiveGroup, pattern);
+    const shiftNumber = getShiftNumber(dateObj, effectiveGroup, pattern);
     
     // Start with the base shift
     let personalShiftType: ShiftType = baseShiftType;
@@ -311,7 +387,7 @@ export function generateMonthCalendar(
     }
     
     // Get group assignments for this date
-    const { dayShift, nightShift, off } = calculateGroupAssignments(dateObj);
+    const { dayShift, eveningShift, nightShift, off } = calculateGroupAssignments(dateObj, pattern);
     
     return {
       date: dateStr,
@@ -326,7 +402,8 @@ export function generateMonthCalendar(
         notes,
         isOverridden,
         originalType: isOverridden ? baseShiftType : undefined,
-        shiftNumber: (!isOverridden && (baseShiftType === 'Day' || baseShiftType === 'Night')) ? shiftNumber : undefined
+        shiftNumber: !isOverridden ? shiftNumber : undefined,
+        hours: getShiftWorkHours(personalShiftType, pattern.id)
       },
       
       holiday: holidays[dateStr] ? {
@@ -339,11 +416,18 @@ export function generateMonthCalendar(
       groupAssignments: {
         dayShift: dayShift.map(d => ({ 
           group: d.group, 
-          isFirstDay: d.isFirstDay 
+          isFirstDay: d.isFirstDay,
+          shiftNumber: d.shiftNumber
+        })),
+        eveningShift: eveningShift.map(e => ({ 
+          group: e.group, 
+          isFirstEvening: e.isFirstEvening,
+          shiftNumber: e.shiftNumber
         })),
         nightShift: nightShift.map(n => ({ 
           group: n.group, 
-          isFirstNight: n.isFirstNight 
+          isFirstNight: n.isFirstNight,
+          shiftNumber: n.shiftNumber
         })),
         off
       },
@@ -371,41 +455,25 @@ export function generateMonthCalendar(
 /**
  * Get the regular work schedule time for a specific day
  * @param dayOfWeek Day of week (0-6, with 0 being Sunday)
- * @returns Start and end times, or undefined if it's a weekend
+ * @param patternId Pattern whose office hours to use (site-wide hours when not set)
+ * @returns Start and end times, or undefined if it's a day off
  */
-export function getRegularWorkHours(dayOfWeek: number): { start: string; end: string } | undefined {
-  // Based on the prompt:
-  // Sunday – Wednesday: 07:45 AM – 04:00 PM
-  // Thursday: 07:45 AM – 01:30 PM
-  // Friday & Saturday: Off
-  
-  if (dayOfWeek >= 0 && dayOfWeek <= 3) {
-    // Sunday - Wednesday
-    return { start: '07:45', end: '16:00' };
-  } else if (dayOfWeek === 4) {
-    // Thursday
-    return { start: '07:45', end: '13:30' };
-  } else {
-    // Friday & Saturday
-    return undefined;
-  }
+export function getRegularWorkHours(dayOfWeek: number, patternId?: string | null): { start: string; end: string } | undefined {
+  const definition = resolveShiftDefinition('Regular', patternId, dayOfWeek);
+  return definition ? { start: definition.start, end: definition.end } : undefined;
 }
 
 /**
  * Get the shift work hours for a specific shift type
  * @param shiftType Shift type
+ * @param patternId Pattern whose shift times to use (site-wide times when not set)
  * @returns Start and end times, or undefined if it's Off
  */
-export function getShiftWorkHours(shiftType: ShiftType): { start: string; end: string } | undefined {
-  // Based on the prompt:
-  // Day Shift: 07:00 AM – 07:00 PM
-  // Night Shift: 07:00 PM – 07:00 AM
-  
-  if (shiftType === 'Day') {
-    return { start: '07:00', end: '19:00' };
-  } else if (shiftType === 'Night') {
-    return { start: '19:00', end: '07:00' };
-  } else {
+export function getShiftWorkHours(shiftType: ShiftType, patternId?: string | null): { start: string; end: string } | undefined {
+  if (shiftType !== 'Day' && shiftType !== 'Evening' && shiftType !== 'Night') {
     return undefined;
   }
-}
\ No newline at end of file
+  
+  const definition = resolveShiftDefinition(shiftType, patternId);
+  return definition ? { start: definition.start, end: definition.end } : undefined;
+}
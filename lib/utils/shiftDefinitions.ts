@@ -0,0 +1,222 @@
+import { supabase } from '../supabase';
+import type { SupabaseClient } from '../supabaseClient';
+import { DefinedShift, ShiftDefinition } from '../types/schedule';
+
+/**
+ * Shift definitions
+ *
+ * Each shift's working times, unpaid break, paid hours and night-differential
+ * window. A pattern can define its own shifts; otherwise the site-wide
+ * definitions apply, and the built-in times below when neither is set.
+ * Regular office hours are defined per weekday, and a day without any is off.
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Times used before any definitions are saved
+export const DEFAULT_SHIFT_DEFINITIONS: ShiftDefinition[] = [
+  {
+    patternId: null,
+    shiftType: 'Day',
+    name: 'Day Shift',
+    start: '07:00',
+    end: '19:00',
+    breakMinutes: 0,
+    paidHours: 12,
+    nightWindow: null
+  },
+  {
+    patternId: null,
+    shiftType: 'Evening',
+    name: 'Evening Shift',
+    start: '15:00',
+    end: '23:00',
+    breakMinutes: 0,
+    paidHours: 8,
+    nightWindow: null
+  },
+  {
+    patternId: null,
+    shiftType: 'Night',
+    name: 'Night Shift',
+    start: '19:00',
+    end: '07:00',
+    breakMinutes: 0,
+    paidHours: 12,
+    nightWindow: { start: '19:00', end: '07:00' }
+  },
+  {
+    patternId: null,
+    shiftType: 'Regular',
+    name: 'Office Hours',
+    start: '07:45',
+    end: '16:00',
+    breakMinutes: 0,
+    paidHours: 8.25,
+    nightWindow: null,
+    daysOfWeek: [0, 1, 2, 3] // Sunday - Wednesday
+  },
+  {
+    patternId: null,
+    shiftType: 'Regular',
+    name: 'Office Hours (Thursday)',
+    start: '07:45',
+    end: '13:30',
+    breakMinutes: 0,
+    paidHours: 5.75,
+    nightWindow: null,
+    daysOfWeek: [4]
+  }
+];
+
+// Definitions loaded from the database
+let shiftDefinitions: ShiftDefinition[] = [];
+
+/**
+ * Map a shift_definitions row to a ShiftDefinition
+ */
+export function mapShiftDefinition(row: any): ShiftDefinition {
+  const toTime = (value: string | null) => (value ? String(value).substring(0, 5) : null);
+
+  return {
+    id: row.id,
+    patternId: row.pattern_id || null,
+    shiftType: row.shift_type,
+    name: row.name,
+    start: toTime(row.start_time)!,
+    end: toTime(row.end_time)!,
+    breakMinutes: Number(row.break_minutes) || 0,
+    paidHours: Number(row.paid_hours) || 0,
+    nightWindow: row.night_start && row.night_end
+      ? { start: toTime(row.night_start)!, end: toTime(row.night_end)! }
+      : null,
+    daysOfWeek: row.days_of_week || null
+  };
+}
+
+/**
+ * Replace the loaded definitions (used after fetching or saving)
+ */
+export function setShiftDefinitions(definitions: ShiftDefinition[]) {
+  shiftDefinitions = [...definitions];
+}
+
+/**
+ * Definitions currently loaded
+ */
+export function getShiftDefinitions(): ShiftDefinition[] {
+  return shiftDefinitions;
+}
+
+/**
+ * Load all shift definitions from the database.
+ * Falls back to the definitions already loaded if the table can't be read.
+ */
+export async function fetchShiftDefinitions(client: SupabaseClient = supabase): Promise<ShiftDefinition[]> {
+  try {
+    const { data, error } = await client
+      .from('shift_definitions')
+      .select('*')
+      .order('start_time', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching shift definitions:', error);
+      return shiftDefinitions;
+    }
+
+    setShiftDefinitions((data || []).map(mapShiftDefinition));
+  } catch (error) {
+    console.error('Error fetching shift definitions:', error);
+  }
+
+  return shiftDefinitions;
+}
+
+/**
+ * Pick the definition of a shift: the pattern's own, else the site-wide one,
+ * else the built-in times
+ * @param patternId Pattern the employee follows (null for the built-in rotation)
+ * @param dayOfWeek Weekday (0 = Sunday), needed for regular hours
+ * @param definitions Definitions to choose from (defaults to the loaded ones)
+ * @returns undefined for regular hours on a day off
+ */
+export function resolveShiftDefinition(
+  shiftType: DefinedShift,
+  patternId?: string | null,
+  dayOfWeek?: number,
+  definitions: ShiftDefinition[] = shiftDefinitions
+): ShiftDefinition | undefined {
+  const scopes = [
+    patternId ? definitions.filter(definition => definition.patternId === patternId) : [],
+    definitions.filter(definition => !definition.patternId),
+    DEFAULT_SHIFT_DEFINITIONS
+  ];
+
+  for (const scope of scopes) {
+    const candidates = scope.filter(definition => definition.shiftType === shiftType);
+    // A scope that defines the shift at all decides it, including days off
+    if (candidates.length === 0) continue;
+
+    return candidates.find(definition => (
+      dayOfWeek === undefined || !definition.daysOfWeek || definition.daysOfWeek.includes(dayOfWeek)
+    ));
+  }
+
+  return undefined;
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * Minutes on site for a shift (night shifts run past midnight)
+ */
+export function getShiftDurationMinutes(definition: Pick<ShiftDefinition, 'start' | 'end'>): number {
+  const minutes = toMinutes(definition.end) - toMinutes(definition.start);
+  return minutes <= 0 ? minutes + MINUTES_PER_DAY : minutes;
+}
+
+/**
+ * Split a shift's paid hours into day and night hours, in proportion to the
+ * time it spends inside its night-differential window
+ */
+export function splitPaidHours(definition: ShiftDefinition): { dayHours: number; nightHours: number } {
+  if (!definition.nightWindow) {
+    return { dayHours: definition.paidHours, nightHours: 0 };
+  }
+
+  const start = toMinutes(definition.start);
+  const end = start + getShiftDurationMinutes(definition);
+  const windowStart = toMinutes(definition.nightWindow.start);
+  const windowEnd = windowStart + getShiftDurationMinutes(definition.nightWindow);
+
+  // The window repeats every day; check the one before, on and after the shift's start
+  const nightMinutes = [-MINUTES_PER_DAY, 0, MINUTES_PER_DAY].reduce((sum, offset) => (
+    sum + Math.max(0, Math.min(end, windowEnd + offset) - Math.max(start, windowStart + offset))
+  ), 0);
+
+  const nightHours = Math.round(definition.paidHours * (nightMinutes / (end - start)) * 100) / 100;
+  return { dayHours: definition.paidHours - nightHours, nightHours };
+}
+
+/**
+ * Write a time as "7am" or "3:30pm"
+ */
+function formatClockTime(time: string): string {
+  const [h, m] = time.split(':').map(Number);
+  const hour = h % 12 === 0 ? 12 : h % 12;
+  return `${hour}${m ? `:${String(m).padStart(2, '0')}` : ''}${h < 12 ? 'am' : 'pm'}`;
+}
+
+/**
+ * Label for a shift with its times, e.g. "Day Shift (7am-7pm)"
+ * @param patternId Pattern the employee follows (null for the built-in rotation)
+ */
+export function getShiftLabel(shiftType: DefinedShift, patternId?: string | null): string {
+  const definition = resolveShiftDefinition(shiftType, patternId);
+  if (!definition) return shiftType;
+
+  return `${definition.name} (${formatClockTime(definition.start)}-${formatClockTime(definition.end)})`;
+}
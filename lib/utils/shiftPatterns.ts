@@ -0,0 +1,92 @@
+import { RotationSlot, ShiftGroup, ShiftPattern } from '../types/schedule';
+import { DEFAULT_SHIFT_PATTERN } from './shiftCalculator';
+
+/**
+ * Shift patterns
+ *
+ * A rotation gives each group a slot (Day, Evening, Night or Off) for every
+ * day of a repeating cycle, counted from a reference date. Admins define the
+ * rotations their sites run; employees without one follow the built-in 8-day
+ * A-D cycle.
+ */
+
+export const ROTATION_SLOTS: RotationSlot[] = ['Day', 'Evening', 'Night', 'Off'];
+
+// Single-letter codes used to write a group's cycle, e.g. "DDNNOOOO"
+export const ROTATION_SLOT_CODES: Record<RotationSlot, string> = {
+  Day: 'D',
+  Evening: 'E',
+  Night: 'N',
+  Off: 'O'
+};
+
+export function mapShiftPattern(row: any): ShiftPattern {
+  return {
+    id: row.id,
+    name: row.name,
+    cycleLength: Number(row.cycle_length),
+    referenceDate: String(row.reference_date).substring(0, 10),
+    groups: row.groups || [],
+    slots: row.slots || {}
+  };
+}
+
+/**
+ * Write a group's cycle as slot codes
+ */
+export function formatRotation(slots: RotationSlot[]): string {
+  return slots.map(slot => ROTATION_SLOT_CODES[slot]).join('');
+}
+
+/**
+ * Read a group's cycle from slot codes; unknown codes are days off
+ */
+export function parseRotation(codes: string): RotationSlot[] {
+  return codes
+    .toUpperCase()
+    .replace(/\s/g, '')
+    .split('')
+    .map(code => ROTATION_SLOTS.find(slot => ROTATION_SLOT_CODES[slot] === code) || 'Off');
+}
+
+const buildTemplate = (name: string, rotations: Record<ShiftGroup, string>): Omit<ShiftPattern, 'id' | 'referenceDate'> => {
+  const groups = Object.keys(rotations);
+  return {
+    name,
+    cycleLength: rotations[groups[0]].length,
+    groups,
+    slots: Object.fromEntries(groups.map(group => [group, parseRotation(rotations[group])]))
+  };
+};
+
+// Starting points for the rotations our sites run
+export const SHIFT_PATTERN_TEMPLATES: Omit<ShiftPattern, 'id' | 'referenceDate'>[] = [
+  {
+    name: DEFAULT_SHIFT_PATTERN.name,
+    cycleLength: DEFAULT_SHIFT_PATTERN.cycleLength,
+    groups: DEFAULT_SHIFT_PATTERN.groups,
+    slots: DEFAULT_SHIFT_PATTERN.slots
+  },
+  buildTemplate('4-on-4-off', {
+    A: 'DDDDOOOO',
+    B: 'OOOODDDD',
+    C: 'NNNNOOOO',
+    D: 'OOOONNNN'
+  }),
+  buildTemplate('3-shift, 5 groups', {
+    A: 'DDEENNOOOO',
+    B: 'OODDEENNOO',
+    C: 'OOOODDEENN',
+    D: 'NNOOOODDEE',
+    E: 'EENNOOOODD'
+  })
+];
+
+/**
+ * The pattern an employee follows
+ * @param patternId Employee's assigned pattern (null for the built-in rotation)
+ * @returns The built-in rotation when nothing, or an unknown pattern, is assigned
+ */
+export function resolveShiftPattern(patterns: ShiftPattern[], patternId?: string | null): ShiftPattern {
+  return patterns.find(pattern => pattern.id === patternId) || DEFAULT_SHIFT_PATTERN;
+}
@@ -0,0 +1,270 @@
+import { format, parseISO } from 'date-fns';
+import { CalendarDay, ShiftGroup, ShiftType } from '../types/schedule';
+
+/**
+ * Shift swaps
+ *
+ * An employee offers one of their shifts to a colleague from another group in
+ * exchange for one of the colleague's shifts. The colleague accepts, a supervisor
+ * approves, and both people's shifts on the two dates are exchanged by writing
+ * shift overrides. The overrides they replaced are kept so a cancelled swap can
+ * be rolled back on both sides.
+ */
+
+export type ShiftSwapStatus = 'proposed' | 'accepted' | 'approved' | 'declined' | 'rejected' | 'cancelled';
+
+export const SHIFT_SWAP_STATUS_LABELS: Record<ShiftSwapStatus, string> = {
+  proposed: 'Waiting for colleague',
+  accepted: 'Waiting for approval',
+  approved: 'Approved',
+  declined: 'Declined',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled'
+};
+
+export type ShiftSwapAction = 'accept' | 'decline' | 'approve' | 'reject' | 'cancel';
+
+// Only worked shifts can be offered
+export const SWAPPABLE_SHIFT_TYPES: ShiftType[] = ['Day', 'Evening', 'Night'];
+
+export interface SwapOverride {
+  employeeId: string;
+  date: string; // YYYY-MM-DD
+  shiftType: ShiftType;
+}
+
+// Override a swap replaced; null when the day followed the rotation
+export interface PreviousOverride {
+  employeeId: string;
+  date: string;
+  override: { shiftType: ShiftType; notes: string | null; source: string | null } | null;
+}
+
+export interface ShiftSwap {
+  id: string;
+  requesterId: string;
+  requesterName?: string;
+  requesterDate: string;
+  requesterShiftType: ShiftType;
+  colleagueId: string;
+  colleagueName?: string;
+  colleagueDate: string;
+  colleagueShiftType: ShiftType;
+  reason: string | null;
+  status: ShiftSwapStatus;
+  decisionNote: string | null;
+  appliedOverrides: SwapOverride[];
+  previousOverrides: PreviousOverride[];
+  createdAt: string;
+}
+
+// An employee's calendar as far as swaps are concerned
+export interface SwapCalendar {
+  employeeId: string;
+  name: string;
+  shiftGroup: ShiftGroup;
+  days: Pick<CalendarDay, 'date' | 'personalShift'>[];
+}
+
+export interface SwapOption {
+  employeeId: string;
+  name: string;
+  shiftGroup: ShiftGroup;
+  // The colleague's shifts that could be taken in exchange
+  dates: { date: string; shiftType: ShiftType }[];
+}
+
+// Columns to select so both names are mapped
+export const SHIFT_SWAP_SELECT = '*, requester:employees!shift_swaps_requester_id_fkey(name), colleague:employees!shift_swaps_colleague_id_fkey(name)';
+
+/**
+ * Map a shift_swaps row to a ShiftSwap
+ */
+export function mapShiftSwap(row: any): ShiftSwap {
+  return {
+    id: row.id,
+    requesterId: row.requester_id,
+    requesterName: row.requester?.name || undefined,
+    requesterDate: row.requester_date,
+    requesterShiftType: row.requester_shift_type,
+    colleagueId: row.colleague_id,
+    colleagueName: row.colleague?.name || undefined,
+    colleagueDate: row.colleague_date,
+    colleagueShiftType: row.colleague_shift_type,
+    reason: row.reason || null,
+    status: row.status,
+    decisionNote: row.decision_note || null,
+    appliedOverrides: row.applied_overrides || [],
+    previousOverrides: row.previous_overrides || [],
+    createdAt: row.created_at
+  };
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d');
+
+/**
+ * Work out the overrides that exchange two employees' shifts on the swap dates
+ * @param getShift Each employee's shift on a day, from their calendar
+ * @returns The overrides, or why the swap isn't possible
+ */
+export function planShiftSwap(
+  swap: Pick<ShiftSwap, 'requesterId' | 'requesterDate' | 'colleagueId' | 'colleagueDate'>,
+  getShift: (employeeId: string, date: string) => ShiftType | undefined
+): { overrides: SwapOverride[]; error: string | null } {
+  const fail = (error: string) => ({ overrides: [], error });
+
+  if (swap.requesterId === swap.colleagueId) return fail('A shift can only be swapped with a colleague');
+
+  if (!SWAPPABLE_SHIFT_TYPES.includes(getShift(swap.requesterId, swap.requesterDate) as ShiftType)) {
+    return fail(`There is no shift to offer on ${formatDate(swap.requesterDate)}`);
+  }
+  if (!SWAPPABLE_SHIFT_TYPES.includes(getShift(swap.colleagueId, swap.colleagueDate) as ShiftType)) {
+    return fail(`The colleague has no shift to exchange on ${formatDate(swap.colleagueDate)}`);
+  }
+
+  const dates = Array.from(new Set([swap.requesterDate, swap.colleagueDate]));
+  const overrides: SwapOverride[] = [];
+
+  for (const date of dates) {
+    const requesterShift = getShift(swap.requesterId, date);
+    const colleagueShift = getShift(swap.colleagueId, date);
+    const exchangeable = [...SWAPPABLE_SHIFT_TYPES, 'Off'];
+
+    // Leave, holidays and overtime already booked on the day can't be traded
+    if (!exchangeable.includes(requesterShift as ShiftType) || !exchangeable.includes(colleagueShift as ShiftType)) {
+      return fail(`${formatDate(date)} has leave, a holiday or overtime booked`);
+    }
+    if (requesterShift === colleagueShift) {
+      return fail(`Both of you are ${requesterShift === 'Off' ? 'off' : `on the ${requesterShift} shift`} on ${formatDate(date)}`);
+    }
+
+    overrides.push(
+      { employeeId: swap.requesterId, date, shiftType: colleagueShift as ShiftType },
+      { employeeId: swap.colleagueId, date, shiftType: requesterShift as ShiftType }
+    );
+  }
+
+  return { overrides, error: null };
+}
+
+/**
+ * Colleagues from other groups who could take a shift, with the shifts of theirs
+ * that could be taken in exchange
+ * @param date Day of the shift being offered
+ * @param after Only exchange shifts after this day (YYYY-MM-DD)
+ */
+export function findSwapOptions(
+  requester: SwapCalendar,
+  colleagues: SwapCalendar[],
+  date: string,
+  after: string
+): SwapOption[] {
+  const shiftsByEmployee = new Map<string, Map<string, ShiftType>>();
+  [requester, ...colleagues].forEach(calendar => {
+    shiftsByEmployee.set(calendar.employeeId, new Map(calendar.days.map(day => [day.date, day.personalShift.type])));
+  });
+  const getShift = (employeeId: string, day: string) => shiftsByEmployee.get(employeeId)?.get(day);
+
+  return colleagues
+    .filter(colleague => colleague.employeeId !== requester.employeeId && colleague.shiftGroup !== requester.shiftGroup)
+    .map(colleague => ({
+      employeeId: colleague.employeeId,
+      name: colleague.name,
+      shiftGroup: colleague.shiftGroup,
+      dates: colleague.days
+        .filter(day => day.date > after)
+        .filter(day => !planShiftSwap(
+          { requesterId: requester.employeeId, requesterDate: date, colleagueId: colleague.employeeId, colleagueDate: day.date },
+          getShift
+        ).error)
+        .map(day => ({ date: day.date, shiftType: day.personalShift.type }))
+    }))
+    .filter(option => option.dates.length > 0);
+}
+
+/**
+ * The status a swap moves to when someone acts on it
+ * @returns null when the action isn't allowed for them at this stage
+ */
+export function getNextSwapStatus(
+  swap: Pick<ShiftSwap, 'status' | 'requesterId' | 'colleagueId'>,
+  action: ShiftSwapAction,
+  actorId: string,
+  isSupervisor: boolean
+): ShiftSwapStatus | null {
+  const isParty = actorId === swap.requesterId || actorId === swap.colleagueId;
+
+  switch (action) {
+    case 'accept':
+      return swap.status === 'proposed' && actorId === swap.colleagueId ? 'accepted' : null;
+    case 'decline':
+      return swap.status === 'proposed' && actorId === swap.colleagueId ? 'declined' : null;
+    // Supervisors can't decide swaps they are part of
+    case 'approve':
+      return swap.status === 'accepted' && isSupervisor && !isParty ? 'approved' : null;
+    case 'reject':
+      return swap.status === 'accepted' && isSupervisor && !isParty ? 'rejected' : null;
+    case 'cancel':
+      return ['proposed', 'accepted', 'approved'].includes(swap.status) && (isParty || isSupervisor) ? 'cancelled' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Work out how to put back the overrides an approved swap replaced
+ * @param current Overrides on the swapped days now (days without one are left out)
+ * @returns Overrides to restore, days to clear, and days changed since the swap
+ *   (which are left alone)
+ */
+export function planSwapRollback(
+  swap: Pick<ShiftSwap, 'appliedOverrides' | 'previousOverrides'>,
+  current: SwapOverride[]
+): { restore: PreviousOverride[]; remove: PreviousOverride[]; changed: SwapOverride[] } {
+  const key = (override: { employeeId: string; date: string }) => `${override.employeeId}:${override.date}`;
+  const currentByKey = new Map(current.map(override => [key(override), override.shiftType]));
+
+  const changed = swap.appliedOverrides.filter(applied => currentByKey.get(key(applied)) !== applied.shiftType);
+  const changedKeys = new Set(changed.map(key));
+  const previous = swap.previousOverrides.filter(override => !changedKeys.has(key(override)));
+
+  return {
+    restore: previous.filter(override => override.override !== null),
+    remove: previous.filter(override => override.override === null),
+    changed
+  };
+}
+
+export interface ShiftSwapNotification {
+  title: string;
+  message: string;
+  type: 'info' | 'success' | 'warning';
+  category: 'schedule';
+  link: string;
+}
+
+/**
+ * Notification telling someone a swap moved to a new status
+ */
+export function buildShiftSwapNotification(swap: ShiftSwap, note?: string | null): ShiftSwapNotification {
+  const what = `${swap.requesterName || 'A colleague'}'s ${swap.requesterShiftType} shift on ${formatDate(swap.requesterDate)} `
+    + `for ${swap.colleagueName || 'a colleague'}'s ${swap.colleagueShiftType} shift on ${formatDate(swap.colleagueDate)}`;
+
+  const messages: Record<ShiftSwapStatus, { title: string; message: string; type: ShiftSwapNotification['type'] }> = {
+    proposed: { title: 'Shift swap proposed', message: `Swap ${what}?`, type: 'info' },
+    accepted: { title: 'Shift swap accepted', message: `The swap of ${what} was accepted and is waiting for a supervisor.`, type: 'info' },
+    approved: { title: 'Shift swap approved', message: `The swap of ${what} was approved and is in both calendars.`, type: 'success' },
+    declined: { title: 'Shift swap declined', message: `The swap of ${what} was declined.`, type: 'warning' },
+    rejected: { title: 'Shift swap rejected', message: `The swap of ${what} was rejected.`, type: 'warning' },
+    cancelled: { title: 'Shift swap cancelled', message: `The swap of ${what} was cancelled.`, type: 'warning' }
+  };
+  const { title, message, type } = messages[swap.status];
+
+  return {
+    title,
+    message: note ? `${message} Note: ${note}` : message,
+    type,
+    category: 'schedule',
+    link: '/shift-swaps'
+  };
+}
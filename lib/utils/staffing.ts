@@ -0,0 +1,144 @@
+import { format, parseISO } from 'date-fns';
+import { ShiftGroup, ShiftType } from '../types/schedule';
+import { getHeadcountShift, RosterCalendar, RosterHeadcountShift } from './roster';
+
+/**
+ * Minimum staffing
+ *
+ * Admins set the fewest people a shift needs each day, for one group or the
+ * whole team. Before someone takes leave or a day off, their change is checked
+ * against the team's calendars: rules a shift would drop below are reported, and
+ * rules set to block stop the change.
+ */
+
+export type StaffingEnforcement = 'warn' | 'block';
+
+export interface StaffingRule {
+  id?: string;
+  shiftType: RosterHeadcountShift;
+  // null for everyone on the shift, whatever their group
+  shiftGroup: ShiftGroup | null;
+  minHeadcount: number;
+  enforcement: StaffingEnforcement;
+}
+
+export interface StaffingConflict {
+  date: string;
+  shiftType: RosterHeadcountShift;
+  shiftGroup: ShiftGroup | null;
+  minHeadcount: number;
+  // People left on the shift after the change
+  headcount: number;
+  enforcement: StaffingEnforcement;
+}
+
+// Teammates already away on a day
+export interface StaffingAbsence {
+  date: string;
+  employees: { employeeId: string; name: string; shiftGroup: ShiftGroup; shiftType: ShiftType }[];
+}
+
+export interface StaffingCheck {
+  conflicts: StaffingConflict[];
+  absences: StaffingAbsence[];
+  // Whether any conflict comes from a rule that blocks
+  blocked: boolean;
+}
+
+// Shifts that take someone off the roster
+export const STAFFING_CHECKED_SHIFT_TYPES: ShiftType[] = ['Leave', 'Off'];
+
+/**
+ * Map a staffing_rules row to a StaffingRule
+ */
+export function mapStaffingRule(row: any): StaffingRule {
+  return {
+    id: row.id,
+    shiftType: row.shift_type,
+    shiftGroup: row.shift_group || null,
+    minHeadcount: row.min_headcount,
+    enforcement: row.enforcement
+  };
+}
+
+/**
+ * Check taking an employee off their shifts against the staffing rules
+ * @param calendars The whole team's calendars, the employee's included
+ * @param dates Days the employee would be away (YYYY-MM-DD)
+ * @param shiftType What they would be on instead, Leave or Off
+ */
+export function checkStaffing(
+  calendars: RosterCalendar[],
+  rules: StaffingRule[],
+  employeeId: string,
+  dates: string[],
+  shiftType: ShiftType
+): StaffingCheck {
+  const employee = calendars.find(calendar => calendar.employeeId === employeeId);
+  const conflicts: StaffingConflict[] = [];
+  const absences: StaffingAbsence[] = [];
+
+  dates.forEach(date => {
+    const dayOf = (calendar: RosterCalendar) => calendar.days.find(day => day.date === date);
+    const current = employee ? dayOf(employee) : undefined;
+    const leaving = current ? getHeadcountShift(current.personalShift.type) : null;
+
+    // Only a worked shift the change takes away can leave it short
+    if (employee && leaving && getHeadcountShift(shiftType) !== leaving) {
+      rules
+        .filter(rule => rule.shiftType === leaving && (rule.shiftGroup === null || rule.shiftGroup === employee.shiftGroup))
+        .forEach(rule => {
+          const onShift = calendars.filter(calendar => {
+            const day = dayOf(calendar);
+            return day
+              && getHeadcountShift(day.personalShift.type) === rule.shiftType
+              && (rule.shiftGroup === null || calendar.shiftGroup === rule.shiftGroup);
+          }).length;
+
+          if (onShift - 1 < rule.minHeadcount) {
+            conflicts.push({
+              date,
+              shiftType: rule.shiftType,
+              shiftGroup: rule.shiftGroup,
+              minHeadcount: rule.minHeadcount,
+              headcount: onShift - 1,
+              enforcement: rule.enforcement
+            });
+          }
+        });
+    }
+
+    // Rostered days off are routine; only leave and shifts taken off are listed
+    const away = calendars
+      .filter(calendar => calendar.employeeId !== employeeId)
+      .map(calendar => ({ calendar, day: dayOf(calendar) }))
+      .filter(({ day }) => day && (
+        day.personalShift.type === 'Leave' || (day.personalShift.type === 'Off' && day.personalShift.isOverridden)
+      ))
+      .map(({ calendar, day }) => ({
+        employeeId: calendar.employeeId,
+        name: calendar.name,
+        shiftGroup: calendar.shiftGroup,
+        shiftType: day!.personalShift.type
+      }));
+
+    if (away.length > 0) absences.push({ date, employees: away });
+  });
+
+  return {
+    conflicts,
+    absences,
+    blocked: conflicts.some(conflict => conflict.enforcement === 'block')
+  };
+}
+
+/**
+ * Describe a staffing conflict for the person making the change
+ */
+export function formatStaffingConflict(conflict: StaffingConflict): string {
+  const who = conflict.shiftGroup ? `Group ${conflict.shiftGroup}'s` : 'The';
+  const people = (count: number) => `${count} ${count === 1 ? 'person' : 'people'}`;
+
+  return `${who} ${conflict.shiftType} shift on ${format(parseISO(conflict.date), 'EEE, MMM d')} would have `
+    + `${people(conflict.headcount)}; it needs at least ${conflict.minHeadcount}`;
+}
@@ -1,13 +1,21 @@
 import { z } from 'zod';
+import { differenceInCalendarMonths, parseISO } from 'date-fns';
+import { DEFAULT_PAY_RULES } from '../salary/payEngine';
 
 // Schema for allowances
 export const salaryAllowancesSchema = z.object({
   costOfLiving: z.number().min(0, 'Cost of living allowance cannot be negative').default(0),
   shiftAllowance: z.number().min(0, 'Shift allowance cannot be negative').default(0),
-  variablePay: z.number().min(0, 'Variable pay cannot be negative').default(0),
-  transportation: z.number().min(0, 'Transportation allowance cannot be negative').default(0),
-  housing: z.number().min(0, 'Housing allowance cannot be negative').default(0),
-  meals: z.number().min(0, 'Meals allowance cannot be negative').default(0)
+  variablePay: z.number().min(0, 'Variable pay cannot be negative').default(0)
+});
+
+// Schema for an itemised earning or deduction line
+export const payLineItemSchema = z.object({
+  name: z.string().trim().min(1, 'Line name is required').max(100, 'Line name is too long'),
+  kind: z.enum(['earning', 'deduction']),
+  amount: z.number().min(0, 'Line amounts cannot be negative'),
+  taxable: z.boolean().default(true),
+  rateLinked: z.boolean().default(false)
 });
 
 // Schema for deductions
@@ -42,8 +50,11 @@ export const salaryCalculationSchema = z.object({
   sickLeave: z.number().min(0).default(0),
   actAsPay: z.number().min(0).default(0),
 
+  // Itemised earning and deduction lines
+  lineItems: z.array(payLineItemSchema).default([]),
+
   // Optional calculated fields
-  exchangeRate: z.number().positive('Exchange rate must be greater than 0').default(1),
+  exchangeRate: z.number().positive('Exchange rate must be greater than 0').default(DEFAULT_PAY_RULES.exchangeRateBase),
   overtimePay: z.number().optional(),
   totalSalary: z.number().optional(),
   grossSalary: z.number().optional(),
@@ -66,6 +77,165 @@ export const salaryCalculationSchema = z.object({
   };
 });
 
+// Schema for the income tax and social-insurance tables
+export const statutoryTablesSchema = z.object({
+  incomeTax: z.object({
+    personalExemption: z.number().min(0, 'Personal exemption cannot be negative'),
+    brackets: z.array(z.object({
+      upTo: z.number().positive('Bracket limits must be greater than 0').nullable(),
+      rate: z.number().min(0, 'Tax rates cannot be negative').max(1, 'Tax rates must be fractions (0.1 = 10%)')
+    })).min(1, 'At least one tax bracket is required')
+  }),
+  socialInsurance: z.object({
+    employeeRate: z.number().min(0, 'Social insurance rate cannot be negative').max(1, 'Social insurance rate must be a fraction (0.11 = 11%)'),
+    minInsurableWage: z.number().min(0, 'Minimum insurable wage cannot be negative'),
+    maxInsurableWage: z.number().positive('Maximum insurable wage must be greater than 0')
+  })
+}).refine(
+  tables => tables.incomeTax.brackets.every((bracket, i, brackets) => {
+    const next = brackets[i + 1];
+    if (!next) return true;
+    return bracket.upTo !== null && (next.upTo === null || bracket.upTo < next.upTo);
+  }),
+  { message: 'Tax brackets must be in ascending order, with only the last one open-ended' }
+);
+
+// Schema for the overtime caps and rest period
+export const overtimeLimitsSchema = z.object({
+  maxDailyHours: z.number().positive('Daily overtime cap must be greater than 0').max(24, 'Daily overtime cap cannot exceed 24 hours'),
+  maxWeeklyHours: z.number().positive('Weekly overtime cap must be greater than 0'),
+  maxMonthlyHours: z.number().positive('Monthly overtime cap must be greater than 0'),
+  minRestHours: z.number().min(0, 'Minimum rest cannot be negative').max(48, 'Minimum rest cannot exceed 48 hours')
+});
+
+// Schema for publishing a new pay rule version
+export const payRuleVersionSchema = z.object({
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}$/, 'Effective month must be in YYYY-MM format'),
+  hourDivisor: z.number().positive('Hour divisor must be greater than 0'),
+  dayMultiplier: z.number().min(0, 'Day overtime multiplier cannot be negative'),
+  nightMultiplier: z.number().min(0, 'Night overtime multiplier cannot be negative'),
+  holidayMultiplier: z.number().min(0, 'Holiday overtime multiplier cannot be negative'),
+  exchangeRateBase: z.number().positive('Base exchange rate must be greater than 0'),
+  // Leave out to publish a version without statutory deductions
+  statutoryTables: statutoryTablesSchema.nullable().optional(),
+  // Leave out to publish a version without overtime limits
+  overtimeLimits: overtimeLimitsSchema.nullable().optional(),
+  notes: z.string().max(500, 'Notes are too long').optional()
+});
+
+export const batchSalaryUpdateSchema = z.object({
+  employeeIds: z.array(z.string().uuid('Invalid employee ID')).min(1, 'Select at least one employee'),
+  percentage: z.number()
+    .gt(-100, 'A decrease must be less than 100%')
+    .max(100, 'Increase cannot exceed 100%')
+    .refine(value => value !== 0, 'Percentage cannot be zero'),
+  // Applies from the start of this date's month
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}(-\d{2})?$/, 'Effective date must be in YYYY-MM-DD format'),
+  // Preview the affected records without changing them
+  dryRun: z.boolean().optional()
+});
+
+export const shiftPatternSchema = z.object({
+  // Leave out to create a new pattern
+  id: z.string().uuid('Invalid pattern ID').optional(),
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  cycleLength: z.number().int().min(1, 'Cycle must be at least 1 day').max(56, 'Cycle cannot exceed 56 days'),
+  referenceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Reference date must be in YYYY-MM-DD format'),
+  groups: z.array(z.string().min(1).max(10, 'Group names are too long')).min(1, 'Add at least one group'),
+  slots: z.record(z.array(z.enum(['Day', 'Evening', 'Night', 'Off'])))
+}).refine(
+  pattern => new Set(pattern.groups).size === pattern.groups.length,
+  { message: 'Group names must be unique', path: ['groups'] }
+).refine(
+  pattern => pattern.groups.every(group => pattern.slots[group]?.length === pattern.cycleLength),
+  { message: 'Each group needs a slot for every day of the cycle', path: ['slots'] }
+);
+
+export const shiftPatternAssignmentSchema = z.object({
+  employeeId: z.string().uuid('Invalid employee ID'),
+  // null puts the employee back on the built-in rotation
+  patternId: z.string().uuid('Invalid pattern ID').nullable(),
+  group: z.string().min(1, 'Group is required')
+});
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be in HH:MM format');
+
+export const shiftDefinitionSchema = z.object({
+  // Leave out to add a new definition
+  id: z.string().uuid('Invalid definition ID').optional(),
+  // null for the site-wide times
+  patternId: z.string().uuid('Invalid pattern ID').nullable(),
+  shiftType: z.enum(['Day', 'Evening', 'Night', 'Regular']),
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  start: clockTime,
+  end: clockTime,
+  breakMinutes: z.number().int().min(0, 'Break cannot be negative').max(240, 'Break cannot exceed 4 hours'),
+  paidHours: z.number().min(0, 'Paid hours cannot be negative').max(24, 'Paid hours cannot exceed 24'),
+  nightWindow: z.object({ start: clockTime, end: clockTime }).nullable(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one day').nullable().optional()
+}).refine(
+  definition => definition.start !== definition.end,
+  { message: 'Start and end times must differ', path: ['end'] }
+);
+
+export const shiftSwapSchema = z.object({
+  colleagueId: z.string().uuid('Invalid colleague ID'),
+  requesterDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  colleagueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  reason: z.string().max(500, 'Reason is too long').optional()
+});
+
+export const staffingRuleSchema = z.object({
+  // Leave out to add a new rule
+  id: z.string().uuid('Invalid rule ID').optional(),
+  shiftType: z.enum(['Day', 'Evening', 'Night']),
+  // null for everyone on the shift
+  shiftGroup: z.string().min(1).max(20, 'Group name is too long').nullable(),
+  minHeadcount: z.number().int('Headcount must be a whole number').min(1, 'Headcount must be at least 1').max(500, 'Headcount is too high'),
+  enforcement: z.enum(['warn', 'block'])
+});
+
+// Longest range the staffing rules are checked over in one go
+export const MAX_STAFFING_CHECK_MONTHS = 12;
+
+const withinStaffingCheckRange = (range: { startDate: string; endDate: string }) =>
+  differenceInCalendarMonths(parseISO(range.endDate), parseISO(range.startDate)) < MAX_STAFFING_CHECK_MONTHS;
+
+export const staffingCheckSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  shiftType: z.enum(['Leave', 'Off'])
+}).refine(
+  check => check.startDate <= check.endDate,
+  { message: 'End date cannot be before start date', path: ['endDate'] }
+).refine(
+  withinStaffingCheckRange,
+  { message: `Check at most ${MAX_STAFFING_CHECK_MONTHS} months at a time`, path: ['endDate'] }
+);
+
+// Leave submitted from the leave page; saved on the server once the staffing rules allow it
+export const leaveSubmissionSchema = z.object({
+  // Leave out to submit a new leave
+  leaveId: z.string().uuid('Invalid leave ID').optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  leaveType: z.string().min(1, 'Leave type is required').max(50, 'Leave type is too long'),
+  reason: z.string().max(500, 'Reason is too long').default('')
+}).refine(
+  leave => leave.startDate <= leave.endDate,
+  { message: 'End date cannot be before start date', path: ['endDate'] }
+).refine(
+  withinStaffingCheckRange,
+  { message: `Leave can span at most ${MAX_STAFFING_CHECK_MONTHS} months`, path: ['endDate'] }
+);
+
+// Leave or a day off put on the schedule in place of a shift
+export const timeOffOverrideSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  shiftType: z.enum(['Leave', 'Off']),
+  notes: z.string().max(1000, 'Notes are too long').nullable().optional()
+});
+
 export const leaveRequestSchema = z.object({
   startDate: z.string().datetime({ message: 'Invalid start date' }),
   endDate: z.string().datetime({ message: 'Invalid end date' }),
@@ -79,3 +249,12 @@ export const leaveRequestSchema = z.object({
 // Type inference
 export type SalaryCalculationInput = z.infer<typeof salaryCalculationSchema>;
 export type LeaveRequestInput = z.infer<typeof leaveRequestSchema>;
+export type PayRuleVersionInput = z.infer<typeof payRuleVersionSchema>;
+export type BatchSalaryUpdateInput = z.infer<typeof batchSalaryUpdateSchema>;
+export type ShiftPatternInput = z.infer<typeof shiftPatternSchema>;
+export type ShiftDefinitionInput = z.infer<typeof shiftDefinitionSchema>;
+export type ShiftSwapInput = z.infer<typeof shiftSwapSchema>;
+export type StaffingRuleInput = z.infer<typeof staffingRuleSchema>;
+export type StaffingCheckInput = z.infer<typeof staffingCheckSchema>;
+export type LeaveSubmissionInput = z.infer<typeof leaveSubmissionSchema>;
+export type TimeOffOverrideInput = z.infer<typeof timeOffOverrideSchema>;
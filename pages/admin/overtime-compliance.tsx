@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Layout from '../../components/Layout';
+import { supabase } from '../../lib/supabase';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import {
+  OVERTIME_BREACH_LABELS,
+  OvertimeBreachKind,
+  OvertimeComplianceReport
+} from '../../lib/salary/overtimeLimits';
+
+const BREACH_KINDS: OvertimeBreachKind[] = ['daily', 'weekly', 'monthly', 'rest'];
+
+export default function OvertimeCompliancePage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [report, setReport] = useState<OvertimeComplianceReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+
+  // Check for authentication on component mount
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        alert('You must be logged in to access this page');
+        router.push('/login');
+        return;
+      }
+
+      setToken(session.access_token);
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const fetchReport = useCallback(async () => {
+    if (!token || !month) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/overtime-compliance?month=${month}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load the compliance report');
+      }
+
+      setReport(data);
+    } catch (error) {
+      console.error('Error loading overtime compliance report:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load the compliance report');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, month]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const employeesInBreach = report?.employees.filter(employee => employee.breaches.length > 0) || [];
+
+  return (
+    <Layout>
+      <Head>
+        <title>Overtime Compliance | SalaryCursor</title>
+      </Head>
+
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Overtime Compliance</h1>
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+
+          {loading || !report ? (
+            <p className="text-gray-500 dark:text-gray-400">Loading report...</p>
+          ) : (
+            <>
+              <p className="text-gray-700 dark:text-gray-300 mb-6">
+                {report.limits
+                  ? `Overtime is capped at ${report.limits.maxDailyHours}h a day, ${report.limits.maxWeeklyHours}h a week and ${report.limits.maxMonthlyHours}h a month, with at least ${report.limits.minRestHours}h of rest between shifts.`
+                  : 'No overtime limits are configured for this month. Add them to the pay rules to check compliance.'}
+              </p>
+
+              <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">By Group</h2>
+              <div className="overflow-x-auto mb-8">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
+                      <th className="py-2 pr-4">Group</th>
+                      <th className="py-2 pr-4">Employees</th>
+                      <th className="py-2 pr-4">In Breach</th>
+                      <th className="py-2 pr-4">Overtime</th>
+                      {BREACH_KINDS.map(kind => (
+                        <th key={kind} className="py-2 pr-4">{OVERTIME_BREACH_LABELS[kind]}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.groups.map(group => (
+                      <tr key={group.group || 'none'} className="border-b dark:border-gray-700 text-gray-900 dark:text-white">
+                        <td className="py-2 pr-4">{group.group ? `Group ${group.group}` : 'No group'}</td>
+                        <td className="py-2 pr-4">{group.employees}</td>
+                        <td className={`py-2 pr-4 ${group.employeesInBreach > 0 ? 'text-red-600 font-medium' : ''}`}>
+                          {group.employeesInBreach}
+                        </td>
+                        <td className="py-2 pr-4">{group.overtimeHours}h</td>
+                        {BREACH_KINDS.map(kind => (
+                          <td key={kind} className="py-2 pr-4">{group.breaches[kind]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                    {report.groups.length === 0 && (
+                      <tr>
+                        <td colSpan={8} className="py-2 text-gray-500 dark:text-gray-400">No employees found.</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">Breaches by Employee</h2>
+              {employeesInBreach.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">No breaches in {format(new Date(`${month}-01T00:00:00`), 'MMMM yyyy')}.</p>
+              ) : (
+                <div className="space-y-4">
+                  {employeesInBreach.map(employee => (
+                    <div key={employee.employeeId} className="border dark:border-gray-700 rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-medium text-gray-900 dark:text-white">{employee.name}</h3>
+                        <span className="text-sm text-gray-500 dark:text-gray-400">
+                          {employee.group ? `Group ${employee.group}` : 'No group'} · {employee.overtimeHours}h overtime
+                        </span>
+                      </div>
+                      <ul className="space-y-1">
+                        {employee.breaches.map(breach => (
+                          <li key={`${breach.kind}-${breach.date}`} className="text-sm text-gray-700 dark:text-gray-300">
+                            <span className="inline-block px-2 py-0.5 mr-2 rounded text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+                              {OVERTIME_BREACH_LABELS[breach.kind]}
+                            </span>
+                            {breach.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
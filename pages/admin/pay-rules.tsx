@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Layout from '../../components/Layout';
+import { supabase } from '../../lib/supabase';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { toast } from 'react-hot-toast';
+import { format, addMonths } from 'date-fns';
+import { PayRuleVersion, BASELINE_PAY_RULE_VERSION } from '../../lib/salary/payRules';
+import { DEFAULT_STATUTORY_TABLES } from '../../lib/salary/statutory';
+import { DEFAULT_OVERTIME_LIMITS, OvertimeLimits } from '../../lib/salary/overtimeLimits';
+
+interface PayRuleForm {
+  effectiveFrom: string;
+  hourDivisor: number;
+  dayMultiplier: number;
+  nightMultiplier: number;
+  holidayMultiplier: number;
+  exchangeRateBase: number;
+  applyStatutory: boolean;
+  // Income tax and social-insurance tables as JSON
+  statutoryTables: string;
+  applyOvertimeLimits: boolean;
+  overtimeLimits: OvertimeLimits;
+  notes: string;
+}
+
+// Pre-fill the form from the latest version, starting the month after it (or next month)
+const nextVersionForm = (versions: PayRuleVersion[]): PayRuleForm => {
+  const latest = versions[versions.length - 1] || BASELINE_PAY_RULE_VERSION;
+  const nextMonth = addMonths(new Date(), 1);
+  const afterLatest = addMonths(new Date(`${latest.effectiveFrom}T00:00:00`), 1);
+
+  return {
+    effectiveFrom: format(afterLatest > nextMonth ? afterLatest : nextMonth, 'yyyy-MM'),
+    hourDivisor: latest.hourDivisor,
+    dayMultiplier: latest.overtimeMultipliers.day,
+    nightMultiplier: latest.overtimeMultipliers.night,
+    holidayMultiplier: latest.overtimeMultipliers.holiday,
+    exchangeRateBase: latest.exchangeRateBase,
+    applyStatutory: !!latest.statutory,
+    statutoryTables: JSON.stringify(latest.statutory || DEFAULT_STATUTORY_TABLES, null, 2),
+    applyOvertimeLimits: !!latest.overtimeLimits,
+    overtimeLimits: latest.overtimeLimits || DEFAULT_OVERTIME_LIMITS,
+    notes: ''
+  };
+};
+
+export default function PayRulesPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [versions, setVersions] = useState<PayRuleVersion[]>([]);
+  const [form, setForm] = useState<PayRuleForm>(nextVersionForm([]));
+  const [loading, setLoading] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const router = useRouter();
+
+  // Check for authentication on component mount
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        alert('You must be logged in to access this page');
+        router.push('/login');
+        return;
+      }
+
+      setToken(session.access_token);
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const fetchVersions = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/pay-rules', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load pay rules');
+      }
+
+      setVersions(data);
+      setForm(nextVersionForm(data));
+    } catch (error) {
+      console.error('Error loading pay rules:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load pay rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const handleChange = (field: keyof PayRuleForm, value: string) => {
+    const isText = field === 'effectiveFrom' || field === 'notes' || field === 'statutoryTables';
+    setForm(prev => ({
+      ...prev,
+      [field]: isText ? value : parseFloat(value) || 0
+    }));
+  };
+
+  const handleLimitChange = (field: keyof OvertimeLimits, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      overtimeLimits: { ...prev.overtimeLimits, [field]: parseFloat(value) || 0 }
+    }));
+  };
+
+  const publishVersion = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let statutoryTables = null;
+    if (form.applyStatutory) {
+      try {
+        statutoryTables = JSON.parse(form.statutoryTables);
+      } catch {
+        toast.error('Statutory tables must be valid JSON');
+        return;
+      }
+    }
+
+    setPublishing(true);
+
+    try {
+      const response = await fetch('/api/admin/pay-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          effectiveFrom: form.effectiveFrom,
+          hourDivisor: form.hourDivisor,
+          dayMultiplier: form.dayMultiplier,
+          nightMultiplier: form.nightMultiplier,
+          holidayMultiplier: form.holidayMultiplier,
+          exchangeRateBase: form.exchangeRateBase,
+          statutoryTables,
+          overtimeLimits: form.applyOvertimeLimits ? form.overtimeLimits : null,
+          notes: form.notes || undefined
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details = data.details ? Object.values(data.details).flat().join(', ') : '';
+        throw new Error(details || data.error || 'Failed to publish pay rules');
+      }
+
+      toast.success(`Pay rules published, effective ${format(new Date(`${data.effectiveFrom}T00:00:00`), 'MMMM yyyy')}`);
+      await fetchVersions();
+    } catch (error) {
+      console.error('Error publishing pay rules:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to publish pay rules');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  return (
+    <Layout>
+      <Head>
+        <title>Pay Rules | SalaryCursor</title>
+      </Head>
+
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h1 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">Pay Rules</h1>
+
+          <p className="text-gray-700 dark:text-gray-300 mb-6">
+            Each version applies from its effective month until the next version starts.
+            Past months are always calculated with the version that was in force for them,
+            so publishing new rules never changes salaries that were already paid.
+          </p>
+
+          <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">Published Versions</h2>
+          {loading ? (
+            <p className="text-gray-500 dark:text-gray-400 mb-8">Loading pay rules...</p>
+          ) : (
+            <div className="overflow-x-auto mb-8">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
+                    <th className="py-2 pr-4">Effective From</th>
+                    <th className="py-2 pr-4">Hour Divisor</th>
+                    <th className="py-2 pr-4">Day / Night / Holiday</th>
+                    <th className="py-2 pr-4">Base Rate</th>
+                    <th className="py-2 pr-4">Tax &amp; Insurance</th>
+                    <th className="py-2 pr-4">Overtime Limits</th>
+                    <th className="py-2">Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {versions.map(version => (
+                    <tr key={version.id || version.effectiveFrom} className="border-b dark:border-gray-700 text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4">{format(new Date(`${version.effectiveFrom}T00:00:00`), 'MMM yyyy')}</td>
+                      <td className="py-2 pr-4">{version.hourDivisor}</td>
+                      <td className="py-2 pr-4">
+                        {version.overtimeMultipliers.day}x / {version.overtimeMultipliers.night}x / {version.overtimeMultipliers.holiday}x
+                      </td>
+                      <td className="py-2 pr-4">{version.exchangeRateBase}</td>
+                      <td className="py-2 pr-4">{version.statutory ? 'Applied' : 'None'}</td>
+                      <td className="py-2 pr-4">
+                        {version.overtimeLimits
+                          ? `${version.overtimeLimits.maxDailyHours}h / ${version.overtimeLimits.maxWeeklyHours}h / ${version.overtimeLimits.maxMonthlyHours}h, ${version.overtimeLimits.minRestHours}h rest`
+                          : 'None'}
+                      </td>
+                      <td className="py-2 text-gray-600 dark:text-gray-400">{version.notes || '-'}</td>
+                    </tr>
+                  ))}
+                  {versions.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="py-2 text-gray-500 dark:text-gray-400">
+                        No versions published yet. The built-in rules apply to every month.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">Publish Next Version</h2>
+          <form onSubmit={publishVersion} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Effective From</label>
+              <input
+                type="month"
+                value={form.effectiveFrom}
+                onChange={(e) => handleChange('effectiveFrom', e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Hour Divisor</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.hourDivisor}
+                onChange={(e) => handleChange('hourDivisor', e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Day Overtime Multiplier</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.dayMultiplier}
+                onChange={(e) => handleChange('dayMultiplier', e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Night Overtime Multiplier</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.nightMultiplier}
+                onChange={(e) => handleChange('nightMultiplier', e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Holiday Overtime Multiplier</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.holidayMultiplier}
+                onChange={(e) => handleChange('holidayMultiplier', e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Base Exchange Rate</label>
+              <input
+                type="number"
+                step="0.0001"
+                value={form.exchangeRateBase}
+                onChange={(e) => handleChange('exchangeRateBase', e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={form.applyStatutory}
+                  onChange={(e) => setForm(prev => ({ ...prev, applyStatutory: e.target.checked }))}
+                  className="mr-2"
+                />
+                Apply income tax and social insurance
+              </label>
+              {form.applyStatutory && (
+                <textarea
+                  value={form.statutoryTables}
+                  onChange={(e) => handleChange('statutoryTables', e.target.value)}
+                  rows={14}
+                  className={`${inputClass} mt-2 font-mono text-xs`}
+                />
+              )}
+            </div>
+            <div className="sm:col-span-2">
+              <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={form.applyOvertimeLimits}
+                  onChange={(e) => setForm(prev => ({ ...prev, applyOvertimeLimits: e.target.checked }))}
+                  className="mr-2"
+                />
+                Warn about overtime limits and rest periods
+              </label>
+              {form.applyOvertimeLimits && (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mt-2">
+                  {([
+                    ['maxDailyHours', 'Max per Day (h)'],
+                    ['maxWeeklyHours', 'Max per Week (h)'],
+                    ['maxMonthlyHours', 'Max per Month (h)'],
+                    ['minRestHours', 'Min Rest (h)']
+                  ] as [keyof OvertimeLimits, string][]).map(([field, label]) => (
+                    <div key={field}>
+                      <label className={labelClass}>{label}</label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        value={form.overtimeLimits[field]}
+                        onChange={(e) => handleLimitChange(field, e.target.value)}
+                        className={inputClass}
+                        required
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="sm:col-span-2">
+              <label className={labelClass}>Notes</label>
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => handleChange('notes', e.target.value)}
+                placeholder="Reason for the change"
+                className={inputClass}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <button
+                type="submit"
+                disabled={publishing || !token}
+                className={`px-4 py-2 rounded-lg font-medium ${
+                  publishing || !token
+                    ? 'bg-gray-300 dark:bg-gray-700 text-gray-500 dark:text-gray-400 cursor-not-allowed'
+                    : 'bg-blue-600 hover:bg-blue-700 text-white'
+                }`}
+              >
+                {publishing ? 'Publishing...' : 'Publish Version'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,382 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Layout from '../../components/Layout';
+import { supabase } from '../../lib/supabase';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { ShiftGroup, ShiftPattern } from '../../lib/types/schedule';
+import { DEFAULT_SHIFT_PATTERN } from '../../lib/utils/shiftCalculator';
+import { ShiftDefinitionsEditor } from '../../components/schedule/ShiftDefinitionsEditor';
+import { StaffingRulesEditor } from '../../components/schedule/StaffingRulesEditor';
+import {
+  formatRotation,
+  parseRotation,
+  resolveShiftPattern,
+  SHIFT_PATTERN_TEMPLATES
+} from '../../lib/utils/shiftPatterns';
+
+interface PatternForm {
+  id?: string;
+  name: string;
+  referenceDate: string;
+  // Each group's cycle as slot codes, e.g. "DDNNOOOO"
+  rotations: { group: ShiftGroup; codes: string }[];
+}
+
+interface EmployeeAssignment {
+  id: string;
+  name: string;
+  scheduleType: string | null;
+  shiftGroup: ShiftGroup | null;
+  shiftPatternId: string | null;
+}
+
+const toForm = (pattern: Omit<ShiftPattern, 'id' | 'referenceDate'> & { id?: string | null; referenceDate?: string }): PatternForm => ({
+  id: pattern.id || undefined,
+  name: pattern.id ? pattern.name : '',
+  referenceDate: pattern.referenceDate || format(new Date(), 'yyyy-MM-dd'),
+  rotations: pattern.groups.map(group => ({ group, codes: formatRotation(pattern.slots[group] || []) }))
+});
+
+export default function ShiftPatternsPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [patterns, setPatterns] = useState<ShiftPattern[]>([]);
+  const [employees, setEmployees] = useState<EmployeeAssignment[]>([]);
+  const [form, setForm] = useState<PatternForm>(toForm(SHIFT_PATTERN_TEMPLATES[0]));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const router = useRouter();
+
+  // Check for authentication on component mount
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        alert('You must be logged in to access this page');
+        router.push('/login');
+        return;
+      }
+
+      setToken(session.access_token);
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const fetchPatterns = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/shift-patterns', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load shift patterns');
+      }
+
+      setPatterns(data.patterns);
+      setEmployees(data.employees);
+    } catch (error) {
+      console.error('Error loading shift patterns:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load shift patterns');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchPatterns();
+  }, [fetchPatterns]);
+
+  const updateRotation = (index: number, field: 'group' | 'codes', value: string) => {
+    setForm(prev => ({
+      ...prev,
+      rotations: prev.rotations.map((rotation, i) => (
+        i === index ? { ...rotation, [field]: field === 'codes' ? value.toUpperCase() : value.trim() } : rotation
+      ))
+    }));
+  };
+
+  const savePattern = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rotations = form.rotations.filter(rotation => rotation.group);
+    const slots = Object.fromEntries(rotations.map(rotation => [rotation.group, parseRotation(rotation.codes)]));
+
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/admin/shift-patterns', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          id: form.id,
+          name: form.name,
+          cycleLength: rotations[0] ? slots[rotations[0].group].length : 0,
+          referenceDate: form.referenceDate,
+          groups: rotations.map(rotation => rotation.group),
+          slots
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details = data.details ? Object.values(data.details).flat().join(', ') : '';
+        throw new Error(details || data.error || 'Failed to save the shift pattern');
+      }
+
+      toast.success(`${data.name} saved`);
+      setForm(toForm(data));
+      await fetchPatterns();
+    } catch (error) {
+      console.error('Error saving shift pattern:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the shift pattern');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const assignEmployee = async (employee: EmployeeAssignment, patternId: string | null, group: ShiftGroup) => {
+    try {
+      const response = await fetch('/api/admin/shift-patterns', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ employeeId: employee.id, patternId, group })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to assign the shift pattern');
+      }
+
+      setEmployees(prev => prev.map(item => (
+        item.id === employee.id ? { ...item, shiftPatternId: patternId, shiftGroup: group } : item
+      )));
+      toast.success(`${employee.name} is now in group ${group}`);
+    } catch (error) {
+      console.error('Error assigning shift pattern:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to assign the shift pattern');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  return (
+    <Layout>
+      <Head>
+        <title>Shift Patterns | SalaryCursor</title>
+      </Head>
+
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h1 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">Shift Patterns</h1>
+
+          <p className="text-gray-700 dark:text-gray-300 mb-6">
+            A pattern gives each group a shift for every day of its cycle, counted from the reference date:
+            D for day, E for evening, N for night and O for off. Employees without a pattern follow
+            the {DEFAULT_SHIFT_PATTERN.name}.
+          </p>
+
+          <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">Patterns</h2>
+          {loading ? (
+            <p className="text-gray-500 dark:text-gray-400 mb-8">Loading shift patterns...</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700 mb-8">
+              {patterns.map(pattern => (
+                <li key={pattern.id} className="py-2 flex items-center justify-between text-sm text-gray-900 dark:text-white">
+                  <span>
+                    {pattern.name}
+                    <span className="ml-2 text-gray-500 dark:text-gray-400">
+                      {pattern.cycleLength}-day cycle · groups {pattern.groups.join(', ')} · from {pattern.referenceDate}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => setForm(toForm(pattern))}
+                    className="px-2 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50"
+                  >
+                    Edit
+                  </button>
+                </li>
+              ))}
+              {patterns.length === 0 && (
+                <li className="py-2 text-sm text-gray-500 dark:text-gray-400">No patterns defined yet.</li>
+              )}
+            </ul>
+          )}
+
+          <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">
+            {form.id ? `Edit ${form.name}` : 'New Pattern'}
+          </h2>
+          {!form.id && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {SHIFT_PATTERN_TEMPLATES.map(template => (
+                <button
+                  key={template.name}
+                  type="button"
+                  onClick={() => setForm(prev => ({ ...toForm(template), name: prev.name }))}
+                  className="px-3 py-1 text-xs font-medium rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                >
+                  Start from {template.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={savePattern} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Reference Date (day 1 of the cycle)</label>
+                <input
+                  type="date"
+                  value={form.referenceDate}
+                  onChange={(e) => setForm({ ...form, referenceDate: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {form.rotations.map((rotation, index) => (
+                <div key={index} className="grid grid-cols-4 gap-2 items-center">
+                  <input
+                    type="text"
+                    value={rotation.group}
+                    onChange={(e) => updateRotation(index, 'group', e.target.value)}
+                    className={inputClass}
+                    placeholder="Group"
+                    aria-label="Group name"
+                  />
+                  <input
+                    type="text"
+                    value={rotation.codes}
+                    onChange={(e) => updateRotation(index, 'codes', e.target.value)}
+                    className={`${inputClass} col-span-2 font-mono tracking-widest`}
+                    placeholder="DDNNOOOO"
+                    aria-label={`Cycle for group ${rotation.group}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setForm(prev => ({ ...prev, rotations: prev.rotations.filter((_, i) => i !== index) }))}
+                    className="text-sm text-red-600 hover:text-red-700"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setForm(prev => ({ ...prev, rotations: [...prev.rotations, { group: '', codes: '' }] }))}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                + Add group
+              </button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {form.id && (
+                <button
+                  type="button"
+                  onClick={() => setForm(toForm(SHIFT_PATTERN_TEMPLATES[0]))}
+                  className="px-4 py-2 rounded-lg text-gray-700 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300"
+                >
+                  New Pattern
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={saving || !token}
+                className="px-4 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Pattern'}
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <ShiftDefinitionsEditor token={token} patterns={patterns} />
+
+        <StaffingRulesEditor token={token} patterns={patterns} />
+
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">Employees</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
+                  <th className="py-2 pr-4">Employee</th>
+                  <th className="py-2 pr-4">Pattern</th>
+                  <th className="py-2 pr-4">Group</th>
+                </tr>
+              </thead>
+              <tbody>
+                {employees.filter(employee => employee.scheduleType !== 'regular').map(employee => {
+                  const pattern = resolveShiftPattern(patterns, employee.shiftPatternId);
+
+                  return (
+                    <tr key={employee.id} className="border-b dark:border-gray-700 text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4">{employee.name}</td>
+                      <td className="py-2 pr-4">
+                        <select
+                          value={employee.shiftPatternId || ''}
+                          onChange={(e) => {
+                            const patternId = e.target.value || null;
+                            const next = resolveShiftPattern(patterns, patternId);
+                            // Keep the group when the new pattern has it
+                            const group = employee.shiftGroup && next.groups.includes(employee.shiftGroup)
+                              ? employee.shiftGroup
+                              : next.groups[0];
+                            assignEmployee(employee, patternId, group);
+                          }}
+                          className={inputClass}
+                        >
+                          <option value="">{DEFAULT_SHIFT_PATTERN.name}</option>
+                          {patterns.map(option => (
+                            <option key={option.id} value={option.id || ''}>{option.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <select
+                          value={employee.shiftGroup || ''}
+                          onChange={(e) => assignEmployee(employee, employee.shiftPatternId, e.target.value)}
+                          className={inputClass}
+                        >
+                          {!employee.shiftGroup && <option value="">No group</option>}
+                          {pattern.groups.map(group => (
+                            <option key={group} value={group}>Group {group}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
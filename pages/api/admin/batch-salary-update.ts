@@ -0,0 +1,356 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { batchSalaryUpdateSchema } from '../../../lib/validations/salary';
+import { mapPayRuleVersion, resolvePayRules } from '../../../lib/salary/payRules';
+import { applyEmployeeCurrency, getEmployeeCurrency } from '../../../lib/salary/currency';
+import { getLoanRepaymentForMonth, mapSalaryLoan } from '../../../lib/salary/loans';
+import { planSalaryRaise, recalculateSalaryRecord } from '../../../lib/salary/batchRaise';
+import { withChangeSource } from '../../../lib/salary/audit';
+import { fetchSalaryMonthInputs, mapPayLineItem } from '../../../lib/services/salaryService';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * GET: recent batches, newest first
+ * POST: raise the selected employees' basic salary (`dryRun: true` only previews it)
+ * DELETE ?batchId=: roll a batch back
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const userId = userData.user.id;
+
+    // Check if user is an admin
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin')
+      .eq('id', userId)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Admin access required.' });
+    }
+
+    if (req.method === 'GET') {
+      const { data, error } = await supabase
+        .from('salary_batch_updates')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return res.status(200).json(data || []);
+
+    } else if (req.method === 'POST') {
+      const parsed = batchSalaryUpdateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid batch salary update',
+          details: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const { employeeIds, percentage, effectiveDate, dryRun } = parsed.data;
+      const effectiveMonth = effectiveDate.substring(0, 7);
+
+      const [employeesResult, salariesResult, lineItemsResult, versionsResult, loansResult] = await Promise.all([
+        supabase
+          .from('employees')
+          .select('id, name, basic_salary, currency_pair, base_exchange_rate')
+          .in('id', employeeIds),
+        supabase
+          .from('salaries')
+          .select('*')
+          .in('employee_id', employeeIds)
+          .order('month', { ascending: true }),
+        supabase
+          .from('salary_line_items')
+          .select('*')
+          .in('employee_id', employeeIds)
+          .gte('month', `${effectiveMonth}-01`),
+        supabase
+          .from('pay_rule_versions')
+          .select('*')
+          .order('effective_from', { ascending: true }),
+        supabase
+          .from('salary_loans')
+          .select('*')
+          .in('employee_id', employeeIds)
+      ]);
+
+      if (employeesResult.error) throw employeesResult.error;
+      if (salariesResult.error) throw salariesResult.error;
+      if (lineItemsResult.error) throw lineItemsResult.error;
+      if (versionsResult.error) throw versionsResult.error;
+      if (loansResult.error) throw loansResult.error;
+
+      const employees = employeesResult.data || [];
+      const versions = (versionsResult.data || []).map(mapPayRuleVersion);
+      const lineItems = lineItemsResult.data || [];
+      const loans = loansResult.data || [];
+
+      if (employees.length === 0) {
+        return res.status(404).json({ error: 'None of the selected employees were found' });
+      }
+
+      // Each month is recalculated with its own rules and the employee's base rate
+      const plan = planSalaryRaise({
+        employees,
+        salaries: salariesResult.data || [],
+        rulesFor: (employeeId, month) => applyEmployeeCurrency(
+          resolvePayRules(month, versions),
+          getEmployeeCurrency(employees.find(employee => employee.id === employeeId))
+        ),
+        lineItemsFor: (employeeId, month) => lineItems
+          .filter(row => row.employee_id === employeeId && String(row.month).substring(0, 7) === month)
+          .map(mapPayLineItem),
+        loanRepaymentFor: (employeeId, month) => getLoanRepaymentForMonth(
+          loans.filter(row => row.employee_id === employeeId).map(mapSalaryLoan),
+          month
+        )
+      }, percentage, effectiveMonth);
+
+      if (dryRun) {
+        return res.status(200).json({ dryRun: true, ...plan });
+      }
+
+      if (plan.changes.length === 0) {
+        return res.status(400).json({ error: 'No salary records to update', skipped: plan.skipped });
+      }
+
+      const { data: batch, error: batchError } = await supabase
+        .from('salary_batch_updates')
+        .insert({
+          percentage,
+          effective_month: `${effectiveMonth}-01`,
+          employee_ids: employeeIds,
+          employees_affected: plan.totals.employees,
+          records_affected: plan.totals.records,
+          previous_total: plan.totals.previousTotal,
+          new_total: plan.totals.newTotal,
+          created_by: userId
+        })
+        .select()
+        .single();
+
+      if (batchError) throw batchError;
+
+      // Each change is recorded as soon as it is applied, so a batch that fails
+      // part-way can still be rolled back
+      for (const change of plan.changes) {
+        let salaryId = change.salaryId;
+
+        if (salaryId) {
+          const { error } = await supabase
+            .from('salaries')
+            .update(withChangeSource(change.newValues, 'batch_update', userId))
+            .eq('id', salaryId);
+
+          if (error) throw error;
+        } else {
+          const { data: created, error } = await supabase
+            .from('salaries')
+            .insert(withChangeSource(change.newRecord || {}, 'batch_update', userId))
+            .select('id')
+            .single();
+
+          if (error) throw error;
+          salaryId = created.id;
+        }
+
+        const { error: changeError } = await supabase
+          .from('salary_batch_update_changes')
+          .insert({
+            batch_id: batch.id,
+            employee_id: change.employeeId,
+            salary_id: salaryId,
+            month: `${change.month}-01`,
+            created_record: change.salaryId === null,
+            previous_values: change.previousValues,
+            new_values: change.newValues
+          });
+
+        if (changeError) throw changeError;
+      }
+
+      // Raise the employee record too, so months created after the batch start from it
+      for (const change of plan.employeeChanges) {
+        const { error } = await supabase
+          .from('employees')
+          .update({ basic_salary: change.newBasicSalary })
+          .eq('id', change.employeeId);
+
+        if (error) throw error;
+
+        const { error: changeError } = await supabase
+          .from('salary_batch_update_changes')
+          .insert({
+            batch_id: batch.id,
+            employee_id: change.employeeId,
+            target: 'employee',
+            month: `${effectiveMonth}-01`,
+            previous_values: { basic_salary: change.previousBasicSalary },
+            new_values: { basic_salary: change.newBasicSalary }
+          });
+
+        if (changeError) throw changeError;
+      }
+
+      return res.status(201).json({ batch, ...plan });
+
+    } else if (req.method === 'DELETE') {
+      const batchId = typeof req.query.batchId === 'string' ? req.query.batchId : undefined;
+
+      if (!batchId) {
+        return res.status(400).json({ error: 'Batch ID is required' });
+      }
+
+      const { data: batch, error: batchError } = await supabase
+        .from('salary_batch_updates')
+        .select('*')
+        .eq('id', batchId)
+        .maybeSingle();
+
+      if (batchError) throw batchError;
+
+      if (!batch) {
+        return res.status(404).json({ error: 'Batch not found' });
+      }
+
+      if (batch.rolled_back_at) {
+        return res.status(409).json({ error: 'This batch has already been rolled back' });
+      }
+
+      const { data: changes, error: changesError } = await supabase
+        .from('salary_batch_update_changes')
+        .select('*')
+        .eq('batch_id', batchId);
+
+      if (changesError) throw changesError;
+
+      let restored = 0;
+      const skipped: Array<{ employeeId: string; month: string; reason: string }> = [];
+
+      for (const change of changes || []) {
+        const month = String(change.month).substring(0, 7);
+
+        if (change.target === 'employee') {
+          const { data: employee, error: employeeError } = await supabase
+            .from('employees')
+            .select('id, basic_salary')
+            .eq('id', change.employee_id)
+            .maybeSingle();
+
+          if (employeeError) throw employeeError;
+
+          if (!employee) {
+            skipped.push({ employeeId: change.employee_id, month, reason: 'Employee no longer exists' });
+            continue;
+          }
+
+          // Like salary records, an employee edited after the batch is left alone
+          if (Number(employee.basic_salary) !== Number(change.new_values.basic_salary)) {
+            skipped.push({ employeeId: change.employee_id, month, reason: 'Basic salary was changed after the batch' });
+            continue;
+          }
+
+          const { error } = await supabase
+            .from('employees')
+            .update({ basic_salary: change.previous_values.basic_salary })
+            .eq('id', change.employee_id);
+
+          if (error) throw error;
+          restored++;
+          continue;
+        }
+
+        const { data: current, error: currentError } = await supabase
+          .from('salaries')
+          .select('*')
+          .eq('id', change.salary_id)
+          .maybeSingle();
+
+        if (currentError) throw currentError;
+
+        if (!current) {
+          skipped.push({ employeeId: change.employee_id, month, reason: 'Salary record no longer exists' });
+          continue;
+        }
+
+        // Records edited after the batch are left alone rather than overwritten
+        if (Number(current.basic_salary) !== Number(change.new_values.basic_salary)) {
+          skipped.push({ employeeId: change.employee_id, month, reason: 'Basic salary was changed after the batch' });
+          continue;
+        }
+
+        if (change.created_record) {
+          // Deleted through the RPC so the delete is logged with its source
+          const { error } = await supabase.rpc('delete_salary_record', {
+            p_salary_id: change.salary_id,
+            p_source: 'batch_rollback',
+            p_changed_by: userId
+          });
+
+          if (error) throw error;
+          restored++;
+          continue;
+        }
+
+        // Recalculate with the previous basic salary and the record's current inputs, so
+        // overtime synced or line items changed since the batch are kept
+        const { payRules, lineItems } = await fetchSalaryMonthInputs(change.employee_id, month, supabase);
+        const { error } = await supabase
+          .from('salaries')
+          .update(withChangeSource(
+            recalculateSalaryRecord(current, Number(change.previous_values.basic_salary) || 0, payRules, lineItems),
+            'batch_rollback',
+            userId
+          ))
+          .eq('id', change.salary_id);
+
+        if (error) throw error;
+        restored++;
+      }
+
+      const { data: rolledBack, error: rollbackError } = await supabase
+        .from('salary_batch_updates')
+        .update({
+          rolled_back_at: new Date().toISOString(),
+          rolled_back_by: userId
+        })
+        .eq('id', batchId)
+        .select()
+        .single();
+
+      if (rollbackError) throw rollbackError;
+
+      return res.status(200).json({ batch: rolledBack, restored, skipped });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('Error in batch salary update API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { endOfMonth, format, parseISO } from 'date-fns';
+import { mapPayRuleVersion, resolvePayRules } from '../../../lib/salary/payRules';
+import {
+  buildOvertimeComplianceReport,
+  buildWorkedShifts,
+  getLimitCheckRange
+} from '../../../lib/salary/overtimeLimits';
+import { fetchShiftSources } from '../../../lib/services/overtimeService';
+import { mapShiftPattern, resolveShiftPattern } from '../../../lib/utils/shiftPatterns';
+import { fetchShiftDefinitions } from '../../../lib/utils/shiftDefinitions';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const month = typeof req.query.month === 'string' ? req.query.month : format(new Date(), 'yyyy-MM');
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    // Check if user is an admin
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin')
+      .eq('id', userData.user.id)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Admin access required.' });
+    }
+
+    // Check the month against the limits that were in force for it
+    const { data: versions, error: versionsError } = await supabase
+      .from('pay_rule_versions')
+      .select('*')
+      .order('effective_from', { ascending: true });
+
+    if (versionsError) throw versionsError;
+    const limits = resolvePayRules(month, (versions || []).map(mapPayRuleVersion)).overtimeLimits || null;
+
+    const { data: employees, error: employeesError } = await supabase
+      .from('employees')
+      .select('id, name, shift_group, schedule_type, shift_pattern_id')
+      .order('name', { ascending: true });
+
+    if (employeesError) throw employeesError;
+
+    const { data: patternRows, error: patternsError } = await supabase
+      .from('shift_patterns')
+      .select('*');
+
+    if (patternsError) throw patternsError;
+    const patterns = (patternRows || []).map(mapShiftPattern);
+
+    // Shift lengths in the checks come from the configured shift times
+    await fetchShiftDefinitions(supabase);
+
+    // Load the weeks the month starts and ends in, and a day either side, so
+    // weekly caps and rest periods that cross into the month are covered
+    const from = getLimitCheckRange(`${month}-01`).from;
+    const to = getLimitCheckRange(format(endOfMonth(parseISO(`${month}-01`)), 'yyyy-MM-dd')).to;
+    const sources = await fetchShiftSources(from, to, undefined, supabase);
+
+    const report = buildOvertimeComplianceReport(
+      month,
+      (employees || []).map(employee => {
+        // Only shift workers have rostered shifts around their overtime
+        const group = employee.schedule_type === 'shift' ? employee.shift_group || null : null;
+
+        return {
+          employeeId: employee.id,
+          name: employee.name || 'Unnamed employee',
+          group,
+          shifts: buildWorkedShifts(from, to, {
+            group,
+            pattern: resolveShiftPattern(patterns, employee.shift_pattern_id),
+            overrides: sources.overrides[employee.id] || {},
+            holidays: sources.holidays,
+            leaveDates: sources.leaveDates[employee.id]
+          })
+        };
+      }),
+      limits
+    );
+
+    return res.status(200).json(report);
+  } catch (error: any) {
+    console.error('Error in overtime compliance API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
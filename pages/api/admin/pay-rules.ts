@@ -0,0 +1,116 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import { payRuleVersionSchema } from '../../../lib/validations/salary';
+import { mapPayRuleVersion, toMonthStart } from '../../../lib/salary/payRules';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const userId = userData.user.id;
+
+    // Check if user is an admin
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin')
+      .eq('id', userId)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Admin access required.' });
+    }
+
+    if (req.method === 'GET') {
+      // List every version, oldest first
+      const { data, error } = await supabase
+        .from('pay_rule_versions')
+        .select('*')
+        .order('effective_from', { ascending: true });
+
+      if (error) throw error;
+      return res.status(200).json((data || []).map(mapPayRuleVersion));
+
+    } else if (req.method === 'POST') {
+      const parsed = payRuleVersionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid pay rules',
+          details: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const input = parsed.data;
+      const effectiveFrom = toMonthStart(input.effectiveFrom);
+
+      // Past months keep the rules they were paid under, so versions can't be backdated
+      const currentMonthStart = toMonthStart(format(new Date(), 'yyyy-MM'));
+      if (effectiveFrom < currentMonthStart) {
+        return res.status(400).json({ error: 'New pay rules cannot take effect in a past month' });
+      }
+
+      // The new version must come after the latest published one
+      const { data: latest, error: latestError } = await supabase
+        .from('pay_rule_versions')
+        .select('effective_from')
+        .order('effective_from', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) throw latestError;
+
+      if (latest && effectiveFrom <= latest.effective_from) {
+        return res.status(409).json({
+          error: `A version already takes effect on ${latest.effective_from}. The next version must start after it.`
+        });
+      }
+
+      const { data, error } = await supabase
+        .from('pay_rule_versions')
+        .insert({
+          effective_from: effectiveFrom,
+          hour_divisor: input.hourDivisor,
+          day_multiplier: input.dayMultiplier,
+          night_multiplier: input.nightMultiplier,
+          holiday_multiplier: input.holidayMultiplier,
+          exchange_rate_base: input.exchangeRateBase,
+          statutory_tables: input.statutoryTables || null,
+          overtime_limits: input.overtimeLimits || null,
+          notes: input.notes || null,
+          created_by: userId
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return res.status(201).json(mapPayRuleVersion(data));
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('Error in pay rules API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
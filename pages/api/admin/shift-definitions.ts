@@ -0,0 +1,112 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { shiftDefinitionSchema } from '../../../lib/validations/salary';
+import { mapShiftDefinition } from '../../../lib/utils/shiftDefinitions';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * GET: every shift definition, site-wide and per pattern
+ * POST: add a definition, or update it when an id is given
+ * DELETE ?id=: remove a definition (the site-wide or built-in times apply again)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const userId = userData.user.id;
+
+    // Check if user is an admin
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin')
+      .eq('id', userId)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Admin access required.' });
+    }
+
+    if (req.method === 'GET') {
+      const { data, error } = await supabase
+        .from('shift_definitions')
+        .select('*')
+        .order('start_time', { ascending: true });
+
+      if (error) throw error;
+      return res.status(200).json((data || []).map(mapShiftDefinition));
+
+    } else if (req.method === 'POST') {
+      const parsed = shiftDefinitionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid shift definition',
+          details: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const input = parsed.data;
+      const record = {
+        pattern_id: input.patternId,
+        shift_type: input.shiftType,
+        name: input.name.trim(),
+        start_time: input.start,
+        end_time: input.end,
+        break_minutes: input.breakMinutes,
+        paid_hours: input.paidHours,
+        night_start: input.nightWindow?.start || null,
+        night_end: input.nightWindow?.end || null,
+        // Only regular hours are set per weekday
+        days_of_week: input.shiftType === 'Regular' ? input.daysOfWeek || null : null,
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = input.id
+        ? await supabase.from('shift_definitions').update(record).eq('id', input.id).select().single()
+        : await supabase.from('shift_definitions').insert({ ...record, created_by: userId }).select().single();
+
+      if (error) throw error;
+      return res.status(input.id ? 200 : 201).json(mapShiftDefinition(data));
+
+    } else if (req.method === 'DELETE') {
+      const id = typeof req.query.id === 'string' ? req.query.id : undefined;
+
+      if (!id) {
+        return res.status(400).json({ error: 'Definition ID is required' });
+      }
+
+      const { error } = await supabase
+        .from('shift_definitions')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return res.status(200).json({ id });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('Error in shift definitions API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
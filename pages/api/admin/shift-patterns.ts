@@ -0,0 +1,165 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { shiftPatternAssignmentSchema, shiftPatternSchema } from '../../../lib/validations/salary';
+import { mapShiftPattern, resolveShiftPattern } from '../../../lib/utils/shiftPatterns';
+import { ShiftPattern } from '../../../lib/types/schedule';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const userId = userData.user.id;
+
+    // Check if user is an admin
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin')
+      .eq('id', userId)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Admin access required.' });
+    }
+
+    if (req.method === 'GET') {
+      // Every pattern, and who follows which
+      const [patternsResult, employeesResult] = await Promise.all([
+        supabase.from('shift_patterns').select('*').order('name', { ascending: true }),
+        supabase
+          .from('employees')
+          .select('id, name, shift_group, schedule_type, shift_pattern_id')
+          .order('name', { ascending: true })
+      ]);
+
+      if (patternsResult.error) throw patternsResult.error;
+      if (employeesResult.error) throw employeesResult.error;
+
+      return res.status(200).json({
+        patterns: (patternsResult.data || []).map(mapShiftPattern),
+        employees: (employeesResult.data || []).map(employee => ({
+          id: employee.id,
+          name: employee.name || 'Unnamed employee',
+          scheduleType: employee.schedule_type,
+          shiftGroup: employee.shift_group || null,
+          shiftPatternId: employee.shift_pattern_id || null
+        }))
+      });
+
+    } else if (req.method === 'POST') {
+      // Create a pattern, or update it when an id is given
+      const parsed = shiftPatternSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid shift pattern',
+          details: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const input = parsed.data;
+      const record = {
+        name: input.name.trim(),
+        cycle_length: input.cycleLength,
+        reference_date: input.referenceDate,
+        groups: input.groups,
+        // Keep only the slots of the pattern's groups
+        slots: Object.fromEntries(input.groups.map(group => [group, input.slots[group]])),
+        updated_at: new Date().toISOString()
+      };
+
+      if (input.id) {
+        // Groups that employees are still assigned to can't be removed
+        const { data: assigned, error: assignedError } = await supabase
+          .from('employees')
+          .select('shift_group')
+          .eq('shift_pattern_id', input.id);
+
+        if (assignedError) throw assignedError;
+
+        const removedGroups = Array.from(new Set((assigned || [])
+          .map(employee => employee.shift_group)
+          .filter(group => group && !input.groups.includes(group))));
+
+        if (removedGroups.length > 0) {
+          return res.status(409).json({
+            error: `Employees are still assigned to group${removedGroups.length === 1 ? '' : 's'} ${removedGroups.join(', ')}. Move them before removing it.`
+          });
+        }
+      }
+
+      const { data, error } = input.id
+        ? await supabase.from('shift_patterns').update(record).eq('id', input.id).select().single()
+        : await supabase.from('shift_patterns').insert({ ...record, created_by: userId }).select().single();
+
+      if (error) throw error;
+      return res.status(input.id ? 200 : 201).json(mapShiftPattern(data));
+
+    } else if (req.method === 'PUT') {
+      // Assign an employee a pattern and a group in it
+      const parsed = shiftPatternAssignmentSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid assignment',
+          details: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const { employeeId, patternId, group } = parsed.data;
+
+      let patterns: ShiftPattern[] = [];
+      if (patternId) {
+        const { data: patternRow, error: patternError } = await supabase
+          .from('shift_patterns')
+          .select('*')
+          .eq('id', patternId)
+          .maybeSingle();
+
+        if (patternError) throw patternError;
+        if (!patternRow) {
+          return res.status(404).json({ error: 'Shift pattern not found' });
+        }
+        patterns = [mapShiftPattern(patternRow)];
+      }
+
+      const pattern = resolveShiftPattern(patterns, patternId);
+      if (!pattern.groups.includes(group)) {
+        return res.status(400).json({ error: `Group ${group} is not part of the ${pattern.name} rotation` });
+      }
+
+      const { error } = await supabase
+        .from('employees')
+        .update({ shift_pattern_id: patternId, shift_group: group })
+        .eq('id', employeeId);
+
+      if (error) throw error;
+      return res.status(200).json({ employeeId, patternId, group });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('Error in shift patterns API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,110 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { staffingRuleSchema } from '../../../lib/validations/salary';
+import { mapStaffingRule } from '../../../lib/utils/staffing';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * GET: every minimum staffing rule
+ * POST: add a rule, or update it when an id is given
+ * DELETE ?id=: remove a rule
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const userId = userData.user.id;
+
+    // Check if user is an admin
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin')
+      .eq('id', userId)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Admin access required.' });
+    }
+
+    if (req.method === 'GET') {
+      const { data, error } = await supabase
+        .from('staffing_rules')
+        .select('*')
+        .order('shift_type', { ascending: true })
+        .order('shift_group', { ascending: true, nullsFirst: true });
+
+      if (error) throw error;
+      return res.status(200).json((data || []).map(mapStaffingRule));
+
+    } else if (req.method === 'POST') {
+      const parsed = staffingRuleSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid staffing rule',
+          details: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const input = parsed.data;
+      const record = {
+        shift_type: input.shiftType,
+        shift_group: input.shiftGroup,
+        min_headcount: input.minHeadcount,
+        enforcement: input.enforcement,
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = input.id
+        ? await supabase.from('staffing_rules').update(record).eq('id', input.id).select().single()
+        : await supabase.from('staffing_rules').insert({ ...record, created_by: userId }).select().single();
+
+      // Unique violation: the shift and group already have a rule
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: 'That shift and group already have a rule' });
+      }
+      if (error) throw error;
+      return res.status(input.id ? 200 : 201).json(mapStaffingRule(data));
+
+    } else if (req.method === 'DELETE') {
+      const id = typeof req.query.id === 'string' ? req.query.id : undefined;
+
+      if (!id) {
+        return res.status(400).json({ error: 'Rule ID is required' });
+      }
+
+      const { error } = await supabase
+        .from('staffing_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return res.status(200).json({ id });
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('Error in staffing rules API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
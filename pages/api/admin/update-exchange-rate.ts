@@ -1,9 +1,13 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { saveExchangeRate } from '../../../lib/exchange-rate';
+import { format } from 'date-fns';
+import { fetchSpotRate, recordDailyRate } from '../../../lib/exchange-rate';
 import { supabase } from '../../../lib/supabase';
-
-// Default fallback rate
-const DEFAULT_EXCHANGE_RATE = 50.60;
+import {
+  DEFAULT_CURRENCY_PAIR,
+  FALLBACK_EXCHANGE_RATES,
+  isCurrencyPair,
+  splitCurrencyPair
+} from '../../../lib/salary/currency';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -35,36 +39,43 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(403).json({ error: 'Forbidden: Admin access required' });
     }
 
+    const pair = req.body?.pair || DEFAULT_CURRENCY_PAIR;
+    if (!isCurrencyPair(pair)) {
+      return res.status(400).json({ error: `Unsupported currency pair: ${pair}` });
+    }
+    const { base, quote } = splitCurrencyPair(pair);
+
     // Allow manual specification of rate in the request body
-    let rate = DEFAULT_EXCHANGE_RATE;
+    let rate = FALLBACK_EXCHANGE_RATES[pair];
+    let source = 'fallback';
     
     if (req.body && req.body.rate && typeof req.body.rate === 'number') {
-      rate = parseFloat(req.body.rate.toFixed(2));
+      rate = parseFloat(req.body.rate.toFixed(4));
+      source = 'manual';
     } else {
-      // Try to fetch the latest rate from APIs first
-      try {
-        // Use a direct fetch to get the rate
-        const response = await fetch('https://api.exchangerate.host/latest?base=USD');
-        if (response.ok) {
-          const data = await response.json();
-          if (data.rates && data.rates.EGP) {
-            rate = parseFloat(data.rates.EGP.toFixed(2));
-          }
-        }
-      } catch (fetchError) {
-        console.error('Failed to fetch current rate:', fetchError);
-        // Continue with default rate if fetch fails
+      // Try the rate providers first, continuing with the default rate if they all fail
+      const spot = await fetchSpotRate(pair);
+      if (spot) {
+        rate = spot.rate;
+        source = spot.source;
       }
     }
 
-    // Save the rate to the database and cache
-    const success = await saveExchangeRate(rate);
+    // Store it as today's rate for the pair
+    const success = await recordDailyRate({
+      pair,
+      date: format(new Date(), 'yyyy-MM-dd'),
+      rate,
+      source
+    });
 
     if (success) {
       return res.status(200).json({ 
         success: true, 
         rate,
-        message: `Exchange rate updated successfully to ${rate} EGP per USD`
+        pair,
+        source,
+        message: `Exchange rate updated successfully to ${rate} ${quote} per ${base}`
       });
     } else {
       return res.status(500).json({ 
@@ -1,11 +1,19 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getCurrentExchangeRate } from '../../lib/exchange-rate';
-
-// Default fallback rate in case of complete failure
-const DEFAULT_EXCHANGE_RATE = 50.60;
+import { DEFAULT_CURRENCY_PAIR, FALLBACK_EXCHANGE_RATES, isCurrencyPair } from '../../lib/salary/currency';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'GET') {
+    // Pair to fetch, e.g. ?pair=EUR/EGP (defaults to USD/EGP)
+    const requestedPair = req.query.pair || DEFAULT_CURRENCY_PAIR;
+    if (!isCurrencyPair(requestedPair)) {
+      return res.status(400).json({ error: `Unsupported currency pair: ${requestedPair}` });
+    }
+    const pair = requestedPair;
+
+    // Default fallback rate in case of complete failure
+    const DEFAULT_EXCHANGE_RATE = FALLBACK_EXCHANGE_RATES[pair];
+
     try {
       // Set a timeout for the overall request
       const timeoutPromise = new Promise((_, reject) => 
@@ -13,16 +21,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       );
       
       // Return the current rate (will auto-update if cache expired)
-      const ratePromise = getCurrentExchangeRate();
+      const ratePromise = getCurrentExchangeRate(pair);
       
       // Race the promises - either we get the rate or we timeout
       const rateData = await Promise.race([
         ratePromise, 
         timeoutPromise.then(() => ({ 
           rate: DEFAULT_EXCHANGE_RATE, 
-          lastUpdated: new Date().toISOString() 
+          lastUpdated: new Date().toISOString(),
+          pair
         }))
-      ]) as { rate: number; lastUpdated: string };
+      ]) as { rate: number; lastUpdated: string; pair: string };
       
       return res.status(200).json(rateData);
     } catch (error) {
@@ -32,6 +41,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(200).json({ 
         rate: DEFAULT_EXCHANGE_RATE, 
         lastUpdated: new Date().toISOString(),
+        pair,
         error: 'Failed to fetch exchange rate, using default rate'
       });
     }
@@ -0,0 +1,137 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { buildGroupChangeDecisionNotification, mapGroupChange } from '../../../../lib/utils/groupChanges';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const { id } = req.query;
+  const { status, note } = req.body || {};
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid group change ID' });
+  }
+  if (status !== 'approved' && status !== 'rejected') {
+    return res.status(400).json({ error: 'Status must be approved or rejected' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    // Check if user is a supervisor (admins can always approve)
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin, is_supervisor')
+      .eq('id', userData.user.id)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_supervisor && !employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Supervisor access required.' });
+    }
+
+    // Supervisors can't decide their own requests; someone else has to
+    const { data: existing, error: existingError } = await supabase
+      .from('group_changes')
+      .select('employee_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Group change not found' });
+    }
+
+    if (existing.employee_id === userData.user.id) {
+      return res.status(403).json({ error: 'You cannot decide your own group change request' });
+    }
+
+    // Only pending requests can be decided, and only once
+    const { data: updated, error: updateError } = await supabase
+      .from('group_changes')
+      .update({
+        status,
+        approved_by: userData.user.id,
+        decided_at: new Date().toISOString(),
+        decision_note: typeof note === 'string' && note.trim() ? note.trim() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+
+    if (!updated) {
+      return res.status(409).json({ error: 'The request is no longer pending' });
+    }
+
+    const change = mapGroupChange(updated);
+
+    // The employee record holds the group of their latest approved change
+    if (status === 'approved') {
+      const { data: latest, error: latestError } = await supabase
+        .from('group_changes')
+        .select('new_group')
+        .eq('employee_id', change.employeeId)
+        .eq('status', 'approved')
+        .order('effective_date', { ascending: false })
+        .limit(1)
+        .single();
+
+      if (latestError) throw latestError;
+
+      const { error: groupError } = await supabase
+        .from('employees')
+        .update({ shift_group: latest.new_group })
+        .eq('id', change.employeeId);
+
+      if (groupError) throw groupError;
+    }
+
+    const notification = buildGroupChangeDecisionNotification(change, status, change.decisionNote);
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert({
+        user_id: change.employeeId,
+        title: notification.title,
+        message: notification.message,
+        type: notification.type,
+        category: notification.category,
+        link: notification.link
+      });
+
+    // The decision stands even if the employee could not be notified
+    if (notificationError) {
+      console.error('Error notifying employee of group change decision:', notificationError);
+    }
+
+    return res.status(200).json(change);
+  } catch (error: any) {
+    console.error('Error in group change decision API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
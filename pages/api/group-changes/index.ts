@@ -0,0 +1,86 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { GroupChangeStatus, mapGroupChange } from '../../../lib/utils/groupChanges';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const STATUSES: GroupChangeStatus[] = ['pending', 'approved', 'rejected'];
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+  if (!STATUSES.includes(status as GroupChangeStatus)) {
+    return res.status(400).json({ error: `Status must be one of ${STATUSES.join(', ')}` });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    // Check if user is a supervisor (admins can always approve)
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin, is_supervisor')
+      .eq('id', userData.user.id)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_supervisor && !employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Supervisor access required.' });
+    }
+
+    // Soonest first, so changes about to take effect are decided first
+    let query = supabase
+      .from('group_changes')
+      .select('*')
+      .eq('status', status);
+
+    // A supervisor's own requests wait for someone else to decide them
+    if (status === 'pending') {
+      query = query.neq('employee_id', userData.user.id);
+    }
+
+    const { data, error } = await query
+      .order('effective_date', { ascending: status === 'pending' })
+      .limit(200);
+
+    if (error) throw error;
+
+    // group_changes points at the auth user, so names are looked up separately
+    const employeeIds = Array.from(new Set((data || []).map(change => change.employee_id)));
+    const { data: employees, error: namesError } = employeeIds.length > 0
+      ? await supabase.from('employees').select('id, name').in('id', employeeIds)
+      : { data: [], error: null };
+
+    if (namesError) throw namesError;
+
+    const names = new Map((employees || []).map(employee => [employee.id, employee.name]));
+
+    return res.status(200).json((data || []).map(change => mapGroupChange({
+      ...change,
+      employees: { name: names.get(change.employee_id) }
+    })));
+  } catch (error: any) {
+    console.error('Error in group changes API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
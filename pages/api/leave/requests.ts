@@ -0,0 +1,138 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { differenceInCalendarDays, eachDayOfInterval, format, parseISO } from 'date-fns';
+import { checkEmployeeStaffing } from '../../../lib/services/staffingService';
+import { leaveSubmissionSchema } from '../../../lib/validations/salary';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * POST { leaveId?, startDate, endDate, leaveType, reason }: submit leave for the
+ * signed-in employee, or edit one of theirs. Employees can't write leave directly,
+ * so the staffing rules are always checked here; a blocking rule refuses the leave,
+ * and so does a check that can't be completed.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const parsed = leaveSubmissionSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid leave request',
+      details: parsed.error.flatten().fieldErrors
+    });
+  }
+
+  const { leaveId, startDate, endDate, leaveType, reason } = parsed.data;
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const userId = userData.user.id;
+
+    if (leaveId) {
+      const { data: existing, error: fetchError } = await supabase
+        .from('leaves')
+        .select('employee_id')
+        .eq('id', leaveId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Leave not found' });
+      }
+
+      if (existing.employee_id !== userId) {
+        return res.status(403).json({ error: 'You can only edit your own leave' });
+      }
+    }
+
+    const check = await checkEmployeeStaffing(supabase, userId, startDate, endDate, 'Leave');
+
+    if (check.blocked) {
+      return res.status(409).json({
+        error: 'This leave would take shifts below their minimum staffing',
+        check
+      });
+    }
+
+    const start = parseISO(startDate);
+    const end = parseISO(endDate);
+    const fields = {
+      start_date: startDate,
+      end_date: endDate,
+      days_taken: differenceInCalendarDays(end, start) + 1,
+      reason,
+      leave_type: leaveType,
+      year: start.getFullYear()
+    };
+
+    const { data: leave, error: saveError } = leaveId
+      ? await supabase
+          .from('leaves')
+          .update(fields)
+          .eq('id', leaveId)
+          .select()
+          .single()
+      : await supabase
+          .from('leaves')
+          .insert({ ...fields, employee_id: userId, status: 'Approved' })
+          .select()
+          .single();
+
+    if (saveError) throw saveError;
+
+    // Annual leave shows on the calendar; days that already have an override keep it
+    if (leaveType === 'Annual') {
+      const days = eachDayOfInterval({ start, end }).map(day => format(day, 'yyyy-MM-dd'));
+      const { data: existingOverrides, error: overridesError } = await supabase
+        .from('shift_overrides')
+        .select('date')
+        .eq('employee_id', userId)
+        .in('date', days);
+
+      if (overridesError) {
+        console.error('Error fetching shift overrides for leave:', overridesError);
+      } else {
+        const existingDates = new Set((existingOverrides || []).map(override => override.date));
+        const newOverrides = days
+          .filter(day => !existingDates.has(day))
+          .map(day => ({ employee_id: userId, date: day, shift_type: 'Leave', source: 'leave_page' }));
+
+        if (newOverrides.length > 0) {
+          const { error: insertError } = await supabase
+            .from('shift_overrides')
+            .insert(newOverrides);
+
+          // The leave is saved either way
+          if (insertError) console.error('Error creating shift overrides for leave:', insertError);
+        }
+      }
+    }
+
+    return res.status(leaveId ? 200 : 201).json({ leave, check });
+  } catch (error: any) {
+    console.error('Error in leave requests API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
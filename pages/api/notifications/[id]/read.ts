@@ -1,7 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { supabase } from '../../../../lib/supabase';
+import { createClient } from '@supabase/supabase-js';
 import { withRateLimit } from '../../../../lib/rateLimit';
 
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Notifications are read with the service role once the token has been verified,
+// since the request carries no Supabase session
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
 async function handler(
   req: NextApiRequest,
   res: NextApiResponse
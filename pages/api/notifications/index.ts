@@ -1,8 +1,15 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { supabase } from '../../../lib/supabase';
+import { createClient } from '@supabase/supabase-js';
 import { withRateLimit } from '../../../lib/rateLimit';
 import { logger } from '../../../lib/logger';
 
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Notifications are read with the service role once the token has been verified,
+// since the request carries no Supabase session
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
 async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -104,13 +111,22 @@ async function handler(
       }
 
       // Get unread count
-      const unreadCount = (notifications || []).filter(n => !n.read).length;
+      const unreadCount = (notifications || []).filter(n => !n.is_read).length;
 
       // Set cache control for better performance
       res.setHeader('Cache-Control', 'private, max-age=10');
       
       return res.status(200).json({
-        notifications: notifications || [],
+        notifications: (notifications || []).map(notification => ({
+          id: notification.id,
+          title: notification.title,
+          message: notification.message,
+          type: notification.type,
+          createdAt: notification.created_at,
+          isRead: notification.is_read,
+          link: notification.link || undefined,
+          category: notification.category || undefined
+        })),
         unreadCount
       });
     } catch (dbError) {
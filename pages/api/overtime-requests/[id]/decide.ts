@@ -0,0 +1,122 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { updateUserOvertime } from '../../../../lib/overtime';
+import { buildOvertimeDecisionNotification, mapOvertimeRequest } from '../../../../lib/salary/overtimeRequests';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const { id } = req.query;
+  const { status, note } = req.body || {};
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid overtime request ID' });
+  }
+  if (status !== 'approved' && status !== 'rejected') {
+    return res.status(400).json({ error: 'Status must be approved or rejected' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    // Check if user is a supervisor (admins can always approve)
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin, is_supervisor')
+      .eq('id', userData.user.id)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_supervisor && !employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Supervisor access required.' });
+    }
+
+    // Supervisors can't decide their own requests; someone else has to
+    const { data: existing, error: existingError } = await supabase
+      .from('overtime_requests')
+      .select('employee_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Overtime request not found' });
+    }
+
+    if (existing.employee_id === userData.user.id) {
+      return res.status(403).json({ error: 'You cannot decide your own overtime request' });
+    }
+
+    // Only pending requests can be decided, and only once
+    const { data: updated, error: updateError } = await supabase
+      .from('overtime_requests')
+      .update({
+        status,
+        decided_by: userData.user.id,
+        decided_at: new Date().toISOString(),
+        decision_note: typeof note === 'string' && note.trim() ? note.trim() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+
+    if (!updated) {
+      return res.status(409).json({ error: 'The request is no longer pending' });
+    }
+
+    const request = mapOvertimeRequest(updated);
+
+    // Approved hours are paid with the month's salary
+    if (status === 'approved') {
+      await updateUserOvertime(request.date, 0, request.employeeId, false, supabase);
+    }
+
+    const notification = buildOvertimeDecisionNotification(request, status, request.decisionNote);
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert({
+        user_id: request.employeeId,
+        title: notification.title,
+        message: notification.message,
+        type: notification.type,
+        category: notification.category,
+        link: notification.link
+      });
+
+    // The decision stands even if the employee could not be notified
+    if (notificationError) {
+      console.error('Error notifying employee of overtime decision:', notificationError);
+    }
+
+    return res.status(200).json(request);
+  } catch (error: any) {
+    console.error('Error in overtime decision API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
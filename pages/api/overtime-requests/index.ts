@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { mapOvertimeRequest, OvertimeRequestStatus } from '../../../lib/salary/overtimeRequests';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const STATUSES: OvertimeRequestStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+  if (!STATUSES.includes(status as OvertimeRequestStatus)) {
+    return res.status(400).json({ error: `Status must be one of ${STATUSES.join(', ')}` });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    // Check if user is a supervisor (admins can always approve)
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin, is_supervisor')
+      .eq('id', userData.user.id)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_supervisor && !employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Supervisor access required.' });
+    }
+
+    // Oldest first, so the inbox is worked through in the order it came in
+    const { data, error } = await supabase
+      .from('overtime_requests')
+      .select('*, employees!overtime_requests_employee_id_fkey(name)')
+      .eq('status', status)
+      .order('date', { ascending: status === 'pending' })
+      .limit(200);
+
+    if (error) throw error;
+
+    return res.status(200).json((data || []).map(mapOvertimeRequest));
+  } catch (error: any) {
+    console.error('Error in overtime requests API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -1,15 +1,30 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '../../lib/supabase';
+import { mapSpecialPayment, SPECIAL_PAYMENT_LABELS, SpecialPaymentType } from '../../lib/salary/specialPayments';
 
 interface YearlySalaryResponse {
   year: number;
+  // Monthly salaries plus special payments (net)
   totalSalary: number;
+  // Average of the monthly salaries alone
   averageSalary: number;
   monthlyBreakdown: {
     month: number;
     name: string;
     total: number;
+    socialInsurance: number;
+    incomeTax: number;
   }[];
+  // Bonus, 13th-month and profit-share payments, one row each
+  specialPayments: {
+    month: number;
+    name: string;
+    type: SpecialPaymentType;
+    grossAmount: number;
+    incomeTax: number;
+    total: number;
+  }[];
+  specialPaymentsTotal: number;
 }
 
 export default async function handler(
@@ -61,6 +76,38 @@ export default async function handler(
     const targetYear = year ? parseInt(year as string) : new Date().getFullYear();
     
     try {
+      // Special payments are paid outside the monthly salary records
+      const { data: paymentRows, error: paymentsError } = await supabase
+        .from('special_payments')
+        .select('*')
+        .eq('employee_id', employee_id)
+        .gte('payout_month', `${targetYear}-01-01`)
+        .lte('payout_month', `${targetYear}-12-01`)
+        .order('payout_month', { ascending: true });
+
+      // Totals without them would be understated, so fail rather than leave them out
+      if (paymentsError) {
+        console.error('Database error fetching special payments:', paymentsError);
+        return res.status(500).json({
+          error: paymentsError.message,
+          details: paymentsError.details || 'Failed to fetch special payments',
+          hint: paymentsError.hint || 'Check database connection and permissions'
+        });
+      }
+
+      const specialPayments: YearlySalaryResponse['specialPayments'] = (paymentRows || [])
+        .map(mapSpecialPayment)
+        .map(payment => ({
+          month: parseInt(payment.payoutMonth.substring(5, 7)),
+          name: SPECIAL_PAYMENT_LABELS[payment.type],
+          type: payment.type,
+          grossAmount: payment.grossAmount,
+          incomeTax: payment.incomeTax,
+          total: payment.netAmount
+        }));
+      const specialPaymentsTotal = specialPayments.reduce((sum, payment) => sum + payment.total, 0);
+      
+
       // Fetch all salary records for the specified year
       let query = supabase
         .from('salaries')
@@ -85,9 +132,11 @@ export default async function handler(
         console.log('No salary data found for employee:', employee_id);
         return res.status(200).json({
           year: targetYear,
-          totalSalary: 0,
+          totalSalary: specialPaymentsTotal,
           averageSalary: 0,
-          monthlyBreakdown: []
+          monthlyBreakdown: [],
+          specialPayments,
+          specialPaymentsTotal
         });
       }
       
@@ -101,9 +150,11 @@ export default async function handler(
       if (yearRecords.length === 0) {
         return res.status(200).json({
           year: targetYear,
-          totalSalary: 0,
+          totalSalary: specialPaymentsTotal,
           averageSalary: 0,
-          monthlyBreakdown: []
+          monthlyBreakdown: [],
+          specialPayments,
+          specialPaymentsTotal
         });
       }
       
@@ -112,7 +163,7 @@ export default async function handler(
       const averageSalary = yearlyTotal / yearRecords.length;
       
       // Prepare monthly breakdown
-      const monthlyBreakdown = [];
+      const monthlyBreakdown: YearlySalaryResponse['monthlyBreakdown'] = [];
       for (let m = 1; m <= 12; m++) {
         const monthRecords = yearRecords.filter(record => {
           const monthStr = String(record.month).trim();
@@ -135,7 +186,9 @@ export default async function handler(
           monthlyBreakdown.push({
             month: m,
             name: monthName,
-            total: monthTotal
+            total: monthTotal,
+            socialInsurance: monthRecords.reduce((sum, record) => sum + (record.social_insurance || 0), 0),
+            incomeTax: monthRecords.reduce((sum, record) => sum + (record.income_tax || 0), 0)
           });
         }
       }
@@ -146,9 +199,11 @@ export default async function handler(
       // Return the aggregated data
       const response: YearlySalaryResponse = {
         year: targetYear,
-        totalSalary: yearlyTotal,
+        totalSalary: yearlyTotal + specialPaymentsTotal,
         averageSalary: averageSalary,
-        monthlyBreakdown: monthlyBreakdown
+        monthlyBreakdown: monthlyBreakdown,
+        specialPayments,
+        specialPaymentsTotal
       };
       
       return res.status(200).json(response);
@@ -1,5 +1,10 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '../../lib/supabase';
+import { computePay } from '../../lib/salary/payEngine';
+import { getLoanRepaymentForMonth, mapSalaryLoan } from '../../lib/salary/loans';
+import { fetchOvertimeSummary } from '../../lib/services/overtimeService';
+import { fetchSalaryMonthInputs } from '../../lib/services/salaryService';
+import { withChangeSource } from '../../lib/salary/audit';
 
 // Define SalaryData interface
 interface SalaryData {
@@ -8,12 +13,19 @@ interface SalaryData {
   basic_salary: number;
   cost_of_living: number;
   shift_allowance: number;
+  other_earnings: number;
   overtime_hours: number;
   overtime_pay: number;
   variable_pay: number;
   deduction: number;
+  social_insurance: number;
+  income_tax: number;
+  line_earnings: number;
+  line_deductions: number;
+  loan_repayment: number;
   total_salary: number;
   exchange_rate: number;
+  currency_pair: string;
 }
 
 export default async function handler(
@@ -151,6 +163,32 @@ export default async function handler(
         return res.status(400).json({ error: 'Employee ID and month are required' });
       }
       
+      // Derived amounts are recomputed with the pay-rule engine rather than
+      // trusted from the client, so every caller stores the same figures.
+      // The month is always calculated with the rules that were in force for it,
+      // the employee's own base rate and the month's itemised lines
+      const { currency, payRules, lineItems } = await fetchSalaryMonthInputs(employee_id, String(month), supabase);
+      // Loan and advance installments due this month are always taken from the schedule
+      const { data: loanRows } = await supabase
+        .from('salary_loans')
+        .select('*')
+        .eq('employee_id', employee_id);
+      const loanRepayment = getLoanRepaymentForMonth((loanRows || []).map(mapSalaryLoan), month);
+      // Overtime is the month's approved typed overtime, as on the salary page
+      const [year, monthNumber] = String(month).substring(0, 7).split('-').map(Number);
+      const overtime = await fetchOvertimeSummary(employee_id, year, monthNumber, supabase);
+      const pay = computePay({
+        basicSalary: salaryData.basic_salary || 0,
+        costOfLiving: salaryData.cost_of_living || 0,
+        shiftAllowance: salaryData.shift_allowance || 0,
+        otherEarnings: salaryData.other_earnings || 0,
+        additionalEffectiveHours: overtime.effectiveHours,
+        exchangeRate: salaryData.exchange_rate || 0,
+        deduction: salaryData.deduction || 0,
+        lineItems,
+        loanRepayment
+      }, payRules);
+      
       // Create sanitized data object with proper defaults for any missing fields
       const sanitizedData: SalaryData = {
         employee_id,
@@ -158,12 +196,19 @@ export default async function handler(
         basic_salary: salaryData.basic_salary || 0,
         cost_of_living: salaryData.cost_of_living || 0,
         shift_allowance: salaryData.shift_allowance || 0,
-        overtime_hours: salaryData.overtime_hours || 0,
-        overtime_pay: salaryData.overtime_pay || 0,
+        other_earnings: salaryData.other_earnings || 0,
+        overtime_hours: overtime.effectiveHours,
+        overtime_pay: pay.overtimePay,
         variable_pay: salaryData.variable_pay || 0,
-        deduction: salaryData.deduction || 0,
-        total_salary: salaryData.total_salary || 0,
+        deduction: pay.deduction,
+        social_insurance: pay.socialInsurance,
+        income_tax: pay.incomeTax,
+        line_earnings: pay.lineEarnings,
+        line_deductions: pay.lineDeductions,
+        loan_repayment: pay.loanRepayment,
+        total_salary: pay.totalSalary,
         exchange_rate: salaryData.exchange_rate || 0,
+        currency_pair: currency.currencyPair,
       };
       
       // Check if a record already exists for this employee and month
@@ -267,13 +312,13 @@ export default async function handler(
           // Update existing record
           result = await supabase
             .from('salaries')
-            .update(sanitizedData)
+            .update(withChangeSource(sanitizedData, 'salary_api', userSession.id))
             .eq('id', existingRecord.id);
         } else {
           // Insert new record
           result = await supabase
             .from('salaries')
-            .insert(sanitizedData);
+            .insert(withChangeSource(sanitizedData, 'salary_api', userSession.id));
         }
         
         if (result.error) {
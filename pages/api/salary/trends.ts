@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '../../../lib/supabase';
 import { withRateLimit } from '../../../lib/rateLimit';
+import { DEFAULT_CURRENCY_PAIR, isCurrencyPair, splitCurrencyPair, toPeggedAmount } from '../../../lib/salary/currency';
 
 async function handler(
   req: NextApiRequest,
@@ -88,7 +89,9 @@ async function handler(
         overtime_pay,
         variable_pay,
         deduction,
-        total_salary
+        total_salary,
+        exchange_rate,
+        currency_pair
       `)
       .eq('employee_id', userId)
       .order('month', { ascending: true })
@@ -99,14 +102,47 @@ async function handler(
       return res.status(500).json({ error: 'Failed to fetch salary data' });
     }
 
+    // Bonus, 13th-month and profit-share payments over the same months, by payout month
+    const firstMonth = salaryData[0]?.month;
+    const { data: paymentRows, error: paymentsError } = firstMonth
+      ? await supabase
+        .from('special_payments')
+        .select('payout_month, net_amount')
+        .eq('employee_id', userId)
+        .gte('payout_month', firstMonth)
+      : { data: [], error: null };
+
+    if (paymentsError) {
+      console.error('Error fetching special payments:', paymentsError);
+    }
+
+    const specialPaymentsByMonth = new Map<string, number>();
+    for (const payment of paymentRows || []) {
+      const key = String(payment.payout_month).substring(0, 7);
+      specialPaymentsByMonth.set(key, (specialPaymentsByMonth.get(key) || 0) + (Number(payment.net_amount) || 0));
+    }
+
     // Process data if needed
-    const formattedData = salaryData.map(item => ({
-      month: item.month, // Format the month as needed
-      total_salary: item.total_salary,
-      basic_salary: item.basic_salary,
-      overtime_pay: item.overtime_pay || 0,
-      // You can include other fields as needed
-    }));
+    const formattedData = salaryData.map(item => {
+      const currencyPair = isCurrencyPair(item.currency_pair) ? item.currency_pair : DEFAULT_CURRENCY_PAIR;
+
+      return {
+        month: item.month, // Format the month as needed
+        total_salary: item.total_salary,
+        basic_salary: item.basic_salary,
+        overtime_pay: item.overtime_pay || 0,
+        // The total in the currency the pay is pegged to, at the month's rate
+        currency_pair: currencyPair,
+        exchange_rate: item.exchange_rate || null,
+        pegged_currency: splitCurrencyPair(currencyPair).base,
+        total_salary_pegged: item.exchange_rate
+          ? Number(toPeggedAmount(item.total_salary, item.exchange_rate).toFixed(2))
+          : null,
+        // Paid on top of the month's salary
+        special_payments: specialPaymentsByMonth.get(String(item.month).substring(0, 7)) || 0,
+        // You can include other fields as needed
+      };
+    });
 
     // Set cache control headers
     res.setHeader('Cache-Control', 'private, max-age=60');
@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '../../lib/supabase';
+import { withChangeSource } from '../../lib/salary/audit';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'POST') {
@@ -20,7 +21,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         // Update existing record
         const { data, error } = await supabase
           .from('salaries')
-          .update(calculation)
+          .update(withChangeSource(calculation, 'salary_calculations_api'))
           .eq('id', existingRecord.id)
           .select()
           .single();
@@ -30,7 +31,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         // Insert new record
         const { data, error } = await supabase
           .from('salaries')
-          .insert([calculation])
+          .insert([withChangeSource(calculation, 'salary_calculations_api')])
           .select()
           .single();
           
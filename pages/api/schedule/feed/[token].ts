@@ -0,0 +1,74 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { addMonths } from 'date-fns';
+import { fetchEmployeeCalendar } from '../../../../lib/services/scheduleService';
+import {
+  buildFeedEvents,
+  buildIcsCalendar,
+  FEED_MONTHS_AFTER,
+  FEED_MONTHS_BEFORE,
+  mapCalendarFeed
+} from '../../../../lib/utils/calendarFeed';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Calendar apps fetch the feed without a session; the secret token in the link
+// identifies the employee, so the schedule is read with the service role
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * GET /api/schedule/feed/<token>.ics: the employee's shifts as an iCalendar feed
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const token = typeof req.query.token === 'string' ? req.query.token.replace(/\.ics$/, '') : '';
+
+  if (!token) {
+    return res.status(404).json({ error: 'Calendar feed not found' });
+  }
+
+  try {
+    const { data: feedRow, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+
+    if (!feedRow) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    const feed = mapCalendarFeed(feedRow);
+    const calendar = await fetchEmployeeCalendar(
+      feed.employeeId,
+      addMonths(new Date(), -FEED_MONTHS_BEFORE),
+      FEED_MONTHS_BEFORE + 1 + FEED_MONTHS_AFTER,
+      supabase
+    );
+
+    const events = buildFeedEvents(calendar.days, feed.shiftTypes, calendar.scheduleType, feed.id, calendar.pattern.id);
+
+    // Let the employee see when their calendar app last refreshed
+    const { error: accessError } = await supabase
+      .from('calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    if (accessError) console.error('Error recording calendar feed access:', accessError);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="shifts.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    return res.status(200).send(buildIcsCalendar(events, 'My Shifts'));
+  } catch (error: any) {
+    console.error('Error in calendar feed API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { format, parseISO } from 'date-fns';
+import { fetchEmployeeCalendars } from '../../../lib/services/scheduleService';
+import { buildRoster } from '../../../lib/utils/roster';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * GET ?month=YYYY-MM: every shift worker's month, for supervisors
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const month = typeof req.query.month === 'string' ? req.query.month : format(new Date(), 'yyyy-MM');
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    // Check if user is a supervisor (admins can always see the roster)
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin, is_supervisor')
+      .eq('id', userData.user.id)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    if (!employeeData.is_supervisor && !employeeData.is_admin) {
+      return res.status(403).json({ error: 'Not authorized. Supervisor access required.' });
+    }
+
+    const calendars = (await fetchEmployeeCalendars(undefined, parseISO(`${month}-01`), 1, supabase))
+      .filter(calendar => calendar.scheduleType === 'shift');
+
+    return res.status(200).json(buildRoster(calendars));
+  } catch (error: any) {
+    console.error('Error in roster API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { checkEmployeeStaffing } from '../../../lib/services/staffingService';
+import { staffingCheckSchema } from '../../../lib/validations/salary';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * POST { startDate, endDate, shiftType }: check taking the signed-in employee
+ * off their shifts against the staffing rules, using the whole team's calendars
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const parsed = staffingCheckSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid staffing check',
+      details: parsed.error.flatten().fieldErrors
+    });
+  }
+
+  const { startDate, endDate, shiftType } = parsed.data;
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    return res.status(200).json(
+      await checkEmployeeStaffing(supabase, userData.user.id, startDate, endDate, shiftType)
+    );
+  } catch (error: any) {
+    console.error('Error in staffing check API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
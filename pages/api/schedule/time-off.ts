@@ -0,0 +1,79 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { checkEmployeeStaffing } from '../../../lib/services/staffingService';
+import { timeOffOverrideSchema } from '../../../lib/validations/salary';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * POST { date, shiftType, notes }: put the signed-in employee on leave or a day
+ * off in place of their shift. Employees can't write these overrides directly, so
+ * the staffing rules are always checked here; a blocking rule refuses the day,
+ * and so does a check that can't be completed.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const parsed = timeOffOverrideSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid day off',
+      details: parsed.error.flatten().fieldErrors
+    });
+  }
+
+  const { date, shiftType, notes } = parsed.data;
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const check = await checkEmployeeStaffing(supabase, userData.user.id, date, date, shiftType);
+
+    if (check.blocked) {
+      return res.status(409).json({
+        error: 'This day off would take a shift below its minimum staffing',
+        check
+      });
+    }
+
+    const { data: override, error: saveError } = await supabase
+      .from('shift_overrides')
+      .upsert({
+        employee_id: userData.user.id,
+        date,
+        shift_type: shiftType,
+        notes: notes ?? null,
+        source: 'schedule_page'
+      }, {
+        onConflict: 'employee_id,date'
+      })
+      .select()
+      .single();
+
+    if (saveError) throw saveError;
+
+    return res.status(200).json({ override, check });
+  } catch (error: any) {
+    console.error('Error in time off API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
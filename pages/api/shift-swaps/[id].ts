@@ -0,0 +1,314 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { differenceInCalendarMonths, format, parseISO } from 'date-fns';
+import { updateUserOvertime } from '../../../lib/overtime';
+import { fetchEmployeeCalendars } from '../../../lib/services/scheduleService';
+import {
+  buildShiftSwapNotification,
+  getNextSwapStatus,
+  mapShiftSwap,
+  planShiftSwap,
+  planSwapRollback,
+  PreviousOverride,
+  SHIFT_SWAP_SELECT,
+  SHIFT_SWAP_STATUS_LABELS,
+  ShiftSwap,
+  ShiftSwapAction,
+  SwapOverride
+} from '../../../lib/utils/shiftSwaps';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const ACTIONS: ShiftSwapAction[] = ['accept', 'decline', 'approve', 'reject', 'cancel'];
+
+/**
+ * Write the overrides that exchange the two shifts, keeping the ones they replace
+ */
+async function applySwap(swap: ShiftSwap, overrides: SwapOverride[]): Promise<PreviousOverride[]> {
+  const { data: existing, error: existingError } = await supabase
+    .from('shift_overrides')
+    .select('employee_id, date, shift_type, notes, source')
+    .in('employee_id', [swap.requesterId, swap.colleagueId])
+    .in('date', Array.from(new Set(overrides.map(override => override.date))));
+
+  if (existingError) throw existingError;
+
+  const previousOverrides = overrides.map(override => {
+    const row = (existing || []).find(item => item.employee_id === override.employeeId && item.date === override.date);
+    return {
+      employeeId: override.employeeId,
+      date: override.date,
+      override: row ? { shiftType: row.shift_type, notes: row.notes || null, source: row.source || null } : null
+    };
+  });
+
+  // Both sides are written in one statement, so neither calendar changes without the other
+  const { error } = await supabase
+    .from('shift_overrides')
+    .upsert(overrides.map(override => ({
+      employee_id: override.employeeId,
+      date: override.date,
+      shift_type: override.shiftType,
+      notes: `Swapped with ${override.employeeId === swap.requesterId ? swap.colleagueName || 'a colleague' : swap.requesterName || 'a colleague'}`,
+      source: 'shift_swap'
+    })), { onConflict: 'employee_id,date' });
+
+  if (error) throw error;
+
+  return previousOverrides;
+}
+
+/**
+ * Put back the overrides an approved swap replaced
+ */
+async function rollBackSwap(restore: PreviousOverride[], remove: PreviousOverride[]) {
+  if (restore.length > 0) {
+    const { error } = await supabase
+      .from('shift_overrides')
+      .upsert(restore.map(previous => ({
+        employee_id: previous.employeeId,
+        date: previous.date,
+        shift_type: previous.override!.shiftType,
+        notes: previous.override!.notes,
+        source: previous.override!.source
+      })), { onConflict: 'employee_id,date' });
+
+    if (error) throw error;
+  }
+
+  for (const previous of remove) {
+    const { error } = await supabase
+      .from('shift_overrides')
+      .delete()
+      .eq('employee_id', previous.employeeId)
+      .eq('date', previous.date)
+      .eq('source', 'shift_swap');
+
+    if (error) throw error;
+  }
+}
+
+/**
+ * Recalculate the overtime of each month the swap touched, for both employees
+ */
+async function recalculateOvertime(overrides: { employeeId: string; date: string }[]) {
+  const months = new Map(overrides.map(override => [
+    `${override.employeeId}:${override.date.substring(0, 7)}`,
+    override
+  ]));
+
+  for (const override of Array.from(months.values())) {
+    await updateUserOvertime(override.date, 0, override.employeeId, false, supabase);
+  }
+}
+
+/**
+ * POST { action, note }: accept or decline (colleague), approve or reject
+ * (supervisor), or cancel (either side or a supervisor; approved swaps are rolled back)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const { id } = req.query;
+  const { action, note } = req.body || {};
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid shift swap ID' });
+  }
+  if (!ACTIONS.includes(action)) {
+    return res.status(400).json({ error: `Action must be one of ${ACTIONS.join(', ')}` });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const userId = userData.user.id;
+
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin, is_supervisor')
+      .eq('id', userId)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    // Admins can always act as supervisors
+    const isSupervisor = !!(employeeData.is_supervisor || employeeData.is_admin);
+
+    const { data: swapRow, error: swapError } = await supabase
+      .from('shift_swaps')
+      .select(SHIFT_SWAP_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (swapError) throw swapError;
+
+    const swap = swapRow ? mapShiftSwap(swapRow) : null;
+    if (!swap || (userId !== swap.requesterId && userId !== swap.colleagueId && !isSupervisor)) {
+      return res.status(404).json({ error: 'Shift swap not found' });
+    }
+
+    if ((action === 'approve' || action === 'reject') && (swap.requesterId === userId || swap.colleagueId === userId)) {
+      return res.status(403).json({ error: 'You cannot decide a swap you are part of' });
+    }
+
+    const status = getNextSwapStatus(swap, action, userId, isSupervisor);
+    if (!status) {
+      return res.status(409).json({ error: `The swap is ${SHIFT_SWAP_STATUS_LABELS[swap.status].toLowerCase()}; it can't be changed that way` });
+    }
+
+    const decisionNote = typeof note === 'string' && note.trim() ? note.trim() : null;
+    const now = new Date().toISOString();
+    const changes: Record<string, unknown> = { status, updated_at: now };
+
+    if (action === 'accept' || action === 'decline') {
+      changes.responded_at = now;
+    } else if (action === 'approve' || action === 'reject') {
+      Object.assign(changes, { decided_by: userId, decided_at: now, decision_note: decisionNote });
+    } else {
+      Object.assign(changes, { cancelled_by: userId, decision_note: decisionNote });
+    }
+
+    // Recheck both calendars before approving; they may have changed since the proposal
+    let overrides: SwapOverride[] = [];
+    if (status === 'approved') {
+      const [first, last] = [swap.requesterDate, swap.colleagueDate].sort();
+      const calendars = await fetchEmployeeCalendars(
+        [swap.requesterId, swap.colleagueId],
+        parseISO(first),
+        differenceInCalendarMonths(parseISO(last), parseISO(first)) + 1,
+        supabase
+      );
+      const getShift = (employeeId: string, date: string) => calendars
+        .find(calendar => calendar.employeeId === employeeId)?.days
+        .find(day => day.date === date)?.personalShift.type;
+
+      const plan = planShiftSwap(swap, getShift);
+      if (plan.error) {
+        return res.status(409).json({ error: `The swap no longer fits the schedule: ${plan.error}` });
+      }
+      overrides = plan.overrides;
+    }
+
+    // Days edited after the swap are never overwritten by a rollback
+    let rollback: ReturnType<typeof planSwapRollback> | null = null;
+    if (status === 'cancelled' && swap.status === 'approved') {
+      const { data: current, error: currentError } = await supabase
+        .from('shift_overrides')
+        .select('employee_id, date, shift_type')
+        .in('employee_id', [swap.requesterId, swap.colleagueId])
+        .in('date', Array.from(new Set(swap.appliedOverrides.map(override => override.date))));
+
+      if (currentError) throw currentError;
+
+      rollback = planSwapRollback(swap, (current || []).map(row => ({
+        employeeId: row.employee_id,
+        date: row.date,
+        shiftType: row.shift_type
+      })));
+
+      if (rollback.changed.length > 0) {
+        const dates = rollback.changed.map(override => format(parseISO(override.date), 'MMM d'));
+        return res.status(409).json({
+          error: `The shifts on ${Array.from(new Set(dates)).join(', ')} were changed after the swap. Change them back before cancelling it.`
+        });
+      }
+    }
+
+    // Only act on the status the swap was read in, so two people can't act at once
+    const { data: updatedRow, error: updateError } = await supabase
+      .from('shift_swaps')
+      .update(changes)
+      .eq('id', swap.id)
+      .eq('status', swap.status)
+      .select(SHIFT_SWAP_SELECT)
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+
+    if (!updatedRow) {
+      return res.status(409).json({ error: 'The swap was changed by someone else; reload and try again' });
+    }
+
+    let updated = mapShiftSwap(updatedRow);
+
+    if (status === 'approved') {
+      let previousOverrides: PreviousOverride[] | null = null;
+      try {
+        previousOverrides = await applySwap(updated, overrides);
+        const { data: appliedRow, error: appliedError } = await supabase
+          .from('shift_swaps')
+          .update({ applied_overrides: overrides, previous_overrides: previousOverrides })
+          .eq('id', swap.id)
+          .select(SHIFT_SWAP_SELECT)
+          .single();
+
+        if (appliedError) throw appliedError;
+        updated = mapShiftSwap(appliedRow);
+      } catch (error) {
+        // Take back any shifts already written, then leave the swap waiting for approval
+        if (previousOverrides) {
+          const undo = planSwapRollback({ appliedOverrides: overrides, previousOverrides }, overrides);
+          await rollBackSwap(undo.restore, undo.remove)
+            .catch(undoError => console.error('Error taking back shift swap overrides:', undoError));
+        }
+        await supabase.from('shift_swaps').update({ status: swap.status, decided_by: null, decided_at: null }).eq('id', swap.id);
+        throw error;
+      }
+
+      await recalculateOvertime(overrides);
+    }
+
+    if (rollback) {
+      try {
+        await rollBackSwap(rollback.restore, rollback.remove);
+      } catch (error) {
+        // Put the swapped shifts back and leave the swap approved, so cancelling can be retried
+        await applySwap(swap, swap.appliedOverrides)
+          .catch(reapplyError => console.error('Error reapplying shift swap overrides:', reapplyError));
+        await supabase
+          .from('shift_swaps')
+          .update({ status: swap.status, cancelled_by: null, decision_note: swap.decisionNote })
+          .eq('id', swap.id);
+        throw error;
+      }
+
+      await recalculateOvertime(swap.appliedOverrides);
+    }
+
+    // Tell the other side, and both sides about a supervisor's decision
+    const recipients = [swap.requesterId, swap.colleagueId].filter(recipient => recipient !== userId);
+    const notification = buildShiftSwapNotification(updated, decisionNote);
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert(recipients.map(recipient => ({ user_id: recipient, ...notification })));
+
+    // The change stands even if nobody could be notified
+    if (notificationError) {
+      console.error('Error notifying employees of shift swap:', notificationError);
+    }
+
+    return res.status(200).json(updated);
+  } catch (error: any) {
+    console.error('Error in shift swap API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,162 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { differenceInCalendarMonths, format, parseISO } from 'date-fns';
+import { shiftSwapSchema } from '../../../lib/validations/salary';
+import { fetchEmployeeCalendars } from '../../../lib/services/scheduleService';
+import {
+  buildShiftSwapNotification,
+  mapShiftSwap,
+  planShiftSwap,
+  SHIFT_SWAP_SELECT
+} from '../../../lib/utils/shiftSwaps';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Create a Supabase client with the service role key for admin operations
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * GET: the user's swaps, and for supervisors the swaps waiting for approval
+ * POST: propose a swap to a colleague
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const userId = userData.user.id;
+
+    const { data: employeeData, error: employeeError } = await supabase
+      .from('employees')
+      .select('is_admin, is_supervisor')
+      .eq('id', userId)
+      .single();
+
+    if (employeeError) throw employeeError;
+
+    // Admins can always act as supervisors
+    const isSupervisor = !!(employeeData.is_supervisor || employeeData.is_admin);
+
+    if (req.method === 'GET') {
+      const [swapsResult, approvalsResult] = await Promise.all([
+        supabase
+          .from('shift_swaps')
+          .select(SHIFT_SWAP_SELECT)
+          .or(`requester_id.eq.${userId},colleague_id.eq.${userId}`)
+          .order('created_at', { ascending: false })
+          .limit(100),
+        isSupervisor
+          ? supabase
+            .from('shift_swaps')
+            .select(SHIFT_SWAP_SELECT)
+            .eq('status', 'accepted')
+            // Swaps the supervisor is part of are left for someone else to decide
+            .neq('requester_id', userId)
+            .neq('colleague_id', userId)
+            .order('requester_date', { ascending: true })
+          : Promise.resolve({ data: [], error: null })
+      ]);
+
+      if (swapsResult.error) throw swapsResult.error;
+      if (approvalsResult.error) throw approvalsResult.error;
+
+      return res.status(200).json({
+        swaps: (swapsResult.data || []).map(mapShiftSwap),
+        approvals: (approvalsResult.data || []).map(mapShiftSwap),
+        isSupervisor
+      });
+
+    } else if (req.method === 'POST') {
+      const parsed = shiftSwapSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid shift swap',
+          details: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const { colleagueId, requesterDate, colleagueDate, reason } = parsed.data;
+      const today = format(new Date(), 'yyyy-MM-dd');
+
+      if (requesterDate <= today || colleagueDate <= today) {
+        return res.status(400).json({ error: 'Only future shifts can be swapped' });
+      }
+
+      // Check both calendars over the months the swap touches
+      const [first, last] = [requesterDate, colleagueDate].sort();
+      const calendars = await fetchEmployeeCalendars(
+        [userId, colleagueId],
+        parseISO(first),
+        differenceInCalendarMonths(parseISO(last), parseISO(first)) + 1,
+        supabase
+      );
+      const requester = calendars.find(calendar => calendar.employeeId === userId);
+      const colleague = calendars.find(calendar => calendar.employeeId === colleagueId);
+
+      if (!requester || !colleague) {
+        return res.status(404).json({ error: 'Colleague not found' });
+      }
+      if (requester.shiftGroup === colleague.shiftGroup) {
+        return res.status(400).json({ error: 'Shifts can only be swapped with a colleague from another group' });
+      }
+
+      const getShift = (employeeId: string, date: string) => calendars
+        .find(calendar => calendar.employeeId === employeeId)?.days
+        .find(day => day.date === date)?.personalShift.type;
+
+      const plan = planShiftSwap({ requesterId: userId, requesterDate, colleagueId, colleagueDate }, getShift);
+
+      if (plan.error) {
+        return res.status(400).json({ error: plan.error });
+      }
+
+      const { data, error } = await supabase
+        .from('shift_swaps')
+        .insert({
+          requester_id: userId,
+          requester_date: requesterDate,
+          requester_shift_type: getShift(userId, requesterDate),
+          colleague_id: colleagueId,
+          colleague_date: colleagueDate,
+          colleague_shift_type: getShift(colleagueId, colleagueDate),
+          reason: reason?.trim() || null
+        })
+        .select(SHIFT_SWAP_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      const swap = mapShiftSwap(data);
+      const notification = buildShiftSwapNotification(swap);
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert({ user_id: colleagueId, ...notification });
+
+      // The proposal stands even if the colleague could not be notified
+      if (notificationError) {
+        console.error('Error notifying colleague of shift swap:', notificationError);
+      }
+
+      return res.status(201).json(swap);
+
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('Error in shift swaps API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
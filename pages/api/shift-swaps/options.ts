@@ -0,0 +1,71 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import { fetchEmployeeCalendars } from '../../../lib/services/scheduleService';
+import { findSwapOptions, SWAPPABLE_SHIFT_TYPES } from '../../../lib/utils/shiftSwaps';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// Colleagues' calendars aren't readable with the user's session, so they're built
+// with the service role once the token has been verified
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Months ahead in which exchange shifts are offered
+const SWAP_WINDOW_MONTHS = 3;
+
+/**
+ * GET ?date=: the user's upcoming shifts, and for the shift on `date` the colleagues
+ * who could take it with the shifts of theirs that could be taken in exchange
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Extract the authorization token
+  const token = req.headers.authorization?.split('Bearer ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Missing authorization token' });
+  }
+
+  const date = typeof req.query.date === 'string' ? req.query.date : undefined;
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || date <= today)) {
+    return res.status(400).json({ error: 'Pick a future date' });
+  }
+
+  try {
+    // Verify the user
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    const userId = userData.user.id;
+    const calendars = (await fetchEmployeeCalendars(undefined, new Date(), SWAP_WINDOW_MONTHS, supabase))
+      .filter(calendar => calendar.scheduleType === 'shift');
+    const requester = calendars.find(calendar => calendar.employeeId === userId);
+
+    if (!requester) {
+      return res.status(400).json({ error: 'Only shift workers can swap shifts' });
+    }
+
+    const shifts = requester.days
+      .filter(day => day.date > today && SWAPPABLE_SHIFT_TYPES.includes(day.personalShift.type))
+      .map(day => ({ date: day.date, shiftType: day.personalShift.type }));
+
+    return res.status(200).json({
+      shifts,
+      colleagues: date
+        ? findSwapOptions(requester, calendars.filter(calendar => calendar.employeeId !== userId), date, today)
+        : []
+    });
+  } catch (error: any) {
+    console.error('Error in shift swap options API:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -14,6 +14,9 @@ import { ShiftType } from '../lib/types/schedule';
 import { supabase } from '../lib/supabase';
 import { useTheme } from '../lib/themeContext';
 import { useQuery } from '@tanstack/react-query';
+import { totalLineItemsByName } from '../lib/salary/lineItems';
+import { SPECIAL_PAYMENT_LABELS } from '../lib/salary/specialPayments';
+import { getRemainingLoanBalance } from '../lib/salary/loans';
 
 // Register Roboto Font (assuming files are in public/fonts)
 // You MUST ensure these TTF files exist in public/fonts/
@@ -37,7 +40,9 @@ import {
 import { 
   useEmployee, 
   useSalaryData, 
-  useLeaveBalance 
+  useLeaveBalance,
+  useSalaryLoans,
+  fetchSalaryLineItems
 } from '../lib/hooks';
 
 // Helper to calculate start and end times based on shift type
@@ -97,6 +102,8 @@ export default function Dashboard() {
     error: salaryError
   } = useSalaryData(userId, selectedYear);
 
+  const { loans } = useSalaryLoans(userId);
+
   // Derived state and computations
   const isLoading = employeeLoading || leaveLoading || salaryLoading;
   const hasError = employeeError || leaveError || salaryError;
@@ -142,11 +149,20 @@ export default function Dashboard() {
     return salaryData.monthlySalaries.filter(month => month.month > 0);
   }, [salaryData?.monthlySalaries]);
 
-  // Calculate year total salary
+  // Loan and advance balance left once this month's installments are taken
+  const loanBalance = useMemo(
+    () => getRemainingLoanBalance(loans.data || [], format(new Date(), 'yyyy-MM')),
+    [loans.data]
+  );
+
+  // Bonus, 13th-month and profit-share payments in the year
+  const specialPayments = useMemo(() => salaryData?.specialPayments || [], [salaryData?.specialPayments]);
+
+  // Calculate year total salary, special payments included
   const yearTotalSalary = useMemo(() => {
-    if (!currentYearRecords.length) return 0;
-    return currentYearRecords.reduce((sum, month) => sum + month.total, 0);
-  }, [currentYearRecords]);
+    return currentYearRecords.reduce((sum, month) => sum + month.total, 0)
+      + specialPayments.reduce((sum, payment) => sum + payment.netAmount, 0);
+  }, [currentYearRecords, specialPayments]);
 
   // Handler for changing the selected year
   const handleYearChange = (year: number) => {
@@ -162,15 +178,26 @@ export default function Dashboard() {
         throw new Error('No data available for PDF generation');
       }
 
-      const totalSalary = currentYearRecords.reduce((sum, month) => sum + month.total, 0);
-      const averageSalary = totalSalary / (currentYearRecords.length || 1);
+      const monthlyTotal = currentYearRecords.reduce((sum, month) => sum + month.total, 0);
+      const averageSalary = monthlyTotal / (currentYearRecords.length || 1);
+      const totalSalary = yearTotalSalary;
       
       const monthlyBreakdown = currentYearRecords.map(month => ({
         month: month.month,
         name: format(new Date(selectedYear, month.month - 1), 'MMMM yyyy'),
-        total: month.total
+        total: month.total,
+        socialInsurance: month.socialInsurance,
+        incomeTax: month.incomeTax,
+        totalPegged: month.totalPegged,
+        peggedCurrency: month.peggedCurrency
       }));
 
+      // Itemised earnings and deductions, totalled over the year
+      const yearLineItems = await fetchSalaryLineItems(employee.id, `${selectedYear}-01`, `${selectedYear}-12`);
+      const lineItemTotals = totalLineItemsByName(
+        yearLineItems.map(item => ({ name: item.name, kind: item.kind, amount: item.paidAmount }))
+      );
+
       const pdfBlob = await pdf(
         <YearlySalaryPDF
           employee={employee}
@@ -178,6 +205,14 @@ export default function Dashboard() {
           totalSalary={totalSalary}
           averageSalary={averageSalary}
           monthlyBreakdown={monthlyBreakdown}
+          lineItemTotals={lineItemTotals}
+          specialPayments={specialPayments.map(payment => ({
+            month: parseInt(payment.payoutMonth.substring(5, 7)),
+            name: SPECIAL_PAYMENT_LABELS[payment.type],
+            grossAmount: payment.grossAmount,
+            incomeTax: payment.incomeTax,
+            total: payment.netAmount
+          }))}
         />
       ).toBlob();
 
@@ -309,7 +344,8 @@ export default function Dashboard() {
           <StatsPanel
             stats={{
               monthlyEarnings: currentMonthRecord?.total || 0,
-              overtimeHours: 0
+              overtimeHours: 0,
+              loanBalance
             }}
             isLoading={salaryLoading}
             error={salaryError}
@@ -406,6 +442,24 @@ export default function Dashboard() {
                       </div>
                     </div>
                   ))}
+                  {specialPayments.map(payment => (
+                    <div
+                      key={payment.id}
+                      className={`p-3 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'} flex items-center justify-between`}
+                    >
+                      <div>
+                        <p className={`font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-800'}`}>
+                          {SPECIAL_PAYMENT_LABELS[payment.type]}
+                        </p>
+                        <p className={`text-sm ${isDarkMode ? 'text-gray-500' : 'text-gray-600'}`}>
+                          Paid {formatDate(`${payment.payoutMonth}-01`)} · Gross: {formatCurrency(payment.grossAmount)}
+                        </p>
+                      </div>
+                      <div className={`text-lg font-bold ${isDarkMode ? 'text-purple-400' : 'text-purple-500'}`}>
+                        {formatCurrency(payment.netAmount)}
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </>
             )}
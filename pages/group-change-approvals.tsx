@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Layout from '../components/Layout';
+import { supabase } from '../lib/supabase';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { toast } from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import { GroupChange } from '../lib/types/schedule';
+import { GROUP_CHANGE_STATUS_LABELS, GroupChangeStatus } from '../lib/utils/groupChanges';
+
+const STATUSES: GroupChangeStatus[] = ['pending', 'approved', 'rejected'];
+
+export default function GroupChangeApprovalsPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [status, setStatus] = useState<GroupChangeStatus>('pending');
+  const [changes, setChanges] = useState<GroupChange[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const router = useRouter();
+
+  // Check for authentication on component mount
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        alert('You must be logged in to access this page');
+        router.push('/login');
+        return;
+      }
+
+      setToken(session.access_token);
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const fetchChanges = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/group-changes?status=${status}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load group changes');
+      }
+
+      setChanges(data);
+    } catch (error) {
+      console.error('Error loading group changes:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load group changes');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, status]);
+
+  useEffect(() => {
+    fetchChanges();
+  }, [fetchChanges]);
+
+  const decide = async (change: GroupChange, decision: 'approved' | 'rejected') => {
+    if (!token || !change.id) return;
+
+    setDecidingId(change.id);
+    try {
+      const response = await fetch(`/api/group-changes/${change.id}/decide`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ status: decision, note: notes[change.id] || null })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save the decision');
+      }
+
+      toast.success(`${GROUP_CHANGE_STATUS_LABELS[decision]} the move to Group ${change.newGroup} for ${change.employeeName || 'the employee'}`);
+      setChanges(prev => prev.filter(item => item.id !== change.id));
+    } catch (error) {
+      console.error('Error deciding group change:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the decision');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <Head>
+        <title>Group Change Approvals | SalaryCursor</title>
+      </Head>
+
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Group Change Approvals</h1>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as GroupChangeStatus)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {STATUSES.map(option => (
+                <option key={option} value={option}>{GROUP_CHANGE_STATUS_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <p className="text-gray-500 dark:text-gray-400">Loading requests...</p>
+          ) : changes.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400">
+              {status === 'pending' ? 'No group changes are waiting for approval.' : `No ${GROUP_CHANGE_STATUS_LABELS[status].toLowerCase()} group changes.`}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {changes.map(change => (
+                <div key={change.id} className="border dark:border-gray-700 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <h3 className="font-medium text-gray-900 dark:text-white">{change.employeeName || 'Unnamed employee'}</h3>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      From {format(parseISO(change.effectiveDate), 'EEE, MMM d, yyyy')}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 dark:text-gray-300">
+                    Group {change.oldGroup} → Group {change.newGroup}
+                    {` · requested ${format(parseISO(change.requestDate), 'MMM d')}`}
+                  </p>
+                  {change.decisionNote && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Note: {change.decisionNote}</p>
+                  )}
+
+                  {change.status === 'pending' && change.id && (
+                    <div className="flex items-center gap-2 mt-3">
+                      <input
+                        type="text"
+                        placeholder="Note for the employee (optional)"
+                        value={notes[change.id] || ''}
+                        onChange={(e) => setNotes(prev => ({ ...prev, [change.id!]: e.target.value }))}
+                        className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                      <button
+                        onClick={() => decide(change, 'approved')}
+                        disabled={decidingId === change.id}
+                        className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => decide(change, 'rejected')}
+                        disabled={decidingId === change.id}
+                        className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
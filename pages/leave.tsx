@@ -10,6 +10,9 @@ import { FiDownload, FiCalendar, FiEdit, FiTrash, FiCheck, FiX } from 'react-ico
 import { useAuth } from '../lib/authContext';
 import { useTheme } from '../lib/themeContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import StaffingWarnings from '../components/schedule/StaffingWarnings';
+import { requestStaffingCheck, submitLeave } from '../lib/services/staffingService';
+import { StaffingCheck } from '../lib/utils/staffing';
 import { leaveService } from '../lib/leaveService';
 import { format } from 'date-fns';
 import { useQueryClient } from '@tanstack/react-query';
@@ -302,6 +305,7 @@ export default function Leave() {
   const [inLieuEndDate, setInLieuEndDate] = useState<Date | null>(null);
   const [inLieuNotes, setInLieuNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [staffingCheck, setStaffingCheck] = useState<StaffingCheck | null>(null);
 
   // Calculate remaining leave - will update whenever leaveBalance or leaveTaken changes
   const remainingLeave = useMemo(() => {
@@ -313,6 +317,23 @@ export default function Leave() {
     fetchData();
   }, []);
 
+  // Show shifts the leave would leave short, and who else is away, as the dates are picked
+  useEffect(() => {
+    setStaffingCheck(null);
+    if (showInLieuForm || !startDate || !endDate || endDate < startDate) return;
+
+    let cancelled = false;
+    requestStaffingCheck(startDate, endDate, 'Leave')
+      .then(check => {
+        if (!cancelled) setStaffingCheck(check);
+      })
+      .catch(error => console.error('Error checking staffing:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate, showInLieuForm]);
+
   const fetchData = async (preserveSuccess = false) => {
     setLoading(true);
     setError(null);
@@ -459,7 +480,6 @@ export default function Leave() {
     setSuccess(null);
 
     const days = calculateDays(startDate, endDate);
-    const year = new Date(startDate).getFullYear();
 
     // Validate dates
     if (new Date(endDate) < new Date(startDate)) {
@@ -473,56 +493,35 @@ export default function Leave() {
       return;
     }
 
+    // Check the team's minimum staffing again, as it may have changed since the dates were picked.
+    // Leave is never saved unchecked: the server checks again and refuses blocked leave
     try {
-      let leaveId;
-      
-      if (editingLeave) {
-        // Update existing leave
-        const { error: updateError } = await supabase
-          .from('leaves')
-          .update({
-            start_date: startDate,
-            end_date: endDate,
-            days_taken: days,
-            reason,
-            leave_type: leaveType,
-            year,
-          })
-          .eq('id', editingLeave.id);
-
-        if (updateError) throw updateError;
-        leaveId = editingLeave.id;
-        setSuccess('Leave request updated successfully');
-      } else {
-        // Submit new leave
-        const { data, error: insertError } = await supabase
-          .from('leaves')
-          .insert([{
-            employee_id: employee.id,
-            start_date: startDate,
-            end_date: endDate,
-            days_taken: days,
-            reason,
-            leave_type: leaveType,
-            year,
-            status: 'Approved',
-          }])
-          .select();
-
-        if (insertError) throw insertError;
-        
-        if (data && data.length > 0) {
-          leaveId = data[0].id;
-        }
-        
-        setSuccess('Leave request submitted successfully');
-      }
+      const check = await requestStaffingCheck(startDate, endDate, 'Leave');
+      setStaffingCheck(check);
 
-      // Also create shift overrides for each day in the leave period
-      // (only for Annual leave type that would appear in the calendar)
-      if (leaveType === 'Annual') {
-        await createShiftOverridesForLeave(startDate, endDate);
+      if (check.blocked) {
+        setError('This leave would take shifts below their minimum staffing. Pick other dates or talk to your supervisor.');
+        return;
       }
+      if (check.conflicts.length > 0 && !confirm('This leave leaves shifts short of their minimum staffing. Submit it anyway?')) {
+        return;
+      }
+    } catch (checkError) {
+      console.error('Error checking staffing:', checkError);
+      setError('Could not check staffing for these dates. Please try again.');
+      return;
+    }
+
+    try {
+      // Annual leave's calendar days are added on the server too
+      await submitLeave({
+        leaveId: editingLeave?.id,
+        startDate,
+        endDate,
+        leaveType,
+        reason
+      });
+      setSuccess(editingLeave ? 'Leave request updated successfully' : 'Leave request submitted successfully');
 
       // Reset form
       setStartDate('');
@@ -539,141 +538,7 @@ export default function Leave() {
     }
   };
 
-  // Helper function to create shift overrides for leave days
-  const createShiftOverridesForLeave = async (start: string, end: string) => {
-    try {
-      // First check if shift_overrides table exists
-      const { error: checkError } = await supabase
-        .from('shift_overrides')
-        .select('id')
-        .limit(1);
-        
-        // If table doesn't exist, try to create it
-        if (checkError && (checkError.code === '42P01' || checkError.message?.includes('does not exist'))) {
-          console.log('shift_overrides table does not exist, attempting to create it...');
-          
-          try {
-            // Note: This requires you have sufficient privileges in Supabase
-            // This is the SQL from the migration file
-            const { error: createError } = await supabase.rpc('execute_sql', { 
-              sql: `
-              CREATE TABLE IF NOT EXISTS public.shift_overrides (
-                id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-                employee_id UUID NOT NULL REFERENCES public.employees(id),
-                date DATE NOT NULL,
-                shift_type TEXT NOT NULL,
-                source TEXT,
-                created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
-                updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
-                UNIQUE(employee_id, date)
-              );
-              
-              ALTER TABLE public.shift_overrides ENABLE ROW LEVEL SECURITY;
-              
-              -- Users can read their own records
-              CREATE POLICY "Users can read own shift_overrides"
-              ON public.shift_overrides
-              FOR SELECT
-              TO authenticated
-              USING (auth.uid() = employee_id);
-              
-              -- Users can insert their own records
-              CREATE POLICY "Users can insert own shift_overrides"
-              ON public.shift_overrides
-              FOR INSERT
-              TO authenticated
-              WITH CHECK (auth.uid() = employee_id);
-              
-              -- Users can update their own records
-              CREATE POLICY "Users can update own shift_overrides"
-              ON public.shift_overrides
-              FOR UPDATE
-              TO authenticated
-              USING (auth.uid() = employee_id)
-              WITH CHECK (auth.uid() = employee_id);
-              
-              -- Users can delete their own records
-              CREATE POLICY "Users can delete own shift_overrides"
-              ON public.shift_overrides
-              FOR DELETE
-              TO authenticated
-              USING (auth.uid() = employee_id);
-              `
-            });
-            
-            if (createError) {
-              console.error('Failed to create shift_overrides table:', createError);
-              return;
-            }
-            
-            console.log('Successfully created shift_overrides table');
-          } catch (createTableError) {
-            console.error('Error creating shift_overrides table:', createTableError);
-            console.log('Please run the SQL script from supabase/migrations/20240520_create_shift_overrides_table.sql in your Supabase project');
-            return;
-          }
-        }
-        
-        // Create array of all days in the leave period
-        const days = [];
-        const startDate = new Date(start);
-        const endDate = new Date(end);
-        const currentDay = new Date(startDate);
-        
-        // Helper function for date formatting
-        const formatDate = (date: Date): string => {
-          const year = date.getFullYear();
-          const month = String(date.getMonth() + 1).padStart(2, '0');
-          const day = String(date.getDate()).padStart(2, '0');
-          return `${year}-${month}-${day}`;
-        };
-        
-        while (currentDay <= endDate) {
-          days.push(formatDate(currentDay));
-          currentDay.setDate(currentDay.getDate() + 1);
-        }
-        
-        // Check which days already have overrides
-        const { data: existingOverrides } = await supabase
-          .from('shift_overrides')
-          .select('date')
-          .eq('employee_id', employee?.id || '')
-          .in('date', days);
-          
-        const existingDates = (existingOverrides || []).map(o => o.date);
-        
-        // Create overrides for days that don't have them yet
-        const newOverrides = [];
-        
-        for (const day of days) {
-          // Skip if already has an override
-          if (existingDates.includes(day)) continue;
-          
-          newOverrides.push({
-            employee_id: employee?.id || '',
-            date: day,
-            shift_type: 'Leave',
-            source: 'leave_page'
-          });
-        }
-        
-        // Insert new overrides in batch if any
-        if (newOverrides.length > 0) {
-          const { error } = await supabase
-            .from('shift_overrides')
-            .insert(newOverrides);
-            
-          if (error) throw error;
-          
-          console.log(`Created ${newOverrides.length} shift overrides for leave period`);
-        }
-    } catch (error) {
-      console.error('Error creating shift overrides for leave:', error);
-      // Don't block the main process if this fails
-    }
-  };
-
-  // Add a helper function for date formatting (used in createShiftOverridesForLeave)
+  // Add a helper function for date formatting (used by the shift override helpers below)
   const format = (date: Date, formatStr: string): string => {
     if (formatStr === 'yyyy-MM-dd') {
       const year = date.getFullYear();
@@ -1602,6 +1467,8 @@ export default function Leave() {
                   />
                 </div>
 
+                <StaffingWarnings check={staffingCheck} />
+
                 <div className="flex justify-end pt-4">
                   {editingLeave ? (
                     <div className="flex space-x-3">
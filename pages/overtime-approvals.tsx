@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Layout from '../components/Layout';
+import { supabase } from '../lib/supabase';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { toast } from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import {
+  OVERTIME_REQUEST_STATUS_LABELS,
+  OVERTIME_REQUEST_TYPE_LABELS,
+  OvertimeRequest,
+  OvertimeRequestStatus
+} from '../lib/salary/overtimeRequests';
+
+const STATUSES: OvertimeRequestStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+export default function OvertimeApprovalsPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [status, setStatus] = useState<OvertimeRequestStatus>('pending');
+  const [requests, setRequests] = useState<OvertimeRequest[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const router = useRouter();
+
+  // Check for authentication on component mount
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        alert('You must be logged in to access this page');
+        router.push('/login');
+        return;
+      }
+
+      setToken(session.access_token);
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const fetchRequests = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/overtime-requests?status=${status}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load overtime requests');
+      }
+
+      setRequests(data);
+    } catch (error) {
+      console.error('Error loading overtime requests:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load overtime requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, status]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const decide = async (request: OvertimeRequest, decision: 'approved' | 'rejected') => {
+    if (!token) return;
+
+    setDecidingId(request.id);
+    try {
+      const response = await fetch(`/api/overtime-requests/${request.id}/decide`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ status: decision, note: notes[request.id] || null })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save the decision');
+      }
+
+      toast.success(`${OVERTIME_REQUEST_STATUS_LABELS[decision]} ${request.hours}h for ${request.employeeName || 'the employee'}`);
+      setRequests(prev => prev.filter(item => item.id !== request.id));
+    } catch (error) {
+      console.error('Error deciding overtime request:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the decision');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <Head>
+        <title>Overtime Approvals | SalaryCursor</title>
+      </Head>
+
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Overtime Approvals</h1>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as OvertimeRequestStatus)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {STATUSES.map(option => (
+                <option key={option} value={option}>{OVERTIME_REQUEST_STATUS_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <p className="text-gray-500 dark:text-gray-400">Loading requests...</p>
+          ) : requests.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400">
+              {status === 'pending' ? 'No overtime is waiting for approval.' : `No ${OVERTIME_REQUEST_STATUS_LABELS[status].toLowerCase()} requests.`}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {requests.map(request => (
+                <div key={request.id} className="border dark:border-gray-700 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <h3 className="font-medium text-gray-900 dark:text-white">{request.employeeName || 'Unnamed employee'}</h3>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {format(parseISO(request.date), 'EEE, MMM d, yyyy')}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 dark:text-gray-300">
+                    {request.hours}h {OVERTIME_REQUEST_TYPE_LABELS[request.type].toLowerCase()} overtime
+                    {request.source === 'schedule' && request.shiftType ? ` from a ${request.shiftType} shift` : ''}
+                    {request.reason ? ` · ${request.reason}` : ''}
+                  </p>
+                  {request.decisionNote && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Note: {request.decisionNote}</p>
+                  )}
+
+                  {request.status === 'pending' && (
+                    <div className="flex items-center gap-2 mt-3">
+                      <input
+                        type="text"
+                        placeholder="Note for the employee (optional)"
+                        value={notes[request.id] || ''}
+                        onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                        className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                      <button
+                        onClick={() => decide(request, 'approved')}
+                        disabled={decidingId === request.id}
+                        className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => decide(request, 'rejected')}
+                        disabled={decidingId === request.id}
+                        className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
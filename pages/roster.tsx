@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Layout from '../components/Layout';
+import { supabase } from '../lib/supabase';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { toast } from 'react-hot-toast';
+import { addMonths, format, parseISO } from 'date-fns';
+import { ShiftType } from '../lib/types/schedule';
+import { Roster, ROSTER_HEADCOUNT_SHIFTS } from '../lib/utils/roster';
+
+// Short labels and colours, matching the calendar
+const SHIFT_CELLS: Record<ShiftType, { label: string; className: string }> = {
+  Day: { label: 'D', className: 'bg-blue-500 text-white' },
+  Evening: { label: 'E', className: 'bg-cyan-500 text-white' },
+  Night: { label: 'N', className: 'bg-green-500 text-white' },
+  Off: { label: '', className: 'bg-gray-100 dark:bg-gray-700 text-gray-500' },
+  Leave: { label: 'L', className: 'bg-amber-500 text-white' },
+  Public: { label: 'H', className: 'bg-orange-500 text-white' },
+  Overtime: { label: 'OT', className: 'bg-pink-500 text-white' },
+  InLieu: { label: 'IL', className: 'bg-purple-500 text-white' }
+};
+
+export default function RosterPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [month, setMonth] = useState(() => new Date());
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+
+  // Check for authentication on component mount
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        alert('You must be logged in to access this page');
+        router.push('/login');
+        return;
+      }
+
+      setToken(session.access_token);
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const fetchRoster = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/schedule/roster?month=${format(month, 'yyyy-MM')}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load the roster');
+      }
+
+      setRoster(data);
+    } catch (error) {
+      console.error('Error loading roster:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load the roster');
+      setRoster(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, month]);
+
+  useEffect(() => {
+    fetchRoster();
+  }, [fetchRoster]);
+
+  // Only show the evening headcount when some rotation has evening shifts
+  const headcountShifts = ROSTER_HEADCOUNT_SHIFTS.filter(shift => (
+    shift !== 'Evening' || (!!roster && roster.dates.some(date => roster.headcount[date].Evening > 0))
+  ));
+
+  return (
+    <Layout>
+      <Head>
+        <title>Team Roster | SalaryCursor</title>
+      </Head>
+
+      <div className="max-w-7xl mx-auto p-6">
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Team Roster</h1>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setMonth(prev => addMonths(prev, -1))}
+                className="px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Previous
+              </button>
+              <span className="w-32 text-center font-medium text-gray-900 dark:text-white">{format(month, 'MMMM yyyy')}</span>
+              <button
+                onClick={() => setMonth(prev => addMonths(prev, 1))}
+                className="px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+
+          {loading ? (
+            <p className="text-gray-500 dark:text-gray-400">Loading roster...</p>
+          ) : !roster || roster.groups.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400">No shift workers to show.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="text-xs border-collapse">
+                <thead>
+                  <tr>
+                    <th className="sticky left-0 bg-white dark:bg-gray-800 text-left px-2 py-1 text-gray-700 dark:text-gray-300">Employee</th>
+                    {roster.dates.map(date => (
+                      <th key={date} className="px-1 py-1 w-8 text-center font-medium text-gray-500 dark:text-gray-400">
+                        <div>{format(parseISO(date), 'EEEEE')}</div>
+                        <div>{format(parseISO(date), 'd')}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {roster.groups.map(({ group, rows }) => (
+                    <React.Fragment key={group}>
+                      <tr>
+                        <td
+                          colSpan={roster.dates.length + 1}
+                          className="sticky left-0 px-2 pt-3 pb-1 font-semibold text-gray-900 dark:text-white"
+                        >
+                          Group {group}
+                        </td>
+                      </tr>
+                      {rows.map(row => (
+                        <tr key={row.employeeId}>
+                          <td className="sticky left-0 bg-white dark:bg-gray-800 px-2 py-1 whitespace-nowrap text-gray-900 dark:text-white">
+                            {row.name}
+                          </td>
+                          {roster.dates.map(date => {
+                            const cell = row.cells[date];
+                            const display = cell ? SHIFT_CELLS[cell.type] : null;
+                            return (
+                              <td
+                                key={date}
+                                title={cell ? `${cell.type}${cell.isOverridden ? ' (changed)' : ''}${cell.notes ? ` · ${cell.notes}` : ''}` : undefined}
+                                className={`border border-white dark:border-gray-800 text-center font-medium h-6 ${display?.className || ''} ${
+                                  cell?.isOverridden ? 'ring-2 ring-inset ring-yellow-300' : ''
+                                }`}
+                              >
+                                {display?.label}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+                <tfoot>
+                  {headcountShifts.map(shift => (
+                    <tr key={shift} className="border-t dark:border-gray-700">
+                      <td className="sticky left-0 bg-white dark:bg-gray-800 px-2 py-1 font-medium text-gray-700 dark:text-gray-300">
+                        On {shift}
+                      </td>
+                      {roster.dates.map(date => (
+                        <td key={date} className="text-center py-1 text-gray-700 dark:text-gray-300">
+                          {roster.headcount[date][shift]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -14,6 +14,16 @@ import { FiRefreshCw, FiCalendar } from 'react-icons/fi';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { SalaryForm } from '@/components/salary/SalaryForm';
 import { SalarySummary } from '@/components/salary/SalarySummary';
+import { GoalSeekPanel } from '@/components/salary/GoalSeekPanel';
+import { ScenarioComparison } from '@/components/salary/ScenarioComparison';
+import { PayslipReconciliation } from '@/components/salary/PayslipReconciliation';
+import { CurrencySettings } from '@/components/salary/CurrencySettings';
+import { LineTypeManager } from '@/components/salary/LineTypeManager';
+import { SpecialPaymentsPanel } from '@/components/salary/SpecialPaymentsPanel';
+import { LoansPanel } from '@/components/salary/LoansPanel';
+import { OvertimeRequestsPanel } from '@/components/salary/OvertimeRequestsPanel';
+import { BackPayPanel } from '@/components/salary/BackPayPanel';
+import { SalaryHistoryDrawer } from '@/components/salary/SalaryHistoryDrawer';
 import {
   BasicSalaryCalculation,
   defaultSalaryCalc,
@@ -22,7 +32,23 @@ import {
   calculateEffectiveOvertimeHours,
   testCalculation
 } from '@/lib/calculations/salary';
-import { getOvertimeSummary, OvertimeType } from '@/lib/services/overtimeService';
+import { computePay, getRateRatio } from '@/lib/salary/payEngine';
+import { fetchPayRuleVersions, resolvePayRules } from '@/lib/salary/payRules';
+import {
+  applyEmployeeCurrency,
+  DEFAULT_CURRENCY_PAIR,
+  formatDualCurrency,
+  getEmployeeCurrency,
+  isCurrencyPair,
+  splitCurrencyPair,
+  toPeggedAmount
+} from '@/lib/salary/currency';
+import { getMonthLineItems, SalaryLineItem } from '@/lib/salary/lineItems';
+import { fetchSalaryLineItems, useSalaryLineItems, useSalaryLineTypes } from '@/lib/hooks/useSalaryLineItems';
+import { getLoanRepaymentForMonth } from '@/lib/salary/loans';
+import { withChangeSource } from '@/lib/salary/audit';
+import { useSalaryLoans } from '@/lib/hooks/useSalaryLoans';
+import { fetchOvertimeSummary, OvertimeSummary } from '@/lib/services/overtimeService';
 import { getMonthlyExchangeRate, getCurrentMonthExchangeRate } from '@/lib/services/exchangeRates';
 import {
   saveInputsToLocalStorage,
@@ -59,32 +85,23 @@ const useDebounce = (func: (...args: any[]) => void, delay: number) => {
   };
 };
 
-// Helper function to get the date range for a month
-const getDateRangeForMonth = (year: number, month: number) => {
-  // Create start date (first day of month)
-  const startDate = new Date(year, month, 1);
-  startDate.setHours(0, 0, 0, 0);
-  
-  // Create end date (last day of month)
-  const endDate = new Date(year, month + 1, 0);
-  endDate.setHours(23, 59, 59, 999);
-  
-  return {
-    startDate: startDate.toISOString(),
-    endDate: endDate.toISOString()
-  };
-};
-
 export default function Salary() {
   const { isDarkMode } = useTheme();
   const auth = useAuth();
   const user = auth.data?.user;
   const [employee, setEmployee] = useState<Employee | null>(null);
+  // Currency pair and base rate the employee's rate-linked pay is pegged to
+  const employeeCurrency = React.useMemo(() => getEmployeeCurrency(employee), [employee]);
+  // The month's pay rules, with the employee's own base rate if they have one
+  const payRulesFor = React.useCallback(
+    (payMonth: string) => applyEmployeeCurrency(resolvePayRules(payMonth), employeeCurrency),
+    [employeeCurrency]
+  );
   const [loading, setLoading] = useState(true);
   const [calculationLoading, setCalculationLoading] = useState(false);
   const [pdfLoading, setPdfLoading] = useState(false);
   const [exchangeRate, setExchangeRate] = useState(31.50); // Default fallback
-  const [rateRatio, setRateRatio] = useState(0); // Rate/30.8 ratio
+  const [rateRatio, setRateRatio] = useState(0); // Rate/base rate ratio
   const [rateLastUpdated, setRateLastUpdated] = useState('');
   const [lastRateUpdate, setLastRateUpdate] = useState<string>('');
 
@@ -103,24 +120,47 @@ export default function Salary() {
   const [pdfModalOpen, setPdfModalOpen] = useState(false);
   const [calculationResults, setCalculationResults] = useState<BasicSalaryCalculation | null>(null);
   const [showSalarySummary, setShowSalarySummary] = useState(false);
+  const [showGoalSeek, setShowGoalSeek] = useState(false);
+  const [showCurrencySettings, setShowCurrencySettings] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showPayslipReconciliation, setShowPayslipReconciliation] = useState(false);
+  const [showLineTypes, setShowLineTypes] = useState(false);
+  const [showSpecialPayments, setShowSpecialPayments] = useState(false);
+  const [showLoans, setShowLoans] = useState(false);
+  const [showOvertimeRequests, setShowOvertimeRequests] = useState(false);
+  const [showBackPay, setShowBackPay] = useState(false);
+  // Month (YYYY-MM) whose change history is open
+  const [historyMonth, setHistoryMonth] = useState<string | null>(null);
 
   const [salaryCalc, setSalaryCalc] = useState<BasicSalaryCalculation>(defaultSalaryCalc);
+  const monthPayRules = React.useMemo(() => payRulesFor(month), [payRulesFor, month]);
+
+  // The month's itemised earning and deduction lines; months with nothing saved
+  // start from the recurring line types
+  const [lineItems, setLineItems] = useState<SalaryLineItem[]>([]);
+  const { lineTypes } = useSalaryLineTypes(employee?.id);
+  const { lineItems: savedLineItems, saveLineItems } = useSalaryLineItems(employee?.id, month);
+  useEffect(() => {
+    setLineItems(getMonthLineItems(lineTypes.data || [], savedLineItems.data));
+  }, [lineTypes.data, savedLineItems.data]);
+
+  // Loan and advance installments due in a month are taken from its pay automatically
+  const { loans } = useSalaryLoans(employee?.id);
+  const loanRepaymentFor = React.useCallback(
+    (payMonth: string) => getLoanRepaymentForMonth(loans.data || [], payMonth),
+    [loans.data]
+  );
+  const loanRepayment = loanRepaymentFor(month);
 
   // Add state for overtime data
   const [scheduleOvertimeHours, setScheduleOvertimeHours] = useState(0);
-  const [manualOvertimeHours, setManualOvertimeHours] = useState(0);
-  const [overtimeSummary, setOvertimeSummary] = useState<{ 
-    dayHours: number; 
-    nightHours: number; 
-    holidayHours: number; 
-    effectiveHours: number;
-    totalHours: number;
-  }>({ 
+  const [overtimeSummary, setOvertimeSummary] = useState<OvertimeSummary>({ 
     dayHours: 0, 
     nightHours: 0, 
     holidayHours: 0, 
     effectiveHours: 0,
-    totalHours: 0
+    totalHours: 0,
+    days: []
   });
 
   // Add state for storing monthly salary calculations
@@ -146,77 +186,54 @@ export default function Salary() {
         return;
       }
       
-      // Format date range for the month
       const today = new Date();
       const year = selectedYear || today.getFullYear();
       const month = selectedMonth ? selectedMonth - 1 : today.getMonth();
       
-      // Start date is first day of month, end date is last day of month
-      const { startDate, endDate } = getDateRangeForMonth(year, month);
-      console.log('Date range calculation (with time):', { startDate, endDate, startDateString: startDate.substring(0, 10), endDateString: endDate.substring(0, 10), year, month: month + 1 });
-      
-      // Query the overtime table for entries in this month
-      const { data: overtimeEntries, error: overtimeError } = await supabase
-        .from('overtime')
-        .select('*')
-        .eq('employee_id', employee.id)
-        .gte('date', startDate.substring(0, 10))
-        .lte('date', endDate.substring(0, 10));
-        
-      if (overtimeError) {
-        console.error('Error fetching overtime entries:', overtimeError);
-      } else {
-        console.log('Overtime entries found from overtime table:', overtimeEntries?.length || 0);
-        console.log('Overtime details:', overtimeEntries);
-        
-        // Calculate total overtime hours from the overtime table
-        const totalHours = overtimeEntries?.reduce((sum, entry) => sum + (entry.hours || 0), 0) || 0;
-        console.log('Total overtime hours from overtime table:', totalHours);
-        
-        // Update the schedule overtime hours
-        setScheduleOvertimeHours(totalHours);
-        
-        // Update the salary calculation with new overtime hours
-        setSalaryCalc(prev => {
-          const totalOvertimeHours = totalHours + (manualOvertimeHours || 0);
-          const basicSalary = prev.basicSalary || 0;
-          const costOfLiving = prev.costOfLiving || 0;
-          const shiftAllowance = prev.shiftAllowance || 0;
-          const exchangeRate = prev.exchangeRate || 31.50;
-          const deduction = prev.deduction || 0;
-
-          // Calculate overtime pay using the formula: ((Basic Salary + Cost of living)/210) * overtime total hrs
-          const hourlyRate = (basicSalary + costOfLiving) / 210;
-          const overtimePay = hourlyRate * totalOvertimeHours;
-
-          // Calculate the rate ratio (Exchange Rate/30.8)
-          const currentRateRatio = exchangeRate / 30.8;
-
-          // Get other earnings value (or default to 0)
-          const otherEarnings = prev.otherEarnings || 0;
-
-          // Calculate total salary using the new formula: [(X+Y+Z+E+O)*(Rate/30.8)]-F
-          const totalSalary = calculateTotalSalary(
-            basicSalary,
-            costOfLiving,
-            shiftAllowance,
-            otherEarnings,
-            overtimePay,
-            exchangeRate,
-            deduction
-          );
-
-          return {
-            ...prev,
-            overtimeHours: totalOvertimeHours,
-            overtimePay,
-            totalSalary,
-            rateRatio: currentRateRatio
-          };
-        });
-      }
+      // Overtime is built from the month's approved overtime requests,
+      // weighted with the month's multipliers
+      const summary = await fetchOvertimeSummary(employee.id, year, month + 1);
+      console.log('Approved typed overtime:', summary);
+      
+      const totalHours = summary.effectiveHours;
+      setOvertimeSummary(summary);
+      setScheduleOvertimeHours(totalHours);
+      
+      // Update the salary calculation with new overtime hours
+      setSalaryCalc(prev => {
+        // Calculate pay with the shared pay-rule engine
+        const pay = computePay({
+          basicSalary: prev.basicSalary,
+          costOfLiving: prev.costOfLiving,
+          shiftAllowance: prev.shiftAllowance,
+          otherEarnings: prev.otherEarnings,
+          additionalEffectiveHours: totalHours,
+          exchangeRate: prev.exchangeRate || 31.50,
+          deduction: prev.deduction,
+          lineItems,
+          loanRepayment: loanRepaymentFor(`${year}-${String(month + 1).padStart(2, '0')}`)
+        }, payRulesFor(`${year}-${String(month + 1).padStart(2, '0')}`));
+
+        return {
+          ...prev,
+          overtimeHours: totalHours,
+          dayOvertimeHours: summary.dayHours,
+          nightOvertimeHours: summary.nightHours,
+          holidayOvertimeHours: summary.holidayHours,
+          effectiveOvertimeHours: totalHours,
+          overtimePay: pay.overtimePay,
+          lineEarnings: pay.lineEarnings,
+          lineDeductions: pay.lineDeductions,
+          loanRepayment: pay.loanRepayment,
+          socialInsurance: pay.socialInsurance,
+          incomeTax: pay.incomeTax,
+          totalSalary: pay.totalSalary,
+          rateRatio: pay.rateRatio
+        };
+      });
     } catch (error) {
       console.error('Error in fetchOvertimeHours:', error);
+      toast.error(`Failed to load approved overtime: ${error instanceof Error ? error.message : 'Unknown error'}`);
       setScheduleOvertimeHours(0); // Set to 0 on error to avoid stale data
     }
   };
@@ -235,29 +252,36 @@ export default function Salary() {
       // Show loading indicator
       setCalculationLoading(true);
       
-      // Fetch the exchange rate for this specific month from the database
-      const { data: rateData, error: rateError } = await supabase
-        .from('monthly_exchange_rates')
-        .select('average_rate, updated_at')
-        .eq('month', fullDateStr)
-        .single();
-      
-      if (rateError && rateError.code !== 'PGRST116') { // PGRST116 = not found
-        console.error('Error fetching exchange rate:', rateError);
-        toast.error(`Failed to fetch exchange rate for ${formattedMonth}`);
-      } else if (rateData) {
-        // Update the exchange rate in the UI
-        const monthRate = rateData.average_rate;
+      if (employeeCurrency.currencyPair !== DEFAULT_CURRENCY_PAIR) {
+        // Monthly averages are only kept for USD/EGP; other pairs average their daily rates
+        const monthRate = await getMonthlyExchangeRate(year, month, employeeCurrency.currencyPair);
         setExchangeRate(monthRate);
-        setRateRatio(monthRate / 30.8);
-        setRateLastUpdated(new Date(rateData.updated_at).toLocaleString());
-        console.log(`Loaded exchange rate for ${formattedMonth}: ${monthRate.toFixed(4)}`);
+        setRateRatio(getRateRatio(monthRate, payRulesFor(formattedMonth)));
       } else {
-        // No rate found for this month, use default
-        console.warn(`No exchange rate found for ${formattedMonth}, using default rate`);
-        toast(`Using default exchange rate (31.50) for ${formattedMonth}`);
-        setExchangeRate(31.50);
-        setRateRatio(31.50 / 30.8);
+        // Fetch the exchange rate for this specific month from the database
+        const { data: rateData, error: rateError } = await supabase
+          .from('monthly_exchange_rates')
+          .select('average_rate, updated_at')
+          .eq('month', fullDateStr)
+          .single();
+      
+        if (rateError && rateError.code !== 'PGRST116') { // PGRST116 = not found
+          console.error('Error fetching exchange rate:', rateError);
+          toast.error(`Failed to fetch exchange rate for ${formattedMonth}`);
+        } else if (rateData) {
+          // Update the exchange rate in the UI
+          const monthRate = rateData.average_rate;
+          setExchangeRate(monthRate);
+          setRateRatio(getRateRatio(monthRate, payRulesFor(formattedMonth)));
+          setRateLastUpdated(new Date(rateData.updated_at).toLocaleString());
+          console.log(`Loaded exchange rate for ${formattedMonth}: ${monthRate.toFixed(4)}`);
+        } else {
+          // No rate found for this month, use default
+          console.warn(`No exchange rate found for ${formattedMonth}, using default rate`);
+          toast(`Using default exchange rate (31.50) for ${formattedMonth}`);
+          setExchangeRate(31.50);
+          setRateRatio(getRateRatio(31.50, payRulesFor(formattedMonth)));
+        }
       }
     } catch (err) {
       console.error('Error in exchange rate fetch:', err);
@@ -278,13 +302,7 @@ export default function Salary() {
       });
       
       if (existingRecord) {
-        // Use existing record
-        const scheduleHours = existingRecord.overtime_hours || 0;
-        const manualHours = existingRecord.manual_overtime_hours || 0; // Keep manual hours from record
-        
-        setScheduleOvertimeHours(scheduleHours);
-        setManualOvertimeHours(manualHours);
-        
+        // Use existing record; its overtime is replaced by the approved hours fetched below
         // Use the newly fetched exchange rate instead of the record's rate
         setSalaryCalc({
           basicSalary: existingRecord.basic_salary,
@@ -292,7 +310,6 @@ export default function Salary() {
           shiftAllowance: existingRecord.shift_allowance,
           otherEarnings: existingRecord.other_earnings || 0, // Added other earnings with fallback
           overtimeHours: existingRecord.overtime_hours,
-          manualOvertimeHours: 0,
           dayOvertimeHours: 0, // Use default value instead of reading from DB
           nightOvertimeHours: 0, // Use default value instead of reading from DB
           holidayOvertimeHours: 0, // Use default value instead of reading from DB
@@ -300,9 +317,14 @@ export default function Salary() {
           overtimePay: existingRecord.overtime_pay,
           variablePay: existingRecord.variable_pay || 0,
           deduction: existingRecord.deduction,
+          socialInsurance: existingRecord.social_insurance || 0,
+          incomeTax: existingRecord.income_tax || 0,
+          lineEarnings: existingRecord.line_earnings || 0,
+          lineDeductions: existingRecord.line_deductions || 0,
+          loanRepayment: existingRecord.loan_repayment || 0,
           totalSalary: existingRecord.total_salary,
           exchangeRate: existingRecord.exchange_rate || 31.50,
-          rateRatio: existingRecord.exchange_rate ? existingRecord.exchange_rate / 30.8 : 0, // Calculate rate ratio
+          rateRatio: existingRecord.exchange_rate ? getRateRatio(existingRecord.exchange_rate, payRulesFor(existingRecord.month)) : 0, // Calculate rate ratio
         });
         toast.success(`Loaded salary record for ${new Date(existingRecord.month).toLocaleDateString('en-US', {month: 'long', year: 'numeric'})}`);
       }
@@ -325,52 +347,31 @@ export default function Salary() {
         [field]: value
       };
 
-      // For manualOvertimeHours, we need to update the total overtime hours
-      if (field === 'manualOvertimeHours') {
-        // Use the schedule hours (from shifts) + new manual hours value
-        // This prevents double-counting when manual hours are changed
-        const scheduleHours = scheduleOvertimeHours || 0;
-        updatedCalc.overtimeHours = scheduleHours + value;
-        updatedCalc.manualOvertimeHours = value; // Ensure manual hours are set correctly
-        // Update overtime hours based on schedule and manual inputs
-      }
-
-      // Recalculate total salary
-      const basicSalary = updatedCalc.basicSalary || 0;
-      const costOfLiving = updatedCalc.costOfLiving || 0;
-      const shiftAllowance = updatedCalc.shiftAllowance || 0;
-      const exchangeRate = updatedCalc.exchangeRate || 31.50;
-      const deduction = updatedCalc.deduction || 0;
-
-      // Calculate overtime pay using formula: ((Basic Salary + Cost of living)/210) * overtime total hrs
-      const hourlyRate = (basicSalary + costOfLiving) / 210;
+      // Recalculate total salary with the shared pay-rule engine
       const totalOvertimeHours = updatedCalc.overtimeHours || 0;
-      const overtimePay = hourlyRate * totalOvertimeHours;
-      
-      // Get other earnings value
-      const otherEarnings = updatedCalc.otherEarnings || 0;
-      const rateRatio = exchangeRate / 30.8;
-      
-      // Calculate the base amount to be multiplied by the rate ratio
-      const inputBaseAmount = basicSalary + costOfLiving + shiftAllowance + otherEarnings + overtimePay;
-      
-
-
-      // Calculate the rate ratio (Exchange Rate/30.8)
-      const currentRateRatio = exchangeRate / 30.8;
-
-      // Calculate total salary: [(Basic + COL + Shift + Other + Overtime) * (Rate/30.8)] - Deduction
-      const grossAmount = inputBaseAmount * currentRateRatio;
-      const totalSalary = grossAmount - deduction;
-      
-
+      const pay = computePay({
+        basicSalary: updatedCalc.basicSalary,
+        costOfLiving: updatedCalc.costOfLiving,
+        shiftAllowance: updatedCalc.shiftAllowance,
+        otherEarnings: updatedCalc.otherEarnings,
+        additionalEffectiveHours: totalOvertimeHours,
+        exchangeRate: updatedCalc.exchangeRate || 31.50,
+        deduction: updatedCalc.deduction,
+        lineItems,
+        loanRepayment
+      }, payRulesFor(month));
 
       return {
         ...updatedCalc,
-        overtimePay,
+        overtimePay: pay.overtimePay,
         variablePay: 0, // No longer used in new formula
-        totalSalary,
-        rateRatio: currentRateRatio,
+        lineEarnings: pay.lineEarnings,
+        lineDeductions: pay.lineDeductions,
+        loanRepayment: pay.loanRepayment,
+        socialInsurance: pay.socialInsurance,
+        incomeTax: pay.incomeTax,
+        totalSalary: pay.totalSalary,
+        rateRatio: pay.rateRatio,
         // Ensure all required fields from BasicSalaryCalculation interface are included
         dayOvertimeHours: updatedCalc.dayOvertimeHours || 0,
         nightOvertimeHours: updatedCalc.nightOvertimeHours || 0,
@@ -390,11 +391,18 @@ export default function Salary() {
 
   // Modified useEffects to guarantee localStorage priority
   useEffect(() => {
-    fetchData();
-    // Fetch overtime hours when component mounts
-    if (user) {
-      fetchOvertimeHours();
-    }
+    const loadInitialData = async () => {
+      // Load the pay rule versions first so the first calculation already uses
+      // the rules in force for the month
+      await fetchPayRuleVersions();
+      fetchData();
+      // Fetch overtime hours when component mounts
+      if (user) {
+        fetchOvertimeHours();
+      }
+    };
+
+    loadInitialData();
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -417,6 +425,17 @@ export default function Salary() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [employee?.id, selectedYear, selectedMonth]); // Add selectedYear and selectedMonth as dependencies
 
+  // The month's rate depends on the pair, so load it again when the employee switches pair
+  const loadedCurrencyPair = useRef<string | null>(null);
+  useEffect(() => {
+    if (!employee?.id) return;
+    if (loadedCurrencyPair.current && loadedCurrencyPair.current !== employeeCurrency.currencyPair) {
+      handleDateChange(selectedYear, selectedMonth);
+    }
+    loadedCurrencyPair.current = employeeCurrency.currencyPair;
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [employee?.id, employeeCurrency.currencyPair]);
+
   // Add another timer to recheck after a longer delay to ensure localStorage values are applied
   useEffect(() => {
     if (employee?.id) {
@@ -510,13 +529,18 @@ export default function Salary() {
         cost_of_living: salaryCalc.costOfLiving || 0,
         shift_allowance: salaryCalc.shiftAllowance || 0,
         other_earnings: salaryCalc.otherEarnings || 0,
-        overtime_hours: (scheduleOvertimeHours || 0) + (manualOvertimeHours || 0),
+        overtime_hours: scheduleOvertimeHours || 0,
         overtime_pay: salaryCalc.overtimePay || 0,
         variable_pay: salaryCalc.variablePay || 0,
         deduction: salaryCalc.deduction || 0,
+        social_insurance: salaryCalc.socialInsurance || 0,
+        income_tax: salaryCalc.incomeTax || 0,
+        line_earnings: salaryCalc.lineEarnings || 0,
+        line_deductions: salaryCalc.lineDeductions || 0,
+        loan_repayment: salaryCalc.loanRepayment || 0,
         total_salary: salaryCalc.totalSalary || 0,
         exchange_rate: exchangeRate,
-        manual_overtime_hours: manualOvertimeHours || 0
+        currency_pair: employeeCurrency.currencyPair
       };
       
       // Verify no NaN or invalid values in the data
@@ -550,7 +574,7 @@ export default function Salary() {
           // Upsert the record
           const { data, error } = await supabase
             .from('salaries')
-            .upsert(salaryData, {
+            .upsert(withChangeSource(salaryData, 'salary_page'), {
               onConflict: 'employee_id,month',
               ignoreDuplicates: false
             })
@@ -558,6 +582,12 @@ export default function Salary() {
             
           if (error) throw error;
           
+          // The month's lines are saved alongside the totals
+          await saveLineItems.mutateAsync({
+            items: lineItems,
+            rateRatio: salaryCalc.rateRatio || getRateRatio(exchangeRate, payRulesFor(month))
+          });
+          
           saveSuccessful = true;
           
           // Force a schema cache refresh
@@ -653,7 +683,6 @@ export default function Salary() {
             shiftAllowance: existingRecord.shift_allowance,
             otherEarnings: existingRecord.other_earnings || 0, // Added other earnings with fallback
             overtimeHours: existingRecord.overtime_hours,
-            manualOvertimeHours: 0,
             dayOvertimeHours: 0, // Use default value instead of reading from DB
             nightOvertimeHours: 0, // Use default value instead of reading from DB
             holidayOvertimeHours: 0, // Use default value instead of reading from DB
@@ -661,9 +690,14 @@ export default function Salary() {
             overtimePay: existingRecord.overtime_pay,
             variablePay: existingRecord.variable_pay || 0,
             deduction: existingRecord.deduction,
+            socialInsurance: existingRecord.social_insurance || 0,
+            incomeTax: existingRecord.income_tax || 0,
+            lineEarnings: existingRecord.line_earnings || 0,
+            lineDeductions: existingRecord.line_deductions || 0,
+            loanRepayment: existingRecord.loan_repayment || 0,
             totalSalary: existingRecord.total_salary,
             exchangeRate: exchangeRate,
-            rateRatio: existingRecord.exchange_rate ? existingRecord.exchange_rate / 30.8 : 0, // Calculate rate ratio
+            rateRatio: existingRecord.exchange_rate ? getRateRatio(existingRecord.exchange_rate, payRulesFor(existingRecord.month)) : 0, // Calculate rate ratio
           });
         }
       }
@@ -833,6 +867,19 @@ export default function Salary() {
 
       // Set employee data first
       setEmployee(employeeData);
+      // State isn't updated yet, so take the currency straight from the row
+      const currency = getEmployeeCurrency(employeeData);
+
+      // The rate fetched above is USD/EGP; employees on another pair need theirs
+      if (currency.currencyPair !== DEFAULT_CURRENCY_PAIR) {
+        const pairResponse = await fetch(`/api/exchange-rate?pair=${encodeURIComponent(currency.currencyPair)}`);
+        if (pairResponse.ok) {
+          const pairRateData = await pairResponse.json();
+          if (pairRateData.rate) {
+            setExchangeRate(pairRateData.rate);
+          }
+        }
+      }
 
       // First try to get the latest calculation
       const { data: calcData, error: calcError } = await supabase
@@ -852,7 +899,6 @@ export default function Salary() {
           shiftAllowance: calcData.shift_allowance,
           otherEarnings: calcData.other_earnings || 0, // Added other earnings with fallback
           overtimeHours: calcData.overtime_hours,
-          manualOvertimeHours: calcData.manual_overtime_hours,
           dayOvertimeHours: calcData.day_overtime_hours || 0,
           nightOvertimeHours: calcData.night_overtime_hours || 0,
           holidayOvertimeHours: calcData.holiday_overtime_hours || 0,
@@ -860,9 +906,14 @@ export default function Salary() {
           overtimePay: calcData.overtime_pay,
           variablePay: calcData.variable_pay || 0,
           deduction: calcData.deduction,
+          socialInsurance: calcData.social_insurance || 0,
+          incomeTax: calcData.income_tax || 0,
+          lineEarnings: calcData.line_earnings || 0,
+          lineDeductions: calcData.line_deductions || 0,
+          loanRepayment: calcData.loan_repayment || 0,
           totalSalary: calcData.total_salary,
           exchangeRate: exchangeRate,
-          rateRatio: exchangeRate / 30.8, // Calculate rate ratio
+          rateRatio: getRateRatio(exchangeRate, applyEmployeeCurrency(resolvePayRules(month), currency)), // Calculate rate ratio
         });
       } else {
         // If no calculation found, try to get from salaries table
@@ -883,7 +934,6 @@ export default function Salary() {
             shiftAllowance: salaryData.shift_allowance,
             otherEarnings: salaryData.other_earnings || 0, // Added other earnings with fallback
             overtimeHours: salaryData.overtime_hours,
-            manualOvertimeHours: 0,
             dayOvertimeHours: salaryData.day_overtime_hours || 0,
             nightOvertimeHours: salaryData.night_overtime_hours || 0,
             holidayOvertimeHours: salaryData.holiday_overtime_hours || 0,
@@ -891,9 +941,14 @@ export default function Salary() {
             overtimePay: salaryData.overtime_pay,
             variablePay: salaryData.variable_pay || 0,
             deduction: salaryData.deduction,
+            socialInsurance: salaryData.social_insurance || 0,
+            incomeTax: salaryData.income_tax || 0,
+            lineEarnings: salaryData.line_earnings || 0,
+            lineDeductions: salaryData.line_deductions || 0,
+            loanRepayment: salaryData.loan_repayment || 0,
             totalSalary: salaryData.total_salary,
             exchangeRate: exchangeRate,
-            rateRatio: exchangeRate / 30.8, // Calculate rate ratio
+            rateRatio: getRateRatio(exchangeRate, applyEmployeeCurrency(resolvePayRules(salaryData.month), currency)), // Calculate rate ratio
           });
         }
       }
@@ -936,7 +991,7 @@ export default function Salary() {
   }, []);
 
   // Memoize the PDF document to prevent unnecessary re-renders
-  const createPdfDocument = React.useCallback((salary: any, emp: typeof employee) => {
+  const createPdfDocument = React.useCallback((salary: any, emp: typeof employee, pdfLineItems: SalaryLineItem[] = []) => {
     if (!emp) return null;
     
     return (
@@ -951,22 +1006,28 @@ export default function Salary() {
             overtimePay: salary?.overtime_pay || 0,
             variablePay: salary?.variable_pay || 0,
             deduction: salary?.deduction || 0,
+            socialInsurance: salary?.social_insurance || 0,
+            incomeTax: salary?.income_tax || 0,
+            lineEarnings: salary?.line_earnings || 0,
+            lineDeductions: salary?.line_deductions || 0,
+            loanRepayment: salary?.loan_repayment || 0,
             totalSalary: salary?.total_salary || 0,
             exchangeRate: salary?.exchange_rate || exchangeRate,
-            manualOvertimeHours: salary?.overtime_hours || 0,
             dayOvertimeHours: salary?.day_overtime_hours || 0,
             nightOvertimeHours: salary?.night_overtime_hours || 0,
             holidayOvertimeHours: salary?.holiday_overtime_hours || 0,
             effectiveOvertimeHours: salary?.effective_overtime_hours || salary?.overtime_hours || 0,
-            rateRatio: (salary?.exchange_rate || exchangeRate) / 30.8
+            rateRatio: getRateRatio(salary?.exchange_rate || exchangeRate, payRulesFor(salary.month))
           }}
           employee={emp}
           month={salary.month}
           exchangeRate={salary.exchange_rate || exchangeRate}
+          currencyPair={isCurrencyPair(salary.currency_pair) ? salary.currency_pair : employeeCurrency.currencyPair}
+          lineItems={pdfLineItems}
         />
       </Document>
     );
-  }, [exchangeRate]);
+  }, [exchangeRate, employeeCurrency, payRulesFor]);
   
   // Keep track of generated PDFs to avoid regenerating the same document
   const [pdfCache, setPdfCache] = useState<{[key: string]: Blob}>({});
@@ -1008,8 +1069,9 @@ export default function Salary() {
       // Show loading notification
       const loadingToast = toast.loading('Generating PDF...');
       
-      // Create the document
-      const MyDocument = createPdfDocument(salary, employee);
+      // Create the document with the lines saved for that month
+      const pdfLineItems = await fetchSalaryLineItems(employee.id, String(salary.month).substring(0, 7));
+      const MyDocument = createPdfDocument(salary, employee, pdfLineItems);
       
       if (!MyDocument) {
         throw new Error('Could not create PDF document');
@@ -1081,90 +1143,43 @@ export default function Salary() {
     console.log('Test Calculation Results:', results);
   }, []);
 
-  // Add useEffect to watch for changes in manual overtime hours
+  // Recalculate the month whenever the rate, overtime, lines or loans change.
+  // Overtime is taken from the approved hours rather than the previous result, so
+  // recalculating any number of times gives the same figures
   useEffect(() => {
     setSalaryCalc(prev => {
-      const totalOvertimeHours = (prev.overtimeHours || 0) + manualOvertimeHours;
-      const basicSalary = prev.basicSalary || 0;
-      const costOfLiving = prev.costOfLiving || 0;
-      const shiftAllowance = prev.shiftAllowance || 0;
-      const exchangeRate = prev.exchangeRate || 31.50;
-      const deduction = prev.deduction || 0;
-
-      // Calculate overtime pay
-      const hourlyRate = (basicSalary + costOfLiving) / 210;
-      const overtimePay = hourlyRate * totalOvertimeHours;
-
-      // Calculate the rate ratio (Exchange Rate/30.8)
-      const currentRateRatio = exchangeRate / 30.8;
-      
-      // Get other earnings value (or default to 0)
-      const otherEarnings = prev.otherEarnings || 0;
-
-      // Calculate total salary using the new formula: [(X+Y+Z+E+O)*(Rate/30.8)]-F
-      const totalSalary = calculateTotalSalary(
-        basicSalary,
-        costOfLiving,
-        shiftAllowance,
-        otherEarnings,
-        overtimePay,
+      // Calculate pay with the shared pay-rule engine
+      const pay = computePay({
+        basicSalary: prev.basicSalary,
+        costOfLiving: prev.costOfLiving,
+        shiftAllowance: prev.shiftAllowance,
+        otherEarnings: prev.otherEarnings,
+        additionalEffectiveHours: scheduleOvertimeHours,
         exchangeRate,
-        deduction
-      );
+        deduction: prev.deduction,
+        lineItems,
+        loanRepayment
+      }, payRulesFor(month));
 
       return {
         ...prev,
-        overtimeHours: totalOvertimeHours,
-        overtimePay,
+        overtimeHours: scheduleOvertimeHours,
+        effectiveOvertimeHours: scheduleOvertimeHours,
+        overtimePay: pay.overtimePay,
         variablePay: 0, // No longer used in new formula
-        totalSalary,
-        rateRatio: currentRateRatio
-      };
-    });
-  }, [manualOvertimeHours]);
-
-  // Add useEffect to watch for changes in exchange rate
-  useEffect(() => {
-    setSalaryCalc(prev => {
-      const totalOvertimeHours = (prev.overtimeHours || 0) + manualOvertimeHours;
-      const basicSalary = prev.basicSalary || 0;
-      const costOfLiving = prev.costOfLiving || 0;
-      const shiftAllowance = prev.shiftAllowance || 0;
-      const deduction = prev.deduction || 0;
-
-      // Calculate overtime pay
-      const hourlyRate = (basicSalary + costOfLiving) / 210;
-      const overtimePay = hourlyRate * totalOvertimeHours;
-
-      // Calculate the rate ratio (Exchange Rate/30.8)
-      const currentRateRatio = exchangeRate / 30.8;
-      
-      // Get other earnings value (or default to 0)
-      const otherEarnings = prev.otherEarnings || 0;
-
-      // Calculate total salary using the new formula: [(X+Y+Z+E+O)*(Rate/30.8)]-F
-      const totalSalary = calculateTotalSalary(
-        basicSalary,
-        costOfLiving,
-        shiftAllowance,
-        otherEarnings,
-        overtimePay,
-        exchangeRate,
-        deduction
-      );
-
-      return {
-        ...prev,
-        overtimePay,
-        variablePay: 0, // No longer used in new formula
-        totalSalary,
+        lineEarnings: pay.lineEarnings,
+        lineDeductions: pay.lineDeductions,
+        loanRepayment: pay.loanRepayment,
+        socialInsurance: pay.socialInsurance,
+        incomeTax: pay.incomeTax,
+        totalSalary: pay.totalSalary,
         exchangeRate,
-        rateRatio: currentRateRatio
+        rateRatio: pay.rateRatio
       };
     });
-  }, [exchangeRate, manualOvertimeHours]);
+  }, [exchangeRate, scheduleOvertimeHours, month, payRulesFor, lineItems, loanRepayment]);
 
-  // Calculate salary using the new formula: [(X+Y+Z+E+O)*(Rate/30.8)]-F
+  // Calculate salary using the pay-rule engine: [(X+Y+Z+E+O)*(Rate/Base)]-F
   const calculateSalary = async () => {
     setCalculationLoading(true);
     
@@ -1200,22 +1215,21 @@ export default function Salary() {
         throw new Error('Deductions cannot be negative');
       }
       
-      // Calculate overtime pay using formula: ((Basic Salary + Cost of living)/210) * overtime total hrs
-      const overtimePay = calculateOvertimePay(basicSalary, costOfLiving, overtimeHours);
-      
-      // Calculate the rate ratio (Exchange Rate/30.8)
-      const currentRateRatio = exchangeRate / 30.8;
-      
-      // Calculate total salary using the correct formula: [(X+Y+Z+E+O)*(Rate/30.8)]-F
-      const totalSalary = calculateTotalSalary(
+      // Calculate pay with the shared pay-rule engine
+      const pay = computePay({
         basicSalary,
         costOfLiving,
         shiftAllowance,
         otherEarnings,
-        overtimePay,
+        additionalEffectiveHours: overtimeHours,
         exchangeRate,
-        deduction
-      );
+        deduction,
+        lineItems,
+        loanRepayment
+      }, payRulesFor(month));
+      const overtimePay = pay.overtimePay;
+      const currentRateRatio = pay.rateRatio;
+      const totalSalary = pay.totalSalary;
       
       // Verify the calculated result is valid
       if (isNaN(totalSalary) || !isFinite(totalSalary)) {
@@ -1227,6 +1241,11 @@ export default function Salary() {
         otherEarnings,
         overtimePay,
         variablePay: 0, // No longer used in new formula
+        lineEarnings: pay.lineEarnings,
+        lineDeductions: pay.lineDeductions,
+        loanRepayment: pay.loanRepayment,
+        socialInsurance: pay.socialInsurance,
+        incomeTax: pay.incomeTax,
         totalSalary,
         exchangeRate,
         rateRatio: currentRateRatio,
@@ -1312,9 +1331,10 @@ export default function Salary() {
         salaryData.costOfLiving,
         salaryData.shiftAllowance,
         salaryData.otherEarnings,
-        calculateOvertimePay(salaryData.basicSalary, salaryData.costOfLiving, salaryData.effectiveOvertimeHours || salaryData.overtimeHours),
+        calculateOvertimePay(salaryData.basicSalary, salaryData.costOfLiving, salaryData.effectiveOvertimeHours || salaryData.overtimeHours, month),
         rate.rate,
-        salaryData.deduction
+        salaryData.deduction,
+        month
       );
 
       return { month, totalSalary, rate: rate.rate };
@@ -1372,26 +1392,37 @@ export default function Salary() {
                 salaryCalc={salaryCalc}
                 setSalaryCalc={setSalaryCalc}
                 scheduleOvertimeHours={scheduleOvertimeHours}
+                overtimeSummary={overtimeSummary}
                 setScheduleOvertimeHours={setScheduleOvertimeHours}
-                manualOvertimeHours={manualOvertimeHours}
-                setManualOvertimeHours={setManualOvertimeHours}
                 selectedMonth={selectedMonth}
                 selectedYear={selectedYear}
                 onDateChange={handleDateChange}
                 onInputChange={handleInputChange}
                 exchangeRate={exchangeRate}
+                currencyPair={employeeCurrency.currencyPair}
+                lineItems={lineItems}
+                lineTypes={lineTypes.data || []}
+                onLineItemsChange={setLineItems}
               />
               
               {/* Salary Summary Section with Toggle */}
               <div className="mt-3 mb-1">
                 <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
                   <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Salary Breakdown</h3>
-                  <button 
-                    onClick={() => setShowSalarySummary(!showSalarySummary)}
-                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
-                  >
-                    {showSalarySummary ? 'Hide Details' : 'Show Details'}
-                  </button>
+                  <div className="flex gap-2">
+                    <button 
+                      onClick={() => setHistoryMonth(month)}
+                      className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                    >
+                      History
+                    </button>
+                    <button 
+                      onClick={() => setShowSalarySummary(!showSalarySummary)}
+                      className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                    >
+                      {showSalarySummary ? 'Hide Details' : 'Show Details'}
+                    </button>
+                  </div>
                 </div>
                 
                 {showSalarySummary && (
@@ -1399,15 +1430,209 @@ export default function Salary() {
                     employee={employee ? { id: employee.id, name: employee.name } : undefined}
                     salaryCalc={salaryCalc}
                     scheduleOvertimeHours={scheduleOvertimeHours}
-                    manualOvertimeHours={manualOvertimeHours || 0}
                     exchangeRate={exchangeRate}
+                    currencyPair={employeeCurrency.currencyPair}
+                    lineItems={lineItems}
+                  />
+                )}
+              </div>
+
+              {/* Goal Seek Section with Toggle */}
+              <div className="mt-3 mb-1">
+                <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Goal Seek</h3>
+                  <button 
+                    onClick={() => setShowGoalSeek(!showGoalSeek)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                  >
+                    {showGoalSeek ? 'Hide' : 'Find Overtime Needed'}
+                  </button>
+                </div>
+                
+                {showGoalSeek && (
+                  <GoalSeekPanel
+                    salaryCalc={salaryCalc}
+                    exchangeRate={exchangeRate}
+                    month={month}
+                    shiftGroup={employee?.shift_group}
+                    shiftPatternId={employee?.shift_pattern_id}
+                    payRules={monthPayRules}
+                    lineItems={lineItems}
+                  />
+                )}
+              </div>
+
+              {/* Pay Currency Section with Toggle */}
+              <div className="mt-3 mb-1">
+                <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Pay Currency ({employeeCurrency.currencyPair})
+                  </h3>
+                  <button 
+                    onClick={() => setShowCurrencySettings(!showCurrencySettings)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                  >
+                    {showCurrencySettings ? 'Hide' : 'Change'}
+                  </button>
+                </div>
+                
+                {showCurrencySettings && (
+                  <CurrencySettings
+                    employeeId={employee?.id}
+                    currency={employeeCurrency}
+                    rulesBaseRate={resolvePayRules(month).exchangeRateBase}
+                    onSaved={(updated) => setEmployee(prev => prev && { ...prev, ...updated })}
+                  />
+                )}
+              </div>
+
+              {/* Bonus & Special Payments Section with Toggle */}
+              <div className="mt-3 mb-1">
+                <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Bonus &amp; Special Payments</h3>
+                  <button 
+                    onClick={() => setShowSpecialPayments(!showSpecialPayments)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                  >
+                    {showSpecialPayments ? 'Hide' : 'Manage Payments'}
+                  </button>
+                </div>
+                
+                {showSpecialPayments && (
+                  <SpecialPaymentsPanel
+                    employeeId={employee?.id}
+                    year={selectedYear}
+                    month={month}
+                    salaryCalc={salaryCalc}
+                    exchangeRate={exchangeRate}
+                    payRulesFor={payRulesFor}
+                  />
+                )}
+              </div>
+
+              {/* Overtime Requests Section with Toggle */}
+              <div className="mt-3 mb-1">
+                <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Overtime Requests</h3>
+                  <button 
+                    onClick={() => setShowOvertimeRequests(!showOvertimeRequests)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                  >
+                    {showOvertimeRequests ? 'Hide' : 'Manage Requests'}
+                  </button>
+                </div>
+                
+                {showOvertimeRequests && (
+                  <OvertimeRequestsPanel employeeId={employee?.id} month={month} onOvertimeChanged={fetchOvertimeHours} />
+                )}
+              </div>
+
+              {/* Loans & Advances Section with Toggle */}
+              <div className="mt-3 mb-1">
+                <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Loans &amp; Advances</h3>
+                  <button 
+                    onClick={() => setShowLoans(!showLoans)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                  >
+                    {showLoans ? 'Hide' : 'Manage Loans'}
+                  </button>
+                </div>
+                
+                {showLoans && (
+                  <LoansPanel employeeId={employee?.id} month={month} />
+                )}
+              </div>
+
+              {/* Back Pay Section with Toggle */}
+              <div className="mt-3 mb-1">
+                <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Back Pay</h3>
+                  <button 
+                    onClick={() => setShowBackPay(!showBackPay)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                  >
+                    {showBackPay ? 'Hide' : 'Correct Past Months'}
+                  </button>
+                </div>
+                
+                {showBackPay && (
+                  <BackPayPanel
+                    employeeId={employee?.id}
+                    salaries={salaryHistory}
+                    payRulesFor={payRulesFor}
+                    exchangeRate={exchangeRate}
+                  />
+                )}
+              </div>
+
+              {/* Earnings & Deductions Types Section with Toggle */}
+              <div className="mt-3 mb-1">
+                <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Earnings &amp; Deductions Types</h3>
+                  <button 
+                    onClick={() => setShowLineTypes(!showLineTypes)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                  >
+                    {showLineTypes ? 'Hide' : 'Manage Types'}
+                  </button>
+                </div>
+                
+                {showLineTypes && (
+                  <LineTypeManager
+                    employeeId={employee?.id}
+                    isAdmin={isAdmin}
+                  />
+                )}
+              </div>
+
+              {/* What-if Scenarios Section with Toggle */}
+              <div className="mt-3 mb-1 lg:col-span-2">
+                <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">What-if Scenarios</h3>
+                  <button 
+                    onClick={() => setShowScenarios(!showScenarios)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                  >
+                    {showScenarios ? 'Hide' : 'Compare Scenarios'}
+                  </button>
+                </div>
+                
+                {showScenarios && (
+                  <ScenarioComparison
+                    employeeId={employee?.id}
+                    salaryCalc={salaryCalc}
+                    month={month}
+                    currency={employeeCurrency}
+                    lineItems={lineItems}
+                  />
+                )}
+              </div>
+
+              {/* Payslip Reconciliation Section with Toggle */}
+              <div className="mt-3 mb-1 lg:col-span-2">
+                <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-1 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Payslip Reconciliation</h3>
+                  <button 
+                    onClick={() => setShowPayslipReconciliation(!showPayslipReconciliation)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 focus:outline-none"
+                  >
+                    {showPayslipReconciliation ? 'Hide' : 'Check Payslip'}
+                  </button>
+                </div>
+                
+                {showPayslipReconciliation && (
+                  <PayslipReconciliation
+                    employeeId={employee?.id}
+                    month={month}
+                    payRules={monthPayRules}
                   />
                 )}
               </div>
 
               <div className="flex justify-between items-center mt-3 pt-2 border-t border-gray-200 dark:border-gray-700">
                 <div className="text-base font-semibold">
-                  Total: EGP {salaryCalc.totalSalary.toLocaleString()}
+                  Total: {formatDualCurrency(salaryCalc.totalSalary, exchangeRate, employeeCurrency.currencyPair)}
                 </div>
                 <button
                   onClick={saveSalary}
@@ -1473,6 +1698,12 @@ export default function Salary() {
                             </td>
                             <td className="px-3 sm:px-6 py-3 sm:py-4 text-right whitespace-nowrap text-xs sm:text-sm font-medium text-gray-900 dark:text-white">
                               {salary.total_salary.toLocaleString('en-US', { maximumFractionDigits: 2 })}
+                              {salary.exchange_rate > 0 && (
+                                <div className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                                  {splitCurrencyPair(isCurrencyPair(salary.currency_pair) ? salary.currency_pair : DEFAULT_CURRENCY_PAIR).base}{' '}
+                                  {toPeggedAmount(salary.total_salary, salary.exchange_rate).toLocaleString('en-US', { maximumFractionDigits: 2 })}
+                                </div>
+                              )}
                             </td>
                             <td className="px-3 sm:px-6 py-3 sm:py-4 text-right whitespace-nowrap">
                               <div className="flex justify-end space-x-2">
@@ -1482,6 +1713,12 @@ export default function Salary() {
                                 >
                                   Load
                                 </button>
+                                <button
+                                  onClick={() => setHistoryMonth(String(salary.month).substring(0, 7))}
+                                  className="px-2 sm:px-2.5 py-1 sm:py-1.5 text-xs font-medium rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                >
+                                  History
+                                </button>
                                 <button
                                   onClick={() => downloadPDF(salary)}
                                   className="px-2 sm:px-2.5 py-1 sm:py-1.5 text-xs font-medium rounded text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
@@ -1510,6 +1747,13 @@ export default function Salary() {
           Exchange rates last updated: {lastRateUpdate || 'Loading...'}
         </div>
       </div>
+
+      <SalaryHistoryDrawer
+        employeeId={employee?.id}
+        month={historyMonth}
+        currentUserId={user?.id}
+        onClose={() => setHistoryMonth(null)}
+      />
     </Layout>
   );
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/router';
-import { format, addMonths, subMonths } from 'date-fns';
+import { format, addMonths, subMonths, parseISO } from 'date-fns';
 import { toast } from 'react-hot-toast';
 import { supabase } from '../lib/supabase';
 import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
@@ -13,6 +13,7 @@ import MobileScheduleView from '../components/schedule/MobileScheduleView';
 import CalendarControls from '../components/schedule/CalendarControls';
 import ShiftEditModal from '../components/schedule/ShiftEditModal';
 import GroupChangeModal from '../components/schedule/GroupChangeModal';
+import CalendarFeedSettings from '../components/schedule/CalendarFeedSettings';
 
 // Hooks and utils
 import { useSchedule } from '../lib/hooks/useSchedule';
@@ -22,28 +23,11 @@ import {
 } from '../lib/utils/shiftCalculator';
 
 // Types
-import { CalendarDay, ShiftGroup, ShiftType, ScheduleType } from '../lib/types/schedule';
+import { CalendarDay, RotationSlot, ShiftGroup, ShiftType, ScheduleType } from '../lib/types/schedule';
 
 // Add import for the initializeSchedulePreferences function
 import { initializeSchedulePreferences } from '../lib/initSchedulePreferences';
 
-// Define types for the work hours
-interface RegularWorkHours {
-  start: string;
-  end: string;
-}
-
-interface ShiftWorkHours {
-  day: {
-    start: string;
-    end: string;
-  };
-  night: {
-    start: string;
-    end: string;
-  };
-}
-
 const EMPLOYEE_GROUPS = [
   { id: 'A', name: 'Group A' },
   { id: 'B', name: 'Group B' },
@@ -51,16 +35,7 @@ const EMPLOYEE_GROUPS = [
   { id: 'D', name: 'Group D' }
 ];
 
-// Default work hours for when utility functions aren't available
-const DEFAULT_REGULAR_HOURS: RegularWorkHours = { 
-  start: '9:00 AM', 
-  end: '5:00 PM' 
-};
-
-const DEFAULT_SHIFT_HOURS: ShiftWorkHours = { 
-  day: { start: '7:00 AM', end: '7:00 PM' },
-  night: { start: '7:00 PM', end: '7:00 AM' }
-};
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 // Define schedule type options
 const SCHEDULE_TYPE_OPTIONS = [
@@ -96,6 +71,8 @@ const SchedulePage: React.FC = () => {
   const {
     currentDate,
     employeeGroup,
+    pendingGroupChange,
+    shiftPattern,
     scheduleType,
     monthData,
     employeeData,
@@ -107,6 +84,8 @@ const SchedulePage: React.FC = () => {
     updateShift,
     updateGroup,
     updateScheduleType,
+    checkOvertimeLimits,
+    checkStaffing,
     isUpdatingShift,
     isUpdatingGroup,
     isUpdatingScheduleType,
@@ -297,33 +276,22 @@ const SchedulePage: React.FC = () => {
     
     // Regular schedule or shift-based info
     if (scheduleType === 'regular') {
-      // Get work hours with proper fallback
-      let workHours: RegularWorkHours = DEFAULT_REGULAR_HOURS;
-      
-      // Try to call the utility function if it exists
-      if (typeof getRegularWorkHours === 'function') {
-        try {
-          const result = getRegularWorkHours(0);
-          if (result && typeof result === 'object' && 'start' in result && 'end' in result) {
-            workHours = result as RegularWorkHours;
-          }
-        } catch (error) {
-          console.error('Error getting regular work hours:', error);
-        }
-      }
+      // Weekday hours from the shift definitions; days without any are off
+      const workDays = WEEKDAY_NAMES.map((name, dayOfWeek) => ({
+        name,
+        hours: getRegularWorkHours(dayOfWeek, shiftPattern.id)
+      }));
       
       return (
         <div>
           <h3 className="text-lg font-medium mb-2">Your Work Hours</h3>
           <div className="space-y-2">
-            <p>
-              <span className="text-gray-600 dark:text-gray-400">Monday - Friday:</span>{' '}
-              <span className="font-medium">{workHours.start} to {workHours.end}</span>
-            </p>
-            <p>
-              <span className="text-gray-600 dark:text-gray-400">Weekends:</span>{' '}
-              <span className="font-medium">Off duty</span>
-            </p>
+            {workDays.map(({ name, hours }) => (
+              <p key={name}>
+                <span className="text-gray-600 dark:text-gray-400">{name}:</span>{' '}
+                <span className="font-medium">{hours ? `${hours.start} to ${hours.end}` : 'Off duty'}</span>
+              </p>
+            ))}
             <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
               Any shift overrides are shown in the calendar.
             </p>
@@ -331,33 +299,25 @@ const SchedulePage: React.FC = () => {
         </div>
       );
     } else {
-      // Get shift hours with proper fallback
-      let shiftHours: ShiftWorkHours = DEFAULT_SHIFT_HOURS;
-      
-      // Try to call the utility function if it exists
-      if (typeof getShiftWorkHours === 'function') {
-        try {
-          const result = getShiftWorkHours('Day' as ShiftType);
-          if (result && typeof result === 'object' && 'day' in result && 'night' in result) {
-            shiftHours = result as ShiftWorkHours;
-          }
-        } catch (error) {
-          console.error('Error getting shift work hours:', error);
-        }
-      }
+      // Only the shifts the rotation uses
+      const rotationShifts = (['Day', 'Evening', 'Night'] as ShiftType[]).filter(type => (
+        Object.values(shiftPattern.slots).some(slots => slots.includes(type as RotationSlot))
+      ));
       
       return (
         <div>
           <h3 className="text-lg font-medium mb-2">Your Shift Schedule</h3>
           <div className="space-y-2">
-            <p>
-              <span className="text-gray-600 dark:text-gray-400">Day Shift:</span>{' '}
-              <span className="font-medium">{shiftHours.day.start} to {shiftHours.day.end}</span>
-            </p>
-            <p>
-              <span className="text-gray-600 dark:text-gray-400">Night Shift:</span>{' '}
-              <span className="font-medium">{shiftHours.night.start} to {shiftHours.night.end}</span>
-            </p>
+            {rotationShifts.map(type => {
+              const hours = getShiftWorkHours(type, shiftPattern.id);
+              
+              return (
+                <p key={type}>
+                  <span className="text-gray-600 dark:text-gray-400">{type} Shift:</span>{' '}
+                  <span className="font-medium">{hours ? `${hours.start} to ${hours.end}` : 'Not set'}</span>
+                </p>
+              );
+            })}
             <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
               Your shifts follow the Group {employeeGroup} rotation pattern.
             </p>
@@ -429,6 +389,7 @@ const SchedulePage: React.FC = () => {
                   <Calendar 
                     monthData={monthData}
                     onDayClick={handleDayClick}
+                    shiftPattern={shiftPattern}
                   />
                 )
               )}
@@ -530,6 +491,9 @@ const SchedulePage: React.FC = () => {
               )}
             </div>
             
+            {/* Calendar subscription */}
+            {employeeData?.id && <CalendarFeedSettings employeeId={employeeData.id} />}
+            
             {/* Color legend - simplified and better styled */}
             {!isMobileView && (
               <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
@@ -593,6 +557,9 @@ const SchedulePage: React.FC = () => {
           onClose={() => setIsShiftModalOpen(false)}
           onSave={handleSaveShift}
           isLoading={isUpdatingShift}
+          checkLimits={checkOvertimeLimits}
+          checkStaffing={checkStaffing}
+          patternId={shiftPattern.id}
         />
         
         {/* Group change modal */}
@@ -601,6 +568,7 @@ const SchedulePage: React.FC = () => {
           onClose={() => setIsGroupModalOpen(false)}
           onSave={handleSaveGroupChange}
           currentGroup={employeeGroup}
+          groups={shiftPattern.groups}
           isLoading={isUpdatingGroup}
         />
         
@@ -612,10 +580,17 @@ const SchedulePage: React.FC = () => {
               <span className="bg-[var(--sc-accent-color)] text-white px-3 py-1.5 rounded-md font-medium shadow-sm">
                 Group {employeeGroup}
               </span>
+              <span className="text-sm text-[var(--sc-text-secondary)]">{shiftPattern.name}</span>
+              {pendingGroupChange && (
+                <span className="text-sm text-[var(--sc-text-secondary)]">
+                  · Group {pendingGroupChange.newGroup} from {format(parseISO(pendingGroupChange.effectiveDate), 'MMM d, yyyy')} waiting for approval
+                </span>
+              )}
             </div>
             <button 
               onClick={handleGroupChangeClick}
-              className="sc-button sc-button-primary px-4 py-1.5 rounded-md text-sm hover:opacity-90 transition-opacity font-medium"
+              disabled={!!pendingGroupChange}
+              className="sc-button sc-button-primary px-4 py-1.5 rounded-md text-sm hover:opacity-90 transition-opacity font-medium disabled:opacity-50"
             >
               Change
             </button>
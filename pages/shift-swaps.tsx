@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Layout from '../components/Layout';
+import ShiftSwapForm from '../components/schedule/ShiftSwapForm';
+import { supabase } from '../lib/supabase';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import { toast } from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import { SHIFT_SWAP_STATUS_LABELS, ShiftSwap, ShiftSwapAction } from '../lib/utils/shiftSwaps';
+
+const ACTION_LABELS: Record<ShiftSwapAction, string> = {
+  accept: 'Accepted',
+  decline: 'Declined',
+  approve: 'Approved',
+  reject: 'Rejected',
+  cancel: 'Cancelled'
+};
+
+const formatDay = (date: string) => format(parseISO(date), 'EEE, MMM d');
+
+export default function ShiftSwapsPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [swaps, setSwaps] = useState<ShiftSwap[]>([]);
+  const [approvals, setApprovals] = useState<ShiftSwap[]>([]);
+  const [isSupervisor, setIsSupervisor] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const router = useRouter();
+
+  // Check for authentication on component mount
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        alert('You must be logged in to access this page');
+        router.push('/login');
+        return;
+      }
+
+      setToken(session.access_token);
+      setUserId(session.user.id);
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const fetchSwaps = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/shift-swaps', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load shift swaps');
+      }
+
+      setSwaps(data.swaps);
+      setApprovals(data.approvals);
+      setIsSupervisor(data.isSupervisor);
+    } catch (error) {
+      console.error('Error loading shift swaps:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load shift swaps');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchSwaps();
+  }, [fetchSwaps]);
+
+  const act = async (swap: ShiftSwap, action: ShiftSwapAction) => {
+    if (!token) return;
+
+    setActingId(swap.id);
+    try {
+      const response = await fetch(`/api/shift-swaps/${swap.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ action, note: notes[swap.id] || null })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update the swap');
+      }
+
+      toast.success(`${ACTION_LABELS[action]} the swap`);
+      // Reload both lists; an accepted swap may now be waiting for this supervisor
+      await fetchSwaps();
+    } catch (error) {
+      console.error('Error updating shift swap:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update the swap');
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const renderSwap = (swap: ShiftSwap, actions: ShiftSwapAction[]) => (
+    <div key={swap.id} className="border dark:border-gray-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-medium text-gray-900 dark:text-white">
+          {swap.requesterName || 'Unnamed employee'} ↔ {swap.colleagueName || 'Unnamed employee'}
+        </h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{SHIFT_SWAP_STATUS_LABELS[swap.status]}</span>
+      </div>
+      <p className="text-sm text-gray-700 dark:text-gray-300">
+        {swap.requesterShiftType} on {formatDay(swap.requesterDate)} for {swap.colleagueShiftType} on {formatDay(swap.colleagueDate)}
+        {swap.reason ? ` · ${swap.reason}` : ''}
+      </p>
+      {swap.decisionNote && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Note: {swap.decisionNote}</p>
+      )}
+
+      {actions.length > 0 && (
+        <div className="flex items-center gap-2 mt-3">
+          {actions.some(action => action === 'approve' || action === 'reject' || action === 'cancel') && (
+            <input
+              type="text"
+              placeholder="Note (optional)"
+              value={notes[swap.id] || ''}
+              onChange={(e) => setNotes(prev => ({ ...prev, [swap.id]: e.target.value }))}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          )}
+          {actions.map(action => (
+            <button
+              key={action}
+              onClick={() => act(swap, action)}
+              disabled={actingId === swap.id}
+              className={`px-4 py-2 text-sm font-medium rounded-lg text-white disabled:opacity-50 ${
+                action === 'accept' || action === 'approve' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+              }`}
+            >
+              {action.charAt(0).toUpperCase() + action.slice(1)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  // What I can do with each of my swaps
+  const getActions = (swap: ShiftSwap): ShiftSwapAction[] => {
+    if (swap.status === 'proposed' && swap.colleagueId === userId) return ['accept', 'decline'];
+    if (['proposed', 'accepted', 'approved'].includes(swap.status)) return ['cancel'];
+    return [];
+  };
+
+  return (
+    <Layout>
+      <Head>
+        <title>Shift Swaps | SalaryCursor</title>
+      </Head>
+
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Shift Swaps</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Offer one of your shifts to a colleague from another group in exchange for one of theirs.
+            Once they accept and a supervisor approves, both calendars are updated.
+          </p>
+          {token && <ShiftSwapForm token={token} onProposed={(swap) => setSwaps(prev => [swap, ...prev])} />}
+        </div>
+
+        {isSupervisor && (
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Waiting for approval</h2>
+            {approvals.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">No swaps are waiting for approval.</p>
+            ) : (
+              <div className="space-y-4">
+                {approvals.map(swap => renderSwap(swap, ['approve', 'reject']))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">My swaps</h2>
+          {loading ? (
+            <p className="text-gray-500 dark:text-gray-400">Loading swaps...</p>
+          ) : swaps.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400">You haven&apos;t swapped any shifts yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {swaps.map(swap => renderSwap(swap, getActions(swap)))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
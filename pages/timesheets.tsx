@@ -0,0 +1,211 @@
+import React, { useMemo } from 'react';
+import Head from 'next/head';
+import { toast } from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import { FiChevronLeft, FiChevronRight, FiX } from 'react-icons/fi';
+import Layout from '../components/Layout';
+import { TimesheetEntryForm } from '../components/timesheets/TimesheetEntryForm';
+import { useSchedule } from '../lib/hooks/useSchedule';
+import { useTimesheets } from '../lib/hooks/useTimesheets';
+import { useOvertimeRequests } from '../lib/hooks/useOvertimeRequests';
+import {
+  buildTimesheetOvertimeCandidates,
+  compareTimesheet,
+  getScheduledDay,
+  TIMESHEET_FLAG_LABELS,
+  TimesheetComparison
+} from '../lib/salary/timesheets';
+
+const formatTime = (date: Date | null) => (date ? format(date, 'HH:mm') : '—');
+
+export default function TimesheetsPage() {
+  const {
+    currentDate,
+    scheduleType,
+    monthData,
+    employeeData,
+    shiftPattern,
+    isLoading,
+    goToPreviousMonth,
+    goToNextMonth
+  } = useSchedule();
+  const employeeId = employeeData?.id as string | undefined;
+  const month = format(currentDate, 'yyyy-MM');
+
+  const { entries, deleteEntry, confirmExtraHours } = useTimesheets(employeeId, month);
+  const { requests } = useOvertimeRequests(employeeId);
+
+  const monthDays = useMemo(
+    () => (monthData?.days || []).filter(day => day.isCurrentMonth),
+    [monthData]
+  );
+
+  const comparisons = useMemo(
+    () => compareTimesheet(monthDays.map(day => getScheduledDay(day, scheduleType, shiftPattern.id)), entries.data || []),
+    [monthDays, scheduleType, shiftPattern.id, entries.data]
+  );
+
+  // Days whose extra hours are already waiting for, or have, a decision
+  const requestedDates = useMemo(
+    () => new Set((requests.data || [])
+      .filter(request => request.source === 'timesheet' && request.status !== 'cancelled')
+      .map(request => request.date)),
+    [requests.data]
+  );
+
+  const officialHolidays = useMemo(
+    () => new Set(monthDays.filter(day => day.holiday?.isOfficial).map(day => day.date)),
+    [monthDays]
+  );
+
+  const totals = comparisons.reduce(
+    (sum, row) => ({
+      late: sum.late + (row.lateMinutes > 0 ? 1 : 0),
+      early: sum.early + (row.earlyMinutes > 0 ? 1 : 0),
+      extraHours: sum.extraHours + row.extraHours
+    }),
+    { late: 0, early: 0, extraHours: 0 }
+  );
+
+  const handleConfirm = async (row: TimesheetComparison) => {
+    const candidates = buildTimesheetOvertimeCandidates(row, officialHolidays.has(row.date), shiftPattern.id);
+
+    try {
+      await confirmExtraHours.mutateAsync(candidates);
+      toast.success(`${row.extraHours}h on ${row.date} sent for approval`);
+    } catch (error) {
+      toast.error(`Failed to request overtime: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    try {
+      await deleteEntry.mutateAsync(entryId);
+    } catch (error) {
+      toast.error(`Failed to delete entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <Layout>
+      <Head>
+        <title>Timesheets | SalaryCursor</title>
+      </Head>
+
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Timesheets</h1>
+            <div className="flex items-center gap-2">
+              <button onClick={goToPreviousMonth} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Previous month">
+                <FiChevronLeft />
+              </button>
+              <span className="text-sm font-medium text-gray-900 dark:text-white w-32 text-center">
+                {format(currentDate, 'MMMM yyyy')}
+              </span>
+              <button onClick={goToNextMonth} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Next month">
+                <FiChevronRight />
+              </button>
+            </div>
+          </div>
+
+          <TimesheetEntryForm key={month} employeeId={employeeId} month={month} />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+          <h2 className="text-lg font-semibold mb-1 text-gray-900 dark:text-white">Compared with the Schedule</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {totals.late} late arrival{totals.late === 1 ? '' : 's'} · {totals.early} early departure{totals.early === 1 ? '' : 's'} · {Math.round(totals.extraHours * 100) / 100}h outside the schedule
+          </p>
+
+          {isLoading || entries.isLoading ? (
+            <p className="text-gray-500 dark:text-gray-400">Loading timesheet...</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b dark:border-gray-700">
+                    <th className="py-2 pr-4">Date</th>
+                    <th className="py-2 pr-4">Scheduled</th>
+                    <th className="py-2 pr-4">Clocked</th>
+                    <th className="py-2 pr-4">Worked</th>
+                    <th className="py-2 pr-4">Flags</th>
+                    <th className="py-2 pr-4">Extra</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparisons.map(row => {
+                    const dayEntries = (entries.data || []).filter(entry => entry.date === row.date);
+
+                    return (
+                      <tr key={row.date} className="border-b dark:border-gray-700 text-gray-900 dark:text-white align-top">
+                        <td className="py-2 pr-4 whitespace-nowrap">{format(parseISO(row.date), 'EEE d')}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {row.scheduled
+                            ? `${row.shiftType} ${formatTime(row.scheduled.start)}–${formatTime(row.scheduled.end)}`
+                            : row.shiftType}
+                        </td>
+                        <td className="py-2 pr-4">
+                          {dayEntries.length === 0 ? (
+                            <span className="text-gray-400">No times</span>
+                          ) : (
+                            dayEntries.map(entry => (
+                              <div key={entry.id} className="flex items-center whitespace-nowrap">
+                                {formatTime(new Date(entry.clockIn))}–{formatTime(new Date(entry.clockOut))}
+                                {entry.source === 'badge_csv' && <span className="ml-1 text-xs text-gray-400">(badge)</span>}
+                                <button
+                                  onClick={() => handleDelete(entry.id)}
+                                  className="ml-1 p-0.5 text-gray-400 hover:text-red-600"
+                                  title="Delete entry"
+                                >
+                                  <FiX className="h-3 w-3" />
+                                </button>
+                              </div>
+                            ))
+                          )}
+                        </td>
+                        <td className="py-2 pr-4">{row.workedHours > 0 ? `${row.workedHours}h` : '—'}</td>
+                        <td className="py-2 pr-4">
+                          {row.flags.map(flag => (
+                            <span
+                              key={flag}
+                              className="inline-block px-2 py-0.5 mr-1 mb-1 rounded text-xs font-medium bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400"
+                              title={flag === 'late' ? `${row.lateMinutes} min late` : flag === 'early' ? `${row.earlyMinutes} min early` : undefined}
+                            >
+                              {TIMESHEET_FLAG_LABELS[flag]}
+                            </span>
+                          ))}
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {row.extraHours > 0 && (
+                            requestedDates.has(row.date) ? (
+                              <span className="text-xs text-gray-500 dark:text-gray-400">{row.extraHours}h requested</span>
+                            ) : (
+                              <button
+                                onClick={() => handleConfirm(row)}
+                                disabled={confirmExtraHours.isPending}
+                                className="px-2 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400 dark:hover:bg-blue-900/50 disabled:opacity-50"
+                                title="Send these hours for approval as overtime"
+                              >
+                                Confirm {row.extraHours}h
+                              </button>
+                            )
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {comparisons.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="py-2 text-gray-500 dark:text-gray-400">Nothing scheduled or clocked this month.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,48 @@
+-- Create pay_rule_versions table
+-- Each row is a version of the pay rules, in force from effective_from until the next version starts
+CREATE TABLE IF NOT EXISTS public.pay_rule_versions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    effective_from DATE NOT NULL UNIQUE,
+    hour_divisor DECIMAL(10,2) NOT NULL CHECK (hour_divisor > 0),
+    day_multiplier DECIMAL(6,3) NOT NULL CHECK (day_multiplier >= 0),
+    night_multiplier DECIMAL(6,3) NOT NULL CHECK (night_multiplier >= 0),
+    holiday_multiplier DECIMAL(6,3) NOT NULL CHECK (holiday_multiplier >= 0),
+    exchange_rate_base DECIMAL(10,4) NOT NULL CHECK (exchange_rate_base > 0),
+    notes TEXT,
+    created_by UUID REFERENCES public.employees(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    CONSTRAINT pay_rule_versions_month_start CHECK (EXTRACT(DAY FROM effective_from) = 1)
+);
+
+-- Seed the rules that have applied so far
+INSERT INTO public.pay_rule_versions (
+    effective_from, hour_divisor, day_multiplier, night_multiplier, holiday_multiplier, exchange_rate_base, notes
+)
+VALUES ('2000-01-01', 210, 1.5, 1.75, 2.0, 30.8, 'Initial pay rules')
+ON CONFLICT (effective_from) DO NOTHING;
+
+-- Add RLS policies
+ALTER TABLE public.pay_rule_versions ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in needs the rules to calculate their salary
+CREATE POLICY "Authenticated users can read pay_rule_versions"
+    ON public.pay_rule_versions
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Only admins can publish new versions. Versions are never updated or deleted
+-- so past months always recompute with the rules they were paid under.
+CREATE POLICY "Admins can insert pay_rule_versions"
+    ON public.pay_rule_versions
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
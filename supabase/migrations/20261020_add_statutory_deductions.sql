@@ -0,0 +1,13 @@
+-- Income tax and social-insurance tables travel with each pay rule version.
+-- Versions without tables (including every existing one) apply no statutory deductions,
+-- so months that were already paid keep their totals.
+ALTER TABLE public.pay_rule_versions
+    ADD COLUMN IF NOT EXISTS statutory_tables JSONB;
+
+-- Store each statutory deduction as its own line on the salary record
+ALTER TABLE public.salaries
+    ADD COLUMN IF NOT EXISTS social_insurance DECIMAL(10,2) DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS income_tax DECIMAL(10,2) DEFAULT 0;
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,44 @@
+-- Create salary_scenarios table
+-- Named what-if sets of salary inputs, compared side by side on the salary page
+CREATE TABLE IF NOT EXISTS public.salary_scenarios (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    month DATE NOT NULL,
+    inputs JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS salary_scenarios_employee_id_idx ON public.salary_scenarios(employee_id);
+
+-- Add RLS policies
+ALTER TABLE public.salary_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own salary_scenarios"
+    ON public.salary_scenarios
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own salary_scenarios"
+    ON public.salary_scenarios
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can update own salary_scenarios"
+    ON public.salary_scenarios
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = employee_id)
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can delete own salary_scenarios"
+    ON public.salary_scenarios
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,53 @@
+-- Create payslip_reconciliations table
+-- Each row is one comparison of the employer's payslip with our salary record,
+-- kept as evidence when raising a dispute
+CREATE TABLE IF NOT EXISTS public.payslip_reconciliations (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    month DATE NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('csv', 'text')),
+    raw_payslip TEXT NOT NULL,
+    tolerance DECIMAL(10,2) NOT NULL DEFAULT 1,
+    lines JSONB NOT NULL,
+    flagged_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS payslip_reconciliations_employee_month_idx
+    ON public.payslip_reconciliations(employee_id, month);
+
+-- Add RLS policies
+ALTER TABLE public.payslip_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own payslip_reconciliations"
+    ON public.payslip_reconciliations
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own payslip_reconciliations"
+    ON public.payslip_reconciliations
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can delete own payslip_reconciliations"
+    ON public.payslip_reconciliations
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+-- Admins handle disputes, so they can read every reconciliation
+CREATE POLICY "Admins can read all payslip_reconciliations"
+    ON public.payslip_reconciliations
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
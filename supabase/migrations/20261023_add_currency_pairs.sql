@@ -0,0 +1,28 @@
+-- Rate-linked pay can be pegged to currencies other than USD.
+-- Each employee has a currency pair and, for pairs other than USD/EGP, their own
+-- base rate (USD/EGP employees keep using the base rate from the pay rules).
+ALTER TABLE public.employees
+    ADD COLUMN IF NOT EXISTS currency_pair TEXT NOT NULL DEFAULT 'USD/EGP'
+        CHECK (currency_pair IN ('USD/EGP', 'EUR/EGP', 'SAR/EGP')),
+    ADD COLUMN IF NOT EXISTS base_exchange_rate DECIMAL(10,4)
+        CHECK (base_exchange_rate IS NULL OR base_exchange_rate > 0);
+
+ALTER TABLE public.employees
+    DROP CONSTRAINT IF EXISTS employees_base_rate_for_pair;
+ALTER TABLE public.employees
+    ADD CONSTRAINT employees_base_rate_for_pair
+        CHECK (currency_pair = 'USD/EGP' OR base_exchange_rate IS NOT NULL);
+
+-- Exchange rates are stored per pair; existing rows are USD/EGP
+ALTER TABLE public.exchange_rates
+    ADD COLUMN IF NOT EXISTS currency_pair TEXT NOT NULL DEFAULT 'USD/EGP';
+
+CREATE INDEX IF NOT EXISTS exchange_rates_pair_created_at_idx
+    ON public.exchange_rates(currency_pair, created_at DESC);
+
+-- Remember which pair each saved salary was calculated with
+ALTER TABLE public.salaries
+    ADD COLUMN IF NOT EXISTS currency_pair TEXT NOT NULL DEFAULT 'USD/EGP';
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,45 @@
+-- Exchange rates are stored as one spot rate per pair per day, so the pay rate
+-- can be a true rolling average over the stored days.
+ALTER TABLE public.exchange_rates
+    ADD COLUMN IF NOT EXISTS date DATE,
+    ADD COLUMN IF NOT EXISTS source TEXT;
+
+ALTER TABLE public.exchange_rates
+    ALTER COLUMN rate TYPE DECIMAL(10,4);
+
+-- Existing rows are dated by when they were saved
+UPDATE public.exchange_rates
+    SET date = (created_at AT TIME ZONE 'UTC')::date
+    WHERE date IS NULL;
+
+-- Keep only the latest rate saved on each day
+DELETE FROM public.exchange_rates a
+    USING public.exchange_rates b
+    WHERE a.currency_pair = b.currency_pair
+    AND a.date = b.date
+    AND (a.created_at, a.id) < (b.created_at, b.id);
+
+ALTER TABLE public.exchange_rates
+    ALTER COLUMN date SET NOT NULL,
+    ALTER COLUMN date SET DEFAULT (timezone('UTC', now()))::date;
+
+CREATE UNIQUE INDEX IF NOT EXISTS exchange_rates_pair_date_key
+    ON public.exchange_rates(currency_pair, date);
+
+-- Saving a day's rate again replaces it, so admins need to update rows too
+DROP POLICY IF EXISTS "Allow admins to update exchange rates" ON public.exchange_rates;
+
+CREATE POLICY "Allow admins to update exchange rates"
+    ON public.exchange_rates
+    FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid()
+            AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,130 @@
+-- Create salary_line_types table
+-- Earning and deduction line types defined by employees for themselves,
+-- or by admins for everyone (employee_id is null)
+CREATE TABLE IF NOT EXISTS public.salary_line_types (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID REFERENCES public.employees(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    kind TEXT NOT NULL CHECK (kind IN ('earning', 'deduction')),
+    taxable BOOLEAN NOT NULL DEFAULT true,
+    rate_linked BOOLEAN NOT NULL DEFAULT false,
+    recurrence TEXT NOT NULL DEFAULT 'recurring' CHECK (recurrence IN ('recurring', 'one_off')),
+    default_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (default_amount >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS salary_line_types_employee_id_idx ON public.salary_line_types(employee_id);
+
+-- Create salary_line_items table
+-- The lines on a month's salary. The type's settings are copied onto each line
+-- so editing a type later doesn't change months already saved.
+CREATE TABLE IF NOT EXISTS public.salary_line_items (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    month DATE NOT NULL,
+    line_type_id UUID REFERENCES public.salary_line_types(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('earning', 'deduction')),
+    taxable BOOLEAN NOT NULL,
+    rate_linked BOOLEAN NOT NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    -- Amount after the month's rate ratio (same as amount for fixed lines)
+    paid_amount DECIMAL(10,2) NOT NULL CHECK (paid_amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS salary_line_items_employee_month_idx
+    ON public.salary_line_items(employee_id, month);
+
+-- Totals of the lines, kept on the salary record like the other components
+ALTER TABLE public.salaries
+    ADD COLUMN IF NOT EXISTS line_earnings DECIMAL(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS line_deductions DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Add RLS policies
+ALTER TABLE public.salary_line_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.salary_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own and shared salary_line_types"
+    ON public.salary_line_types
+    FOR SELECT
+    TO authenticated
+    USING (employee_id IS NULL OR auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own salary_line_types"
+    ON public.salary_line_types
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can update own salary_line_types"
+    ON public.salary_line_types
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = employee_id)
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can delete own salary_line_types"
+    ON public.salary_line_types
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+-- Admins define the shared types and can manage anyone's
+CREATE POLICY "Admins can manage all salary_line_types"
+    ON public.salary_line_types
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+CREATE POLICY "Users can read own salary_line_items"
+    ON public.salary_line_items
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own salary_line_items"
+    ON public.salary_line_items
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can delete own salary_line_items"
+    ON public.salary_line_items
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Admins can manage all salary_line_items"
+    ON public.salary_line_items
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
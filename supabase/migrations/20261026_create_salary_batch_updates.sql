@@ -0,0 +1,68 @@
+-- Create salary_batch_updates table
+-- One row per batch raise an admin applied, kept for history and rollback
+CREATE TABLE IF NOT EXISTS public.salary_batch_updates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    percentage DECIMAL(6,2) NOT NULL CHECK (percentage > -100 AND percentage <= 100),
+    effective_month DATE NOT NULL,
+    employee_ids UUID[] NOT NULL,
+    employees_affected INTEGER NOT NULL DEFAULT 0,
+    records_affected INTEGER NOT NULL DEFAULT 0,
+    previous_total DECIMAL(14,2) NOT NULL DEFAULT 0,
+    new_total DECIMAL(14,2) NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    rolled_back_at TIMESTAMP WITH TIME ZONE,
+    rolled_back_by UUID REFERENCES public.employees(id) ON DELETE SET NULL
+);
+
+-- Create salary_batch_update_changes table
+-- The salary records and employee records a batch touched, with their values
+-- before and after the raise
+CREATE TABLE IF NOT EXISTS public.salary_batch_update_changes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    batch_id UUID NOT NULL REFERENCES public.salary_batch_updates(id) ON DELETE CASCADE,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    -- 'employee' rows hold the employee record's basic salary and have no salary_id
+    target TEXT NOT NULL DEFAULT 'salary' CHECK (target IN ('salary', 'employee')),
+    salary_id UUID REFERENCES public.salaries(id) ON DELETE SET NULL,
+    month DATE NOT NULL,
+    -- The batch created this record (rolling back deletes it)
+    created_record BOOLEAN NOT NULL DEFAULT false,
+    previous_values JSONB,
+    new_values JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS salary_batch_update_changes_batch_id_idx
+    ON public.salary_batch_update_changes(batch_id);
+
+-- Add RLS policies
+-- Batches are applied and rolled back through the admin API with the service role;
+-- admins can read the history
+ALTER TABLE public.salary_batch_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.salary_batch_update_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read salary_batch_updates"
+    ON public.salary_batch_updates
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+CREATE POLICY "Admins can read salary_batch_update_changes"
+    ON public.salary_batch_update_changes
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,72 @@
+-- Create special_payments table
+-- Annual bonus, 13th-month salary and profit share, paid outside the monthly salary
+CREATE TABLE IF NOT EXISTS public.special_payments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    payment_type TEXT NOT NULL CHECK (payment_type IN ('annual_bonus', 'thirteenth_month', 'profit_share')),
+    payout_month DATE NOT NULL,
+    amount DECIMAL(12,2) NOT NULL CHECK (amount >= 0),
+    rate_linked BOOLEAN NOT NULL DEFAULT false,
+    tax_treatment TEXT NOT NULL DEFAULT 'with_salary' CHECK (tax_treatment IN ('with_salary', 'flat', 'exempt')),
+    flat_tax_rate DECIMAL(5,4) CHECK (flat_tax_rate >= 0 AND flat_tax_rate <= 1),
+    -- Calculated when the payment is saved, like the salary totals
+    exchange_rate DECIMAL(10,4),
+    rate_ratio DECIMAL(10,6) NOT NULL DEFAULT 1,
+    gross_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    income_tax DECIMAL(12,2) NOT NULL DEFAULT 0,
+    net_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS special_payments_employee_month_idx
+    ON public.special_payments(employee_id, payout_month);
+
+-- Add RLS policies
+ALTER TABLE public.special_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own special_payments"
+    ON public.special_payments
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own special_payments"
+    ON public.special_payments
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can update own special_payments"
+    ON public.special_payments
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = employee_id)
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can delete own special_payments"
+    ON public.special_payments
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Admins can manage all special_payments"
+    ON public.special_payments
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,69 @@
+-- Create salary_loans table
+-- Salary advances and company loans, repaid in equal installments from net pay
+CREATE TABLE IF NOT EXISTS public.salary_loans (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    loan_kind TEXT NOT NULL DEFAULT 'loan' CHECK (loan_kind IN ('advance', 'loan')),
+    principal DECIMAL(12,2) NOT NULL CHECK (principal > 0),
+    start_month DATE NOT NULL,
+    installments INTEGER NOT NULL CHECK (installments > 0),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS salary_loans_employee_idx
+    ON public.salary_loans(employee_id, start_month);
+
+-- Installments taken from the month's salary
+ALTER TABLE public.salaries
+    ADD COLUMN IF NOT EXISTS loan_repayment DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Add RLS policies
+ALTER TABLE public.salary_loans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own salary_loans"
+    ON public.salary_loans
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own salary_loans"
+    ON public.salary_loans
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can update own salary_loans"
+    ON public.salary_loans
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = employee_id)
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can delete own salary_loans"
+    ON public.salary_loans
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Admins can manage all salary_loans"
+    ON public.salary_loans
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,148 @@
+-- Create salary_audit_log table
+-- Every change to a salary row: who made it, when, from which code path, and
+-- the before and after value of each field that changed
+CREATE TABLE IF NOT EXISTS public.salary_audit_log (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    -- Not foreign keys so the history outlives deleted rows; deleting an employee
+    -- cascades to their salaries, which logs rows pointing at that employee
+    salary_id UUID NOT NULL,
+    employee_id UUID NOT NULL,
+    month DATE NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    source TEXT,
+    changed_by UUID,
+    -- { field: { "before": value, "after": value } }
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS salary_audit_log_employee_month_idx
+    ON public.salary_audit_log(employee_id, month, changed_at);
+
+-- Writers tag their change with these; they are cleared as soon as they are read.
+-- A delete has no new row to carry them, so deletes go through delete_salary_record
+ALTER TABLE public.salaries
+    ADD COLUMN IF NOT EXISTS change_source TEXT,
+    ADD COLUMN IF NOT EXISTS changed_by UUID;
+
+-- Create function to pick up the change tags
+-- Writers set change_source (and changed_by) on the row; the tags are kept for the
+-- rest of the transaction and cleared from the row, so a later writer that doesn't
+-- set them isn't logged under someone else's code path. They are only kept when
+-- set, because an upsert that turns into an update runs this trigger twice.
+CREATE OR REPLACE FUNCTION public.take_salary_change_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.change_source IS NOT NULL THEN
+        PERFORM set_config('salary_audit.source', NEW.change_source, true);
+    END IF;
+    IF NEW.changed_by IS NOT NULL THEN
+        PERFORM set_config('salary_audit.changed_by', NEW.changed_by::text, true);
+    END IF;
+
+    NEW.change_source := NULL;
+    NEW.changed_by := NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create function to log salary changes
+-- Runs as the owner so the log can be written whatever the caller's policies are.
+-- The session user wins over a changed_by tag; the tag is only used by the
+-- service-role API routes, which have no session user.
+CREATE OR REPLACE FUNCTION public.log_salary_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_values JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+    new_values JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+    row_values JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+    field TEXT;
+    field_changes JSONB := '{}'::jsonb;
+BEGIN
+    FOR field IN SELECT DISTINCT jsonb_object_keys(old_values || new_values) LOOP
+        IF field IN ('id', 'employee_id', 'month', 'created_at', 'updated_at', 'change_source', 'changed_by') THEN
+            CONTINUE;
+        END IF;
+
+        IF (old_values -> field) IS DISTINCT FROM (new_values -> field) THEN
+            field_changes := field_changes || jsonb_build_object(
+                field,
+                jsonb_build_object('before', old_values -> field, 'after', new_values -> field)
+            );
+        END IF;
+    END LOOP;
+
+    IF TG_OP = 'DELETE' OR field_changes <> '{}'::jsonb THEN
+        INSERT INTO public.salary_audit_log (salary_id, employee_id, month, action, source, changed_by, changes)
+        VALUES (
+            (row_values ->> 'id')::uuid,
+            (row_values ->> 'employee_id')::uuid,
+            (row_values ->> 'month')::date,
+            lower(TG_OP),
+            NULLIF(current_setting('salary_audit.source', true), ''),
+            COALESCE(auth.uid(), NULLIF(current_setting('salary_audit.changed_by', true), '')::uuid),
+            field_changes
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create function to delete a salary row with its change tags
+-- Sets the tags for the delete's transaction, as take_salary_change_tags does for
+-- inserts and updates, so the delete is logged with its code path and who made it.
+-- Runs as the caller, so it deletes nothing their policies wouldn't let them.
+CREATE OR REPLACE FUNCTION public.delete_salary_record(
+    p_salary_id UUID,
+    p_source TEXT,
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM set_config('salary_audit.source', p_source, true);
+    IF p_changed_by IS NOT NULL THEN
+        PERFORM set_config('salary_audit.changed_by', p_changed_by::text, true);
+    END IF;
+
+    DELETE FROM public.salaries WHERE id = p_salary_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create triggers to tag and log salary changes
+-- Logging runs after the write so an upsert that updates isn't logged as an insert
+DROP TRIGGER IF EXISTS take_salary_change_tags ON public.salaries;
+CREATE TRIGGER take_salary_change_tags
+    BEFORE INSERT OR UPDATE ON public.salaries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.take_salary_change_tags();
+
+DROP TRIGGER IF EXISTS log_salary_change ON public.salaries;
+CREATE TRIGGER log_salary_change
+    AFTER INSERT OR UPDATE OR DELETE ON public.salaries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_salary_change();
+
+-- Add RLS policies
+-- The log is only written by the trigger
+ALTER TABLE public.salary_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own salary_audit_log"
+    ON public.salary_audit_log
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Admins can read all salary_audit_log"
+    ON public.salary_audit_log
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
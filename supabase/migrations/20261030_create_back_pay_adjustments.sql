@@ -0,0 +1,66 @@
+-- Create back_pay_adjustments table
+-- Corrections to past months' figures, with the recalculated statement and the
+-- month whose adjustment line settles the difference
+CREATE TABLE IF NOT EXISTS public.back_pay_adjustments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    effective_month DATE NOT NULL,
+    end_month DATE,
+    -- Corrected figures (NULL: the months' saved values were kept)
+    basic_salary DECIMAL(10,2),
+    cost_of_living DECIMAL(10,2),
+    exchange_rate DECIMAL(10,4),
+    -- Month by month: saved and corrected figures, paid and corrected totals
+    statement JSONB NOT NULL DEFAULT '[]'::jsonb,
+    total_paid DECIMAL(14,2) NOT NULL DEFAULT 0,
+    total_corrected DECIMAL(14,2) NOT NULL DEFAULT 0,
+    total_difference DECIMAL(14,2) NOT NULL DEFAULT 0,
+    adjustment_month DATE NOT NULL,
+    adjustment_line_name TEXT,
+    created_by UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS back_pay_adjustments_employee_idx
+    ON public.back_pay_adjustments(employee_id, created_at);
+
+-- Add RLS policies
+ALTER TABLE public.back_pay_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own back_pay_adjustments"
+    ON public.back_pay_adjustments
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own back_pay_adjustments"
+    ON public.back_pay_adjustments
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can delete own back_pay_adjustments"
+    ON public.back_pay_adjustments
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Admins can manage all back_pay_adjustments"
+    ON public.back_pay_adjustments
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,8 @@
+-- Overtime caps (per day, week and month) and the minimum rest between shifts
+-- travel with each pay rule version. Versions without limits (including every
+-- existing one) check nothing.
+ALTER TABLE public.pay_rule_versions
+    ADD COLUMN IF NOT EXISTS overtime_limits JSONB;
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
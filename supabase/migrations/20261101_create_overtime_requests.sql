@@ -0,0 +1,148 @@
+-- Supervisors approve overtime; admins can always act as supervisors
+ALTER TABLE public.employees
+    ADD COLUMN IF NOT EXISTS is_supervisor BOOLEAN NOT NULL DEFAULT false;
+
+-- Create overtime_requests table
+-- Overtime is only paid once a supervisor has approved it
+CREATE TABLE IF NOT EXISTS public.overtime_requests (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    hours DECIMAL(5,2) NOT NULL CHECK (hours > 0 AND hours <= 24),
+    overtime_type TEXT NOT NULL CHECK (overtime_type IN ('day', 'night', 'holiday')),
+    reason TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    -- Requests raised by saving an Overtime/InLieu shift, or entered by hand
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('schedule', 'manual')),
+    shift_type TEXT,
+    decided_by UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS overtime_requests_employee_date_idx
+    ON public.overtime_requests(employee_id, date);
+
+CREATE INDEX IF NOT EXISTS overtime_requests_status_idx
+    ON public.overtime_requests(status);
+
+-- Backfill approved requests for the Overtime/InLieu shifts saved before requests
+-- existed, so the months they were paid in keep their overtime. An Overtime day
+-- is a 12 hour day shift and a 12 hour night shift, an InLieu day a day shift;
+-- on an official holiday all of its hours are holiday hours.
+INSERT INTO public.overtime_requests (
+    employee_id, date, hours, overtime_type, reason, status, source, shift_type, decided_at, decision_note
+)
+SELECT
+    so.employee_id,
+    so.date,
+    SUM(split.hours),
+    CASE WHEN h.date IS NOT NULL THEN 'holiday' ELSE split.overtime_type END,
+    so.shift_type || ' shift',
+    'approved',
+    'schedule',
+    so.shift_type,
+    timezone('UTC', now()),
+    'Approved when overtime requests were introduced'
+FROM public.shift_overrides so
+JOIN (VALUES
+    ('Overtime', 'day', 12),
+    ('Overtime', 'night', 12),
+    ('InLieu', 'day', 12)
+) AS split(shift_type, overtime_type, hours) ON split.shift_type = so.shift_type
+LEFT JOIN public.holidays h ON h.date = so.date AND h.is_official IS NOT FALSE
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.overtime_requests r
+    WHERE r.employee_id = so.employee_id
+      AND r.date = so.date
+      AND r.source = 'schedule'
+      AND r.status IN ('pending', 'approved')
+)
+GROUP BY so.employee_id, so.date, so.shift_type, CASE WHEN h.date IS NOT NULL THEN 'holiday' ELSE split.overtime_type END;
+
+-- Add RLS policies
+ALTER TABLE public.overtime_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own overtime_requests"
+    ON public.overtime_requests
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own pending overtime_requests"
+    ON public.overtime_requests
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id AND status = 'pending');
+
+-- Employees can cancel or resubmit their requests but never approve them;
+-- decisions are made through the approvals API
+CREATE POLICY "Users can update own overtime_requests"
+    ON public.overtime_requests
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = employee_id)
+    WITH CHECK (auth.uid() = employee_id AND status IN ('pending', 'cancelled'));
+
+CREATE POLICY "Admins can manage all overtime_requests"
+    ON public.overtime_requests
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Create notifications table (read by the notification center)
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'info' CHECK (type IN ('info', 'success', 'warning', 'error')),
+    category TEXT,
+    link TEXT,
+    is_read BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx
+    ON public.notifications(user_id, created_at);
+
+-- Add RLS policies
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own notifications" ON public.notifications;
+CREATE POLICY "Users can read own notifications"
+    ON public.notifications
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own notifications" ON public.notifications;
+CREATE POLICY "Users can update own notifications"
+    ON public.notifications
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own notifications" ON public.notifications;
+CREATE POLICY "Users can delete own notifications"
+    ON public.notifications
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,72 @@
+-- Create timesheet_entries table
+-- Clock-in and clock-out times, entered by hand or imported from the badge reader
+CREATE TABLE IF NOT EXISTS public.timesheet_entries (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    -- Day the shift started; night shifts clock out the next morning
+    date DATE NOT NULL,
+    clock_in TIMESTAMP WITH TIME ZONE NOT NULL,
+    clock_out TIMESTAMP WITH TIME ZONE NOT NULL CHECK (clock_out > clock_in),
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'badge_csv')),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    -- Importing the same export twice updates the entries instead of doubling them
+    UNIQUE(employee_id, clock_in)
+);
+
+CREATE INDEX IF NOT EXISTS timesheet_entries_employee_date_idx
+    ON public.timesheet_entries(employee_id, date);
+
+-- Add RLS policies
+ALTER TABLE public.timesheet_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own timesheet_entries"
+    ON public.timesheet_entries
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own timesheet_entries"
+    ON public.timesheet_entries
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can update own timesheet_entries"
+    ON public.timesheet_entries
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = employee_id)
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can delete own timesheet_entries"
+    ON public.timesheet_entries
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Admins can manage all timesheet_entries"
+    ON public.timesheet_entries
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Confirmed extra hours from timesheets are requested as overtime
+ALTER TABLE public.overtime_requests DROP CONSTRAINT IF EXISTS overtime_requests_source_check;
+ALTER TABLE public.overtime_requests
+    ADD CONSTRAINT overtime_requests_source_check CHECK (source IN ('schedule', 'manual', 'timesheet'));
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
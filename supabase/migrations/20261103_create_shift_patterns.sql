@@ -0,0 +1,53 @@
+-- Create shift_patterns table
+-- Rotations defined by admins: each group's slot (Day, Evening, Night, Off) for
+-- every day of the cycle, counted from the reference date
+CREATE TABLE IF NOT EXISTS public.shift_patterns (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    cycle_length INTEGER NOT NULL CHECK (cycle_length > 0),
+    -- Day 1 of the cycle
+    reference_date DATE NOT NULL,
+    groups TEXT[] NOT NULL,
+    -- Slots per group, e.g. {"A": ["Day", "Day", "Night", "Night", "Off", ...]}
+    slots JSONB NOT NULL,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+-- Employees without a pattern follow the built-in 8-day A-D rotation
+ALTER TABLE public.employees
+    ADD COLUMN IF NOT EXISTS shift_pattern_id UUID REFERENCES public.shift_patterns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS employees_shift_pattern_idx
+    ON public.employees(shift_pattern_id);
+
+-- Add RLS policies
+ALTER TABLE public.shift_patterns ENABLE ROW LEVEL SECURITY;
+
+-- Everyone needs the patterns to build their calendar
+CREATE POLICY "Users can read shift_patterns"
+    ON public.shift_patterns
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins can manage all shift_patterns"
+    ON public.shift_patterns
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,55 @@
+-- Create shift_definitions table
+-- Working times of each shift, site-wide (no pattern) or for one rotation.
+-- A pattern's own definitions take precedence over the site-wide ones.
+CREATE TABLE IF NOT EXISTS public.shift_definitions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    pattern_id UUID REFERENCES public.shift_patterns(id) ON DELETE CASCADE,
+    shift_type TEXT NOT NULL CHECK (shift_type IN ('Day', 'Evening', 'Night', 'Regular')),
+    name TEXT NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    -- Unpaid break taken during the shift
+    break_minutes INTEGER NOT NULL DEFAULT 0 CHECK (break_minutes >= 0),
+    paid_hours DECIMAL(4,2) NOT NULL CHECK (paid_hours >= 0),
+    -- Hours inside this window count as night hours
+    night_start TIME,
+    night_end TIME,
+    -- Weekdays (0 = Sunday) regular hours apply to; NULL for every day
+    days_of_week INTEGER[],
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS shift_definitions_pattern_idx
+    ON public.shift_definitions(pattern_id);
+
+-- Add RLS policies
+ALTER TABLE public.shift_definitions ENABLE ROW LEVEL SECURITY;
+
+-- Everyone needs the shift times to build their calendar
+CREATE POLICY "Users can read shift_definitions"
+    ON public.shift_definitions
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins can manage all shift_definitions"
+    ON public.shift_definitions
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
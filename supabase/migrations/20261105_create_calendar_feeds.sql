@@ -0,0 +1,59 @@
+-- Create calendar_feeds table
+-- Secret links to an employee's shifts as an iCalendar feed. Revoking a feed
+-- keeps the row so the old link keeps failing; a new link gets a new token.
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    -- Shift types published in the feed, e.g. {Day,Night,Leave}
+    shift_types TEXT[] NOT NULL,
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+CREATE INDEX IF NOT EXISTS calendar_feeds_employee_idx
+    ON public.calendar_feeds(employee_id);
+
+-- Add RLS policies
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own calendar_feeds"
+    ON public.calendar_feeds
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+CREATE POLICY "Users can insert own calendar_feeds"
+    ON public.calendar_feeds
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Users can update own calendar_feeds"
+    ON public.calendar_feeds
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = employee_id)
+    WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Admins can manage all calendar_feeds"
+    ON public.calendar_feeds
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
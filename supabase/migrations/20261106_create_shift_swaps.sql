@@ -0,0 +1,66 @@
+-- Create shift_swaps table
+-- Two employees exchanging shifts: proposed by one, accepted by the other and
+-- approved by a supervisor, at which point both people's overrides are written
+CREATE TABLE IF NOT EXISTS public.shift_swaps (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    requester_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    requester_date DATE NOT NULL,
+    requester_shift_type TEXT NOT NULL,
+    colleague_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+    colleague_date DATE NOT NULL,
+    colleague_shift_type TEXT NOT NULL,
+    reason TEXT,
+    status TEXT NOT NULL DEFAULT 'proposed'
+        CHECK (status IN ('proposed', 'accepted', 'approved', 'declined', 'rejected', 'cancelled')),
+    responded_at TIMESTAMP WITH TIME ZONE,
+    decided_by UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_note TEXT,
+    -- Overrides written on approval, and the ones they replaced (restored on cancel)
+    applied_overrides JSONB NOT NULL DEFAULT '[]'::jsonb,
+    previous_overrides JSONB NOT NULL DEFAULT '[]'::jsonb,
+    cancelled_by UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    CHECK (requester_id <> colleague_id)
+);
+
+CREATE INDEX IF NOT EXISTS shift_swaps_requester_idx
+    ON public.shift_swaps(requester_id);
+
+CREATE INDEX IF NOT EXISTS shift_swaps_colleague_idx
+    ON public.shift_swaps(colleague_id);
+
+CREATE INDEX IF NOT EXISTS shift_swaps_status_idx
+    ON public.shift_swaps(status);
+
+-- Add RLS policies
+ALTER TABLE public.shift_swaps ENABLE ROW LEVEL SECURITY;
+
+-- Both sides can see the swap; every change goes through the shift swaps API,
+-- which checks the calendars and writes the overrides
+CREATE POLICY "Users can read own shift_swaps"
+    ON public.shift_swaps
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = requester_id OR auth.uid() = colleague_id);
+
+CREATE POLICY "Admins can manage all shift_swaps"
+    ON public.shift_swaps
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
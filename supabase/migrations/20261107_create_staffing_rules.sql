@@ -0,0 +1,73 @@
+-- Create staffing_rules table
+-- Fewest people a shift needs each day, for one rotation group or the whole team.
+-- Leave and days off that would take a shift below it warn or are refused.
+CREATE TABLE IF NOT EXISTS public.staffing_rules (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    shift_type TEXT NOT NULL CHECK (shift_type IN ('Day', 'Evening', 'Night')),
+    -- NULL for everyone on the shift, whatever their group
+    shift_group TEXT,
+    min_headcount INTEGER NOT NULL CHECK (min_headcount > 0),
+    enforcement TEXT NOT NULL DEFAULT 'warn' CHECK (enforcement IN ('warn', 'block')),
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('UTC', now())
+);
+
+-- One rule per shift and group
+CREATE UNIQUE INDEX IF NOT EXISTS staffing_rules_shift_group_idx
+    ON public.staffing_rules(shift_type, COALESCE(shift_group, ''));
+
+-- Add RLS policies
+ALTER TABLE public.staffing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read staffing_rules"
+    ON public.staffing_rules
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins can manage all staffing_rules"
+    ON public.staffing_rules
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Leave and days off are saved through the leave and time off APIs, which check
+-- the staffing rules first; employees can no longer write them directly
+DROP POLICY IF EXISTS "Users can insert own leaves" ON public.leaves;
+DROP POLICY IF EXISTS "Users can update own leaves" ON public.leaves;
+DROP POLICY IF EXISTS "Users can insert their own leaves" ON public.leaves;
+DROP POLICY IF EXISTS "Users can update their own leaves" ON public.leaves;
+
+DROP POLICY IF EXISTS "Users can insert own shift_overrides" ON public.shift_overrides;
+DROP POLICY IF EXISTS "Users can update own shift_overrides" ON public.shift_overrides;
+DROP POLICY IF EXISTS "Users can insert their own shift overrides" ON public.shift_overrides;
+DROP POLICY IF EXISTS "Users can update their own shift overrides" ON public.shift_overrides;
+
+-- Other shifts are still the employee's own to change
+CREATE POLICY "Users can insert own shift_overrides"
+    ON public.shift_overrides
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id AND shift_type NOT IN ('Leave', 'Off'));
+
+CREATE POLICY "Users can update own shift_overrides"
+    ON public.shift_overrides
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = employee_id)
+    WITH CHECK (auth.uid() = employee_id AND shift_type NOT IN ('Leave', 'Off'));
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
@@ -0,0 +1,66 @@
+-- Make group changes requests a supervisor approves
+-- A change stays pending until it is decided; only approved changes move the
+-- employee's calendar.
+ALTER TABLE public.group_changes
+    ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS decided_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS decision_note TEXT;
+
+-- Changes made before requests needed approval were applied straight away
+UPDATE public.group_changes SET status = 'approved' WHERE status IS NULL;
+
+ALTER TABLE public.group_changes
+    ALTER COLUMN status SET DEFAULT 'pending',
+    ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE public.group_changes
+    DROP CONSTRAINT IF EXISTS group_changes_status_check;
+
+ALTER TABLE public.group_changes
+    ADD CONSTRAINT group_changes_status_check CHECK (status IN ('pending', 'approved', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS group_changes_employee_idx
+    ON public.group_changes(employee_id);
+
+CREATE INDEX IF NOT EXISTS group_changes_status_idx
+    ON public.group_changes(status);
+
+-- Add RLS policies
+ALTER TABLE public.group_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own group_changes" ON public.group_changes;
+DROP POLICY IF EXISTS "Users can request own group_changes" ON public.group_changes;
+DROP POLICY IF EXISTS "Admins can manage all group_changes" ON public.group_changes;
+
+CREATE POLICY "Users can read own group_changes"
+    ON public.group_changes
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = employee_id);
+
+-- Employees can only ask; supervisors decide through the group changes API
+CREATE POLICY "Users can request own group_changes"
+    ON public.group_changes
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = employee_id AND status = 'pending');
+
+CREATE POLICY "Admins can manage all group_changes"
+    ON public.group_changes
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.employees
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Refresh the schema cache
+SELECT pg_notify('pgrst', 'reload schema');
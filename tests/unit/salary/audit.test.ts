@@ -0,0 +1,40 @@
+import { getTotalSalaryChange, mapSalaryAuditEntry, withChangeSource } from '../../../lib/salary/audit';
+
+describe('Salary audit history', () => {
+  const row = {
+    id: 'log-1',
+    salary_id: 'salary-1',
+    employee_id: 'employee-1',
+    month: '2026-10-01',
+    action: 'update',
+    source: 'overtime_sync',
+    changed_by: 'employee-1',
+    changed_at: '2026-10-19T08:00:00Z',
+    changes: {
+      total_salary: { before: 20000, after: 21500.5 },
+      notes: { before: null, after: 'Night shift' },
+      overtime_pay: { before: 1000, after: 2500.5 }
+    }
+  };
+
+  test('maps a log row with known fields first and works out the move in the total', () => {
+    const entry = mapSalaryAuditEntry(row);
+
+    expect(entry.month).toBe('2026-10');
+    expect(entry.changes.map(change => change.field)).toEqual(['overtime_pay', 'total_salary', 'notes']);
+    expect(getTotalSalaryChange(entry)).toBeCloseTo(1500.5, 6);
+    expect(getTotalSalaryChange({ ...entry, changes: entry.changes.filter(c => c.field !== 'total_salary') })).toBeNull();
+  });
+
+  test('tags writes with their code path, and the user only when given', () => {
+    expect(withChangeSource({ overtime_hours: 4 }, 'salary_page')).toEqual({
+      overtime_hours: 4,
+      change_source: 'salary_page'
+    });
+    expect(withChangeSource({ overtime_hours: 4 }, 'batch_update', 'admin-1')).toEqual({
+      overtime_hours: 4,
+      change_source: 'batch_update',
+      changed_by: 'admin-1'
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { calculateBackPay, getBackPayLineItem } from '../../../lib/salary/backPay';
+import { calculateTotalSalary } from '../../../lib/calculations/salary';
+import { DEFAULT_PAY_RULES } from '../../../lib/salary/payEngine';
+
+describe('Back pay', () => {
+  const rulesFor = () => DEFAULT_PAY_RULES;
+  const record = (month: string, basicSalary: number) => {
+    const total = calculateTotalSalary(basicSalary, 2000, 500, 0, 0, 61.6, 0, DEFAULT_PAY_RULES);
+    return {
+      id: `salary-${month}`,
+      month: `${month}-01`,
+      basic_salary: basicSalary,
+      cost_of_living: 2000,
+      shift_allowance: 500,
+      other_earnings: 0,
+      overtime_hours: 0,
+      exchange_rate: 61.6,
+      deduction: 0,
+      total_salary: total
+    };
+  };
+  const salaries = [record('2026-06', 10000), record('2026-07', 10000), record('2026-08', 10000), record('2026-10', 10000)];
+
+  test('recalculates the closed months from the effective month with the corrected figures', () => {
+    const statement = calculateBackPay({ salaries, rulesFor }, { effectiveMonth: '2026-07', basicSalary: 11000 }, '2026-10');
+
+    // The open month and the months before the correction are left alone
+    expect(statement.months.map(month => month.month)).toEqual(['2026-07', '2026-08']);
+    // 1,000 more basic salary at a rate ratio of 2
+    expect(statement.months[0].difference).toBeCloseTo(2000, 2);
+    expect(statement.totalDifference).toBeCloseTo(4000, 2);
+    expect(statement.adjustmentMonth).toBe('2026-10');
+  });
+
+  test('settles the difference with an untaxed line in the open month', () => {
+    const underpaid = calculateBackPay({ salaries, rulesFor }, { effectiveMonth: '2026-06', endMonth: '2026-07', exchangeRate: 70 }, '2026-10');
+    const overpaid = calculateBackPay({ salaries, rulesFor }, { effectiveMonth: '2026-08', costOfLiving: 1500 }, '2026-10');
+
+    expect(getBackPayLineItem(underpaid)).toMatchObject({
+      name: 'Back Pay 2026-06 to 2026-07',
+      kind: 'earning',
+      taxable: false,
+      rateLinked: false
+    });
+    expect(getBackPayLineItem(overpaid)).toMatchObject({ name: 'Back Pay 2026-08', kind: 'deduction' });
+    expect(getBackPayLineItem(overpaid)?.amount).toBeCloseTo(1000, 2);
+    expect(getBackPayLineItem(calculateBackPay({ salaries, rulesFor }, { effectiveMonth: '2026-07' }, '2026-10'))).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { applyRaise, planSalaryRaise } from '../../../lib/salary/batchRaise';
+import { computePay, DEFAULT_PAY_RULES } from '../../../lib/salary/payEngine';
+
+describe('Batch salary raises', () => {
+  const record = (id: string, employeeId: string, month: string, basicSalary: number) => {
+    const pay = computePay({
+      basicSalary,
+      costOfLiving: 6300,
+      shiftAllowance: 2200,
+      additionalEffectiveHours: 10,
+      exchangeRate: 50,
+      deduction: 100
+    });
+    return {
+      id,
+      employee_id: employeeId,
+      month: `${month}-01`,
+      basic_salary: basicSalary,
+      cost_of_living: 6300,
+      shift_allowance: 2200,
+      other_earnings: 0,
+      overtime_hours: 10,
+      exchange_rate: 50,
+      deduction: 100,
+      overtime_pay: pay.overtimePay,
+      variable_pay: pay.variablePay,
+      total_salary: pay.totalSalary
+    };
+  };
+
+  const sources = {
+    employees: [
+      { id: 'emp-1', name: 'Alex', basic_salary: 20000 },
+      { id: 'emp-2', name: 'Sam', basic_salary: 25000 },
+      { id: 'emp-3', name: 'Jo', basic_salary: 18000 },
+      { id: 'emp-4', name: 'Kim', basic_salary: null }
+    ],
+    salaries: [
+      record('s1', 'emp-1', '2026-04', 20000),
+      record('s2', 'emp-1', '2026-05', 20000),
+      record('s3', 'emp-1', '2026-06', 20000),
+      record('s4', 'emp-2', '2026-03', 25000),
+      record('s5', 'emp-4', '2026-05', 30000)
+    ],
+    rulesFor: () => DEFAULT_PAY_RULES
+  };
+
+  test('applies a percentage and rounds to two decimals', () => {
+    expect(applyRaise(23517, 5)).toBe(24692.85);
+    expect(applyRaise(20000, -2.5)).toBe(19500);
+  });
+
+  test('recalculates every record from the effective month on', () => {
+    const plan = planSalaryRaise(sources, 10, '2026-05');
+    const alex = plan.changes.filter(change => change.employeeId === 'emp-1');
+
+    expect(alex.map(change => change.month)).toEqual(['2026-05', '2026-06']);
+    expect(alex[0].previousValues?.basic_salary).toBe(20000);
+    expect(alex[0].newValues.basic_salary).toBe(22000);
+
+    const expected = computePay({
+      basicSalary: 22000,
+      costOfLiving: 6300,
+      shiftAllowance: 2200,
+      additionalEffectiveHours: 10,
+      exchangeRate: 50,
+      deduction: 100
+    });
+    expect(alex[0].newValues.total_salary).toBeCloseTo(expected.totalSalary, 2);
+    expect(alex[0].newValues.overtime_pay).toBeCloseTo(expected.overtimePay, 2);
+  });
+
+  test('starts the effective month from the latest earlier record', () => {
+    const plan = planSalaryRaise(sources, 10, '2026-05');
+    const sam = plan.changes.find(change => change.employeeId === 'emp-2')!;
+
+    expect(sam.salaryId).toBeNull();
+    expect(sam.previousValues).toBeNull();
+    expect(sam.newRecord).toMatchObject({
+      employee_id: 'emp-2',
+      month: '2026-05-01',
+      basic_salary: 27500,
+      overtime_hours: 0
+    });
+  });
+
+  test('takes the created month\'s loan installment from the schedule', () => {
+    // The earlier record still carries the installment due in March
+    const withLoan = {
+      ...sources,
+      salaries: sources.salaries.map(row => (row.id === 's4' ? { ...row, loan_repayment: 900 } : row)),
+      loanRepaymentFor: (employeeId: string, month: string) => (employeeId === 'emp-2' && month === '2026-05' ? 400 : 0)
+    };
+    const sam = planSalaryRaise(withLoan, 10, '2026-05').changes.find(change => change.employeeId === 'emp-2')!;
+
+    const expected = computePay({
+      basicSalary: 27500,
+      costOfLiving: 6300,
+      shiftAllowance: 2200,
+      exchangeRate: 50,
+      deduction: 100,
+      loanRepayment: 400
+    });
+    expect(sam.newRecord?.loan_repayment).toBe(400);
+    expect(sam.newValues.total_salary).toBeCloseTo(expected.totalSalary, 2);
+  });
+
+  test('skips employees without salary records and totals the rest', () => {
+    const plan = planSalaryRaise(sources, 10, '2026-05');
+
+    expect(plan.skipped).toEqual([{ employeeId: 'emp-3', employeeName: 'Jo', reason: 'No salary records to raise' }]);
+    expect(plan.totals.employees).toBe(3);
+    expect(plan.totals.records).toBe(4);
+    expect(plan.totals.newTotal).toBeGreaterThan(plan.totals.previousTotal);
+  });
+
+  test('raises the employee record so later months start from it', () => {
+    const plan = planSalaryRaise(sources, 10, '2026-05');
+
+    // Jo has nothing to raise and Kim has no basic salary on their record
+    expect(plan.employeeChanges).toEqual([
+      { employeeId: 'emp-1', employeeName: 'Alex', previousBasicSalary: 20000, newBasicSalary: 22000 },
+      { employeeId: 'emp-2', employeeName: 'Sam', previousBasicSalary: 25000, newBasicSalary: 27500 }
+    ]);
+  });
+});
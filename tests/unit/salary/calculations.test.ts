@@ -1,4 +1,5 @@
 import { calculateSalary } from '../../../lib/salary/calculations';
+import { DEFAULT_PAY_RULES } from '../../../lib/salary/payEngine';
 import type { SalaryCalculation, SalaryAllowances } from '../../../types/salary';
 import { ZodError } from 'zod';
 
@@ -12,10 +13,7 @@ describe('Salary Calculations', () => {
   const defaultAllowances: SalaryAllowances = {
     costOfLiving: 500,
     shiftAllowance: 300,
-    variablePay: 0,
-    transportation: 0,
-    housing: 0,
-    meals: 0
+    variablePay: 0
   };
 
   // The mock salary input used as a base for all tests
@@ -36,10 +34,6 @@ describe('Salary Calculations', () => {
     absences: 0,
     sickLeave: 0,
     actAsPay: 0,
-    // Transportation allowances
-    transportation: 0,
-    housing: 0,
-    meals: 0,
     // Calculated fields (initialized with 0)
     overtimePay: 0,
     totalSalary: 0,
@@ -48,10 +42,16 @@ describe('Salary Calculations', () => {
     allowances: defaultAllowances
   };
 
+  // Overtime uses (basic + cost of living) / divisor with the day multiplier,
+  // and all earnings are scaled by the exchange rate / base rate ratio
+  const { hourDivisor, overtimeMultipliers, exchangeRateBase } = DEFAULT_PAY_RULES;
+  const expectedOvertimePay = ((10000 + 500) / hourDivisor) * 10 * overtimeMultipliers.day;
+  const rateRatio = 1 / exchangeRateBase;
+
   test('calculates gross salary correctly', () => {
     const result = calculateSalary(mockBaseSalary);
-    const expectedOvertimePay = (10000/176) * 10 * 1.5;
-    const expectedGrossSalary = 10000 + expectedOvertimePay + 500 + 300;
+    const expectedGrossSalary = (10000 + expectedOvertimePay + 500 + 300) * rateRatio;
+    expect(result.overtimePay).toBeCloseTo(expectedOvertimePay, 2);
     expect(result.grossSalary).toBeCloseTo(expectedGrossSalary, 2);
   });
 
@@ -68,8 +68,7 @@ describe('Salary Calculations', () => {
       actAsPay: 0
     };
     const result = calculateSalary(salaryWithDeductions);
-    const expectedOvertimePay = (10000/176) * 10 * 1.5;
-    const expectedGrossSalary = 10000 + expectedOvertimePay + 500 + 300;
+    const expectedGrossSalary = (10000 + expectedOvertimePay + 500 + 300) * rateRatio;
     const totalDeductions = 1000 + 200 + 100 + 500;
     expect(result.netSalary).toBeCloseTo(expectedGrossSalary - totalDeductions, 2);
   });
@@ -78,7 +77,7 @@ describe('Salary Calculations', () => {
     const noOvertimeSalary: SalaryCalculation = { ...mockBaseSalary, overtimeHours: 0 };
     const result = calculateSalary(noOvertimeSalary);
     expect(result.overtimePay).toBe(0);
-    expect(result.grossSalary).toBeCloseTo(10000 + 500 + 300, 2); // base + cost of living + shift allowance
+    expect(result.grossSalary).toBeCloseTo((10000 + 500 + 300) * rateRatio, 2); // base + cost of living + shift allowance
   });
 
   test('calculates allowances correctly', () => {
@@ -92,10 +91,7 @@ describe('Salary Calculations', () => {
     expect(result.allowances).toEqual({
       costOfLiving: 1000,
       shiftAllowance: 500,
-      variablePay: 2000,
-      transportation: 0,
-      housing: 0,
-      meals: 0
+      variablePay: 2000
     });
   });
 
@@ -128,17 +124,27 @@ describe('Salary Calculations', () => {
       expect(() => calculateSalary(invalidSalary)).toThrow('Salary calculation failed');
     });
 
-    test('validates other optional fields correctly', () => {
+    test('includes itemised earning and deduction lines', () => {
       const validSalary: SalaryCalculation = {
         ...mockBaseSalary,
-        transportation: 200,
-        housing: 1000,
-        meals: 300
+        lineItems: [
+          { name: 'Transportation', kind: 'earning', amount: 200, taxable: true, rateLinked: true },
+          { name: 'Housing', kind: 'earning', amount: 1000, taxable: true, rateLinked: false },
+          { name: 'Meals', kind: 'deduction', amount: 300, taxable: false, rateLinked: false }
+        ]
       };
       const result = calculateSalary(validSalary);
-      expect(result.allowances.transportation).toBe(200);
-      expect(result.allowances.housing).toBe(1000);
-      expect(result.allowances.meals).toBe(300);
+      const expectedGrossSalary = (10000 + expectedOvertimePay + 500 + 300 + 200) * rateRatio + 1000;
+      expect(result.grossSalary).toBeCloseTo(expectedGrossSalary, 2);
+      expect(result.netSalary).toBeCloseTo(expectedGrossSalary - 300, 2);
+    });
+
+    test('throws error for negative line amounts', () => {
+      const invalidSalary: SalaryCalculation = {
+        ...mockBaseSalary,
+        lineItems: [{ name: 'Meals', kind: 'deduction', amount: -300, taxable: false, rateLinked: false }]
+      };
+      expect(() => calculateSalary(invalidSalary)).toThrow('Salary calculation failed');
     });
 
     test('handles missing optional fields with defaults', () => {
@@ -0,0 +1,64 @@
+import {
+  applyEmployeeCurrency,
+  DEFAULT_CURRENCY_PAIR,
+  formatDualCurrency,
+  getEmployeeCurrency,
+  splitCurrencyPair,
+  toPeggedAmount
+} from '../../../lib/salary/currency';
+import { computePay, DEFAULT_PAY_RULES } from '../../../lib/salary/payEngine';
+import { calculateScenario } from '../../../lib/salary/scenarios';
+
+describe('Currency pairs', () => {
+  test('reads the currency settings from an employees row', () => {
+    expect(getEmployeeCurrency({ currency_pair: 'EUR/EGP', base_exchange_rate: '33.5' })).toEqual({
+      currencyPair: 'EUR/EGP',
+      baseExchangeRate: 33.5
+    });
+    // Unknown pairs and missing rows fall back to USD/EGP with the pay rules' base rate
+    expect(getEmployeeCurrency({ currency_pair: 'GBP/EGP' }).currencyPair).toBe(DEFAULT_CURRENCY_PAIR);
+    expect(getEmployeeCurrency(null)).toEqual({ currencyPair: DEFAULT_CURRENCY_PAIR, baseExchangeRate: null });
+  });
+
+  test('splits a pair into pegged and paid currencies', () => {
+    expect(splitCurrencyPair('SAR/EGP')).toEqual({ base: 'SAR', quote: 'EGP' });
+  });
+
+  test('the employee base rate replaces the pay rules base rate', () => {
+    const rules = applyEmployeeCurrency(DEFAULT_PAY_RULES, { currencyPair: 'EUR/EGP', baseExchangeRate: 33.5 });
+    const pay = computePay({ basicSalary: 1000, costOfLiving: 0, shiftAllowance: 0, exchangeRate: 67 }, rules);
+
+    expect(rules.exchangeRateBase).toBe(33.5);
+    expect(pay.rateRatio).toBeCloseTo(2, 6);
+    expect(pay.totalSalary).toBeCloseTo(2000, 6);
+
+    // No base rate of their own: the pay rules apply unchanged
+    expect(applyEmployeeCurrency(DEFAULT_PAY_RULES, { currencyPair: 'USD/EGP', baseExchangeRate: null }))
+      .toBe(DEFAULT_PAY_RULES);
+  });
+
+  test('scenarios use the employee base rate', () => {
+    const inputs = {
+      basicSalary: 1000,
+      costOfLiving: 0,
+      shiftAllowance: 0,
+      otherEarnings: 0,
+      overtimeHours: 0,
+      dayOvertimeHours: 0,
+      nightOvertimeHours: 0,
+      holidayOvertimeHours: 0,
+      deduction: 0,
+      exchangeRate: 13
+    };
+
+    const result = calculateScenario(inputs, '2024-03', { currencyPair: 'SAR/EGP', baseExchangeRate: 6.5 });
+    expect(result.totalSalary).toBeCloseTo(2000, 6);
+  });
+
+  test('shows amounts in both currencies', () => {
+    expect(toPeggedAmount(5060, 50.6)).toBeCloseTo(100, 6);
+    expect(toPeggedAmount(5060, 0)).toBe(0);
+    expect(formatDualCurrency(5060, 50.6)).toBe('EGP 5,060.00 (USD 100.00)');
+    expect(formatDualCurrency(1100, 55, 'EUR/EGP')).toBe('EGP 1,100.00 (EUR 20.00)');
+  });
+});
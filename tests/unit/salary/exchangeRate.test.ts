@@ -0,0 +1,103 @@
+import { format, subDays } from 'date-fns';
+import {
+  calculateRollingAverage,
+  createMemoryRateStore,
+  DailyRate,
+  fetchSpotRate,
+  get30DayAverageRate,
+  getMonthlyAverageRate,
+  getRollingAverageRate,
+  setDailyRateStore,
+  setRateProviders
+} from '../../../lib/exchange-rate';
+import { createFixtureProvider, RateProvider } from '../../../lib/services/rateProviders';
+import { FALLBACK_EXCHANGE_RATES } from '../../../lib/salary/currency';
+
+const today = format(new Date(), 'yyyy-MM-dd');
+const daysAgo = (days: number) => format(subDays(new Date(), days), 'yyyy-MM-dd');
+
+const usd = (date: string, rate: number): DailyRate => ({ pair: 'USD/EGP', date, rate });
+
+describe('Exchange rate averages', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setRateProviders(null);
+    setDailyRateStore(null);
+    jest.restoreAllMocks();
+  });
+
+  test('averages only the days inside the window', () => {
+    const rates = [
+      usd('2024-02-28', 100), // outside a 30-day window ending 2024-03-31
+      usd('2024-03-02', 48),
+      usd('2024-03-15', 50),
+      usd('2024-03-31', 52),
+      usd('2024-04-01', 100) // after the end date
+    ];
+
+    expect(calculateRollingAverage(rates, '2024-03-31', 30)).toBe(50);
+    expect(calculateRollingAverage(rates, '2024-03-31', 1)).toBe(52);
+    expect(calculateRollingAverage(rates, '2024-01-31', 30)).toBeNull();
+  });
+
+  test('averages the stored rates for a past month', async () => {
+    const store = createMemoryRateStore([
+      usd('2024-02-29', 47),
+      usd('2024-03-10', 49),
+      usd('2024-03-20', 51),
+      { pair: 'EUR/EGP', date: '2024-03-20', rate: 55 }
+    ]);
+    setDailyRateStore(store);
+    setRateProviders([createFixtureProvider({ 'USD/EGP': 99 })]);
+
+    const average = await getMonthlyAverageRate('2024-03', 'USD/EGP', 30);
+
+    expect(average).toEqual({
+      pair: 'USD/EGP',
+      rate: 50,
+      windowDays: 30,
+      daysWithRates: 2,
+      lastRateDate: '2024-03-20'
+    });
+    // Past months never fetch a spot rate
+    expect(store.rates).toHaveLength(4);
+  });
+
+  test("fetches and stores today's rate when it is missing", async () => {
+    const store = createMemoryRateStore([usd(daysAgo(1), 48)]);
+    setDailyRateStore(store);
+    setRateProviders([createFixtureProvider({ 'USD/EGP': 52 })]);
+
+    const average = await getRollingAverageRate('USD/EGP', today, 30);
+
+    expect(average?.rate).toBe(50);
+    expect(average?.lastRateDate).toBe(today);
+    expect(store.rates).toContainEqual({ pair: 'USD/EGP', date: today, rate: 52, source: 'fixture' });
+  });
+
+  test('tries providers in order until one has a rate', async () => {
+    const failing: RateProvider = {
+      name: 'failing',
+      fetchRate: jest.fn().mockRejectedValue(new Error('offline'))
+    };
+    const empty = createFixtureProvider({});
+    setRateProviders([failing, empty, createFixtureProvider({ 'SAR/EGP': { [today]: 13.2 } })]);
+
+    expect(await fetchSpotRate('SAR/EGP', today)).toEqual({ rate: 13.2, source: 'fixture' });
+    expect(failing.fetchRate).toHaveBeenCalledWith('SAR/EGP', today);
+    expect(await fetchSpotRate('SAR/EGP', daysAgo(1))).toBeNull();
+  });
+
+  test('falls back to the default rate when nothing is available', async () => {
+    setDailyRateStore(createMemoryRateStore());
+    setRateProviders([createFixtureProvider({})]);
+
+    expect(await getRollingAverageRate('EUR/EGP')).toBeNull();
+    expect(await get30DayAverageRate('EUR/EGP')).toBe(FALLBACK_EXCHANGE_RATES['EUR/EGP']);
+  });
+});
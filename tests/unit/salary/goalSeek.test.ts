@@ -0,0 +1,58 @@
+import {
+  calculateRequiredOvertime,
+  countRestDaysInMonth,
+  findRequiredEffectiveHours,
+  getShiftLengthHours,
+  netPayWithOvertime
+} from '../../../lib/salary/goalSeek';
+
+describe('Reverse salary calculator', () => {
+  const inputs = {
+    basicSalary: 21000,
+    costOfLiving: 0,
+    shiftAllowance: 0,
+    otherEarnings: 0,
+    deduction: 0,
+    exchangeRate: 30.8,
+    currentOvertimeHours: 0,
+    month: '2025-03'
+  };
+
+  test('finds the effective hours that reach the target', () => {
+    // Hourly rate is 21000 / 210 = 100, and the rate ratio is 1
+    const hours = findRequiredEffectiveHours(inputs, 24000);
+
+    expect(hours).toBeCloseTo(30, 1);
+    expect(netPayWithOvertime(inputs, hours as number)).toBeGreaterThanOrEqual(24000);
+  });
+
+  test('needs no overtime when the target is already reached', () => {
+    expect(findRequiredEffectiveHours(inputs, 20000)).toBe(0);
+  });
+
+  test('splits the requirement by overtime kind and shift', () => {
+    const result = calculateRequiredOvertime(inputs, 24000, 'A');
+
+    expect(result).not.toBeNull();
+    const day = result!.requirements.find(r => r.kind === 'day')!;
+    const night = result!.requirements.find(r => r.kind === 'night')!;
+
+    expect(day.hours).toBeCloseTo(30 / 1.5, 1);
+    expect(day.shifts).toBe(2);
+    expect(night.hours).toBeCloseTo(30 / 1.75, 1);
+    expect(result!.restDaysInMonth).toBe(countRestDaysInMonth('2025-03', 'A'));
+  });
+
+  test('reads shift lengths from the schedule', () => {
+    expect(getShiftLengthHours('Day')).toBe(12);
+    expect(getShiftLengthHours('Night')).toBe(12);
+  });
+
+  test('each group is off half of the 8-day cycle', () => {
+    // January 2025 starts on the reference date: 31 days = 3 full cycles + 7 days
+    const total = (['A', 'B', 'C', 'D'] as const)
+      .reduce((sum, group) => sum + countRestDaysInMonth('2025-01', group), 0);
+
+    expect(total).toBe(31 * 2);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  getMonthLineItems,
+  SalaryLineItem,
+  SalaryLineType,
+  summariseLineItems,
+  totalLineItemsByName
+} from '../../../lib/salary/lineItems';
+import { computePay, DEFAULT_PAY_RULES } from '../../../lib/salary/payEngine';
+import { calculateStatutoryDeductions, DEFAULT_STATUTORY_TABLES } from '../../../lib/salary/statutory';
+
+describe('Salary line items', () => {
+  const lines: SalaryLineItem[] = [
+    { lineTypeId: 'a', name: 'Transportation', kind: 'earning', amount: 1000, taxable: false, rateLinked: false },
+    { lineTypeId: 'b', name: 'Site Bonus', kind: 'earning', amount: 2000, taxable: true, rateLinked: true },
+    { lineTypeId: 'c', name: 'Pension Plan', kind: 'deduction', amount: 500, taxable: true, rateLinked: false },
+    { lineTypeId: 'd', name: 'Union Fee', kind: 'deduction', amount: 100, taxable: false, rateLinked: true }
+  ];
+
+  test('totals lines and scales the rate-linked ones', () => {
+    const totals = summariseLineItems(lines, 1.5);
+
+    expect(totals.earnings).toBeCloseTo(1000 + 2000 * 1.5, 6);
+    expect(totals.rateLinkedEarnings).toBe(2000);
+    expect(totals.fixedEarnings).toBe(1000);
+    expect(totals.nonTaxableEarnings).toBe(1000);
+    expect(totals.deductions).toBeCloseTo(500 + 100 * 1.5, 6);
+    expect(totals.preTaxDeductions).toBe(500);
+  });
+
+  test('taxes pay after tax-free earnings and pre-tax deductions', () => {
+    const inputs = {
+      basicSalary: 10000,
+      costOfLiving: 0,
+      shiftAllowance: 0,
+      otherEarnings: 0,
+      exchangeRate: DEFAULT_PAY_RULES.exchangeRateBase,
+      deduction: 0,
+      lineItems: lines
+    };
+    const result = computePay(inputs, { ...DEFAULT_PAY_RULES, statutory: DEFAULT_STATUTORY_TABLES });
+    const gross = 10000 + 2000 + 1000;
+    const statutory = calculateStatutoryDeductions(gross - 1000 - 500, DEFAULT_STATUTORY_TABLES);
+
+    expect(result.grossSalary).toBeCloseTo(gross, 6);
+    expect(result.lineEarnings).toBe(3000);
+    expect(result.lineDeductions).toBe(600);
+    expect(result.incomeTax).toBeCloseTo(statutory.incomeTax, 6);
+    expect(result.totalSalary).toBeCloseTo(gross - 600 - statutory.total, 6);
+  });
+
+  test('starts an unsaved month from the active recurring types', () => {
+    const types: SalaryLineType[] = [
+      { id: 'a', employeeId: null, name: 'Transportation', kind: 'earning', taxable: false, rateLinked: false, recurrence: 'recurring', defaultAmount: 1000, isActive: true },
+      { id: 'b', employeeId: 'emp', name: 'Relocation', kind: 'earning', taxable: true, rateLinked: false, recurrence: 'one_off', defaultAmount: 5000, isActive: true },
+      { id: 'c', employeeId: 'emp', name: 'Gym', kind: 'deduction', taxable: false, rateLinked: false, recurrence: 'recurring', defaultAmount: 300, isActive: false }
+    ];
+
+    expect(getMonthLineItems(types, []).map(item => item.name)).toEqual(['Transportation']);
+    expect(getMonthLineItems(types, [lines[2]])).toEqual([lines[2]]);
+  });
+
+  test('sums lines by name for the year', () => {
+    const totals = totalLineItemsByName([
+      { name: 'Transportation', kind: 'earning', amount: 1000 },
+      { name: 'Pension Plan', kind: 'deduction', amount: 500 },
+      { name: 'Transportation', kind: 'earning', amount: 1200 }
+    ]);
+
+    expect(totals).toEqual([
+      { name: 'Transportation', kind: 'earning', amount: 2200 },
+      { name: 'Pension Plan', kind: 'deduction', amount: 500 }
+    ]);
+  });
+});
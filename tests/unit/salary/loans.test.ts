@@ -0,0 +1,46 @@
+import {
+  buildAmortisationSchedule,
+  getLoanRepaymentForMonth,
+  getRemainingLoanBalance
+} from '../../../lib/salary/loans';
+import { computePay, DEFAULT_PAY_RULES } from '../../../lib/salary/payEngine';
+import { DEFAULT_STATUTORY_TABLES } from '../../../lib/salary/statutory';
+
+describe('Salary loans', () => {
+  const loan = {
+    name: 'Car repair',
+    kind: 'loan' as const,
+    principal: 1000,
+    startMonth: '2026-11',
+    installments: 3
+  };
+
+  test('splits the principal into equal installments, the last one taking the rounding', () => {
+    const schedule = buildAmortisationSchedule(loan);
+
+    expect(schedule.map(row => row.month)).toEqual(['2026-11', '2026-12', '2027-01']);
+    expect(schedule.map(row => row.amount)).toEqual([333.33, 333.33, 333.34]);
+    expect(schedule[2].balanceAfter).toBe(0);
+  });
+
+  test('totals the installments due in a month and the balance left after it', () => {
+    const advance = { ...loan, name: 'Advance', kind: 'advance' as const, principal: 500, installments: 1 };
+
+    expect(getLoanRepaymentForMonth([loan, advance], '2026-11')).toBeCloseTo(833.33, 2);
+    expect(getLoanRepaymentForMonth([loan, advance], '2026-10')).toBe(0);
+    expect(getRemainingLoanBalance([loan, advance], '2026-10')).toBe(1500);
+    expect(getRemainingLoanBalance([loan, advance], '2026-12')).toBeCloseTo(333.34, 2);
+    expect(getRemainingLoanBalance([loan, advance], '2027-01')).toBe(0);
+  });
+
+  test('takes the installment from net pay without changing tax', () => {
+    const rules = { ...DEFAULT_PAY_RULES, statutory: DEFAULT_STATUTORY_TABLES };
+    const inputs = { basicSalary: 10000, costOfLiving: 2000, shiftAllowance: 500, exchangeRate: 50 };
+    const withoutLoan = computePay(inputs, rules);
+    const withLoan = computePay({ ...inputs, loanRepayment: 333.33 }, rules);
+
+    expect(withLoan.incomeTax).toBe(withoutLoan.incomeTax);
+    expect(withLoan.loanRepayment).toBe(333.33);
+    expect(withLoan.totalSalary).toBeCloseTo(withoutLoan.totalSalary - 333.33, 6);
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  buildOvertimeComplianceReport,
+  buildWorkedShifts,
+  checkOvertimeLimits,
+  getBreachesForDate,
+  OvertimeLimits
+} from '../../../lib/salary/overtimeLimits';
+
+describe('Overtime limits', () => {
+  const limits: OvertimeLimits = { maxDailyHours: 24, maxWeeklyHours: 24, maxMonthlyHours: 48, minRestHours: 11 };
+
+  test('flags weekly and monthly caps and short rest around overtime shifts', () => {
+    const shifts = buildWorkedShifts('2026-10-03', '2026-10-17', {
+      overrides: {
+        // Night into a 24-hour overtime shift that starts as the night ends
+        '2026-10-04': 'Night',
+        '2026-10-05': 'Overtime',
+        '2026-10-07': 'InLieu',
+        '2026-10-14': 'Overtime'
+      }
+    });
+    const breaches = checkOvertimeLimits(shifts, limits);
+
+    expect(breaches.map(breach => breach.kind)).toEqual(['monthly', 'weekly', 'rest']);
+    expect(breaches[0]).toMatchObject({ date: '2026-10-01', hours: 60 });
+    expect(breaches[1]).toMatchObject({ date: '2026-10-04', hours: 36, dates: ['2026-10-05', '2026-10-07'] });
+    expect(breaches[2]).toMatchObject({ date: '2026-10-05', hours: 0, dates: ['2026-10-04', '2026-10-05'] });
+    expect(getBreachesForDate(breaches, '2026-10-14').map(breach => breach.kind)).toEqual(['monthly']);
+  });
+
+  test('reports breaches per employee and totals per group', () => {
+    const history = (employeeId: string, group: 'A' | 'B', overrides: Record<string, 'Overtime' | 'InLieu'>) => ({
+      employeeId,
+      name: employeeId,
+      group,
+      shifts: buildWorkedShifts('2026-09-30', '2026-11-01', { overrides })
+    });
+
+    const report = buildOvertimeComplianceReport('2026-10', [
+      history('bob', 'A', { '2026-10-05': 'Overtime', '2026-10-06': 'Overtime' }),
+      history('amy', 'A', { '2026-10-12': 'InLieu' }),
+      history('cat', 'B', { '2026-09-30': 'Overtime', '2026-10-01': 'Overtime' })
+    ], limits);
+
+    expect(report.employees.map(employee => employee.name)).toEqual(['amy', 'bob', 'cat']);
+    expect(report.employees[1].breaches.map(breach => breach.kind)).toEqual(['weekly', 'rest']);
+    // The week that starts in September still counts for October
+    expect(report.employees[2].overtimeHours).toBe(24);
+    expect(report.employees[2].breaches.map(breach => breach.kind)).toEqual(['weekly', 'rest']);
+    expect(report.groups).toEqual([
+      expect.objectContaining({ group: 'A', employees: 2, employeesInBreach: 1, overtimeHours: 60 }),
+      expect.objectContaining({ group: 'B', employees: 1, employeesInBreach: 1, breaches: { daily: 0, weekly: 1, monthly: 0, rest: 1 } })
+    ]);
+    expect(buildOvertimeComplianceReport('2026-10', [history('bob', 'A', { '2026-10-05': 'Overtime' })], null).employees[0].breaches).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  buildOvertimeDecisionNotification,
+  buildScheduleOvertimeRequests,
+  mapOvertimeRequest,
+  OvertimeRequest,
+  summarizeApprovedOvertime
+} from '../../../lib/salary/overtimeRequests';
+
+describe('Overtime requests', () => {
+  const request = (overrides: Partial<OvertimeRequest>): OvertimeRequest => ({
+    ...mapOvertimeRequest({ id: 'r1', employee_id: 'e1', date: '2026-10-05', hours: 12, overtime_type: 'day', status: 'pending', source: 'schedule' }),
+    ...overrides
+  });
+
+  test('raises a request for each type of hours an overtime shift is worth', () => {
+    expect(buildScheduleOvertimeRequests('2026-10-05', 'Overtime').map(draft => [draft.type, draft.hours]))
+      .toEqual([['day', 12], ['night', 12]]);
+    expect(buildScheduleOvertimeRequests('2026-10-06', 'InLieu', [{ date: '2026-10-06', isOfficial: true }]))
+      .toEqual([expect.objectContaining({ type: 'holiday', hours: 12, shiftType: 'InLieu' })]);
+    expect(buildScheduleOvertimeRequests('2026-10-07', 'Day')).toEqual([]);
+  });
+
+  test('only pays approved requests', () => {
+    const overtime = summarizeApprovedOvertime([
+      request({ id: 'a', status: 'approved', type: 'day', shiftType: 'Overtime' }),
+      request({ id: 'b', status: 'approved', type: 'night', shiftType: 'Overtime' }),
+      request({ id: 'c', status: 'pending', date: '2026-10-08' }),
+      request({ id: 'd', status: 'rejected', date: '2026-10-09' }),
+      request({ id: 'e', status: 'approved', date: '2026-10-02', hours: 3, type: 'holiday', source: 'manual' })
+    ]);
+
+    expect(overtime).toMatchObject({ dayHours: 12, nightHours: 12, holidayHours: 3, totalHours: 27 });
+    expect(overtime.days.map(day => [day.date, day.shiftType])).toEqual([['2026-10-02', 'Overtime'], ['2026-10-05', 'Overtime']]);
+  });
+
+  test('tells the employee how their request was decided', () => {
+    expect(buildOvertimeDecisionNotification(request({ hours: 4, type: 'night' }), 'rejected', 'Not rostered'))
+      .toMatchObject({
+        title: 'Overtime rejected',
+        message: 'Your request for 4h of night overtime on Oct 5, 2026 was rejected. Note: Not rostered',
+        type: 'warning',
+        category: 'overtime'
+      });
+  });
+});
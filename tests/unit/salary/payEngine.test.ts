@@ -0,0 +1,98 @@
+import { computePay, DEFAULT_PAY_RULES, PayRuleSet } from '../../../lib/salary/payEngine';
+import { calculateSalary } from '../../../lib/salary/calculations';
+import type { SalaryCalculation as SalaryInput } from '../../../types/salary';
+import {
+  SalaryCalculation,
+  calculateOvertimePay,
+  calculateTotalSalary,
+  calculateEffectiveOvertimeHours
+} from '../../../lib/calculations/salary';
+
+describe('Pay-rule engine', () => {
+  const inputs = {
+    basicSalary: 23517,
+    costOfLiving: 6300,
+    shiftAllowance: 2200,
+    otherEarnings: 1500,
+    dayOvertimeHours: 64,
+    nightOvertimeHours: 24,
+    holidayOvertimeHours: 8,
+    exchangeRate: 50.6,
+    deduction: 98.35
+  };
+
+  test('applies the default rule set', () => {
+    const result = computePay(inputs);
+    const effectiveHours = 64 * 1.5 + 24 * 1.75 + 8 * 2.0;
+    const overtimePay = ((23517 + 6300) / 210) * effectiveHours;
+    const base = 23517 + 6300 + 2200 + 1500 + overtimePay;
+
+    expect(result.effectiveOvertimeHours).toBeCloseTo(effectiveHours, 4);
+    expect(result.overtimePay).toBeCloseTo(overtimePay, 4);
+    expect(result.rateRatio).toBeCloseTo(50.6 / 30.8, 6);
+    expect(result.totalSalary).toBeCloseTo(base * (50.6 / 30.8) - 98.35, 4);
+    expect(result.variablePay).toBeCloseTo(result.grossSalary - result.baseAmount, 6);
+  });
+
+  test('reads every constant from the rule set', () => {
+    const rules: PayRuleSet = {
+      hourDivisor: 200,
+      overtimeMultipliers: { day: 1, night: 1, holiday: 1 },
+      exchangeRateBase: 50.6
+    };
+    const result = computePay(inputs, rules);
+
+    expect(result.hourlyRate).toBeCloseTo((23517 + 6300) / 200, 6);
+    expect(result.effectiveOvertimeHours).toBe(96);
+    expect(result.rateRatio).toBe(1);
+  });
+
+  test('the salary page helpers match the engine', () => {
+    const effectiveHours = calculateEffectiveOvertimeHours(64, 24, 8);
+    const overtimePay = calculateOvertimePay(23517, 6300, effectiveHours);
+    const total = calculateTotalSalary(23517, 6300, 2200, 1500, overtimePay, 50.6, 98.35);
+
+    expect(total).toBeCloseTo(computePay(inputs).totalSalary, 6);
+  });
+
+  test('calculateSalary and the SalaryCalculation class agree for the same month', () => {
+    const month = {
+      basicSalary: 10000,
+      costOfLiving: 0,
+      shiftAllowance: 0,
+      variablePay: 800,
+      overtimeHours: 12,
+      deductions: 150,
+      exchangeRate: DEFAULT_PAY_RULES.exchangeRateBase
+    };
+
+    const input: SalaryInput = {
+      ...month,
+      employeeId: 'test-employee',
+      month: '2025-03',
+      pensionPlan: 0,
+      premiumCardDeduction: 0,
+      mobileDeduction: 0,
+      absences: 0,
+      sickLeave: 0,
+      actAsPay: 0,
+      overtimePay: 0,
+      totalSalary: 0,
+      grossSalary: 0,
+      netSalary: 0,
+      allowances: { costOfLiving: 0, shiftAllowance: 0, variablePay: month.variablePay }
+    };
+
+    const fromSchema = calculateSalary(input);
+    const fromClass = new SalaryCalculation({
+      basicSalary: month.basicSalary,
+      overtimeHours: month.overtimeHours,
+      allowances: month.variablePay,
+      deductions: month.deductions,
+      month: '2025-03'
+    });
+
+    expect(fromSchema.overtimePay).toBeCloseTo(fromClass.overtimePay, 6);
+    expect(fromSchema.netSalary).toBeCloseTo(fromClass.netSalary, 6);
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  BASELINE_PAY_RULE_VERSION,
+  PayRuleVersion,
+  resolvePayRules,
+  setPayRuleVersions
+} from '../../../lib/salary/payRules';
+import { calculateOvertimePay, calculateTotalSalary } from '../../../lib/calculations/salary';
+
+describe('Effective-dated pay rules', () => {
+  const versions: PayRuleVersion[] = [
+    {
+      ...BASELINE_PAY_RULE_VERSION,
+      effectiveFrom: '2026-07-01',
+      hourDivisor: 200,
+      exchangeRateBase: 50
+    },
+    {
+      ...BASELINE_PAY_RULE_VERSION,
+      effectiveFrom: '2025-01-01',
+      hourDivisor: 205
+    }
+  ];
+
+  afterEach(() => {
+    setPayRuleVersions([]);
+  });
+
+  test('picks the version in force for the month', () => {
+    expect(resolvePayRules('2024-12', versions)).toBe(BASELINE_PAY_RULE_VERSION);
+    expect(resolvePayRules('2025-01', versions).hourDivisor).toBe(205);
+    expect(resolvePayRules('2026-06-15', versions).hourDivisor).toBe(205);
+    expect(resolvePayRules('2026-07', versions).hourDivisor).toBe(200);
+  });
+
+  test('past months keep their rules after a new version is published', () => {
+    setPayRuleVersions(versions);
+
+    const before = calculateOvertimePay(23517, 6300, 10, '2026-06');
+    const after = calculateOvertimePay(23517, 6300, 10, '2026-07');
+
+    expect(before).toBeCloseTo(((23517 + 6300) / 205) * 10, 6);
+    expect(after).toBeCloseTo(((23517 + 6300) / 200) * 10, 6);
+
+    // The rate ratio uses the base rate of the month's version
+    expect(calculateTotalSalary(1000, 0, 0, 0, 0, 30.8, 0, '2026-06')).toBeCloseTo(1000, 6);
+    expect(calculateTotalSalary(1000, 0, 0, 0, 0, 50, 0, '2026-07')).toBeCloseTo(1000, 6);
+  });
+});
@@ -0,0 +1,187 @@
+import { matchComponent, parseAmount, parsePayslip, reconcilePayslip } from '../../../lib/salary/payslip';
+import { calculateOvertimePay, calculateTotalSalary } from '../../../lib/calculations/salary';
+import { applyEmployeeCurrency } from '../../../lib/salary/currency';
+import { resolvePayRules } from '../../../lib/salary/payRules';
+
+describe('Payslip reconciliation', () => {
+  test('parses amounts as printed on payslips', () => {
+    expect(parseAmount('EGP 23,517.00')).toBe(23517);
+    expect(parseAmount('(98.35)')).toBe(-98.35);
+    expect(parseAmount('-12.5')).toBe(-12.5);
+    expect(parseAmount('n/a')).toBeNull();
+  });
+
+  test('matches payslip labels to components', () => {
+    expect(matchComponent('Basic Pay')).toBe('basicSalary');
+    expect(matchComponent('Other Deductions')).toBe('deduction');
+    expect(matchComponent('Social Insurance (11%)')).toBe('socialInsurance');
+    expect(matchComponent('Overtime Hours')).toBeNull();
+  });
+
+  test('parses text pasted from a PDF, one component per line', () => {
+    const parsed = parsePayslip([
+      'Basic Salary        23,517.00',
+      'Cost of Living       6,000.00',
+      'Shift Allowance      2,000.00',
+      'Overtime Hours 24',
+      'Overtime Pay         4,031.49',
+      'Loan Deduction         500.00',
+      'Other Deductions      (98.35)',
+      'Employee No. 1234',
+      'Net Pay             34,950.14'
+    ].join('\n'));
+
+    expect(parsed.components).toEqual({
+      basicSalary: 23517,
+      costOfLiving: 6000,
+      shiftAllowance: 2000,
+      overtimePay: 4031.49,
+      deduction: 598.35,
+      totalSalary: 34950.14
+    });
+    expect(parsed.unrecognised).toEqual(['Employee No. 1234']);
+  });
+
+  test('keeps amounts on lines that also give a count', () => {
+    const parsed = parsePayslip([
+      'Overtime 24 hrs 1,234.00',
+      'Days Worked 21',
+      'Overtime Hours 24'
+    ].join('\n'));
+
+    expect(parsed.components).toEqual({ overtimePay: 1234 });
+    expect(parsed.unrecognised).toHaveLength(0);
+  });
+
+  test('keeps the sign of earnings and net pay', () => {
+    const parsed = parsePayslip([
+      'Other Earnings (150.00)',
+      'Income Tax -320.00',
+      'Net Pay -75.50'
+    ].join('\n'));
+
+    expect(parsed.components).toEqual({
+      otherEarnings: -150,
+      incomeTax: 320,
+      totalSalary: -75.5
+    });
+  });
+
+  test('parses a CSV with a header row', () => {
+    const parsed = parsePayslip(
+      'Basic Salary,Cost of Living,Shift Allowance,Overtime,Deductions,Net Pay\n' +
+      '23517,6000,2000,4031.49,98.35,35450.14'
+    );
+
+    expect(parsed.components.basicSalary).toBe(23517);
+    expect(parsed.components.deduction).toBe(98.35);
+    expect(parsed.components.totalSalary).toBe(35450.14);
+    expect(parsed.unrecognised).toHaveLength(0);
+  });
+
+  test('keeps quoted amounts with thousands separators whole', () => {
+    const parsed = parsePayslip(
+      'Basic Salary,Cost of Living,Net Pay\n' +
+      '"23,517.00","6,300.00","41,000.00"'
+    );
+
+    expect(parsed.components).toEqual({
+      basicSalary: 23517,
+      costOfLiving: 6300,
+      totalSalary: 41000
+    });
+    expect(parsed.unrecognised).toHaveLength(0);
+  });
+
+  test('detects the delimiter from the header row', () => {
+    const parsed = parsePayslip(
+      'Basic Salary;Shift Allowance;Net Pay\n' +
+      '23517;"2,200.00";31000'
+    );
+
+    expect(parsed.components.shiftAllowance).toBe(2200);
+    expect(parsed.components.totalSalary).toBe(31000);
+  });
+
+  test('checks each component against its recalculated amount', () => {
+    const salaryRow = {
+      basic_salary: 2000,
+      cost_of_living: 500,
+      shift_allowance: 0,
+      other_earnings: 0,
+      overtime_hours: 21,
+      // Saved before the hours were corrected
+      overtime_pay: 100,
+      deduction: 0,
+      exchange_rate: 30.8,
+      total_salary: calculateTotalSalary(2000, 500, 0, 0, 100, 30.8, 0, '2024-03')
+    };
+
+    const parsed = parsePayslip([
+      'Overtime Pay 100',
+      `Net Pay ${salaryRow.total_salary.toFixed(2)}`
+    ].join('\n'));
+
+    const result = reconcilePayslip(parsed, salaryRow, '2024-03', 1);
+    const overtime = result.lines.find(line => line.component === 'overtimePay')!;
+
+    expect(overtime.recorded).toBe(100);
+    expect(overtime.calculated).toBeCloseTo(calculateOvertimePay(2000, 500, 21, '2024-03'), 6);
+    expect(overtime.flagged).toBe(true);
+    expect(result.flaggedCount).toBe(2);
+  });
+
+  test('flags components that differ by more than the tolerance', () => {
+    const salaryRow = {
+      basic_salary: 2000,
+      cost_of_living: 500,
+      shift_allowance: 300,
+      other_earnings: 0,
+      overtime_pay: 100,
+      deduction: 50,
+      exchange_rate: 30.8,
+      total_salary: calculateTotalSalary(2000, 500, 300, 0, 100, 30.8, 50, '2024-03')
+    };
+
+    const parsed = parsePayslip([
+      'Basic Salary 2000.50',
+      'Cost of Living 450',
+      `Net Pay ${salaryRow.total_salary.toFixed(2)}`
+    ].join('\n'));
+
+    const result = reconcilePayslip(parsed, salaryRow, '2024-03', 1);
+    const line = (component: string) => result.lines.find(l => l.component === component)!;
+
+    expect(line('basicSalary').flagged).toBe(false);
+    expect(line('costOfLiving').flagged).toBe(true);
+    expect(line('costOfLiving').difference).toBe(-50);
+    expect(line('totalSalary').flagged).toBe(false);
+    expect(line('totalSalary').calculated).toBeCloseTo(salaryRow.total_salary, 6);
+    expect(result.flaggedCount).toBe(1);
+  });
+
+  test('calculates with the employee\'s own base rate', () => {
+    const rules = applyEmployeeCurrency(resolvePayRules('2024-03'), { currencyPair: 'EUR/EGP', baseExchangeRate: 33 });
+    const salaryRow = {
+      basic_salary: 2000,
+      cost_of_living: 500,
+      shift_allowance: 0,
+      other_earnings: 0,
+      overtime_pay: 0,
+      deduction: 0,
+      exchange_rate: 55,
+      total_salary: calculateTotalSalary(2000, 500, 0, 0, 0, 55, 0, rules)
+    };
+    const parsed = parsePayslip(`Net Pay ${salaryRow.total_salary.toFixed(2)}`);
+
+    expect(reconcilePayslip(parsed, salaryRow, '2024-03', 1, [], rules).flaggedCount).toBe(0);
+    expect(reconcilePayslip(parsed, salaryRow, '2024-03', 1).flaggedCount).toBe(1);
+  });
+
+  test('flags everything when no salary is saved for the month', () => {
+    const result = reconcilePayslip(parsePayslip('Basic Salary 2000'), null, '2024-03', 1);
+
+    expect(result.lines[0].recorded).toBeNull();
+    expect(result.lines[0].flagged).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+import { calculateScenario, compareScenarios, ScenarioInputs } from '../../../lib/salary/scenarios';
+
+describe('What-if scenarios', () => {
+  const current: ScenarioInputs = {
+    basicSalary: 21000,
+    costOfLiving: 0,
+    shiftAllowance: 2000,
+    otherEarnings: 0,
+    overtimeHours: 0,
+    dayOvertimeHours: 0,
+    nightOvertimeHours: 0,
+    holidayOvertimeHours: 0,
+    deduction: 100,
+    exchangeRate: 30.8
+  };
+
+  test('typed overtime gets the month multipliers', () => {
+    const result = calculateScenario({ ...current, nightOvertimeHours: 24 }, '2025-03');
+
+    // Hourly rate is 21000 / 210 = 100
+    expect(result.effectiveOvertimeHours).toBeCloseTo(24 * 1.75, 6);
+    expect(result.overtimePay).toBeCloseTo(100 * 24 * 1.75, 6);
+  });
+
+  test('compares each component against the baseline', () => {
+    const baseline = calculateScenario(current, '2025-03');
+    const rateUp = calculateScenario({ ...current, exchangeRate: 55 }, '2025-03');
+
+    const rows = compareScenarios(baseline, [{ id: 'rate-55', result: rateUp }]);
+    const basic = rows.find(row => row.key === 'basicSalary')!;
+    const total = rows.find(row => row.key === 'totalSalary')!;
+
+    expect(basic.values['rate-55'].difference).toBe(0);
+    expect(total.values['rate-55'].difference).toBeCloseTo(rateUp.totalSalary - baseline.totalSalary, 6);
+    expect(total.values['rate-55'].difference).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { calculateSpecialPayment, totalSpecialPayments } from '../../../lib/salary/specialPayments';
+import { DEFAULT_PAY_RULES } from '../../../lib/salary/payEngine';
+import {
+  calculateAnnualIncomeTax,
+  calculateStatutoryDeductions,
+  DEFAULT_STATUTORY_TABLES
+} from '../../../lib/salary/statutory';
+
+describe('Special payments', () => {
+  const rules = { ...DEFAULT_PAY_RULES, statutory: DEFAULT_STATUTORY_TABLES };
+  const bonus = {
+    type: 'annual_bonus' as const,
+    payoutMonth: '2026-12',
+    amount: 20000,
+    rateLinked: false,
+    taxTreatment: 'with_salary' as const
+  };
+
+  test('taxes the payment on top of the year of salary', () => {
+    const result = calculateSpecialPayment(bonus, { exchangeRate: 50, rules, regularMonthlyGross: 10000 });
+    const annualSalary = calculateStatutoryDeductions(10000, DEFAULT_STATUTORY_TABLES).taxableIncome * 12;
+    const expectedTax = calculateAnnualIncomeTax(annualSalary + 20000, DEFAULT_STATUTORY_TABLES.incomeTax)
+      - calculateAnnualIncomeTax(annualSalary, DEFAULT_STATUTORY_TABLES.incomeTax);
+
+    expect(result.grossAmount).toBe(20000);
+    expect(result.incomeTax).toBeCloseTo(expectedTax, 6);
+    expect(result.incomeTax).toBeGreaterThan(0);
+    expect(result.netAmount).toBeCloseTo(20000 - expectedTax, 6);
+  });
+
+  test('scales rate-linked payments by the payout month rate ratio', () => {
+    const result = calculateSpecialPayment(
+      { ...bonus, rateLinked: true, taxTreatment: 'exempt' },
+      { exchangeRate: 61.6, rules }
+    );
+
+    expect(result.rateRatio).toBeCloseTo(2, 6);
+    expect(result.grossAmount).toBeCloseTo(40000, 6);
+    expect(result.incomeTax).toBe(0);
+  });
+
+  test('applies a flat rate and totals payments', () => {
+    const flat = calculateSpecialPayment(
+      { ...bonus, type: 'profit_share', taxTreatment: 'flat', flatTaxRate: 0.1 },
+      { exchangeRate: 50, rules }
+    );
+
+    expect(flat.incomeTax).toBeCloseTo(2000, 6);
+    expect(totalSpecialPayments([flat, flat])).toEqual({
+      grossAmount: 40000,
+      incomeTax: 4000,
+      netAmount: 36000
+    });
+  });
+});
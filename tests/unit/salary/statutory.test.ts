@@ -0,0 +1,49 @@
+import {
+  calculateIncomeTax,
+  calculateSocialInsurance,
+  calculateStatutoryDeductions,
+  DEFAULT_STATUTORY_TABLES
+} from '../../../lib/salary/statutory';
+import { computePay, DEFAULT_PAY_RULES } from '../../../lib/salary/payEngine';
+
+describe('Statutory deductions', () => {
+  test('caps the insurable wage for social insurance', () => {
+    expect(calculateSocialInsurance(0)).toBe(0);
+    expect(calculateSocialInsurance(1000)).toBeCloseTo(2300 * 0.11, 6);
+    expect(calculateSocialInsurance(10000)).toBeCloseTo(10000 * 0.11, 6);
+    expect(calculateSocialInsurance(50000)).toBeCloseTo(14500 * 0.11, 6);
+  });
+
+  test('applies income tax brackets progressively', () => {
+    // 5,000 a month = 60,000 a year, 40,000 after the personal exemption: all in the 0% bracket
+    expect(calculateIncomeTax(5000)).toBe(0);
+
+    // 10,000 a month = 100,000 taxable: 15,000 at 10%, 15,000 at 15% and 30,000 at 20%
+    const annualTax = 15000 * 0.1 + 15000 * 0.15 + 30000 * 0.2;
+    expect(calculateIncomeTax(10000)).toBeCloseTo(annualTax / 12, 6);
+  });
+
+  test('taxes income after social insurance', () => {
+    const result = calculateStatutoryDeductions(20000);
+
+    expect(result.socialInsurance).toBeCloseTo(14500 * 0.11, 6);
+    expect(result.taxableIncome).toBeCloseTo(20000 - 14500 * 0.11, 6);
+    expect(result.incomeTax).toBeCloseTo(calculateIncomeTax(result.taxableIncome), 6);
+    expect(result.total).toBeCloseTo(result.socialInsurance + result.incomeTax, 6);
+  });
+
+  test('the pay engine only applies them when the rule set has tables', () => {
+    const inputs = { basicSalary: 15000, costOfLiving: 5000, shiftAllowance: 0, exchangeRate: 30.8 };
+
+    const withoutTables = computePay(inputs);
+    expect(withoutTables.socialInsurance).toBe(0);
+    expect(withoutTables.incomeTax).toBe(0);
+    expect(withoutTables.totalSalary).toBeCloseTo(20000, 6);
+
+    const withTables = computePay(inputs, { ...DEFAULT_PAY_RULES, statutory: DEFAULT_STATUTORY_TABLES });
+    const expected = calculateStatutoryDeductions(20000);
+    expect(withTables.socialInsurance).toBeCloseTo(expected.socialInsurance, 6);
+    expect(withTables.incomeTax).toBeCloseTo(expected.incomeTax, 6);
+    expect(withTables.totalSalary).toBeCloseTo(20000 - expected.total, 6);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  buildTimesheetEntry,
+  buildTimesheetOvertimeCandidates,
+  compareTimesheet,
+  getScheduledDay,
+  parseBadgeCsv
+} from '../../../lib/salary/timesheets';
+
+describe('Timesheets', () => {
+  const day = (date: string, type: 'Day' | 'Night' | 'Off', isOverridden = false) => ({
+    date,
+    dayOfWeek: new Date(`${date}T00:00:00`).getDay(),
+    personalShift: { type, isOverridden }
+  });
+
+  test('reads badge reader exports, rolling night shifts into the next morning', () => {
+    const { entries, errors } = parseBadgeCsv([
+      'Employee,Date,Clock In,Clock Out',
+      '1001,05/10/2026,06:58,19:40',
+      '1001,2026-10-06,"18:45","07:02"',
+      '1001,someday,07:00,19:00',
+      ''
+    ].join('\n'));
+
+    expect(entries).toEqual([
+      { date: '2026-10-05', clockIn: '2026-10-05T06:58:00', clockOut: '2026-10-05T19:40:00', notes: null },
+      { date: '2026-10-06', clockIn: '2026-10-06T18:45:00', clockOut: '2026-10-07T07:02:00', notes: null }
+    ]);
+    expect(errors).toEqual(['Row 4: unreadable date "someday"']);
+    expect(parseBadgeCsv('Date,Hours\n2026-10-05,12').errors).toEqual(['The header must name a clock-in and a clock-out column']);
+  });
+
+  test('flags late arrivals, early departures and unscheduled hours', () => {
+    const scheduled = [
+      getScheduledDay(day('2026-10-05', 'Day'), 'shift'),
+      getScheduledDay(day('2026-10-06', 'Night'), 'shift'),
+      getScheduledDay(day('2026-10-07', 'Off'), 'shift')
+    ];
+    const entries = [
+      buildTimesheetEntry('2026-10-05', '07:20', '20:30')!,
+      buildTimesheetEntry('2026-10-06', '19:03', '05:00')!,
+      buildTimesheetEntry('2026-10-07', '09:00', '13:00')!
+    ];
+
+    const [dayShift, nightShift, offDay] = compareTimesheet(scheduled, entries);
+
+    expect(dayShift).toMatchObject({ lateMinutes: 20, earlyMinutes: 0, extraHours: 1.5, flags: ['late', 'unscheduled'] });
+    // Three minutes late is inside the grace period
+    expect(nightShift).toMatchObject({ lateMinutes: 0, earlyMinutes: 120, extraHours: 0, flags: ['early'] });
+    expect(offDay).toMatchObject({ scheduled: null, workedHours: 4, extraHours: 4, flags: ['unscheduled'] });
+  });
+
+  test('compares regular workers with office hours', () => {
+    // Thursday finishes at 13:30
+    const [thursday] = compareTimesheet(
+      [getScheduledDay(day('2026-10-08', 'Night'), 'regular')],
+      [buildTimesheetEntry('2026-10-08', '07:45', '15:30')!]
+    );
+
+    expect(thursday).toMatchObject({ shiftType: 'Day', extraHours: 2, flags: ['unscheduled'] });
+  });
+
+  test('turns confirmed extra hours into day, night or holiday overtime candidates', () => {
+    const [row] = compareTimesheet(
+      [getScheduledDay(day('2026-10-05', 'Day'), 'shift')],
+      [buildTimesheetEntry('2026-10-05', '07:00', '21:00')!]
+    );
+
+    expect(buildTimesheetOvertimeCandidates(row).map(candidate => [candidate.type, candidate.hours])).toEqual([['night', 2]]);
+    expect(buildTimesheetOvertimeCandidates(row, true)).toEqual([
+      expect.objectContaining({ date: '2026-10-05', type: 'holiday', hours: 2, reason: 'Timesheet: worked outside the Day shift' })
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { deriveTypedOvertime, getShiftLength } from '../../../lib/salary/typedOvertime';
+import { calculateEffectiveOvertimeHours } from '../../../lib/calculations/salary';
+import { DEFAULT_PAY_RULES } from '../../../lib/salary/payEngine';
+
+describe('Typed overtime from the schedule', () => {
+  test('splits Overtime days into a day and a night shift, and InLieu days into a day shift', () => {
+    expect(getShiftLength('Day')).toBe(12);
+    expect(getShiftLength('Night')).toBe(12);
+
+    const overtime = deriveTypedOvertime([
+      { date: '2026-10-12', shiftType: 'InLieu' },
+      { date: '2026-10-03', shiftType: 'Overtime' },
+      { date: '2026-10-05', shiftType: 'Off' }
+    ]);
+
+    expect(overtime.days.map(day => day.date)).toEqual(['2026-10-03', '2026-10-12']);
+    expect(overtime).toMatchObject({ dayHours: 24, nightHours: 12, holidayHours: 0, totalHours: 36 });
+  });
+
+  test('pays hours on official holidays at the holiday multiplier', () => {
+    const overtime = deriveTypedOvertime(
+      [
+        { date: '2026-10-06', shiftType: 'Overtime' },
+        { date: '2026-10-07', shiftType: 'InLieu' }
+      ],
+      [
+        { date: '2026-10-06', isOfficial: true },
+        { date: '2026-10-07', isOfficial: false }
+      ]
+    );
+
+    expect(overtime).toMatchObject({ dayHours: 12, nightHours: 0, holidayHours: 24 });
+
+    const { day, holiday } = DEFAULT_PAY_RULES.overtimeMultipliers;
+    expect(calculateEffectiveOvertimeHours(overtime.dayHours, overtime.nightHours, overtime.holidayHours, DEFAULT_PAY_RULES))
+      .toBeCloseTo(12 * day + 24 * holiday, 6);
+  });
+});
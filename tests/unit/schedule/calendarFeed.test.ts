@@ -0,0 +1,51 @@
+import { buildFeedEvents, buildIcsCalendar } from '../../../lib/utils/calendarFeed';
+import { buildMonthDays, silenceCalendarLogs } from './fixtures';
+
+// October 2026 for group A: an in-lieu shift on the 9th, leave on the 20th
+const buildOctober = () => buildMonthDays(2026, 9, 'A', {
+  holidays: { '2026-10-06': { name: 'Armed Forces Day', isOfficial: true } },
+  leaves: { '2026-10-20': { type: 'Annual', notes: 'Family trip, abroad' } },
+  overrides: { '2026-10-09': { type: 'InLieu' } },
+  until: '2026-10-21'
+});
+
+describe('Calendar feed', () => {
+  silenceCalendarLogs();
+
+  test('publishes the selected shifts with their times, and leave and holidays as all-day events', () => {
+    const events = buildFeedEvents(buildOctober(), ['Night', 'InLieu', 'Leave', 'Public'], 'shift', 'feed-1');
+
+    expect(events.map(event => event.summary)).toEqual([
+      'Night Shift', 'Armed Forces Day', 'Night Shift', 'In-Lieu Shift', 'Night Shift', 'Night Shift', 'Leave'
+    ]);
+
+    // Night shifts end the next morning
+    expect(events[0].start).toEqual(new Date(2026, 9, 1, 19));
+    expect(events[0].end).toEqual(new Date(2026, 9, 2, 7));
+    expect(events[3].start).toEqual(new Date(2026, 9, 9, 7));
+    expect(events[1]).toMatchObject({ date: '2026-10-06', transparent: true });
+    expect(events[6]).toMatchObject({ date: '2026-10-20', description: 'Family trip, abroad' });
+
+    // Event ids stay the same between refreshes
+    expect(events[0].uid).toBe('feed-1-2026-10-01-shift@salarycursor');
+  });
+
+  test('writes an iCalendar document', () => {
+    const events = buildFeedEvents(buildOctober(), ['Day', 'Leave'], 'shift', 'feed-1');
+    const ics = buildIcsCalendar(events, 'My Shifts', new Date(Date.UTC(2026, 9, 1, 12)));
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(4);
+    expect(ics).toContain([
+      'UID:feed-1-2026-10-07-shift@salarycursor',
+      'DTSTAMP:20261001T120000Z',
+      'DTSTART:20261007T070000',
+      'DTEND:20261007T190000',
+      'SUMMARY:Day Shift'
+    ].join('\r\n'));
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261020\r\nDTEND;VALUE=DATE:20261021');
+    expect(ics).toContain('DESCRIPTION:Family trip\\, abroad');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import { ShiftGroup, ShiftPattern, ShiftType } from '../../../lib/types/schedule';
+import { RosterCalendar } from '../../../lib/utils/roster';
+import { generateMonthCalendar } from '../../../lib/utils/shiftCalculator';
+
+type CalendarArgs = Parameters<typeof generateMonthCalendar>;
+
+export interface MonthFixture {
+  holidays?: CalendarArgs[3];
+  leaves?: CalendarArgs[4];
+  overrides?: CalendarArgs[5];
+  groupChanges?: CalendarArgs[6];
+  pattern?: ShiftPattern;
+  // Last day to keep (YYYY-MM-DD); the whole month when absent
+  until?: string;
+}
+
+/**
+ * The days of a month (0-based, as in generateMonthCalendar) for an employee of a group
+ */
+export const buildMonthDays = (year: number, month: number, group: ShiftGroup, fixture: MonthFixture = {}) =>
+  generateMonthCalendar(
+    year,
+    month,
+    group,
+    fixture.holidays,
+    fixture.leaves,
+    fixture.overrides,
+    fixture.groupChanges,
+    fixture.pattern
+  ).days.filter(day => day.isCurrentMonth && (!fixture.until || day.date <= fixture.until));
+
+/**
+ * A person's calendar with the given shift on each date; shifts given as a type
+ * are rostered, not overridden
+ */
+export const buildCalendar = (
+  employeeId: string,
+  shiftGroup: ShiftGroup,
+  shifts: Record<string, ShiftType | { type: ShiftType; isOverridden: boolean }>
+): RosterCalendar => ({
+  employeeId,
+  name: employeeId,
+  shiftGroup,
+  days: Object.entries(shifts).map(([date, shift]) => ({
+    date,
+    personalShift: typeof shift === 'string' ? { type: shift } : shift
+  }))
+});
+
+/**
+ * Keep the calendar's debug logging out of the test output
+ */
+export const silenceCalendarLogs = () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+};
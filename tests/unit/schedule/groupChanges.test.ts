@@ -0,0 +1,53 @@
+import { calculateShiftType } from '../../../lib/utils/shiftCalculator';
+import { buildGroupChangeDecisionNotification, mapGroupChange } from '../../../lib/utils/groupChanges';
+import { buildMonthDays, silenceCalendarLogs } from './fixtures';
+
+// October 2026 for someone now in group B who asked to move there on the 15th
+const buildOctober = (status?: 'pending' | 'approved' | 'rejected') => buildMonthDays(2026, 9, 'B', {
+  groupChanges: { '2026-10-15': { oldGroup: 'A', newGroup: 'B', status } }
+});
+
+const rostered = (date: string, group: string) => calculateShiftType(new Date(`${date}T00:00:00`), group);
+
+describe('Group change approval', () => {
+  silenceCalendarLogs();
+
+  test('applies an approved change from its date, keeping the old group before it', () => {
+    const days = buildOctober('approved');
+    const day = (date: string) => days.find(item => item.date === date)!;
+
+    expect(day('2026-10-01').personalShift.type).toBe(rostered('2026-10-01', 'A'));
+    expect(day('2026-10-14').hasGroupChange).toBe(false);
+    expect(day('2026-10-15').personalShift.type).toBe(rostered('2026-10-15', 'B'));
+    expect(day('2026-10-15').hasGroupChange).toBe(true);
+  });
+
+  test('ignores changes still waiting for a supervisor or turned down', () => {
+    (['pending', 'rejected'] as const).forEach(status => {
+      const days = buildOctober(status);
+
+      expect(days.some(day => day.hasGroupChange)).toBe(false);
+      expect(days.every(day => day.personalShift.type === rostered(day.date, 'B'))).toBe(true);
+    });
+  });
+
+  test('tells the employee what was decided', () => {
+    const change = mapGroupChange({
+      id: 'change-1',
+      employee_id: 'emp-1',
+      old_group: 'A',
+      new_group: 'C',
+      effective_date: '2026-11-02',
+      request_date: '2026-10-19T08:00:00Z',
+      status: 'approved'
+    });
+
+    expect(buildGroupChangeDecisionNotification(change, 'rejected', 'Group C is full')).toEqual({
+      title: 'Group change rejected',
+      message: 'Your request to move from Group A to Group C on Nov 2, 2026 was rejected. Note: Group C is full',
+      type: 'warning',
+      category: 'schedule',
+      link: '/schedule'
+    });
+  });
+});
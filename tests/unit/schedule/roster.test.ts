@@ -0,0 +1,43 @@
+import { buildRoster } from '../../../lib/utils/roster';
+import { buildMonthDays, silenceCalendarLogs } from './fixtures';
+
+// The first three days of October 2026 for an employee of a group
+const buildDays = (group: string, leaves: Record<string, { type: string }> = {}) => buildMonthDays(2026, 9, group, {
+  leaves,
+  overrides: { '2026-10-03': { type: 'InLieu' } },
+  until: '2026-10-03'
+});
+
+describe('Team roster', () => {
+  silenceCalendarLogs();
+
+  test('groups employees by rotation group, keeping their order', () => {
+    const roster = buildRoster([
+      { employeeId: 'abe', name: 'Abe', shiftGroup: 'B', days: buildDays('B') },
+      { employeeId: 'ann', name: 'Ann', shiftGroup: 'A', days: buildDays('A') },
+      { employeeId: 'bea', name: 'Bea', shiftGroup: 'A', days: buildDays('A', { '2026-10-01': { type: 'Annual' } }) }
+    ]);
+
+    expect(roster.dates).toEqual(['2026-10-01', '2026-10-02', '2026-10-03']);
+    expect(roster.groups.map(group => [group.group, group.rows.map(row => row.name)])).toEqual([
+      ['A', ['Ann', 'Bea']],
+      ['B', ['Abe']]
+    ]);
+
+    // Each row shows the person's own calendar
+    expect(roster.groups[0].rows[0].cells['2026-10-01']).toMatchObject({ type: 'Night', isOverridden: false });
+    expect(roster.groups[0].rows[1].cells['2026-10-01']).toMatchObject({ type: 'Leave' });
+  });
+
+  test('counts who is on each shift, with in-lieu days as day shifts', () => {
+    const roster = buildRoster([
+      { employeeId: 'ann', name: 'Ann', shiftGroup: 'A', days: buildDays('A') },
+      { employeeId: 'bea', name: 'Bea', shiftGroup: 'A', days: buildDays('A', { '2026-10-01': { type: 'Annual' } }) }
+    ]);
+
+    // Bea's leave takes her off the night shift her group works on the 1st
+    expect(roster.headcount['2026-10-01']).toEqual({ Day: 0, Evening: 0, Night: 1 });
+    expect(roster.groups[0].rows[0].cells['2026-10-03']).toMatchObject({ type: 'InLieu', isOverridden: true });
+    expect(roster.headcount['2026-10-03'].Day).toBe(2);
+  });
+});
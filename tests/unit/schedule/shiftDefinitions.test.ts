@@ -0,0 +1,89 @@
+import { deriveTypedOvertime } from '../../../lib/salary/typedOvertime';
+import { getRegularWorkHours, getShiftWorkHours } from '../../../lib/utils/shiftCalculator';
+import {
+  getShiftLabel,
+  resolveShiftDefinition,
+  setShiftDefinitions,
+  splitPaidHours
+} from '../../../lib/utils/shiftDefinitions';
+import { ShiftDefinition } from '../../../lib/types/schedule';
+
+const siteNight: ShiftDefinition = {
+  patternId: null,
+  shiftType: 'Night',
+  name: 'Night Shift',
+  start: '18:00',
+  end: '06:00',
+  breakMinutes: 60,
+  paidHours: 11,
+  nightWindow: { start: '22:00', end: '06:00' }
+};
+
+const siteRegular: ShiftDefinition = {
+  patternId: null,
+  shiftType: 'Regular',
+  name: 'Office Hours',
+  start: '08:00',
+  end: '16:00',
+  breakMinutes: 30,
+  paidHours: 7.5,
+  nightWindow: null,
+  daysOfWeek: [0, 1, 2, 3, 4]
+};
+
+const patternDay: ShiftDefinition = {
+  patternId: 'early-rotation',
+  shiftType: 'Day',
+  name: 'Early Shift',
+  start: '06:00',
+  end: '18:00',
+  breakMinutes: 60,
+  paidHours: 11,
+  nightWindow: null
+};
+
+describe('Shift definitions', () => {
+  afterEach(() => {
+    setShiftDefinitions([]);
+  });
+
+  test('uses the pattern\'s times, then the site-wide ones, then the built-in ones', () => {
+    setShiftDefinitions([siteNight, siteRegular, patternDay]);
+
+    expect(resolveShiftDefinition('Day', 'early-rotation')).toBe(patternDay);
+    expect(resolveShiftDefinition('Night', 'early-rotation')).toBe(siteNight);
+    expect(getShiftWorkHours('Day')).toEqual({ start: '07:00', end: '19:00' });
+    expect(getShiftLabel('Day', 'early-rotation')).toBe('Early Shift (6am-6pm)');
+
+    // Regular hours are set per weekday; Friday isn't in the site's working week
+    expect(getRegularWorkHours(4)).toEqual({ start: '08:00', end: '16:00' });
+    expect(getRegularWorkHours(5)).toBeUndefined();
+  });
+
+  test('splits paid hours by the time spent in the night window', () => {
+    const { dayHours, nightHours } = splitPaidHours(siteNight);
+
+    // 8 of the 12 hours on site fall between 22:00 and 06:00
+    expect(nightHours).toBeCloseTo(7.33, 2);
+    expect(dayHours).toBeCloseTo(3.67, 2);
+    expect(splitPaidHours(patternDay)).toEqual({ dayHours: 11, nightHours: 0 });
+  });
+
+  test('derives overtime hours from the employee\'s shift definitions', () => {
+    setShiftDefinitions([siteNight, patternDay]);
+
+    const overtime = deriveTypedOvertime([
+      { date: '2026-10-03', shiftType: 'Overtime', patternId: 'early-rotation' },
+      { date: '2026-10-12', shiftType: 'InLieu', patternId: 'early-rotation' }
+    ]);
+
+    expect(overtime.days[0].dayHours).toBeCloseTo(14.67, 2);
+    expect(overtime.days[0].nightHours).toBeCloseTo(7.33, 2);
+    expect(overtime.days[1]).toMatchObject({ dayHours: 11, nightHours: 0 });
+
+    // Without a pattern the built-in 12-hour shifts still apply
+    setShiftDefinitions([]);
+    expect(deriveTypedOvertime([{ date: '2026-10-03', shiftType: 'Overtime' }]))
+      .toMatchObject({ dayHours: 12, nightHours: 12 });
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  calculateGroupAssignments,
+  calculateShiftType,
+  DEFAULT_SHIFT_PATTERN,
+  getShiftNumber
+} from '../../../lib/utils/shiftCalculator';
+import { resolveShiftPattern, SHIFT_PATTERN_TEMPLATES } from '../../../lib/utils/shiftPatterns';
+import { ShiftPattern } from '../../../lib/types/schedule';
+import { buildMonthDays, silenceCalendarLogs } from './fixtures';
+
+const fromTemplate = (name: string, referenceDate: string): ShiftPattern => ({
+  ...SHIFT_PATTERN_TEMPLATES.find(template => template.name === name)!,
+  id: name,
+  referenceDate
+});
+
+describe('Shift patterns', () => {
+  silenceCalendarLogs();
+
+  test('the built-in pattern keeps the 8-day A-D rotation', () => {
+    // Jan 1, 2025: D on its 2nd day, C on its 2nd night
+    const jan1 = calculateGroupAssignments(new Date(2025, 0, 1));
+    expect(jan1.dayShift).toEqual([{ group: 'D', isFirstDay: false, shiftNumber: '2nd' }]);
+    expect(jan1.nightShift).toEqual([{ group: 'C', isFirstNight: false, shiftNumber: '2nd' }]);
+    expect(jan1.off).toEqual(['A', 'B']);
+
+    // The cycle repeats every 8 days, before the reference date too
+    expect(calculateShiftType(new Date(2025, 0, 4), 'A')).toBe('Day');
+    expect(calculateShiftType(new Date(2024, 11, 27), 'A')).toBe('Day');
+    expect(calculateShiftType(new Date(2025, 0, 6), 'A')).toBe('Night');
+    expect(getShiftNumber(new Date(2025, 0, 7), 'A')).toBe('2nd');
+    expect(calculateShiftType(new Date(2025, 0, 8), 'A')).toBe('Off');
+  });
+
+  test('three-shift rotations put groups on evening shifts and count longer runs', () => {
+    const pattern = fromTemplate('3-shift, 5 groups', '2026-10-01');
+
+    const assignments = calculateGroupAssignments(new Date(2026, 9, 3), pattern);
+    expect(assignments.dayShift.map(shift => shift.group)).toEqual(['B']);
+    expect(assignments.eveningShift.map(shift => shift.group)).toEqual(['A']);
+    expect(assignments.nightShift.map(shift => shift.group)).toEqual(['E']);
+    expect(assignments.off).toEqual(['C', 'D']);
+
+    expect(calculateShiftType(new Date(2026, 9, 4), 'A', pattern)).toBe('Evening');
+    expect(getShiftNumber(new Date(2026, 9, 4), 'A', pattern)).toBe('2nd');
+    expect(getShiftNumber(new Date(2026, 9, 7), 'A', pattern)).toBeUndefined();
+  });
+
+  test('builds a month calendar from the employee\'s pattern', () => {
+    const pattern = fromTemplate('4-on-4-off', '2026-10-01');
+    const days = buildMonthDays(2026, 9, 'C', { overrides: { '2026-10-03': { type: 'Overtime' } }, pattern });
+
+    expect(days.slice(0, 9).map(day => day.personalShift.type))
+      .toEqual(['Night', 'Night', 'Overtime', 'Night', 'Off', 'Off', 'Off', 'Off', 'Night']);
+    expect(days[3].personalShift.shiftNumber).toBe('4th');
+    expect(days[0].groupAssignments.dayShift.map(shift => shift.group)).toEqual(['A']);
+  });
+
+  test('employees without a known pattern follow the built-in one', () => {
+    const pattern = fromTemplate('4-on-4-off', '2026-10-01');
+
+    expect(resolveShiftPattern([pattern], pattern.id)).toBe(pattern);
+    expect(resolveShiftPattern([pattern], null)).toBe(DEFAULT_SHIFT_PATTERN);
+    expect(resolveShiftPattern([pattern], 'removed')).toBe(DEFAULT_SHIFT_PATTERN);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  findSwapOptions,
+  getNextSwapStatus,
+  planShiftSwap,
+  planSwapRollback
+} from '../../../lib/utils/shiftSwaps';
+import { buildCalendar } from './fixtures';
+
+// Alice works the 10th and is off the 12th; Bob the other way round
+const alice = buildCalendar('alice', 'A', { '2026-11-10': 'Day', '2026-11-11': 'Night', '2026-11-12': 'Off' });
+const bob = buildCalendar('bob', 'B', { '2026-11-10': 'Off', '2026-11-11': 'Night', '2026-11-12': 'Night' });
+const carol = buildCalendar('carol', 'A', { '2026-11-10': 'Off', '2026-11-11': 'Off', '2026-11-12': 'Day' });
+
+const getShift = (employeeId: string, date: string) => [alice, bob, carol]
+  .find(item => item.employeeId === employeeId)?.days
+  .find(day => day.date === date)?.personalShift.type;
+
+describe('Shift swaps', () => {
+  test('exchanges both shifts on both dates', () => {
+    const plan = planShiftSwap(
+      { requesterId: 'alice', requesterDate: '2026-11-10', colleagueId: 'bob', colleagueDate: '2026-11-12' },
+      getShift
+    );
+
+    expect(plan.error).toBeNull();
+    expect(plan.overrides).toEqual([
+      { employeeId: 'alice', date: '2026-11-10', shiftType: 'Off' },
+      { employeeId: 'bob', date: '2026-11-10', shiftType: 'Day' },
+      { employeeId: 'alice', date: '2026-11-12', shiftType: 'Night' },
+      { employeeId: 'bob', date: '2026-11-12', shiftType: 'Off' }
+    ]);
+  });
+
+  test('refuses swaps that would change nothing or that offer no shift', () => {
+    expect(planShiftSwap(
+      { requesterId: 'alice', requesterDate: '2026-11-11', colleagueId: 'bob', colleagueDate: '2026-11-11' },
+      getShift
+    ).error).toBe('Both of you are on the Night shift on Nov 11');
+
+    expect(planShiftSwap(
+      { requesterId: 'alice', requesterDate: '2026-11-12', colleagueId: 'bob', colleagueDate: '2026-11-12' },
+      getShift
+    ).error).toBe('There is no shift to offer on Nov 12');
+  });
+
+  test('only offers colleagues from other groups, and the shifts that would swap cleanly', () => {
+    const options = findSwapOptions(alice, [bob, carol], '2026-11-10', '2026-11-09');
+
+    expect(options).toEqual([
+      { employeeId: 'bob', name: 'bob', shiftGroup: 'B', dates: [{ date: '2026-11-12', shiftType: 'Night' }] }
+    ]);
+  });
+
+  test('moves through the colleague and then a supervisor', () => {
+    const swap = { requesterId: 'alice', colleagueId: 'bob' };
+
+    expect(getNextSwapStatus({ ...swap, status: 'proposed' }, 'accept', 'bob', false)).toBe('accepted');
+    expect(getNextSwapStatus({ ...swap, status: 'proposed' }, 'accept', 'alice', false)).toBeNull();
+    expect(getNextSwapStatus({ ...swap, status: 'proposed' }, 'approve', 'sam', true)).toBeNull();
+    expect(getNextSwapStatus({ ...swap, status: 'accepted' }, 'approve', 'bob', false)).toBeNull();
+    expect(getNextSwapStatus({ ...swap, status: 'accepted' }, 'approve', 'sam', true)).toBe('approved');
+    expect(getNextSwapStatus({ ...swap, status: 'approved' }, 'cancel', 'alice', false)).toBe('cancelled');
+  });
+
+  test('supervisors cannot decide swaps they are part of', () => {
+    const swap = { requesterId: 'alice', colleagueId: 'bob', status: 'accepted' as const };
+
+    expect(getNextSwapStatus(swap, 'approve', 'alice', true)).toBeNull();
+    expect(getNextSwapStatus(swap, 'approve', 'bob', true)).toBeNull();
+    expect(getNextSwapStatus(swap, 'reject', 'bob', true)).toBeNull();
+    expect(getNextSwapStatus(swap, 'cancel', 'bob', true)).toBe('cancelled');
+    expect(getNextSwapStatus({ ...swap, status: 'rejected' }, 'cancel', 'alice', false)).toBeNull();
+  });
+
+  test('rolls back an approved swap without touching days changed since', () => {
+    const rollback = planSwapRollback(
+      {
+        appliedOverrides: [
+          { employeeId: 'alice', date: '2026-11-10', shiftType: 'Off' },
+          { employeeId: 'bob', date: '2026-11-10', shiftType: 'Day' },
+          { employeeId: 'alice', date: '2026-11-12', shiftType: 'Night' }
+        ],
+        previousOverrides: [
+          { employeeId: 'alice', date: '2026-11-10', override: null },
+          { employeeId: 'bob', date: '2026-11-10', override: { shiftType: 'Off', notes: 'Training', source: null } },
+          { employeeId: 'alice', date: '2026-11-12', override: null }
+        ]
+      },
+      [
+        { employeeId: 'alice', date: '2026-11-10', shiftType: 'Off' },
+        { employeeId: 'bob', date: '2026-11-10', shiftType: 'Day' },
+        { employeeId: 'alice', date: '2026-11-12', shiftType: 'Day' }
+      ]
+    );
+
+    expect(rollback.restore).toEqual([
+      { employeeId: 'bob', date: '2026-11-10', override: { shiftType: 'Off', notes: 'Training', source: null } }
+    ]);
+    expect(rollback.remove).toEqual([{ employeeId: 'alice', date: '2026-11-10', override: null }]);
+    expect(rollback.changed).toEqual([{ employeeId: 'alice', date: '2026-11-12', shiftType: 'Night' }]);
+  });
+});
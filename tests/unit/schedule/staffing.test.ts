@@ -0,0 +1,51 @@
+import { checkStaffing, formatStaffingConflict, StaffingRule } from '../../../lib/utils/staffing';
+import { buildCalendar } from './fixtures';
+
+// Group A is on nights on the 1st and days on the 2nd; Dan already took the 2nd off
+const team = [
+  buildCalendar('ann', 'A', { '2026-11-01': 'Night', '2026-11-02': 'Day' }),
+  buildCalendar('abe', 'A', { '2026-11-01': 'Night', '2026-11-02': 'Leave' }),
+  buildCalendar('ada', 'A', { '2026-11-01': 'Night', '2026-11-02': 'Day' }),
+  buildCalendar('bea', 'B', { '2026-11-01': 'Day', '2026-11-02': 'Night' }),
+  buildCalendar('dan', 'D', { '2026-11-01': 'Off', '2026-11-02': { type: 'Off', isOverridden: true } })
+];
+
+const rules: StaffingRule[] = [
+  { shiftType: 'Night', shiftGroup: 'A', minHeadcount: 3, enforcement: 'block' },
+  { shiftType: 'Day', shiftGroup: null, minHeadcount: 2, enforcement: 'warn' },
+  { shiftType: 'Night', shiftGroup: 'B', minHeadcount: 5, enforcement: 'block' }
+];
+
+describe('Minimum staffing', () => {
+  test('reports the rules a shift would drop below, and blocks on blocking ones', () => {
+    const check = checkStaffing(team, rules, 'ann', ['2026-11-01', '2026-11-02'], 'Leave');
+
+    expect(check.conflicts).toEqual([
+      { date: '2026-11-01', shiftType: 'Night', shiftGroup: 'A', minHeadcount: 3, headcount: 2, enforcement: 'block' },
+      { date: '2026-11-02', shiftType: 'Day', shiftGroup: null, minHeadcount: 2, headcount: 1, enforcement: 'warn' }
+    ]);
+    expect(check.blocked).toBe(true);
+    expect(formatStaffingConflict(check.conflicts[0])).toBe(
+      "Group A's Night shift on Sun, Nov 1 would have 2 people; it needs at least 3"
+    );
+  });
+
+  test('ignores days the employee is not working and rules for other groups', () => {
+    const check = checkStaffing(team, rules, 'abe', ['2026-11-02'], 'Leave');
+
+    expect(check.conflicts).toEqual([]);
+    expect(check.blocked).toBe(false);
+  });
+
+  test('lists who else is already away, but not rostered days off', () => {
+    const check = checkStaffing(team, [], 'ann', ['2026-11-01', '2026-11-02'], 'Off');
+
+    expect(check.absences).toEqual([{
+      date: '2026-11-02',
+      employees: [
+        { employeeId: 'abe', name: 'abe', shiftGroup: 'A', shiftType: 'Leave' },
+        { employeeId: 'dan', name: 'dan', shiftGroup: 'D', shiftType: 'Off' }
+      ]
+    }]);
+  });
+});
@@ -1,4 +1,6 @@
 // Types for SalaryCursor application
+import type { ShiftGroup } from './lib/types/schedule';
+import type { CurrencyPair } from './lib/salary/currency';
 
 export interface Employee {
   id: string;
@@ -10,6 +12,12 @@ export interface Employee {
   updated_at: string;
   years_of_service: number;
   is_admin: boolean;
+  shift_group?: ShiftGroup;
+  // Rotation the shift group belongs to (null for the built-in one)
+  shift_pattern_id?: string | null;
+  // Currency the rate-linked pay is pegged to, and the employee's own base rate for it
+  currency_pair?: CurrencyPair;
+  base_exchange_rate?: number | null;
 }
 
 export interface Leave {
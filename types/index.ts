@@ -7,6 +7,7 @@ export interface Employee {
   years_of_service: number;
   annual_leave_balance?: number;
   is_admin: boolean;
+  is_supervisor?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -1,3 +1,5 @@
+import type { PayLineItem } from '../lib/salary/lineItems';
+
 export interface Employee {
   id: string;
   email: string;
@@ -78,6 +80,9 @@ export interface SalaryCalculation {
   sickLeave: number;
   actAsPay: number;
 
+  // Itemised earning and deduction lines
+  lineItems?: PayLineItem[];
+
   // Calculated fields
   exchangeRate: number;
   overtimePay: number;